@@ -0,0 +1,19 @@
+-- Migration: Create task watch table for status notifications
+-- Description: Tracks tasks created through /task create so the cron poller can report status changes
+
+-- Table: task_watches
+-- One row per task being watched, removed once the task reaches a terminal state
+CREATE TABLE task_watches (
+  task_id TEXT PRIMARY KEY NOT NULL,
+  discord_user_id TEXT NOT NULL,
+  guild_id TEXT,
+  channel_id TEXT,
+  message_id TEXT,
+  last_status TEXT,
+  created_timestamp INTEGER NOT NULL,
+  last_checked_timestamp INTEGER
+);
+
+-- Indexes for performance
+CREATE INDEX idx_task_watches_user_id ON task_watches(discord_user_id);
+CREATE INDEX idx_task_watches_last_checked ON task_watches(last_checked_timestamp);
@@ -0,0 +1,15 @@
+-- Migration: Create task defaults table for /config
+-- Description: Stores default repositories, agent and branch per Discord user and per guild
+
+-- Table: task_defaults
+-- One row per scope (a user's own defaults or a guild's shared defaults)
+CREATE TABLE task_defaults (
+  scope TEXT NOT NULL CHECK(scope IN ('user', 'guild')),
+  scope_id TEXT NOT NULL,
+  repositories TEXT, -- JSON array of repository URLs
+  agent TEXT,
+  branch TEXT,
+  updated_by TEXT NOT NULL,
+  updated_timestamp INTEGER NOT NULL,
+  PRIMARY KEY (scope, scope_id)
+);
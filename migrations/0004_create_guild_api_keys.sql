@@ -0,0 +1,19 @@
+-- Migration: Create guild API key table for shared workspace keys
+-- Description: Stores one encrypted Tembo API key per Discord guild, registered by a server admin
+
+-- Table: guild_api_keys
+-- Encrypted with the guild ID as additional authenticated data
+CREATE TABLE guild_api_keys (
+  guild_id TEXT PRIMARY KEY NOT NULL,
+  encrypted_api_key TEXT NOT NULL,
+  encryption_iv TEXT NOT NULL,
+  encryption_salt TEXT NOT NULL,
+  registered_by TEXT NOT NULL,
+  registration_timestamp INTEGER NOT NULL,
+  last_used_timestamp INTEGER NOT NULL,
+  last_validated_timestamp INTEGER,
+  validation_status TEXT DEFAULT 'valid' CHECK(validation_status IN ('pending', 'valid', 'invalid')),
+  tembo_user_id TEXT,
+  tembo_org_id TEXT,
+  tembo_email TEXT
+);
@@ -0,0 +1,14 @@
+-- Migration: Create command permissions table for /admin permissions
+-- Description: Maps Discord roles to the commands they may run in a guild
+
+-- Table: command_permissions
+-- A command with at least one row is restricted to members holding one of its roles.
+-- Commands without rows stay open to everyone.
+CREATE TABLE command_permissions (
+  guild_id TEXT NOT NULL,
+  command TEXT NOT NULL, -- e.g. 'task' or 'task create'
+  role_id TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_timestamp INTEGER NOT NULL,
+  PRIMARY KEY (guild_id, command, role_id)
+);
@@ -0,0 +1,17 @@
+-- Migration: Create channel repository bindings for /admin repositories
+-- Description: Restricts which repositories /task create can target from a Discord channel
+
+-- Table: channel_repositories
+-- A channel with at least one row only allows tasks against its bound repositories.
+-- Threads without their own rows use their parent channel's bindings.
+CREATE TABLE channel_repositories (
+  guild_id TEXT NOT NULL,
+  channel_id TEXT NOT NULL,
+  repository_url TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_timestamp INTEGER NOT NULL,
+  PRIMARY KEY (channel_id, repository_url)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_channel_repositories_guild_id ON channel_repositories(guild_id);
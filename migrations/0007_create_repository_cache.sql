@@ -0,0 +1,10 @@
+-- Migration: Create repository cache table
+-- Description: Caches each Tembo organization's repository list for autocomplete and /repositories list
+
+-- Table: repository_cache
+-- One row per Tembo organization, replaced whenever the list is fetched from Tembo
+CREATE TABLE repository_cache (
+  org_id TEXT PRIMARY KEY NOT NULL,
+  repositories TEXT NOT NULL, -- JSON array of repositories
+  fetched_timestamp INTEGER NOT NULL
+);
@@ -0,0 +1,16 @@
+-- Migration: Create recent selections table for autocomplete ranking
+-- Description: Remembers the repositories and agents each user picks so autocomplete can rank them first
+
+-- Table: recent_selections
+-- One row per user, kind ('repository' or 'agent') and value, bumped on every task created with it
+CREATE TABLE recent_selections (
+  discord_user_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  value TEXT NOT NULL,
+  use_count INTEGER NOT NULL DEFAULT 1,
+  last_used_timestamp INTEGER NOT NULL,
+  PRIMARY KEY (discord_user_id, kind, value)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_recent_selections_last_used ON recent_selections(discord_user_id, kind, last_used_timestamp);
@@ -0,0 +1,16 @@
+-- Migration: Create guild agent catalog for /admin agents
+-- Description: Lets server admins add, disable and pick a default agent on top of the built-in agent list
+
+-- Table: guild_agents
+-- Rows override a built-in agent (e.g. to disable it) or add a custom agent.
+-- At most one row per guild should have is_default = 1.
+CREATE TABLE guild_agents (
+  guild_id TEXT NOT NULL,
+  agent TEXT NOT NULL,
+  name TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  is_default INTEGER NOT NULL DEFAULT 0,
+  updated_by TEXT NOT NULL,
+  updated_timestamp INTEGER NOT NULL,
+  PRIMARY KEY (guild_id, agent)
+);
@@ -0,0 +1,16 @@
+-- Migration: Create pagination state table
+-- Description: Keeps /task list and /task search options for page buttons, whose custom_id is limited to 100 characters
+
+-- Table: pagination_states
+-- One row per list or search command, referenced from its buttons as task_list_v1_<id>_... / task_search_v1_<id>_...
+CREATE TABLE pagination_states (
+  id TEXT PRIMARY KEY NOT NULL,
+  kind TEXT NOT NULL, -- 'list' or 'search'
+  discord_user_id TEXT NOT NULL,
+  options TEXT NOT NULL, -- JSON object of the command's options
+  created_timestamp INTEGER NOT NULL,
+  expires_timestamp INTEGER NOT NULL
+);
+
+-- Indexes for performance
+CREATE INDEX idx_pagination_states_expires ON pagination_states(expires_timestamp);
@@ -0,0 +1,17 @@
+-- Migration: Create task drafts table for queue-later tasks
+-- Description: Tracks tasks created with queue:false so /task drafts can list and launch them
+
+-- Table: task_drafts
+-- One row per unqueued task, removed once it's queued from /task drafts or elsewhere
+CREATE TABLE task_drafts (
+  task_id TEXT PRIMARY KEY NOT NULL,
+  discord_user_id TEXT NOT NULL,
+  guild_id TEXT, -- NULL for drafts created in DMs
+  channel_id TEXT, -- Where status updates go once queued (NULL = DMs)
+  message_id TEXT,
+  title TEXT,
+  created_timestamp INTEGER NOT NULL
+);
+
+-- Indexes for performance
+CREATE INDEX idx_task_drafts_user_guild ON task_drafts(discord_user_id, guild_id);
@@ -0,0 +1,28 @@
+-- Migration: Create task schedules table for scheduled and recurring tasks
+-- Description: Stores /schedule task templates, which the cron trigger creates as Tembo tasks when due
+
+-- Table: task_schedules
+-- One row per schedule. Repeating schedules keep a cron expression (UTC);
+-- one-off schedules have none and are removed after their run.
+CREATE TABLE task_schedules (
+  id TEXT PRIMARY KEY NOT NULL, -- Random 16-character hex ID
+  discord_user_id TEXT NOT NULL, -- Owner, whose API key creates the tasks
+  guild_id TEXT, -- NULL for schedules created in DMs
+  channel_id TEXT, -- Where runs are announced (NULL = DMs)
+  parent_channel_id TEXT, -- Parent of channel_id when it's a thread, for its repository allow-list
+  name TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  repositories TEXT NOT NULL, -- JSON array of repository URLs
+  agent TEXT,
+  branch TEXT,
+  cron_expression TEXT,
+  next_run_timestamp INTEGER, -- NULL once a one-off schedule has run
+  last_run_timestamp INTEGER,
+  last_task_id TEXT,
+  last_error TEXT,
+  created_timestamp INTEGER NOT NULL
+);
+
+-- Indexes for performance
+CREATE INDEX idx_task_schedules_user_guild ON task_schedules(discord_user_id, guild_id);
+CREATE INDEX idx_task_schedules_next_run ON task_schedules(next_run_timestamp);
@@ -0,0 +1,23 @@
+-- Migration: Scope command permissions to repositories
+-- Description: Lets a /admin permissions rule apply only to tasks targeting matching repositories
+
+-- Table: command_permissions
+-- Rows with repository_pattern '*' restrict the whole command, as before.
+-- Other rows only restrict tasks whose repositories match the pattern
+-- (e.g. 'acme/prod-*'), so the pattern joins the primary key.
+CREATE TABLE command_permissions_new (
+  guild_id TEXT NOT NULL,
+  command TEXT NOT NULL, -- e.g. 'task' or 'task create'
+  role_id TEXT NOT NULL,
+  repository_pattern TEXT NOT NULL DEFAULT '*', -- '*' = every repository
+  created_by TEXT NOT NULL,
+  created_timestamp INTEGER NOT NULL,
+  PRIMARY KEY (guild_id, command, role_id, repository_pattern)
+);
+
+INSERT INTO command_permissions_new (guild_id, command, role_id, created_by, created_timestamp)
+SELECT guild_id, command, role_id, created_by, created_timestamp FROM command_permissions;
+
+DROP TABLE command_permissions;
+
+ALTER TABLE command_permissions_new RENAME TO command_permissions;
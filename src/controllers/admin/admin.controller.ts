@@ -0,0 +1,660 @@
+import type {
+	APIApplicationCommandAutocompleteInteraction,
+	APIApplicationCommandInteractionDataStringOption,
+	APIChatInputApplicationCommandInteraction,
+	APIEmbed,
+	APIInteractionResponse,
+} from "discord-api-types/v10";
+import {
+	InteractionResponseType,
+	PermissionFlagsBits,
+} from "discord-api-types/v10";
+import type {
+	AgentCatalogService,
+	CatalogAgent,
+} from "../../services/agent-catalog.service";
+import type {
+	ChannelRepositoryBinding,
+	ChannelRepositoryService,
+} from "../../services/channel-repository.service";
+import type {
+	CommandPermissionRule,
+	PermissionPolicyService,
+} from "../../services/permission-policy.service";
+import type { TemboService } from "../../services/tembo.service";
+import type { Env } from "../../types";
+import {
+	getAgentChoices,
+	getBoundRepositoryChoices,
+	getRepositoryChoices,
+} from "../../utils/autocomplete";
+import { PermissionDeniedError, ValidationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+import {
+	formatCommandPath,
+	isPolicyCommand,
+	REPOSITORY_POLICY_COMMANDS,
+} from "../../utils/permissions";
+import {
+	parseRepositories,
+	validateRepositoryPattern,
+} from "../../validation/command-options";
+import { BaseController } from "../base.controller";
+
+export class AdminController extends BaseController {
+	constructor(
+		temboService: TemboService | null,
+		private readonly permissionPolicyService: PermissionPolicyService,
+		private readonly channelRepositoryService: ChannelRepositoryService,
+		private readonly agentCatalogService: AgentCatalogService,
+	) {
+		// TemboService is only used for repository autocomplete
+		super(temboService);
+	}
+
+	async handle(
+		interaction: APIChatInputApplicationCommandInteraction,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const userId =
+			interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
+		const guildId = this.requireGuildAdmin(interaction);
+
+		const group = this.getSubcommandGroupName(interaction.data.options);
+		const subcommand = this.getSubcommandName(interaction.data.options);
+
+		if (group === "repositories" && subcommand) {
+			return this.handleRepositories(interaction, subcommand, guildId, userId);
+		}
+
+		if (group === "agents" && subcommand) {
+			return this.handleAgents(interaction, subcommand, guildId, userId);
+		}
+
+		if (group !== "permissions" || !subcommand) {
+			throw new ValidationError(
+				"Unknown admin command. Use: /admin permissions, /admin repositories or /admin agents",
+			);
+		}
+
+		switch (subcommand) {
+			case "list":
+				return this.handlePermissionsList(guildId, userId);
+			case "allow":
+				return this.handlePermissionsAllow(interaction, guildId, userId);
+			case "revoke":
+				return this.handlePermissionsRevoke(interaction, guildId, userId);
+			case "reset":
+				return this.handlePermissionsReset(interaction, guildId, userId);
+			default:
+				throw new ValidationError(
+					`Unknown subcommand: ${subcommand}. Use: list, allow, revoke, or reset`,
+				);
+		}
+	}
+
+	override async handleAutocomplete(
+		interaction: APIApplicationCommandAutocompleteInteraction,
+		ctx?: ExecutionContext,
+	): Promise<APIInteractionResponse> {
+		const focusedOption = this.getFocusedOption(interaction.data.options);
+		const subcommand = this.getSubcommandName(interaction.data.options);
+		const value =
+			(
+				focusedOption as
+					| APIApplicationCommandInteractionDataStringOption
+					| undefined
+			)?.value ?? "";
+
+		if (
+			focusedOption?.name === "agent" &&
+			interaction.guild_id &&
+			this.hasGuildPermission(interaction, PermissionFlagsBits.ManageGuild)
+		) {
+			try {
+				const agents = await this.agentCatalogService.listAgents(
+					interaction.guild_id,
+				);
+				return {
+					type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+					data: { choices: getAgentChoices(agents, value) },
+				};
+			} catch (error) {
+				logger.error("Failed to autocomplete admin agents", error);
+			}
+		}
+
+		if (
+			focusedOption?.name === "repository" &&
+			this.hasGuildPermission(interaction, PermissionFlagsBits.ManageGuild)
+		) {
+			try {
+				// Unbinding only makes sense for repositories already bound to the channel
+				if (subcommand === "unbind") {
+					const channelId = this.getTargetChannelId(
+						this.getOptionsMap(interaction.data.options).channel,
+						interaction.channel?.id,
+					);
+					const bound =
+						await this.channelRepositoryService.getAllowedRepositories(
+							channelId,
+						);
+					return {
+						type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+						data: { choices: getBoundRepositoryChoices(bound, value) },
+					};
+				}
+
+				const result = await this.listRepositoriesForAutocomplete(ctx);
+				return {
+					type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+					data: {
+						choices: getRepositoryChoices(result.codeRepositories, value),
+					},
+				};
+			} catch (error) {
+				logger.error("Failed to autocomplete admin repositories", error);
+			}
+		}
+
+		return {
+			type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+			data: { choices: [] },
+		};
+	}
+
+	private async handleRepositories(
+		interaction: APIChatInputApplicationCommandInteraction,
+		subcommand: string,
+		guildId: string,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+
+		if (subcommand === "list") {
+			logger.info("Processing /admin repositories list command", {
+				userId,
+				guildId,
+			});
+			const bindings =
+				await this.channelRepositoryService.listBindings(guildId);
+			return this.createEmbedResponse(
+				[this.buildBindingsEmbed(bindings)],
+				true,
+			);
+		}
+
+		const channelId = this.getTargetChannelId(
+			optionsMap.channel,
+			interaction.channel?.id,
+		);
+
+		switch (subcommand) {
+			case "bind": {
+				const repositories = parseRepositories(optionsMap.repository);
+				logger.info("Processing /admin repositories bind command", {
+					userId,
+					guildId,
+					channelId,
+					repositoryCount: repositories.length,
+				});
+
+				const added = await this.channelRepositoryService.bindRepositories(
+					guildId,
+					channelId,
+					repositories,
+					userId,
+				);
+				const allowed =
+					await this.channelRepositoryService.getAllowedRepositories(channelId);
+
+				return this.createSuccessResponse(
+					`📌 Bound ${added} new repository(ies) to <#${channelId}>.\n\n` +
+						"**Tasks created there can now only target:**\n" +
+						allowed.map((repo) => `• ${repo}`).join("\n"),
+					true,
+				);
+			}
+			case "unbind": {
+				const [repository] = parseRepositories(optionsMap.repository);
+				logger.info("Processing /admin repositories unbind command", {
+					userId,
+					guildId,
+					channelId,
+				});
+
+				const removed = await this.channelRepositoryService.unbindRepository(
+					channelId,
+					repository!,
+				);
+
+				return this.createSuccessResponse(
+					removed
+						? `🗑️ \`${repository}\` is no longer bound to <#${channelId}>.`
+						: `ℹ️ \`${repository}\` wasn't bound to <#${channelId}>.`,
+					true,
+				);
+			}
+			case "clear": {
+				logger.info("Processing /admin repositories clear command", {
+					userId,
+					guildId,
+					channelId,
+				});
+
+				const removed =
+					await this.channelRepositoryService.clearChannel(channelId);
+
+				return this.createSuccessResponse(
+					removed > 0
+						? `🔓 Removed ${removed} binding(s). Tasks in <#${channelId}> can target any repository again.`
+						: `ℹ️ <#${channelId}> had no bound repositories.`,
+					true,
+				);
+			}
+			default:
+				throw new ValidationError(
+					`Unknown subcommand: ${subcommand}. Use: list, bind, unbind, or clear`,
+				);
+		}
+	}
+
+	private async handleAgents(
+		interaction: APIChatInputApplicationCommandInteraction,
+		subcommand: string,
+		guildId: string,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		if (subcommand === "list") {
+			logger.info("Processing /admin agents list command", { userId, guildId });
+			const agents = await this.agentCatalogService.listAgents(guildId);
+			return this.createEmbedResponse([this.buildAgentsEmbed(agents)], true);
+		}
+
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		const agent =
+			typeof optionsMap.agent === "string" ? optionsMap.agent.trim() : "";
+
+		if (!agent) {
+			throw new ValidationError("Please choose an agent", "agent");
+		}
+
+		logger.info(`Processing /admin agents ${subcommand} command`, {
+			userId,
+			guildId,
+			agent,
+		});
+
+		switch (subcommand) {
+			case "add": {
+				const name =
+					typeof optionsMap.name === "string" && optionsMap.name.trim()
+						? optionsMap.name.trim()
+						: agent;
+				await this.agentCatalogService.addAgent(guildId, agent, name, userId);
+
+				return this.createSuccessResponse(
+					`✅ **${name}** (\`${agent}\`) is now available for tasks in this server.`,
+					true,
+				);
+			}
+			case "enable":
+			case "disable": {
+				const enabled = subcommand === "enable";
+				const updated = await this.agentCatalogService.setEnabled(
+					guildId,
+					agent,
+					enabled,
+					userId,
+				);
+
+				return this.createSuccessResponse(
+					!updated
+						? `ℹ️ \`${agent}\` isn't in this server's agent catalog. Add it with \`/admin agents add\`.`
+						: enabled
+							? `✅ \`${agent}\` is enabled again.`
+							: `🚫 \`${agent}\` is disabled. Tasks in this server can no longer use it.`,
+					true,
+				);
+			}
+			case "default": {
+				const updated = await this.agentCatalogService.setDefault(
+					guildId,
+					agent,
+					userId,
+				);
+
+				return this.createSuccessResponse(
+					updated
+						? `⭐ \`${agent}\` is now the default agent for tasks created without one.`
+						: `ℹ️ \`${agent}\` isn't in this server's agent catalog. Add it with \`/admin agents add\`.`,
+					true,
+				);
+			}
+			case "remove": {
+				const removed = await this.agentCatalogService.removeAgent(
+					guildId,
+					agent,
+				);
+
+				return this.createSuccessResponse(
+					removed
+						? `🗑️ Removed this server's settings for \`${agent}\`. Built-in agents are back to their defaults.`
+						: `ℹ️ This server has no settings for \`${agent}\`.`,
+					true,
+				);
+			}
+			default:
+				throw new ValidationError(
+					`Unknown subcommand: ${subcommand}. Use: list, add, enable, disable, default, or remove`,
+				);
+		}
+	}
+
+	private async handlePermissionsList(
+		guildId: string,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		logger.info("Processing /admin permissions list command", {
+			userId,
+			guildId,
+		});
+
+		const rules = await this.permissionPolicyService.listRules(guildId);
+
+		const embed: APIEmbed = {
+			title: "🔒 Command Permissions",
+			description:
+				rules.length > 0
+					? "Only members with one of the listed roles can run these commands. " +
+						"Rules on a subcommand override rules on its parent command. " +
+						"Rules limited to repositories also apply when a task targets a matching repository.\n" +
+						"Members with **Manage Server** are never restricted."
+					: "No restrictions are configured. Everyone can run every command.\n\n" +
+						"Restrict a command with `/admin permissions allow command:<command> role:<role>`.",
+			fields: this.buildRuleFields(rules),
+			color: 0x5865f2,
+			footer: {
+				text: "Commands without rules are open to everyone",
+			},
+		};
+
+		return this.createEmbedResponse([embed], true);
+	}
+
+	private async handlePermissionsAllow(
+		interaction: APIChatInputApplicationCommandInteraction,
+		guildId: string,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const { command, roleId, repositoryPattern } =
+			this.getRuleOptions(interaction);
+		const label = formatCommandPath(command);
+
+		logger.info("Processing /admin permissions allow command", {
+			userId,
+			guildId,
+			command,
+			roleId,
+			repositoryPattern,
+		});
+
+		const added = await this.permissionPolicyService.allowRole(
+			guildId,
+			command,
+			roleId,
+			userId,
+			repositoryPattern,
+		);
+
+		if (repositoryPattern) {
+			return this.createSuccessResponse(
+				added
+					? `✅ <@&${roleId}> can now run \`${label}\` on \`${repositoryPattern}\`.\n\n` +
+							`Members without an allowed role can no longer target repositories matching \`${repositoryPattern}\` with \`${label}\` in this server.`
+					: `ℹ️ <@&${roleId}> was already allowed to run \`${label}\` on \`${repositoryPattern}\`.`,
+				true,
+			);
+		}
+
+		return this.createSuccessResponse(
+			added
+				? `✅ <@&${roleId}> can now run \`${label}\`.\n\n` +
+						`Members without an allowed role can no longer run \`${label}\` in this server.`
+				: `ℹ️ <@&${roleId}> was already allowed to run \`${label}\`.`,
+			true,
+		);
+	}
+
+	private async handlePermissionsRevoke(
+		interaction: APIChatInputApplicationCommandInteraction,
+		guildId: string,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const { command, roleId, repositoryPattern } =
+			this.getRuleOptions(interaction);
+		const label = repositoryPattern
+			? `${formatCommandPath(command)}\` on \`${repositoryPattern}`
+			: formatCommandPath(command);
+
+		logger.info("Processing /admin permissions revoke command", {
+			userId,
+			guildId,
+			command,
+			roleId,
+			repositoryPattern,
+		});
+
+		const removed = await this.permissionPolicyService.revokeRole(
+			guildId,
+			command,
+			roleId,
+			repositoryPattern,
+		);
+
+		return this.createSuccessResponse(
+			removed
+				? `🗑️ <@&${roleId}> is no longer allowed to run \`${label}\`.`
+				: `ℹ️ <@&${roleId}> wasn't on the allow-list for \`${label}\`.`,
+			true,
+		);
+	}
+
+	private async handlePermissionsReset(
+		interaction: APIChatInputApplicationCommandInteraction,
+		guildId: string,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const command = this.getCommandOption(interaction);
+		const label = formatCommandPath(command);
+
+		logger.info("Processing /admin permissions reset command", {
+			userId,
+			guildId,
+			command,
+		});
+
+		const removed = await this.permissionPolicyService.resetCommand(
+			guildId,
+			command,
+		);
+
+		return this.createSuccessResponse(
+			removed > 0
+				? `🔓 Removed ${removed} rule(s). Everyone can run \`${label}\` again.`
+				: `ℹ️ \`${label}\` had no restrictions.`,
+			true,
+		);
+	}
+
+	/**
+	 * Ensures the command is used in a guild by a member with Manage Server
+	 * @returns The guild ID
+	 */
+	private requireGuildAdmin(
+		interaction: APIChatInputApplicationCommandInteraction,
+	): string {
+		if (!interaction.guild_id) {
+			throw new ValidationError(
+				"Admin commands can only be used inside a server",
+			);
+		}
+
+		if (
+			!this.hasGuildPermission(interaction, PermissionFlagsBits.ManageGuild)
+		) {
+			throw new PermissionDeniedError(
+				"You need the **Manage Server** permission to manage command permissions",
+			);
+		}
+
+		return interaction.guild_id;
+	}
+
+	/**
+	 * Uses the channel option when given, otherwise the channel the command was used in
+	 */
+	private getTargetChannelId(
+		value: unknown,
+		currentChannelId: string | undefined,
+	): string {
+		const channelId =
+			typeof value === "string" && value ? value : currentChannelId;
+
+		if (!channelId) {
+			throw new ValidationError("Please choose a channel", "channel");
+		}
+
+		return channelId;
+	}
+
+	private getCommandOption(
+		interaction: APIChatInputApplicationCommandInteraction,
+	): string {
+		const command = this.getOptionsMap(interaction.data.options).command;
+
+		if (typeof command !== "string" || !isPolicyCommand(command)) {
+			throw new ValidationError(
+				"Please choose a command from the list",
+				"command",
+			);
+		}
+
+		return command;
+	}
+
+	private getRuleOptions(
+		interaction: APIChatInputApplicationCommandInteraction,
+	): {
+		command: string;
+		roleId: string;
+		repositoryPattern?: string;
+	} {
+		const command = this.getCommandOption(interaction);
+		const options = this.getOptionsMap(interaction.data.options);
+		const roleId = options.role;
+
+		if (typeof roleId !== "string" || !roleId) {
+			throw new ValidationError("Please choose a role", "role");
+		}
+
+		const repositoryPattern = validateRepositoryPattern(options.repository);
+		if (
+			repositoryPattern &&
+			!(REPOSITORY_POLICY_COMMANDS as readonly string[]).includes(command)
+		) {
+			throw new ValidationError(
+				`Only rules on commands that create tasks can be limited to repositories: ${REPOSITORY_POLICY_COMMANDS.map(formatCommandPath).join(", ")}`,
+				"repository",
+			);
+		}
+
+		return { command, roleId, repositoryPattern };
+	}
+
+	private buildBindingsEmbed(bindings: ChannelRepositoryBinding[]): APIEmbed {
+		const repositoriesByChannel = new Map<string, string[]>();
+		for (const binding of bindings) {
+			const repositories = repositoriesByChannel.get(binding.channelId) ?? [];
+			repositories.push(`• ${binding.repositoryUrl}`);
+			repositoriesByChannel.set(binding.channelId, repositories);
+		}
+
+		return {
+			title: "📌 Channel Repositories",
+			description:
+				bindings.length > 0
+					? Array.from(
+							repositoriesByChannel,
+							([channelId, repositories]) =>
+								`<#${channelId}>\n${repositories.join("\n")}`,
+						)
+							.join("\n\n")
+							.substring(0, 4096)
+					: "No channels are bound. Tasks can target any repository from every channel.\n\n" +
+						"Bind one with `/admin repositories bind repository:<url> channel:<channel>`.",
+			color: 0x5865f2,
+			footer: {
+				text: "Threads use their parent channel's repositories",
+			},
+		};
+	}
+
+	private buildAgentsEmbed(agents: CatalogAgent[]): APIEmbed {
+		const formatAgent = (agent: CatalogAgent) =>
+			`${agent.isDefault ? "⭐ " : ""}**${agent.name}** \`${agent.value}\``;
+		const enabled = agents.filter((agent) => agent.enabled);
+		const disabled = agents.filter((agent) => !agent.enabled);
+
+		return {
+			title: "🤖 Agent Catalog",
+			description:
+				"Tasks in this server can use the enabled agents. " +
+				"Manage them with `/admin agents add|enable|disable|default|remove`.",
+			fields: [
+				{
+					name: `Enabled (${enabled.length})`,
+					value: (enabled.map(formatAgent).join("\n") || "None").substring(
+						0,
+						1024,
+					),
+					inline: false,
+				},
+				...(disabled.length > 0
+					? [
+							{
+								name: `Disabled (${disabled.length})`,
+								value: disabled.map(formatAgent).join("\n").substring(0, 1024),
+								inline: false,
+							},
+						]
+					: []),
+			],
+			color: 0x5865f2,
+			footer: {
+				text: "⭐ marks the default agent",
+			},
+		};
+	}
+
+	private buildRuleFields(
+		rules: CommandPermissionRule[],
+	): NonNullable<APIEmbed["fields"]> {
+		const rolesByRule = new Map<string, string[]>();
+		for (const rule of rules) {
+			const name = rule.repositoryPattern
+				? `${formatCommandPath(rule.command)} · ${rule.repositoryPattern}`
+				: formatCommandPath(rule.command);
+			const roles = rolesByRule.get(name) ?? [];
+			roles.push(`<@&${rule.roleId}>`);
+			rolesByRule.set(name, roles);
+		}
+
+		return Array.from(rolesByRule, ([name, roles]) => ({
+			name,
+			value: roles.join(", ").substring(0, 1024),
+			inline: false,
+		})).slice(0, 25);
+	}
+}
@@ -3,7 +3,7 @@ import type {
 	APIInteractionResponse,
 	APIEmbed,
 } from "discord-api-types/v10";
-import { InteractionResponseType } from "discord-api-types/v10";
+import { InteractionResponseType, PermissionFlagsBits } from "discord-api-types/v10";
 import { BaseController } from "../base.controller";
 import { AuthService } from "../../services/auth.service";
 import type { Env } from "../../types";
@@ -34,11 +34,15 @@ export class SetupController extends BaseController {
 			);
 		}
 
-		logger.info("Processing /setup command", { userId });
-
 		const applicationId = env?.DISCORD_APPLICATION_ID;
 		const interactionToken = interaction.token;
 
+		if (optionsMap.scope === "guild") {
+			return this.handleGuildSetup(interaction, userId, apiKey.trim(), ctx, env);
+		}
+
+		logger.info("Processing /setup command", { userId });
+
 		// Use deferred response for long-running operations (API validation can take time)
 		if (ctx && applicationId) {
 			ctx.waitUntil(
@@ -79,6 +83,135 @@ export class SetupController extends BaseController {
 		);
 	}
 
+	private async handleGuildSetup(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+		apiKey: string,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const guildId = interaction.guild_id;
+
+		if (!guildId) {
+			return this.createErrorResponse(
+				"A server key can only be registered inside a server.\n\nUse `/setup key:YOUR_API_KEY` to register your personal key.",
+			);
+		}
+
+		if (!this.hasGuildPermission(interaction, PermissionFlagsBits.ManageGuild)) {
+			return this.createErrorResponse(
+				"You need the **Manage Server** permission to register a key for this server.\n\nUse `/setup key:YOUR_API_KEY` to register your personal key instead.",
+			);
+		}
+
+		logger.info("Processing /setup scope:guild command", { userId, guildId });
+
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+
+		if (ctx && applicationId) {
+			ctx.waitUntil(
+				this.processGuildSetup(
+					guildId,
+					userId,
+					apiKey,
+					applicationId,
+					interaction.token,
+				),
+			);
+			return {
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: "🔐 Validating and registering the server API key...",
+					flags: 64, // Ephemeral
+				},
+			};
+		}
+
+		const result = await this.authService.registerGuildApiKey(guildId, userId, apiKey);
+
+		if (!result.success) {
+			return this.createErrorResponse(
+				`${result.error}\n\n**Tip:** Make sure you copied the entire API key from your Tembo dashboard.`,
+			);
+		}
+
+		return this.createSuccessResponse(
+			`✅ Server API key registered successfully! Org ID: ${result.userInfo?.orgId}`,
+			true,
+		);
+	}
+
+	private async processGuildSetup(
+		guildId: string,
+		userId: string,
+		apiKey: string,
+		applicationId: string,
+		interactionToken: string,
+	): Promise<void> {
+		try {
+			const result = await this.authService.registerGuildApiKey(guildId, userId, apiKey);
+
+			if (!result.success) {
+				logger.warn("Guild API key registration failed", {
+					guildId,
+					userId,
+					error: result.error,
+				});
+
+				await updateInteractionResponse(applicationId, interactionToken, {
+					content: `❌ ${result.error}\n\n**Tip:** Make sure you copied the entire API key from your Tembo dashboard.`,
+					flags: 64, // Ephemeral
+				});
+				return;
+			}
+
+			const userInfo = result.userInfo!;
+
+			const embed: APIEmbed = {
+				title: "✅ Server API Key Registered!",
+				description:
+					"The key has been encrypted and stored for this server. Members without their own key will now use this shared Tembo workspace.",
+				color: 0x00ff00, // Green
+				fields: [
+					{
+						name: "🏢 Tembo Workspace",
+						value: `**Org ID:** \`${userInfo.orgId}\`\n**Key Owner:** \`${userInfo.userId}\`${userInfo.email ? ` (${userInfo.email})` : ""}`,
+						inline: false,
+					},
+					{
+						name: "👥 Precedence",
+						value:
+							"Members who registered a personal key with `/setup` keep using their own key.",
+						inline: false,
+					},
+					{
+						name: "📝 Manage the Server Key",
+						value:
+							"• `/setup scope:guild` - Replace the server key\n• `/unregister scope:guild` - Remove the server key\n• `/status` - Check registration status",
+						inline: false,
+					},
+				],
+				footer: {
+					text: "Anyone in this server can create tasks on this workspace",
+				},
+				timestamp: new Date().toISOString(),
+			};
+
+			await updateInteractionResponse(applicationId, interactionToken, {
+				embeds: [embed],
+				flags: 64, // Ephemeral
+			});
+
+			logger.info("Guild key registered successfully", { guildId, userId });
+		} catch (error) {
+			logger.error("Error processing guild setup", error, { guildId, userId });
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: "❌ An unexpected error occurred while registering the server API key. Please try again.",
+				flags: 64, // Ephemeral
+			});
+		}
+	}
+
 	private async processSetup(
 		userId: string,
 		apiKey: string,
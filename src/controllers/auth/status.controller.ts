@@ -5,6 +5,7 @@ import type {
 } from "discord-api-types/v10";
 import { BaseController } from "../base.controller";
 import { AuthService } from "../../services/auth.service";
+import type { GuildStatusInfo } from "../../services/database.service";
 import type { Env } from "../../types";
 import { logger } from "../../utils/logger";
 
@@ -25,6 +26,9 @@ export class StatusController extends BaseController {
 		logger.info("Processing /status command", { userId });
 
 		const status = await this.authService.getUserStatus(userId);
+		const guildStatus = interaction.guild_id
+			? await this.authService.getGuildStatus(interaction.guild_id)
+			: null;
 
 		if (!status.registered) {
 			// User is not registered
@@ -56,6 +60,10 @@ export class StatusController extends BaseController {
 				timestamp: new Date().toISOString(),
 			};
 
+			if (guildStatus) {
+				embed.fields?.push(this.buildGuildKeyField(guildStatus, false));
+			}
+
 			return this.createEmbedResponse([embed], true); // Ephemeral
 		}
 
@@ -115,8 +123,37 @@ export class StatusController extends BaseController {
 			});
 		}
 
+		if (guildStatus) {
+			embed.fields?.push(this.buildGuildKeyField(guildStatus, true));
+		}
+
 		logger.info("Status command completed", { userId, registered: true });
 
 		return this.createEmbedResponse([embed], true); // Ephemeral
 	}
+
+	private buildGuildKeyField(
+		guildStatus: GuildStatusInfo,
+		hasPersonalKey: boolean,
+	): NonNullable<APIEmbed["fields"]>[number] {
+		if (!guildStatus.registered) {
+			return {
+				name: "🏠 Server Key",
+				value: "No shared key for this server. Admins can add one with `/setup scope:guild`.",
+				inline: false,
+			};
+		}
+
+		return {
+			name: "🏠 Server Key",
+			value:
+				`${guildStatus.validationStatus === "invalid" ? "❌ Invalid" : "✅ Registered"}` +
+				` by <@${guildStatus.registeredBy}>\n` +
+				`**Org ID:** \`${guildStatus.temboOrgId || "N/A"}\`\n` +
+				(hasPersonalKey
+					? "_Your personal key takes precedence here_"
+					: "_You can use bot commands here with the shared key_"),
+			inline: false,
+		};
+	}
 }
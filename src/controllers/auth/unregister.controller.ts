@@ -2,6 +2,7 @@ import type {
 	APIChatInputApplicationCommandInteraction,
 	APIInteractionResponse,
 } from "discord-api-types/v10";
+import { PermissionFlagsBits } from "discord-api-types/v10";
 import { BaseController } from "../base.controller";
 import { AuthService } from "../../services/auth.service";
 import type { Env } from "../../types";
@@ -24,6 +25,10 @@ export class UnregisterController extends BaseController {
 
 		const confirm = optionsMap.confirm as boolean;
 
+		if (optionsMap.scope === "guild") {
+			return this.handleGuildUnregister(interaction, userId, confirm);
+		}
+
 		logger.info("Processing /unregister command", { userId, confirm });
 
 		// Check if user is registered
@@ -71,4 +76,70 @@ export class UnregisterController extends BaseController {
 			);
 		}
 	}
+
+	private async handleGuildUnregister(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+		confirm: boolean,
+	): Promise<APIInteractionResponse> {
+		const guildId = interaction.guild_id;
+
+		if (!guildId) {
+			return this.createErrorResponse(
+				"A server key can only be removed inside its server.",
+			);
+		}
+
+		if (
+			!this.hasGuildPermission(interaction, PermissionFlagsBits.ManageGuild)
+		) {
+			return this.createErrorResponse(
+				"You need the **Manage Server** permission to remove this server's API key.",
+			);
+		}
+
+		logger.info("Processing /unregister scope:guild command", {
+			userId,
+			guildId,
+			confirm,
+		});
+
+		const status = await this.authService.getGuildStatus(guildId);
+
+		if (!status.registered) {
+			return this.createErrorResponse(
+				"This server doesn't have a registered API key.\n\nUse `/setup key:YOUR_API_KEY scope:guild` to register one.",
+			);
+		}
+
+		if (!confirm) {
+			return {
+				type: 4, // InteractionResponseType.ChannelMessageWithSource
+				data: {
+					content:
+						"⚠️ **Are you sure you want to remove this server's API key?**\n\n" +
+						"This will:\n" +
+						"• Delete the encrypted server key from our database\n" +
+						"• Stop members without a personal key from using bot commands\n\n" +
+						"**To confirm, run:** `/unregister scope:guild confirm:true`",
+					flags: 64, // Ephemeral
+				},
+			};
+		}
+
+		try {
+			await this.authService.unregisterGuild(guildId, userId);
+
+			return this.createSuccessResponse(
+				"✅ **The server API key has been removed.**\n\n" +
+					"Members now need their own key (`/setup key:YOUR_API_KEY`) to use the bot here.",
+				true, // Ephemeral
+			);
+		} catch (error) {
+			logger.error("Failed to unregister guild", error, { guildId });
+			return this.createErrorResponse(
+				"Failed to remove the server API key. Please try again later or contact support.",
+			);
+		}
+	}
 }
@@ -4,18 +4,26 @@ import type {
 	APIApplicationCommandInteractionDataOption,
 	APIApplicationCommandAutocompleteInteraction,
 	APIMessageComponentInteraction,
+	APIModalSubmitInteraction,
 	APIEmbed,
 	APIActionRowComponent,
-	APIButtonComponent,
+	APIComponentInMessageActionRow,
 } from "discord-api-types/v10";
 import {
 	InteractionResponseType,
 	ApplicationCommandOptionType,
+	ComponentType,
 } from "discord-api-types/v10";
 import { TemboService } from "../services/tembo.service";
 import { logger } from "../utils/logger";
 import { formatErrorForUser } from "../utils/errors";
-import type { Env } from "../types";
+import type { Env, TemboRepositoryList } from "../types";
+
+/**
+ * How long autocomplete waits on Tembo before falling back to cached
+ * repositories, leaving headroom inside Discord's 3 second window
+ */
+const AUTOCOMPLETE_REPOSITORY_TIMEOUT_MS = 2000;
 
 export abstract class BaseController {
 	constructor(protected readonly temboService: TemboService | null) {}
@@ -31,6 +39,19 @@ export abstract class BaseController {
 		return this.temboService;
 	}
 
+	/**
+	 * Lists repositories for autocomplete, serving the cache when Tembo is slow.
+	 * The Tembo request keeps running in the background to refresh the cache.
+	 */
+	protected listRepositoriesForAutocomplete(
+		ctx?: ExecutionContext,
+	): Promise<TemboRepositoryList> {
+		return this.getTemboService().listRepositories({
+			timeoutMs: AUTOCOMPLETE_REPOSITORY_TIMEOUT_MS,
+			waitUntil: ctx ? (promise) => ctx.waitUntil(promise) : undefined,
+		});
+	}
+
 	protected getOptionsMap(
 		options: APIApplicationCommandInteractionDataOption[] | undefined,
 	): Record<string, unknown> {
@@ -40,7 +61,9 @@ export abstract class BaseController {
 
 		const map: Record<string, unknown> = {};
 		for (const option of options) {
-			if (
+			if (option.type === ApplicationCommandOptionType.SubcommandGroup) {
+				Object.assign(map, this.getOptionsMap(option.options));
+			} else if (
 				option.type === ApplicationCommandOptionType.Subcommand &&
 				"options" in option &&
 				option.options
@@ -66,6 +89,9 @@ export abstract class BaseController {
 		}
 
 		for (const option of options) {
+			if (option.type === ApplicationCommandOptionType.SubcommandGroup) {
+				return this.getSubcommandName(option.options);
+			}
 			if (option.type === ApplicationCommandOptionType.Subcommand) {
 				return option.name;
 			}
@@ -74,6 +100,81 @@ export abstract class BaseController {
 		return undefined;
 	}
 
+	protected getSubcommandGroupName(
+		options: APIApplicationCommandInteractionDataOption[] | undefined,
+	): string | undefined {
+		return options?.find(
+			(option) => option.type === ApplicationCommandOptionType.SubcommandGroup,
+		)?.name;
+	}
+
+	/**
+	 * Collects text input values from a modal submission keyed by custom_id
+	 */
+	protected getModalValues(
+		interaction: APIModalSubmitInteraction,
+	): Record<string, string> {
+		const values: Record<string, string> = {};
+
+		for (const component of interaction.data.components) {
+			if (component.type === ComponentType.ActionRow) {
+				for (const input of component.components) {
+					values[input.custom_id] = input.value;
+				}
+			} else if (
+				component.type === ComponentType.Label &&
+				component.component.type === ComponentType.TextInput
+			) {
+				values[component.component.custom_id] = component.component.value;
+			}
+		}
+
+		return values;
+	}
+
+	protected getFocusedOption(
+		options: APIApplicationCommandInteractionDataOption[] | undefined,
+	): APIApplicationCommandInteractionDataOption | undefined {
+		if (!options) return undefined;
+
+		for (const option of options) {
+			if (option.type === ApplicationCommandOptionType.SubcommandGroup) {
+				const focused = this.getFocusedOption(option.options);
+				if (focused) return focused;
+			} else if (
+				option.type === ApplicationCommandOptionType.Subcommand &&
+				option.options
+			) {
+				for (const subOption of option.options) {
+					if ("focused" in subOption && subOption.focused === true) {
+						return subOption;
+					}
+				}
+			} else if ("focused" in option && option.focused === true) {
+				return option;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Checks the invoking member's resolved permissions in the current guild.
+	 * Always false outside of guilds.
+	 */
+	protected hasGuildPermission(
+		interaction: Pick<
+			APIChatInputApplicationCommandInteraction,
+			"guild_id" | "member"
+		>,
+		permission: bigint,
+	): boolean {
+		if (!interaction.guild_id || !interaction.member) {
+			return false;
+		}
+
+		return (BigInt(interaction.member.permissions) & permission) === permission;
+	}
+
 	protected getEphemeralFlag(
 		options: APIApplicationCommandInteractionDataOption[] | undefined,
 	): boolean {
@@ -124,7 +225,7 @@ export abstract class BaseController {
 	protected createEmbedResponse(
 		embeds: APIEmbed[],
 		ephemeral: boolean = false,
-		components: APIActionRowComponent<APIButtonComponent>[] = [],
+		components: APIActionRowComponent<APIComponentInMessageActionRow>[] = [],
 	): APIInteractionResponse {
 		return {
 			type: InteractionResponseType.ChannelMessageWithSource,
@@ -138,7 +239,7 @@ export abstract class BaseController {
 
 	protected createUpdateMessageResponse(
 		embeds: APIEmbed[],
-		components: APIActionRowComponent<APIButtonComponent>[] = [],
+		components: APIActionRowComponent<APIComponentInMessageActionRow>[] = [],
 	): APIInteractionResponse {
 		return {
 			type: InteractionResponseType.UpdateMessage,
@@ -171,6 +272,7 @@ export abstract class BaseController {
 
 	async handleAutocomplete(
 		interaction: APIApplicationCommandAutocompleteInteraction,
+		ctx?: ExecutionContext,
 	): Promise<APIInteractionResponse> {
 		return {
 			type: InteractionResponseType.ApplicationCommandAutocompleteResult,
@@ -187,4 +289,12 @@ export abstract class BaseController {
 	): Promise<APIInteractionResponse> {
 		return this.createErrorResponse("Component interaction not handled.");
 	}
+
+	async handleModalSubmit(
+		interaction: APIModalSubmitInteraction,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		return this.createErrorResponse("Modal submission not handled.");
+	}
 }
@@ -0,0 +1,303 @@
+import type {
+	APIApplicationCommandAutocompleteInteraction,
+	APIApplicationCommandInteractionDataStringOption,
+	APIChatInputApplicationCommandInteraction,
+	APIEmbed,
+	APIInteractionResponse,
+} from "discord-api-types/v10";
+import {
+	InteractionResponseType,
+	PermissionFlagsBits,
+} from "discord-api-types/v10";
+import {
+	type AgentCatalogService,
+	getBuiltInCatalog,
+} from "../../services/agent-catalog.service";
+import type {
+	TaskDefaultsRecord,
+	TaskDefaultsScope,
+	TaskDefaultsService,
+} from "../../services/task-defaults.service";
+import type { TemboService } from "../../services/tembo.service";
+import type { Env } from "../../types";
+import {
+	getAgentChoices,
+	getRepositoryChoices,
+} from "../../utils/autocomplete";
+import { PermissionDeniedError, ValidationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+import { validateTaskDefaults } from "../../validation/command-options";
+import { BaseController } from "../base.controller";
+import { getAgentCatalog, getAvailableAgents } from "../task-options";
+
+export class ConfigController extends BaseController {
+	constructor(
+		temboService: TemboService | null,
+		private readonly taskDefaultsService: TaskDefaultsService,
+		private readonly agentCatalogService?: AgentCatalogService,
+	) {
+		super(temboService);
+	}
+
+	async handle(
+		interaction: APIChatInputApplicationCommandInteraction,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const userId =
+			interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
+
+		const subcommand = this.getSubcommandName(interaction.data.options);
+
+		if (!subcommand) {
+			throw new ValidationError(
+				"No subcommand specified. Use: show, set, or clear",
+			);
+		}
+
+		switch (subcommand) {
+			case "show":
+				return this.handleShow(interaction, userId);
+			case "set":
+				return this.handleSet(interaction, userId);
+			case "clear":
+				return this.handleClear(interaction, userId);
+			default:
+				throw new ValidationError(
+					`Unknown subcommand: ${subcommand}. Use: show, set, or clear`,
+				);
+		}
+	}
+
+	override async handleAutocomplete(
+		interaction: APIApplicationCommandAutocompleteInteraction,
+		ctx?: ExecutionContext,
+	): Promise<APIInteractionResponse> {
+		const focusedOption = this.getFocusedOption(interaction.data.options);
+		const value =
+			(
+				focusedOption as
+					| APIApplicationCommandInteractionDataStringOption
+					| undefined
+			)?.value ?? "";
+
+		if (focusedOption?.name === "repositories") {
+			try {
+				const result = await this.listRepositoriesForAutocomplete(ctx);
+				return {
+					type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+					data: {
+						choices: getRepositoryChoices(result.codeRepositories, value),
+					},
+				};
+			} catch (error) {
+				logger.error("Failed to autocomplete repositories", error);
+			}
+		}
+
+		if (focusedOption?.name === "agent") {
+			return {
+				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+				data: {
+					choices: getAgentChoices(
+						(await getAvailableAgents(
+							this.agentCatalogService,
+							interaction.guild_id,
+						)) ?? getBuiltInCatalog(),
+						value,
+					),
+				},
+			};
+		}
+
+		return {
+			type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+			data: { choices: [] },
+		};
+	}
+
+	private async handleShow(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const guildId = interaction.guild_id;
+
+		logger.info("Processing /config show command", { userId, guildId });
+
+		const [userDefaults, guildDefaults, effective] = await Promise.all([
+			this.taskDefaultsService.getDefaults("user", userId),
+			guildId
+				? this.taskDefaultsService.getDefaults("guild", guildId)
+				: Promise.resolve(null),
+			this.taskDefaultsService.resolveDefaults(userId, guildId),
+		]);
+
+		const fields: NonNullable<APIEmbed["fields"]> = [
+			{
+				name: "👤 Your Defaults",
+				value: this.formatDefaults(userDefaults),
+				inline: false,
+			},
+		];
+
+		if (guildId) {
+			fields.push({
+				name: "🏠 Server Defaults",
+				value: this.formatDefaults(guildDefaults),
+				inline: false,
+			});
+		}
+
+		fields.push({
+			name: "✅ Used by /task create",
+			value: this.formatDefaults(
+				effective.repositories || effective.agent || effective.branch
+					? { ...effective }
+					: null,
+			),
+			inline: false,
+		});
+
+		const embed: APIEmbed = {
+			title: "⚙️ Task Defaults",
+			description:
+				"These values are used when `/task create` is run without `repositories`, `agent` or `branch`.\n" +
+				"Your own defaults take precedence over server defaults.",
+			fields,
+			color: 0x5865f2,
+			footer: {
+				text: "Change with /config set or /config clear",
+			},
+		};
+
+		return this.createEmbedResponse([embed], true);
+	}
+
+	private async handleSet(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		const { scope, scopeId } = this.resolveScope(
+			interaction,
+			optionsMap.scope,
+			userId,
+		);
+		// If the catalog can't be loaded, any agent is accepted
+		const catalog = await getAgentCatalog(
+			this.agentCatalogService,
+			interaction.guild_id,
+		);
+		const defaults = validateTaskDefaults(optionsMap, catalog?.agents);
+
+		logger.info("Processing /config set command", {
+			userId,
+			scope,
+			repositoryCount: defaults.repositories?.length ?? 0,
+			hasAgent: !!defaults.agent,
+			hasBranch: !!defaults.branch,
+		});
+
+		const record = await this.taskDefaultsService.setDefaults(
+			scope,
+			scopeId,
+			defaults,
+			userId,
+		);
+
+		const embed: APIEmbed = {
+			title:
+				scope === "guild"
+					? "✅ Server Defaults Saved"
+					: "✅ Your Defaults Saved",
+			description: this.formatDefaults(record),
+			color: 0x00ff00,
+			footer: {
+				text:
+					scope === "guild"
+						? "Applies to everyone in this server without their own defaults"
+						: "Applies to your /task create commands",
+			},
+			timestamp: new Date(record.updatedTimestamp).toISOString(),
+		};
+
+		return this.createEmbedResponse([embed], true);
+	}
+
+	private async handleClear(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		const { scope, scopeId } = this.resolveScope(
+			interaction,
+			optionsMap.scope,
+			userId,
+		);
+
+		logger.info("Processing /config clear command", { userId, scope });
+
+		const removed = await this.taskDefaultsService.clearDefaults(
+			scope,
+			scopeId,
+		);
+		const target = scope === "guild" ? "Server" : "Your";
+
+		return this.createSuccessResponse(
+			removed
+				? `🗑️ ${target} task defaults have been cleared.`
+				: `ℹ️ ${target} task defaults were not set.`,
+			true,
+		);
+	}
+
+	/**
+	 * Works out which defaults a command targets. Server defaults can only be
+	 * changed inside a server by members with the Manage Server permission.
+	 */
+	private resolveScope(
+		interaction: APIChatInputApplicationCommandInteraction,
+		value: unknown,
+		userId: string,
+	): { scope: TaskDefaultsScope; scopeId: string } {
+		if (value !== "guild") {
+			return { scope: "user", scopeId: userId };
+		}
+
+		if (!interaction.guild_id) {
+			throw new ValidationError(
+				"Server defaults can only be changed inside a server",
+				"scope",
+			);
+		}
+
+		if (
+			!this.hasGuildPermission(interaction, PermissionFlagsBits.ManageGuild)
+		) {
+			throw new PermissionDeniedError(
+				"You need the **Manage Server** permission to change server defaults",
+			);
+		}
+
+		return { scope: "guild", scopeId: interaction.guild_id };
+	}
+
+	private formatDefaults(
+		defaults: Pick<
+			TaskDefaultsRecord,
+			"repositories" | "agent" | "branch"
+		> | null,
+	): string {
+		if (!defaults) {
+			return "_Not set_";
+		}
+
+		return [
+			`**Repositories:** ${defaults.repositories?.length ? defaults.repositories.join(", ") : "—"}`,
+			`**Agent:** ${defaults.agent ?? "—"}`,
+			`**Branch:** ${defaults.branch ?? "—"}`,
+		]
+			.join("\n")
+			.substring(0, 1024);
+	}
+}
@@ -33,23 +33,71 @@ export class HelpController extends BaseController {
 						"Check your API key registration status\n\n" +
 						"**`/unregister [confirm:true]`**\n" +
 						"Remove your registered API key\n" +
-						"_Requires confirmation to prevent accidents_",
+						"_Requires confirmation to prevent accidents_\n\n" +
+						"**`scope:guild`** on `/setup` or `/unregister`\n" +
+						"Manage a shared server key (requires **Manage Server**). Personal keys always take precedence",
 					inline: false,
 				},
 				{
 					name: "📝 Task Commands",
 					value:
 						"**`/task create prompt:TEXT repositories:URL`**\n" +
-						"Create a new Tembo task (repository required)\n" +
-						"_Optional: `agent`, `branch`, `ephemeral`_\n" +
+						"Create a new Tembo task (repository required unless set with `/config`)\n" +
+						"_Optional: `repository2`..`repository5`, `agent`, `branch`, `thread`, `queue`, `ephemeral`_\n" +
+						"_`thread:True` opens a thread for the task's updates; `queue:False` saves a draft_\n" +
 						"_Example: `/task create prompt:Fix login bug repositories:https://github.com/user/repo`_\n" +
 						"_💡 Tip: Use autocomplete to select from connected repos_\n\n" +
+						"**`/task drafts`**\n" +
+						"List the drafts you saved with `queue:False`, with links to queue them in Tembo\n\n" +
+						"**`/task new`**\n" +
+						"Open a form for long, multi-line prompts (up to 4000 characters)\n\n" +
+						"**Apps → Create Tembo task**\n" +
+						"Right-click any message to turn it into a task prompt, then pick the repositories",
+					inline: false,
+				},
+				{
+					name: "🔎 Finding Tasks",
+					value:
 						"**`/task list [page] [limit]`**\n" +
-						"View your tasks with pagination\n" +
-						"_Example: `/task list page:2 limit:20`_\n\n" +
+						"View your tasks, filtered by `status`, `agent`, `repository`, `mine` or `created_after`\n" +
+						"_Order with `sort`; `view:Compact` shows 25 tasks per page, one line each_\n" +
+						"_Pick a task from the menu to view it_\n" +
+						"_Example: `/task list status:failed mine:true`_\n\n" +
 						"**`/task search query:TEXT`**\n" +
 						"Search tasks by title or description\n" +
-						"_Example: `/task search query:authentication`_",
+						"_Example: `/task search query:authentication`_\n\n" +
+						"**`/task view id:TASK_ID`**\n" +
+						"Show every detail of a single task\n" +
+						"_💡 Tip: Autocomplete lists your most recent tasks_",
+					inline: false,
+				},
+				{
+					name: "⏰ Scheduled Tasks",
+					value:
+						"**`/schedule create name:TEXT prompt:TEXT cron:EXPRESSION`**\n" +
+						"Create a task on a schedule, using your own API key\n" +
+						"_Use `at:YYYY-MM-DD HH:MM` instead of `cron` to run once; times are UTC_\n" +
+						"_Example: `/schedule create name:Nightly deps prompt:Update dependencies cron:0 3 * * *`_\n\n" +
+						"**`/schedule list`** · **`/schedule delete id:SCHEDULE_ID`**\n" +
+						"See your schedules and their next runs, or remove one",
+					inline: false,
+				},
+				{
+					name: "⚙️ Defaults & Server Settings",
+					value:
+						"**`/config set [repositories] [agent] [branch] [scope]`**\n" +
+						"Save defaults so `/task create` only needs a prompt\n" +
+						"_Use `scope:This server` to share them (requires Manage Server)_\n\n" +
+						"**`/config show`** 🔒\n" +
+						"See your defaults and the server's defaults\n\n" +
+						"**`/config clear [scope]`**\n" +
+						"Remove saved defaults\n\n" +
+						"**`/admin permissions allow|revoke|reset|list`**\n" +
+						"Restrict commands to specific roles in this server (requires Manage Server)\n\n" +
+						"**`/admin repositories bind|unbind|clear|list`**\n" +
+						"Limit which repositories tasks created in a channel can target\n\n" +
+						"**`/admin agents add|enable|disable|default|remove|list`**\n" +
+						"Choose which agents tasks in this server can use",
 					inline: false,
 				},
 				{
@@ -57,6 +105,8 @@ export class HelpController extends BaseController {
 					value:
 						"**`/repositories list [ephemeral]`**\n" +
 						"View all connected code repositories from your Tembo account\n\n" +
+						"**`/repositories refresh`**\n" +
+						"Reload your repositories after connecting a new one in Tembo\n\n" +
 						"**`/whoami`** 🔒\n" +
 						"Get your current Tembo account information (always private)",
 					inline: false,
@@ -69,7 +119,7 @@ export class HelpController extends BaseController {
 						"• `codex:gpt-4` - OpenAI Codex with GPT-4\n" +
 						"• `cursor:claude-sonnet-4-5` - Cursor with Claude\n" +
 						"• `amp:*` - Anthropic Amp variants\n" +
-						"_Use autocomplete in `/task create` to see all options_",
+						"_Use autocomplete in `/task create` to see the agents enabled in this server_",
 					inline: false,
 				},
 				{
@@ -79,7 +129,7 @@ export class HelpController extends BaseController {
 						"• Use `ephemeral:true` on any command to make it private\n" +
 						"• Your API key is encrypted with AES-256-GCM before storage\n" +
 						"• Each Discord user has their own isolated Tembo account\n" +
-						"• Use autocomplete for agents and repositories when creating tasks",
+						"• Use autocomplete for agents and repositories when creating tasks - type any words, e.g. `web app`",
 					inline: false,
 				},
 				{
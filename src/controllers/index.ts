@@ -1,5 +1,8 @@
 export { BaseController } from "./base.controller";
-export { TaskController } from "./task/task.controller";
+export {
+	TaskController,
+	CREATE_TASK_FROM_MESSAGE_COMMAND,
+} from "./task/task.controller";
 export { RepositoriesController } from "./repository/repositories.controller";
 export { WhoamiController } from "./user/whoami.controller";
 export { SetupController } from "./auth/setup.controller";
@@ -7,3 +10,6 @@ export { UnregisterController } from "./auth/unregister.controller";
 export { StatusController } from "./auth/status.controller";
 export { HelpController } from "./help/help.controller";
 export { VersionController } from "./version/version.controller";
+export { ConfigController } from "./config/config.controller";
+export { ScheduleController } from "./schedule/schedule.controller";
+export { AdminController } from "./admin/admin.controller";
@@ -22,15 +22,19 @@ export class RepositoriesController extends BaseController {
 		const subcommand = this.getSubcommandName(interaction.data.options);
 
 		if (!subcommand) {
-			throw new ValidationError("No subcommand specified. Use: list");
+			throw new ValidationError(
+				"No subcommand specified. Use: list or refresh",
+			);
 		}
 
 		switch (subcommand) {
 			case "list":
 				return this.handleList(interaction, userId, startTime, ctx, env);
+			case "refresh":
+				return this.handleRefresh(interaction, userId, startTime, ctx, env);
 			default:
 				throw new ValidationError(
-					`Unknown subcommand: ${subcommand}. Use: list`,
+					`Unknown subcommand: ${subcommand}. Use: list or refresh`,
 				);
 		}
 	}
@@ -104,7 +108,7 @@ export class RepositoriesController extends BaseController {
 			})),
 			color: 0x5865f2,
 			footer: {
-				text: `${result.codeRepositories.length} total repositories`,
+				text: `${result.codeRepositories.length} total repositories • Missing one? Use /repositories refresh`,
 			},
 		};
 
@@ -152,7 +156,7 @@ export class RepositoriesController extends BaseController {
 					})),
 					color: 0x5865f2,
 					footer: {
-						text: `${result.codeRepositories.length} total repositories`,
+						text: `${result.codeRepositories.length} total repositories • Missing one? Use /repositories refresh`,
 					},
 				};
 				body = {
@@ -171,4 +175,80 @@ export class RepositoriesController extends BaseController {
 			});
 		}
 	}
+
+	private async handleRefresh(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+		startTime: number,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+		const interactionToken = interaction.token;
+
+		logger.info("Processing repositories refresh command", { userId });
+
+		if (ctx && applicationId) {
+			ctx.waitUntil(
+				this.processRefreshRepositories(
+					userId,
+					startTime,
+					applicationId,
+					interactionToken,
+				),
+			);
+
+			return {
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: "🔄 Refreshing your repositories...",
+					flags: 64,
+				},
+			};
+		}
+
+		const result = await this.getTemboService().listRepositories({
+			refresh: true,
+		});
+
+		const duration = Date.now() - startTime;
+		logger.command("repositories refresh", userId, true, duration);
+
+		return this.createSuccessResponse(
+			this.formatRefreshMessage(result.codeRepositories.length),
+			true,
+		);
+	}
+
+	private async processRefreshRepositories(
+		userId: string,
+		startTime: number,
+		applicationId: string,
+		interactionToken: string,
+	): Promise<void> {
+		try {
+			const result = await this.getTemboService().listRepositories({
+				refresh: true,
+			});
+			const duration = Date.now() - startTime;
+			logger.command("repositories refresh", userId, true, duration);
+
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: this.formatRefreshMessage(result.codeRepositories.length),
+				flags: 64,
+			});
+		} catch (error) {
+			const duration = Date.now() - startTime;
+			logger.command("repositories refresh", userId, false, duration);
+			logger.error("Failed to refresh repositories in background", error);
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: "❌ Failed to refresh repositories.",
+				flags: 64,
+			});
+		}
+	}
+
+	private formatRefreshMessage(count: number): string {
+		return `✅ Repository list refreshed: ${count} repository(ies) connected.\n\nAutocomplete now suggests your latest repositories.`;
+	}
 }
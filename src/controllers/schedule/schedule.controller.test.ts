@@ -0,0 +1,127 @@
+// Tests for ScheduleController
+
+import {
+	type APIChatInputApplicationCommandInteraction,
+	ApplicationCommandOptionType,
+	InteractionResponseType,
+	InteractionType,
+} from "discord-api-types/v10";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthResult } from "../../services/auth.service";
+import type {
+	NewTaskSchedule,
+	TaskScheduleRecord,
+	TaskScheduleService,
+} from "../../services/task-schedule.service";
+import type { TemboService } from "../../services/tembo.service";
+import { ScheduleController } from "./schedule.controller";
+
+const createInteraction = (): APIChatInputApplicationCommandInteraction =>
+	({
+		type: InteractionType.ApplicationCommand,
+		token: "token-1",
+		guild_id: "guild-1",
+		channel: { id: "channel-1", type: 0 },
+		member: { user: { id: "user-1" }, roles: [] },
+		data: {
+			name: "schedule",
+			options: [
+				{
+					type: ApplicationCommandOptionType.Subcommand,
+					name: "create",
+					options: [
+						{
+							name: "name",
+							type: ApplicationCommandOptionType.String,
+							value: "Nightly",
+						},
+						{
+							name: "prompt",
+							type: ApplicationCommandOptionType.String,
+							value: "Update deps",
+						},
+						{
+							name: "cron",
+							type: ApplicationCommandOptionType.String,
+							value: "0 3 * * *",
+						},
+						{
+							name: "repositories",
+							type: ApplicationCommandOptionType.String,
+							value: "https://github.com/org/api",
+						},
+					],
+				},
+			],
+		},
+	}) as unknown as APIChatInputApplicationCommandInteraction;
+
+const createMocks = () => ({
+	temboService: {
+		listRepositories: vi.fn().mockResolvedValue({
+			codeRepositories: [
+				{ id: "repo-1", name: "api", url: "https://github.com/org/api" },
+			],
+		}),
+	},
+	taskScheduleService: {
+		countSchedules: vi.fn().mockResolvedValue(0),
+		createSchedule: vi.fn(
+			async (schedule: NewTaskSchedule): Promise<TaskScheduleRecord> => ({
+				...schedule,
+				id: "schedule-1",
+				lastRunTimestamp: null,
+				lastTaskId: null,
+				lastError: null,
+				createdTimestamp: 0,
+			}),
+		),
+	},
+});
+
+describe("ScheduleController", () => {
+	let mocks: ReturnType<typeof createMocks>;
+
+	const createController = (keyScope: AuthResult["keyScope"]) =>
+		new ScheduleController(
+			mocks.temboService as unknown as TemboService,
+			mocks.taskScheduleService as unknown as TaskScheduleService,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			keyScope,
+		);
+
+	beforeEach(() => {
+		mocks = createMocks();
+	});
+
+	describe("create", () => {
+		it("should refuse callers using the server's shared key", async () => {
+			await expect(
+				createController("guild").handle(createInteraction()),
+			).rejects.toThrow("Schedules run with your own API key");
+
+			expect(mocks.temboService.listRepositories).not.toHaveBeenCalled();
+			expect(mocks.taskScheduleService.createSchedule).not.toHaveBeenCalled();
+		});
+
+		it("should check the repositories with the caller's own key", async () => {
+			const response = await createController("user").handle(
+				createInteraction(),
+			);
+
+			expect(response.type).toBe(
+				InteractionResponseType.ChannelMessageWithSource,
+			);
+			expect(mocks.temboService.listRepositories).toHaveBeenCalled();
+			expect(mocks.taskScheduleService.createSchedule).toHaveBeenCalledWith(
+				expect.objectContaining({
+					discordUserId: "user-1",
+					cronExpression: "0 3 * * *",
+				}),
+			);
+		});
+	});
+});
@@ -0,0 +1,464 @@
+import type {
+	APIApplicationCommandAutocompleteInteraction,
+	APIApplicationCommandInteractionDataStringOption,
+	APIChatInputApplicationCommandInteraction,
+	APIEmbed,
+	APIInteractionResponse,
+} from "discord-api-types/v10";
+import { InteractionResponseType } from "discord-api-types/v10";
+import {
+	type AgentCatalogService,
+	getBuiltInCatalog,
+} from "../../services/agent-catalog.service";
+import type { AuthResult } from "../../services/auth.service";
+import type { ChannelRepositoryService } from "../../services/channel-repository.service";
+import type { PermissionPolicyService } from "../../services/permission-policy.service";
+import type { TaskDefaultsService } from "../../services/task-defaults.service";
+import {
+	MAX_SCHEDULES_PER_USER,
+	type NewTaskSchedule,
+	type TaskScheduleRecord,
+	type TaskScheduleService,
+} from "../../services/task-schedule.service";
+import type { TemboService } from "../../services/tembo.service";
+import type { Env } from "../../types";
+import {
+	getAgentChoices,
+	getBoundRepositoryChoices,
+	getRepositoryChoices,
+} from "../../utils/autocomplete";
+import { updateInteractionResponse } from "../../utils/discord";
+import { formatErrorForUser, ValidationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+import {
+	EXTRA_REPOSITORY_OPTIONS,
+	validateCreateTaskParams,
+	validateScheduleId,
+	validateScheduleName,
+	validateScheduleTiming,
+} from "../../validation/command-options";
+import { BaseController } from "../base.controller";
+import {
+	assertRepositoriesExist,
+	assertRepositoryAccess,
+	getAgentCatalog,
+	getAllowedRepositories,
+	getAvailableAgents,
+	resolveDefaults,
+} from "../task-options";
+
+export class ScheduleController extends BaseController {
+	constructor(
+		temboService: TemboService | null,
+		private readonly taskScheduleService: TaskScheduleService,
+		private readonly taskDefaultsService?: TaskDefaultsService,
+		private readonly channelRepositoryService?: ChannelRepositoryService,
+		private readonly agentCatalogService?: AgentCatalogService,
+		private readonly permissionPolicyService?: PermissionPolicyService,
+		// Whose key the caller authenticated with; schedules need their own
+		private readonly keyScope?: AuthResult["keyScope"],
+	) {
+		super(temboService);
+	}
+
+	async handle(
+		interaction: APIChatInputApplicationCommandInteraction,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const userId =
+			interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
+
+		const subcommand = this.getSubcommandName(interaction.data.options);
+
+		if (!subcommand) {
+			throw new ValidationError(
+				"No subcommand specified. Use: create, list, or delete",
+			);
+		}
+
+		switch (subcommand) {
+			case "create":
+				return this.handleCreate(interaction, userId, ctx, env);
+			case "list":
+				return this.handleList(interaction, userId);
+			case "delete":
+				return this.handleDelete(interaction, userId);
+			default:
+				throw new ValidationError(
+					`Unknown subcommand: ${subcommand}. Use: create, list, or delete`,
+				);
+		}
+	}
+
+	override async handleAutocomplete(
+		interaction: APIApplicationCommandAutocompleteInteraction,
+		ctx?: ExecutionContext,
+	): Promise<APIInteractionResponse> {
+		const focusedOption = this.getFocusedOption(interaction.data.options);
+		const value =
+			(
+				focusedOption as
+					| APIApplicationCommandInteractionDataStringOption
+					| undefined
+			)?.value ?? "";
+
+		if (
+			focusedOption?.name === "repositories" ||
+			(EXTRA_REPOSITORY_OPTIONS as readonly string[]).includes(
+				focusedOption?.name ?? "",
+			)
+		) {
+			try {
+				// Channels bound to repositories only suggest those repositories
+				const allowedRepositories = await getAllowedRepositories(
+					this.channelRepositoryService,
+					interaction.channel,
+				);
+				if (allowedRepositories.length > 0) {
+					return {
+						type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+						data: {
+							choices: getBoundRepositoryChoices(allowedRepositories, value),
+						},
+					};
+				}
+
+				const result = await this.listRepositoriesForAutocomplete(ctx);
+				return {
+					type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+					data: {
+						choices: getRepositoryChoices(result.codeRepositories, value),
+					},
+				};
+			} catch (error) {
+				logger.error("Failed to autocomplete repositories", error);
+			}
+		}
+
+		if (focusedOption?.name === "agent") {
+			return {
+				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+				data: {
+					choices: getAgentChoices(
+						(await getAvailableAgents(
+							this.agentCatalogService,
+							interaction.guild_id,
+						)) ?? getBuiltInCatalog(),
+						value,
+					),
+				},
+			};
+		}
+
+		if (focusedOption?.name === "id") {
+			const userId =
+				interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
+			try {
+				const query = value.trim().toLowerCase();
+				const schedules = await this.taskScheduleService.getSchedules(
+					userId,
+					interaction.guild_id ?? null,
+				);
+				return {
+					type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+					data: {
+						choices: schedules
+							.filter(
+								(schedule) =>
+									schedule.name.toLowerCase().includes(query) ||
+									schedule.id.startsWith(query),
+							)
+							.slice(0, 25)
+							.map((schedule) => ({
+								name: `${schedule.name} (${schedule.cronExpression ?? "once"})`.substring(
+									0,
+									100,
+								),
+								value: schedule.id,
+							})),
+					},
+				};
+			} catch (error) {
+				logger.error("Failed to autocomplete schedules", error);
+			}
+		}
+
+		return {
+			type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+			data: { choices: [] },
+		};
+	}
+
+	private async handleCreate(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		// Runs authenticate as the schedule's owner alone, so the server's
+		// shared key would leave every run failing
+		if (this.keyScope !== "user") {
+			throw new ValidationError(
+				"Schedules run with your own API key, and you're using this server's shared key.\n\n" +
+					"Register your own key with `/setup` to create schedules.",
+			);
+		}
+
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		const name = validateScheduleName(optionsMap.name);
+		const timing = validateScheduleTiming(optionsMap);
+		const params = validateCreateTaskParams(
+			optionsMap,
+			await resolveDefaults(
+				this.taskDefaultsService,
+				userId,
+				interaction.guild_id,
+			),
+			await getAllowedRepositories(
+				this.channelRepositoryService,
+				interaction.channel,
+			),
+			await getAgentCatalog(this.agentCatalogService, interaction.guild_id),
+		);
+		await assertRepositoryAccess(
+			this.permissionPolicyService,
+			interaction,
+			"schedule create",
+			params.repositories,
+		);
+		const ephemeral = this.getEphemeralFlag(interaction.data.options);
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+
+		logger.info("Processing /schedule create command", {
+			userId,
+			repeating: timing.cronExpression !== null,
+			promptLength: params.prompt.length,
+			repositoryCount: params.repositories.length,
+		});
+
+		if (
+			(await this.taskScheduleService.countSchedules(userId)) >=
+			MAX_SCHEDULES_PER_USER
+		) {
+			throw new ValidationError(
+				`You already have ${MAX_SCHEDULES_PER_USER} schedules. Remove one with \`/schedule delete\` first.`,
+			);
+		}
+
+		const schedule: NewTaskSchedule = {
+			discordUserId: userId,
+			guildId: interaction.guild_id ?? null,
+			channelId: interaction.channel?.id ?? null,
+			parentChannelId:
+				interaction.channel && "parent_id" in interaction.channel
+					? (interaction.channel.parent_id ?? null)
+					: null,
+			name,
+			template: {
+				prompt: params.prompt,
+				repositories: params.repositories,
+				agent: params.agent,
+				branch: params.branch,
+			},
+			cronExpression: timing.cronExpression,
+			nextRunTimestamp: timing.nextRunTimestamp,
+		};
+
+		// Checking the repositories lists them from Tembo, which can outlast
+		// Discord's 3 second window
+		if (ctx && applicationId) {
+			ctx.waitUntil(
+				this.processScheduleCreate(schedule, applicationId, interaction.token),
+			);
+			return {
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: "⏰ Creating your schedule...",
+					flags: ephemeral ? 64 : undefined,
+				},
+			};
+		}
+
+		return this.createEmbedResponse(
+			[await this.createSchedule(schedule)],
+			ephemeral,
+		);
+	}
+
+	private async processScheduleCreate(
+		schedule: NewTaskSchedule,
+		applicationId: string,
+		interactionToken: string,
+	): Promise<void> {
+		try {
+			const embed = await this.createSchedule(schedule);
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: "",
+				embeds: [embed],
+			});
+		} catch (error) {
+			logger.error("Failed to process schedule create in background", error, {
+				userId: schedule.discordUserId,
+				command: "schedule create",
+			});
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: formatErrorForUser(error),
+				flags: 64,
+			});
+		}
+	}
+
+	/**
+	 * Saves the schedule once its repositories are known to the owner's Tembo account
+	 * @returns The confirmation embed
+	 */
+	private async createSchedule(
+		newSchedule: NewTaskSchedule,
+	): Promise<APIEmbed> {
+		// The caller's own key, checked in handleCreate
+		await assertRepositoriesExist(
+			this.getTemboService(),
+			newSchedule.template.repositories,
+		);
+
+		const schedule = await this.taskScheduleService.createSchedule(newSchedule);
+
+		return {
+			title: "⏰ Schedule Created",
+			description: `**${schedule.name}**\n${schedule.template.prompt.substring(0, 200)}`,
+			fields: this.buildScheduleFields(schedule),
+			color: 0x00ff00,
+			footer: {
+				text: "Runs are posted in this channel and use your API key",
+			},
+			timestamp: new Date(schedule.createdTimestamp).toISOString(),
+		};
+	}
+
+	private async handleList(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const guildId = interaction.guild_id ?? null;
+		const ephemeral = this.getEphemeralFlag(interaction.data.options);
+
+		logger.info("Processing /schedule list command", { userId, guildId });
+
+		const schedules = await this.taskScheduleService.getSchedules(
+			userId,
+			guildId,
+		);
+
+		if (schedules.length === 0) {
+			return this.createSuccessResponse(
+				"⏰ You have no schedules here. Create one with `/schedule create`.",
+				ephemeral,
+			);
+		}
+
+		const embed: APIEmbed = {
+			title: `⏰ Your Schedules (${schedules.length})`,
+			fields: schedules.map((schedule) => ({
+				name: schedule.name.substring(0, 256),
+				value: [
+					`\`${schedule.id}\` · ${this.describeTiming(schedule)}`,
+					...this.buildScheduleFields(schedule)
+						.filter((field) => field.name !== "Runs")
+						.map(
+							(field) =>
+								`**${field.name}:** ${field.value.replace(/\n/g, ", ")}`,
+						),
+				]
+					.join("\n")
+					.substring(0, 1024),
+				inline: false,
+			})),
+			color: 0x5865f2,
+			footer: {
+				text: "Remove a schedule with /schedule delete",
+			},
+		};
+
+		return this.createEmbedResponse([embed], ephemeral);
+	}
+
+	private async handleDelete(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+	): Promise<APIInteractionResponse> {
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		const scheduleId = validateScheduleId(optionsMap.id);
+
+		logger.info("Processing /schedule delete command", { userId, scheduleId });
+
+		const removed = await this.taskScheduleService.removeSchedule(
+			scheduleId,
+			userId,
+		);
+
+		return this.createSuccessResponse(
+			removed
+				? "🗑️ The schedule has been removed. Tasks it already created keep running."
+				: "ℹ️ You have no schedule with that ID. See yours with `/schedule list`.",
+			true,
+		);
+	}
+
+	private describeTiming(schedule: TaskScheduleRecord): string {
+		return schedule.cronExpression
+			? `\`${schedule.cronExpression}\` (UTC)`
+			: "Runs once";
+	}
+
+	private buildScheduleFields(
+		schedule: TaskScheduleRecord,
+	): NonNullable<APIEmbed["fields"]> {
+		const { repositories, agent, branch } = schedule.template;
+		const fields: NonNullable<APIEmbed["fields"]> = [
+			{ name: "Runs", value: this.describeTiming(schedule), inline: true },
+			{
+				name: "Next Run",
+				value:
+					schedule.nextRunTimestamp !== null
+						? `<t:${Math.floor(schedule.nextRunTimestamp / 1000)}:f> (<t:${Math.floor(schedule.nextRunTimestamp / 1000)}:R>)`
+						: "—",
+				inline: true,
+			},
+			{
+				name: "Repositories",
+				value:
+					repositories.length > 0
+						? repositories.join("\n").substring(0, 1024)
+						: "—",
+				inline: false,
+			},
+		];
+
+		if (agent || branch) {
+			fields.push({
+				name: "Agent",
+				value: [agent ?? "Default agent", branch ? `on \`${branch}\`` : null]
+					.filter(Boolean)
+					.join(" "),
+				inline: true,
+			});
+		}
+
+		if (schedule.lastRunTimestamp !== null) {
+			fields.push({
+				name: "Last Run",
+				value:
+					`<t:${Math.floor(schedule.lastRunTimestamp / 1000)}:R> · ` +
+					(schedule.lastError
+						? `⚠️ ${schedule.lastError}`
+						: schedule.lastTaskId
+							? `\`${schedule.lastTaskId}\``
+							: "—"),
+				inline: false,
+			});
+		}
+
+		return fields;
+	}
+}
@@ -0,0 +1,182 @@
+/**
+ * Lookups shared by the controllers that create tasks or task templates
+ * (/task, /schedule) and the ones that configure them (/config): /config
+ * defaults, channel repository allow-lists, the guild's agent catalog and
+ * its repository permission rules.
+ */
+
+import type {
+	APIChatInputApplicationCommandInteraction,
+	APIInteractionGuildMember,
+} from "discord-api-types/v10";
+import type {
+	AgentCatalogService,
+	CatalogAgent,
+} from "../services/agent-catalog.service";
+import type { ChannelRepositoryService } from "../services/channel-repository.service";
+import type { PermissionPolicyService } from "../services/permission-policy.service";
+import type { TaskDefaultsService } from "../services/task-defaults.service";
+import type { TemboService } from "../services/tembo.service";
+import type { AgentCatalog, TaskDefaults } from "../types";
+import { PermissionDeniedError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { canBypassPolicy, formatCommandPath } from "../utils/permissions";
+import { assertKnownRepositories } from "../validation/command-options";
+
+export type InteractionChannel = NonNullable<
+	APIChatInputApplicationCommandInteraction["channel"]
+>;
+
+/**
+ * Looks up the /config defaults for the user (falling back to the guild).
+ * A failed lookup only means no defaults, so it never blocks task creation.
+ */
+export async function resolveDefaults(
+	taskDefaultsService: TaskDefaultsService | undefined,
+	userId: string,
+	guildId: string | undefined,
+): Promise<TaskDefaults> {
+	if (!taskDefaultsService) {
+		return {};
+	}
+
+	try {
+		return await taskDefaultsService.resolveDefaults(userId, guildId);
+	} catch (error) {
+		logger.warn("Failed to resolve task defaults", { userId, guildId, error });
+		return {};
+	}
+}
+
+/**
+ * Looks up the repositories the channel (or a thread's parent channel) is
+ * bound to. Unlike defaults, a failed lookup blocks task creation so the
+ * allow-list can't be bypassed.
+ */
+export async function getAllowedRepositories(
+	channelRepositoryService: ChannelRepositoryService | undefined,
+	channel: InteractionChannel | undefined,
+): Promise<string[]> {
+	if (!channelRepositoryService || !channel) {
+		return [];
+	}
+
+	const parentId = "parent_id" in channel ? channel.parent_id : null;
+	return channelRepositoryService.getAllowedRepositories(channel.id, parentId);
+}
+
+/**
+ * Catches mistyped repository URLs before they reach Tembo. The check is
+ * skipped when repositories can't be listed, leaving it to Tembo.
+ */
+export async function assertRepositoriesExist(
+	temboService: TemboService,
+	repositories: string[],
+): Promise<void> {
+	let knownRepositories: string[];
+	try {
+		knownRepositories = (
+			await temboService.listRepositories()
+		).codeRepositories.map((repo) => repo.url);
+	} catch (error) {
+		logger.warn("Skipping repository check, failed to list repositories", {
+			error,
+		});
+		return;
+	}
+
+	assertKnownRepositories(repositories, knownRepositories);
+}
+
+/**
+ * Loads the agents the guild allows, for autocomplete
+ * @returns The agents, or null when the catalog couldn't be loaded
+ */
+export async function getAvailableAgents(
+	agentCatalogService: AgentCatalogService | undefined,
+	guildId: string | undefined,
+): Promise<CatalogAgent[] | null> {
+	if (!agentCatalogService) {
+		return null;
+	}
+
+	try {
+		return await agentCatalogService.getAvailableAgents(guildId);
+	} catch (error) {
+		logger.warn("Failed to load agent catalog", { guildId, error });
+		return null;
+	}
+}
+
+/**
+ * Builds the agent catalog used to validate task agents. The catalog isn't a
+ * security boundary, so a failed lookup allows any agent instead of blocking
+ * task creation.
+ */
+export async function getAgentCatalog(
+	agentCatalogService: AgentCatalogService | undefined,
+	guildId: string | undefined,
+): Promise<AgentCatalog | undefined> {
+	if (!agentCatalogService) {
+		return undefined;
+	}
+
+	try {
+		return await agentCatalogService.getAgentCatalog(guildId);
+	} catch (error) {
+		logger.warn("Failed to load agent catalog", { guildId, error });
+		return undefined;
+	}
+}
+
+/**
+ * Checks the guild's repository-scoped permission rules for the repositories
+ * a task would target. The command itself was checked before routing, but
+ * its repositories are only known once the options are resolved. Like the
+ * channel allow-list, a failed lookup blocks task creation.
+ * @param commandPath Policy path of the command creating the task
+ */
+export async function assertRepositoryAccess(
+	permissionPolicyService: PermissionPolicyService | undefined,
+	interaction: { guild_id?: string; member?: APIInteractionGuildMember },
+	commandPath: string,
+	repositories: string[],
+): Promise<void> {
+	const { guild_id: guildId, member } = interaction;
+	if (
+		!permissionPolicyService ||
+		!guildId ||
+		!member ||
+		repositories.length === 0 ||
+		canBypassPolicy(member.permissions)
+	) {
+		return;
+	}
+
+	const access = await permissionPolicyService.checkAccess(
+		guildId,
+		commandPath,
+		member.roles,
+		repositories,
+	);
+	if (access.allowed) {
+		return;
+	}
+
+	logger.info("Task blocked by permission policy", {
+		command: commandPath,
+		userId: member.user.id,
+		guildId,
+		matchedCommand: access.matchedCommand,
+		repository: access.repository,
+	});
+
+	const roles = access.allowedRoleIds
+		.map((roleId) => `<@&${roleId}>`)
+		.join(", ");
+	throw new PermissionDeniedError(
+		access.repository
+			? `You need one of these roles to use \`${formatCommandPath(commandPath)}\` on \`${access.repository}\` in this server: ${roles}`
+			: `You need one of these roles to use \`${formatCommandPath(commandPath)}\` in this server: ${roles}`,
+	);
+}
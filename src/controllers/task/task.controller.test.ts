@@ -0,0 +1,475 @@
+// Tests for TaskController components and the draft flow
+
+import {
+	type APIChatInputApplicationCommandInteraction,
+	type APIEmbed,
+	type APIMessageComponentInteraction,
+	ApplicationCommandOptionType,
+	ComponentType,
+	InteractionResponseType,
+	InteractionType,
+} from "discord-api-types/v10";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentCatalogService } from "../../services/agent-catalog.service";
+import type { ChannelRepositoryService } from "../../services/channel-repository.service";
+import type { PaginationStateService } from "../../services/pagination-state.service";
+import type { PermissionPolicyService } from "../../services/permission-policy.service";
+import type { RecentSelectionService } from "../../services/recent-selection.service";
+import type { TaskDefaultsService } from "../../services/task-defaults.service";
+import type {
+	TaskDraftRecord,
+	TaskDraftService,
+} from "../../services/task-draft.service";
+import type { TaskWatchService } from "../../services/task-watch.service";
+import type { TemboService } from "../../services/tembo.service";
+import type { Env, TemboTask } from "../../types";
+import * as discordModule from "../../utils/discord";
+import { buildPageCustomId } from "../../utils/pagination";
+import { TaskController } from "./task.controller";
+
+const OWNER_ID = "owner-1";
+const OTHER_ID = "other-1";
+const NOW = Date.parse("2025-01-10T12:00:00Z");
+const STATE_ID = "0123456789abcdef";
+
+const env = {
+	DISCORD_APPLICATION_ID: "app-1",
+	DISCORD_BOT_TOKEN: "bot-token",
+} as Env;
+
+const createTask = (overrides: Partial<TemboTask> = {}): TemboTask => ({
+	id: "task-1",
+	title: "Fix login",
+	status: "queued",
+	createdAt: "2025-01-10T12:00:00Z",
+	updatedAt: "2025-01-10T12:00:00Z",
+	...overrides,
+});
+
+const createDraft = (
+	overrides: Partial<TaskDraftRecord> = {},
+): TaskDraftRecord => ({
+	taskId: "task-1",
+	discordUserId: OWNER_ID,
+	guildId: "guild-1",
+	channelId: "channel-1",
+	messageId: "message-1",
+	title: "Fix login",
+	createdTimestamp: NOW - 60_000,
+	...overrides,
+});
+
+/**
+ * A component interaction from `userId` on a message created by `ownerId`'s
+ * command (no owner for messages the bot posted on its own)
+ */
+const componentInteraction = (
+	customId: string,
+	userId: string,
+	ownerId: string | undefined,
+	data: Record<string, unknown> = {},
+): APIMessageComponentInteraction =>
+	({
+		type: InteractionType.MessageComponent,
+		token: "token-1",
+		guild_id: "guild-1",
+		channel: { id: "channel-1", type: 0 },
+		member: { user: { id: userId }, roles: [] },
+		data: {
+			component_type: ComponentType.Button,
+			custom_id: customId,
+			...data,
+		},
+		message: {
+			embeds: [{ description: "Fix the login redirect" }],
+			interaction_metadata: ownerId ? { user: { id: ownerId } } : undefined,
+		},
+	}) as unknown as APIMessageComponentInteraction;
+
+const commandInteraction = (
+	subcommand: string,
+	options: {
+		name: string;
+		type: ApplicationCommandOptionType;
+		value: unknown;
+	}[] = [],
+): APIChatInputApplicationCommandInteraction =>
+	({
+		type: InteractionType.ApplicationCommand,
+		token: "token-1",
+		guild_id: "guild-1",
+		channel: { id: "channel-1", type: 0 },
+		member: { user: { id: OWNER_ID }, roles: [] },
+		data: {
+			name: "task",
+			options: [
+				{
+					type: ApplicationCommandOptionType.Subcommand,
+					name: subcommand,
+					options,
+				},
+			],
+		},
+	}) as unknown as APIChatInputApplicationCommandInteraction;
+
+const createMocks = () => ({
+	temboService: {
+		createTask: vi.fn().mockResolvedValue(createTask()),
+		listTasks: vi.fn().mockResolvedValue({ issues: [] }),
+		listRepositories: vi.fn().mockResolvedValue({
+			codeRepositories: [
+				{ id: "repo-1", name: "api", url: "https://github.com/org/api" },
+			],
+		}),
+	},
+	taskWatchService: { watchTask: vi.fn() },
+	taskDefaultsService: {
+		resolveDefaults: vi
+			.fn()
+			.mockResolvedValue({ repositories: ["https://github.com/org/api"] }),
+	},
+	channelRepositoryService: {
+		getAllowedRepositories: vi.fn().mockResolvedValue([]),
+	},
+	recentSelectionService: {
+		getRecentValues: vi.fn().mockResolvedValue([]),
+		recordSelections: vi.fn(),
+	},
+	agentCatalogService: {
+		getAgentCatalog: vi.fn().mockResolvedValue({ agents: ["amp:opus-4-5"] }),
+	},
+	paginationStateService: {
+		getState: vi
+			.fn()
+			.mockResolvedValue({ id: STATE_ID, kind: "list", options: {} }),
+	},
+	taskDraftService: {
+		addDraft: vi.fn(),
+		getDrafts: vi.fn().mockResolvedValue([]),
+		countDrafts: vi.fn().mockResolvedValue(0),
+		removeDraft: vi.fn(),
+	},
+	permissionPolicyService: {
+		checkAccess: vi
+			.fn()
+			.mockResolvedValue({ allowed: true, allowedRoleIds: [] }),
+	},
+});
+
+describe("TaskController", () => {
+	let controller: TaskController;
+	let mocks: ReturnType<typeof createMocks>;
+	let ctx: ExecutionContext;
+	let backgroundWork: Promise<unknown>[];
+
+	beforeEach(() => {
+		vi.spyOn(Date, "now").mockReturnValue(NOW);
+		vi.spyOn(discordModule, "updateInteractionResponse").mockResolvedValue({
+			id: "message-1",
+		} as Awaited<ReturnType<typeof discordModule.updateInteractionResponse>>);
+
+		mocks = createMocks();
+		backgroundWork = [];
+		ctx = {
+			waitUntil: (promise: Promise<unknown>) => backgroundWork.push(promise),
+		} as unknown as ExecutionContext;
+
+		controller = new TaskController(
+			mocks.temboService as unknown as TemboService,
+			mocks.taskWatchService as unknown as TaskWatchService,
+			mocks.taskDefaultsService as unknown as TaskDefaultsService,
+			mocks.channelRepositoryService as unknown as ChannelRepositoryService,
+			mocks.recentSelectionService as unknown as RecentSelectionService,
+			mocks.agentCatalogService as unknown as AgentCatalogService,
+			mocks.paginationStateService as unknown as PaginationStateService,
+			mocks.taskDraftService as unknown as TaskDraftService,
+			undefined,
+			mocks.permissionPolicyService as unknown as PermissionPolicyService,
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("handleComponent ownership", () => {
+		it.each([
+			[
+				"the repository select",
+				"task_msg_repos",
+				{ values: ["https://github.com/org/api"] },
+			],
+			["the defaults button", "task_msg_defaults", {}],
+			["the edit button", "task_msg_edit", {}],
+			["the draft refresh button", "task_draft_refresh", {}],
+		])(
+			"should refuse %s to anyone but the owner",
+			async (_name, customId, data) => {
+				const response = await controller.handleComponent(
+					componentInteraction(customId, OTHER_ID, OWNER_ID, data),
+					ctx,
+					env,
+				);
+
+				expect(response).toEqual({
+					type: InteractionResponseType.ChannelMessageWithSource,
+					data: {
+						content: expect.stringContaining(
+							`Only <@${OWNER_ID}> can use these controls`,
+						),
+						flags: 64,
+					},
+				});
+				expect(backgroundWork).toHaveLength(0);
+				expect(mocks.temboService.createTask).not.toHaveBeenCalled();
+				expect(mocks.taskDraftService.getDrafts).not.toHaveBeenCalled();
+			},
+		);
+
+		it("should refuse owner-only controls on messages without an owner", async () => {
+			const response = await controller.handleComponent(
+				componentInteraction("task_draft_refresh", OTHER_ID, undefined),
+				ctx,
+				env,
+			);
+
+			expect(response.type).toBe(
+				InteractionResponseType.ChannelMessageWithSource,
+			);
+			expect(JSON.stringify(response)).toContain(
+				"These controls can't be used here",
+			);
+			expect(mocks.taskDraftService.getDrafts).not.toHaveBeenCalled();
+		});
+
+		it("should create the task from the owner's repository pick", async () => {
+			const response = await controller.handleComponent(
+				componentInteraction("task_msg_repos", OWNER_ID, OWNER_ID, {
+					component_type: ComponentType.StringSelect,
+					values: ["https://github.com/org/api"],
+				}),
+				ctx,
+				env,
+			);
+			await Promise.all(backgroundWork);
+
+			expect(response.type).toBe(InteractionResponseType.UpdateMessage);
+			expect(mocks.temboService.createTask).toHaveBeenCalledWith({
+				prompt: "Fix the login redirect",
+				agent: undefined,
+				repositories: ["https://github.com/org/api"],
+				branch: undefined,
+			});
+		});
+
+		it("should give other users a private copy of another page", async () => {
+			const customId = buildPageCustomId({
+				kind: "list",
+				stateId: STATE_ID,
+				page: 2,
+				view: "detailed",
+			});
+
+			const response = await controller.handleComponent(
+				componentInteraction(customId, OTHER_ID, OWNER_ID),
+				ctx,
+				env,
+			);
+
+			expect(response).toEqual({
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: { content: "🔄 Loading your tasks...", flags: 64 },
+			});
+		});
+
+		it("should update the owner's page in place", async () => {
+			const customId = buildPageCustomId({
+				kind: "list",
+				stateId: STATE_ID,
+				page: 2,
+				view: "detailed",
+			});
+
+			const response = await controller.handleComponent(
+				componentInteraction(customId, OWNER_ID, OWNER_ID),
+				ctx,
+				env,
+			);
+
+			expect(response).toEqual({
+				type: InteractionResponseType.DeferredMessageUpdate,
+			});
+		});
+	});
+
+	describe("repository rules", () => {
+		const denied = {
+			allowed: false,
+			matchedCommand: "task",
+			allowedRoleIds: ["role-maintainer"],
+			repository: "https://github.com/org/api",
+		};
+
+		it("should refuse tasks on repositories the member's roles don't cover", async () => {
+			mocks.permissionPolicyService.checkAccess.mockResolvedValue(denied);
+
+			await expect(
+				controller.handle(
+					commandInteraction("create", [
+						{
+							name: "prompt",
+							type: ApplicationCommandOptionType.String,
+							value: "Fix login",
+						},
+					]),
+					ctx,
+					env,
+				),
+			).rejects.toThrow(
+				"You need one of these roles to use `/task create` on `https://github.com/org/api`",
+			);
+
+			expect(mocks.permissionPolicyService.checkAccess).toHaveBeenCalledWith(
+				"guild-1",
+				"task create",
+				[],
+				["https://github.com/org/api"],
+			);
+			expect(backgroundWork).toHaveLength(0);
+			expect(mocks.temboService.createTask).not.toHaveBeenCalled();
+		});
+
+		it("should check the repository pick under the context menu command", async () => {
+			mocks.permissionPolicyService.checkAccess.mockResolvedValue(denied);
+
+			await expect(
+				controller.handleComponent(
+					componentInteraction("task_msg_repos", OWNER_ID, OWNER_ID, {
+						component_type: ComponentType.StringSelect,
+						values: ["https://github.com/org/api"],
+					}),
+					ctx,
+					env,
+				),
+			).rejects.toThrow("Create Tembo task");
+
+			expect(mocks.permissionPolicyService.checkAccess).toHaveBeenCalledWith(
+				"guild-1",
+				"Create Tembo task",
+				[],
+				["https://github.com/org/api"],
+			);
+			expect(mocks.temboService.createTask).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("drafts", () => {
+		it("should record a task created with queue:false as a draft", async () => {
+			await controller.handle(
+				commandInteraction("create", [
+					{
+						name: "prompt",
+						type: ApplicationCommandOptionType.String,
+						value: "Fix login",
+					},
+					{
+						name: "queue",
+						type: ApplicationCommandOptionType.Boolean,
+						value: false,
+					},
+				]),
+				ctx,
+				env,
+			);
+			await Promise.all(backgroundWork);
+
+			expect(mocks.temboService.createTask).toHaveBeenCalledWith(
+				expect.objectContaining({ queueRightAway: false }),
+			);
+			expect(mocks.taskDraftService.addDraft).toHaveBeenCalledWith({
+				taskId: "task-1",
+				discordUserId: OWNER_ID,
+				guildId: "guild-1",
+				channelId: "channel-1",
+				messageId: "message-1",
+				title: "Fix login",
+			});
+		});
+
+		it("should not record queued tasks as drafts", async () => {
+			await controller.handle(
+				commandInteraction("create", [
+					{
+						name: "prompt",
+						type: ApplicationCommandOptionType.String,
+						value: "Fix login",
+					},
+				]),
+				ctx,
+				env,
+			);
+			await Promise.all(backgroundWork);
+
+			expect(mocks.temboService.createTask).toHaveBeenCalled();
+			expect(mocks.taskDraftService.addDraft).not.toHaveBeenCalled();
+			// Only an explicit queue option is echoed back
+			expect(
+				JSON.stringify(
+					vi.mocked(discordModule.updateInteractionResponse).mock.calls,
+				),
+			).not.toContain("Queue Immediately");
+		});
+
+		it("should list drafts and forget the ones queued since", async () => {
+			mocks.taskDraftService.getDrafts.mockResolvedValue([
+				createDraft(),
+				createDraft({ taskId: "task-2", title: "Update docs" }),
+			]);
+			mocks.taskDraftService.countDrafts.mockResolvedValue(1);
+			mocks.temboService.listTasks.mockResolvedValue({
+				issues: [
+					createTask({ id: "task-2", lastQueuedAt: "2025-01-10T11:59:30Z" }),
+				],
+			});
+
+			const response = await controller.handle(commandInteraction("drafts"));
+
+			expect(mocks.taskDraftService.removeDraft).toHaveBeenCalledWith("task-2");
+			expect(response.type).toBe(
+				InteractionResponseType.ChannelMessageWithSource,
+			);
+			const embed = (response as { data: { embeds: APIEmbed[] } }).data
+				.embeds[0];
+			expect(embed?.title).toBe("📝 Drafts (1)");
+			expect(embed?.description).toContain("`task-1`");
+			expect(embed?.description).not.toContain("`task-2`");
+		});
+
+		it("should redraw the owner's drafts when they refresh", async () => {
+			const response = await controller.handleComponent(
+				componentInteraction("task_draft_refresh", OWNER_ID, OWNER_ID),
+				ctx,
+				env,
+			);
+			await Promise.all(backgroundWork);
+
+			expect(response).toEqual({
+				type: InteractionResponseType.DeferredMessageUpdate,
+			});
+			expect(mocks.taskDraftService.getDrafts).toHaveBeenCalledWith(
+				OWNER_ID,
+				"guild-1",
+			);
+			expect(discordModule.updateInteractionResponse).toHaveBeenCalledWith(
+				"app-1",
+				"token-1",
+				{
+					content:
+						"📝 You have no drafts here. Create one with `/task create queue:false`.",
+					embeds: [],
+					components: [],
+				},
+			);
+		});
+	});
+});
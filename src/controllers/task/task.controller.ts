@@ -2,77 +2,212 @@ import type {
 	APIChatInputApplicationCommandInteraction,
 	APIInteractionResponse,
 	APIApplicationCommandAutocompleteInteraction,
-	APIApplicationCommandInteractionDataOption,
 	APIMessageComponentInteraction,
 	APIApplicationCommandInteractionDataStringOption,
 	APIEmbed,
+	APIEmbedField,
 	APIActionRowComponent,
-	APIButtonComponent,
+	APIComponentInMessageActionRow,
+	APIMessageStringSelectInteractionData,
+	APIModalSubmitInteraction,
+	APIMessageApplicationCommandInteraction,
 } from "discord-api-types/v10";
 import {
 	InteractionResponseType,
-	ApplicationCommandOptionType,
 	ButtonStyle,
 	ComponentType,
+	TextInputStyle,
 } from "discord-api-types/v10";
 import { BaseController } from "../base.controller";
+import {
+	assertRepositoriesExist,
+	assertRepositoryAccess,
+	getAgentCatalog,
+	getAllowedRepositories,
+	getAvailableAgents,
+	resolveDefaults,
+	type InteractionChannel,
+} from "../task-options";
 import {
 	validateCreateTaskParams,
+	validateThreadOption,
 	validateListTasksParams,
 	validateSearchTasksParams,
+	validateTaskId,
+	validateModalCreateTaskParams,
+	validatePrompt,
+	resolveRepositories,
+	resolveAgent,
+	isRepositoryAllowed,
+	validateListView,
+	validateLimit,
+	EXTRA_REPOSITORY_OPTIONS,
+	MODAL_PROMPT_MAX_LENGTH,
+	type TaskListView,
 } from "../../validation/command-options";
 import { logger } from "../../utils/logger";
-import { ValidationError } from "../../utils/errors";
-import type { Env, ListTasksParams, SearchTasksParams } from "../../types";
-import { updateInteractionResponse } from "../../utils/discord";
+import { ValidationError, formatErrorForUser } from "../../utils/errors";
+import type {
+	CreateTaskParams,
+	Env,
+	ListTasksParams,
+	SearchTasksParams,
+	TaskDefaults,
+	TaskSortOrder,
+	TemboRepository,
+	TemboTask,
+	TemboTaskList,
+	TemboTaskSearchResult,
+} from "../../types";
+import {
+	sendChannelMessage,
+	startThreadFromMessage,
+	updateInteractionResponse,
+} from "../../utils/discord";
+import { getTaskUrl, type TemboService } from "../../services/tembo.service";
+import type { TaskWatchService } from "../../services/task-watch.service";
+import type { TaskDefaultsService } from "../../services/task-defaults.service";
+import type { ChannelRepositoryService } from "../../services/channel-repository.service";
+import type { PermissionPolicyService } from "../../services/permission-policy.service";
+import {
+	getBuiltInCatalog,
+	type AgentCatalogService,
+} from "../../services/agent-catalog.service";
+import type {
+	RecentSelectionService,
+	SelectionKind,
+} from "../../services/recent-selection.service";
+import type {
+	PaginationKind,
+	PaginationState,
+	PaginationStateService,
+} from "../../services/pagination-state.service";
+import type { TaskDraftRecord, TaskDraftService } from "../../services/task-draft.service";
+import { getStatusEmoji } from "../../utils/task-status";
+import {
+	describeTaskFilters,
+	getTaskRepositories,
+	hasTaskFilters,
+} from "../../utils/task-filters";
+import { buildPageCustomId, parsePageCustomId } from "../../utils/pagination";
+import { buildPromptFromMessage } from "../../utils/message-prompt";
+import { getComponentCommandPath, getMessageOwnerId } from "../../utils/permissions";
+import {
+	getAgentChoices,
+	getBoundRepositoryChoices,
+	getRepositoryChoices,
+} from "../../utils/autocomplete";
 
-const AGENTS = [
-	{ name: "Claude Code - Opus 4.5", value: "claudeCode:opus-4-5" },
-	{ name: "Claude Code - Sonnet 4.5", value: "claudeCode:sonnet-4-5" },
-	{ name: "Claude Code - Opus 4.1", value: "claudeCode:opus-4-1" },
-	{ name: "Claude Code - Haiku 4.5", value: "claudeCode:haiku-4-5" },
-	{ name: "Claude Code - Sonnet 4", value: "claudeCode:sonnet-4" },
+const TASK_CREATE_MODAL_ID = "task_create_modal";
 
-	{ name: "OpenCode - Opus 4.5", value: "opencode:opus-4-5" },
-	{ name: "OpenCode - Sonnet 4.5", value: "opencode:sonnet-4-5" },
-	{ name: "OpenCode - Opus 4.1", value: "opencode:opus-4-1" },
-	{ name: "OpenCode - Haiku 4.5", value: "opencode:haiku-4-5" },
-	{ name: "OpenCode - Sonnet 4", value: "opencode:sonnet-4" },
+// /task drafts refresh button; the per-draft buttons are links to Tembo
+const TASK_DRAFT_REFRESH_ID = "task_draft_refresh";
 
-	{ name: "Cursor - Opus 4.5", value: "cursor:opus-4-5" },
-	{ name: "Cursor - Sonnet 4.5", value: "cursor:sonnet-4-5" },
-	{ name: "Cursor - Opus 4.1", value: "cursor:opus-4-1" },
-	{ name: "Cursor - Haiku 4.5", value: "cursor:haiku-4-5" },
-	{ name: "Cursor - Sonnet 4", value: "cursor:sonnet-4" },
+// Message body sent as a response or an edit
+interface TaskMessage {
+	content: string;
+	embeds: APIEmbed[];
+	components: APIActionRowComponent<APIComponentInMessageActionRow>[];
+}
 
-	{ name: "Amp - Opus 4.5", value: "amp:opus-4-5" },
-];
+// Where a task command was used
+interface TaskLocation {
+	guildId: string | null;
+	channelId: string | null;
+	// Set when /task create asked for a thread, see openTaskThread
+	thread?: { botToken: string };
+}
 
-function getStatusEmoji(status: string | undefined): string {
-	if (!status) return "⚪";
+// Where the status poller posts a task's updates; no channel means DMs
+interface TaskUpdateTarget {
+	channelId: string | null;
+	messageId: string | null;
+}
 
-	const statusLower = status.toLowerCase();
+// Name of the message context menu command (see scripts/register-commands.ts)
+export const CREATE_TASK_FROM_MESSAGE_COMMAND = "Create Tembo task";
 
-	if (statusLower.includes("finished") || statusLower.includes("complete") || statusLower.includes("done")) {
-		return "✅";
-	}
-	if (statusLower.includes("failed") || statusLower.includes("error")) {
-		return "❌";
-	}
-	if (statusLower.includes("running") || statusLower.includes("processing") || statusLower.includes("in progress")) {
-		return "🔄";
-	}
-	if (statusLower.includes("pending") || statusLower.includes("queued") || statusLower.includes("waiting")) {
-		return "⏳";
-	}
-	if (statusLower.includes("cancelled") || statusLower.includes("canceled")) {
-		return "⚠️";
-	}
+const MESSAGE_TASK_REPOSITORY_SELECT_ID = "task_msg_repos";
+const MESSAGE_TASK_EDIT_BUTTON_ID = "task_msg_edit";
+const MESSAGE_TASK_DEFAULTS_BUTTON_ID = "task_msg_defaults";
+// The form behind "Edit in form", kept apart from /task new's for the permission policy
+const MESSAGE_TASK_MODAL_ID = "task_msg_modal";
 
-	return "⚪";
+const REPOSITORIES_OPTION = "repositories";
+
+function isRepositoryOption(name: string): boolean {
+	return name === REPOSITORIES_OPTION ||
+		(EXTRA_REPOSITORY_OPTIONS as readonly string[]).includes(name);
+}
+
+// Tasks per page in each /task list view when `limit` isn't given
+const LIST_PAGE_SIZES: Record<TaskListView, number> = { detailed: 10, compact: 25 };
+
+// Compact list lines stop before Discord's 4096 character description limit
+const COMPACT_DESCRIPTION_MAX_LENGTH = 4000;
+
+// Options kept in pagination state so page buttons can load more results
+const LIST_STATE_OPTIONS = ["status", "agent", "repository", "mine", "created_after", "sort", "limit"];
+const SEARCH_STATE_OPTIONS = ["query", "limit"];
+
+const STALE_RESULTS_MESSAGE =
+	"These results have expired. Run the command again to load fresh results.";
+
+// Pagination state for result buttons: an existing state from a clicked
+// button, or the options to save for a new command
+type PageStateRef = { id: string } | { options: Record<string, unknown> };
+
+// What a task list message shows, and how its buttons reload it
+interface TaskListRequest {
+	params: ListTasksParams;
+	view: TaskListView;
+	pageSizes: Record<TaskListView, number>;
+	state: PageStateRef;
+}
+
+function pickOptions(options: Record<string, unknown>, names: string[]): Record<string, unknown> {
+	return Object.fromEntries(
+		names
+			.filter((name) => options[name] !== undefined && options[name] !== null)
+			.map((name) => [name, options[name]]),
+	);
+}
+
+/**
+ * Whether a draft's task was queued after it was drafted, e.g. from Tembo's web app
+ */
+function wasQueuedSince(task: TemboTask | undefined, timestamp: number): boolean {
+	const queuedAt = task?.lastQueuedAt ? Date.parse(task.lastQueuedAt) : NaN;
+	return !Number.isNaN(queuedAt) && queuedAt > timestamp;
+}
+
+/**
+ * Page size for each view: the explicit `limit`, or the view's default
+ */
+function getListPageSizes(options: Record<string, unknown>): Record<TaskListView, number> {
+	const limit = validateLimit(options.limit ?? null);
+	return options.limit === undefined || options.limit === null
+		? LIST_PAGE_SIZES
+		: { detailed: limit, compact: limit };
 }
 
 export class TaskController extends BaseController {
+	constructor(
+		temboService: TemboService | null,
+		private readonly taskWatchService?: TaskWatchService,
+		private readonly taskDefaultsService?: TaskDefaultsService,
+		private readonly channelRepositoryService?: ChannelRepositoryService,
+		private readonly recentSelectionService?: RecentSelectionService,
+		private readonly agentCatalogService?: AgentCatalogService,
+		private readonly paginationStateService?: PaginationStateService,
+		private readonly taskDraftService?: TaskDraftService,
+		// The caller's own Tembo user ID, for `/task list mine:`
+		private readonly temboUserId?: string,
+		private readonly permissionPolicyService?: PermissionPolicyService,
+	) {
+		super(temboService);
+	}
+
 	async handle(
 		interaction: APIChatInputApplicationCommandInteraction,
 		ctx?: ExecutionContext,
@@ -86,39 +221,77 @@ export class TaskController extends BaseController {
 
 		if (!subcommand) {
 			throw new ValidationError(
-				"No subcommand specified. Use: create, list, or search",
+				"No subcommand specified. Use: create, new, list, search, view, or drafts",
 			);
 		}
 
 		switch (subcommand) {
 			case "create":
-				return this.handleCreate(interaction, ctx, userId, startTime);
+				return this.handleCreate(interaction, userId, startTime, ctx, env);
 			case "list":
 				return this.handleList(interaction, userId, startTime, ctx, env);
 			case "search":
 				return this.handleSearch(interaction, userId, startTime, ctx, env);
+			case "view":
+				return this.handleView(interaction, userId, startTime, ctx, env);
+			case "drafts":
+				return this.handleDrafts(interaction, userId, startTime, ctx, env);
+			case "new":
+				return this.handleNew(userId);
 			default:
 				throw new ValidationError(
-					`Unknown subcommand: ${subcommand}. Use: create, list, or search`,
+					`Unknown subcommand: ${subcommand}. Use: create, new, list, search, view, or drafts`,
 				);
 		}
 	}
 
 	override async handleAutocomplete(
 		interaction: APIApplicationCommandAutocompleteInteraction,
+		ctx?: ExecutionContext,
 	): Promise<APIInteractionResponse> {
 		const subcommand = this.getSubcommandName(interaction.data.options);
+		const userId =
+			interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
 
 		if (subcommand === "create") {
 			const focusedOption = this.getFocusedOption(interaction.data.options);
 
-			if (focusedOption?.name === "repositories") {
+			if (focusedOption && isRepositoryOption(focusedOption.name)) {
+				const value = (focusedOption as APIApplicationCommandInteractionDataStringOption).value;
+				const selected = this.getSelectedRepositories(interaction, focusedOption.name);
+				return this.handleRepositoriesAutocomplete(
+					value,
+					selected,
+					userId,
+					interaction.channel,
+					ctx,
+				);
+			}
+			if (focusedOption?.name === "agent") {
+				const value = (focusedOption as APIApplicationCommandInteractionDataStringOption).value;
+				return this.handleAgentsAutocomplete(value, userId, interaction.guild_id);
+			}
+		}
+
+		if (subcommand === "list") {
+			const focusedOption = this.getFocusedOption(interaction.data.options);
+
+			if (focusedOption?.name === "repository") {
 				const value = (focusedOption as APIApplicationCommandInteractionDataStringOption).value;
-				return this.handleRepositoriesAutocomplete(value);
+				return this.handleRepositoriesAutocomplete(value, [], userId, undefined, ctx);
 			}
 			if (focusedOption?.name === "agent") {
 				const value = (focusedOption as APIApplicationCommandInteractionDataStringOption).value;
-				return this.handleAgentsAutocomplete(value);
+				return this.handleAgentsAutocomplete(value, userId, interaction.guild_id);
+			}
+		}
+
+		if (subcommand === "view") {
+			const focusedOption = this.getFocusedOption(interaction.data.options);
+
+			if (focusedOption?.name === "id") {
+				const value = (focusedOption as APIApplicationCommandInteractionDataStringOption).value;
+				return this.handleTaskIdAutocomplete(value);
 			}
 		}
 
@@ -138,206 +311,1470 @@ export class TaskController extends BaseController {
 			interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
 		const applicationId = env?.DISCORD_APPLICATION_ID;
 		const interactionToken = interaction.token;
+		// Components run with the clicker's credentials, so only the user the
+		// message belongs to may change it. Others get a private copy of results.
+		// Messages without an owner (not created by an interaction) belong to no one.
+		const ownerId = getMessageOwnerId(interaction.message);
+		const isOwner = ownerId !== undefined && ownerId === userId;
 
 		if (customId.startsWith("task_list_")) {
-			const parts = customId.split("_");
-			const page = parseInt(parts[2] ?? "");
+			const button = parsePageCustomId(customId);
+			const state = button?.kind === "list"
+				? await this.getPaginationState(button.stateId, "list")
+				: null;
 
-			if (isNaN(page)) {
-				return this.createErrorResponse("Invalid page number");
+			if (!button || !state) {
+				return this.createErrorResponse(STALE_RESULTS_MESSAGE);
 			}
 
-			const params: ListTasksParams = { page, limit: 10 };
+			let request: TaskListRequest;
+			try {
+				const pageSizes = getListPageSizes(state.options);
+				request = {
+					params: validateListTasksParams(
+						{ ...state.options, page: button.page, limit: pageSizes[button.view] },
+						this.temboUserId,
+					),
+					view: button.view,
+					pageSizes,
+					state: { id: state.id },
+				};
+			} catch (error) {
+				return this.handleError(error, "task list", userId);
+			}
 
 			if (ctx && applicationId) {
 				ctx.waitUntil(
 					this.processTaskList(
-						params,
+						request,
 						userId,
-						false, // Not ephemeral for component updates
+						!isOwner,
 						Date.now(),
 						applicationId,
 						interactionToken,
 					),
 				);
-				return this.createDeferredUpdateResponse();
+				return isOwner
+					? this.createDeferredUpdateResponse()
+					: {
+						type: InteractionResponseType.ChannelMessageWithSource,
+						data: { content: "🔄 Loading your tasks...", flags: 64 },
+					};
 			}
 
 			return this.generateTaskListResponse(
+				request,
+				userId,
+				!isOwner,
+				Date.now(),
+				isOwner,
+			);
+		}
+
+		if (customId.startsWith("task_search_")) {
+			const button = parsePageCustomId(customId);
+			const state = button?.kind === "search"
+				? await this.getPaginationState(button.stateId, "search")
+				: null;
+
+			if (!button || !state) {
+				return this.createErrorResponse(STALE_RESULTS_MESSAGE);
+			}
+
+			let params: SearchTasksParams;
+			try {
+				params = validateSearchTasksParams({ ...state.options, page: button.page });
+			} catch (error) {
+				return this.handleError(error, "task search", userId);
+			}
+			const pageState = { id: state.id };
+
+			if (ctx && applicationId) {
+				ctx.waitUntil(
+					this.processTaskSearch(
+						params,
+						pageState,
+						userId,
+						!isOwner,
+						Date.now(),
+						applicationId,
+						interactionToken,
+					),
+				);
+				return isOwner
+					? this.createDeferredUpdateResponse()
+					: {
+						type: InteractionResponseType.ChannelMessageWithSource,
+						data: { content: `🔍 Searching for "${params.query}"...`, flags: 64 },
+					};
+			}
+
+			return this.generateSearchResponse(
 				params,
+				pageState,
 				userId,
-				false, 
+				!isOwner,
 				Date.now(),
-				true, 
+				isOwner,
+			);
+		}
+
+		if (customId === "task_select") {
+			const data = interaction.data as APIMessageStringSelectInteractionData;
+			const taskId = data.values[0];
+
+			if (!taskId) {
+				return this.createErrorResponse("No task selected");
+			}
+
+			if (ctx && applicationId) {
+				ctx.waitUntil(
+					this.processTaskView(
+						taskId,
+						userId,
+						true, // Details and actions are private to the clicker
+						Date.now(),
+						applicationId,
+						interactionToken,
+					),
+				);
+				return {
+					type: InteractionResponseType.ChannelMessageWithSource,
+					data: {
+						content: `🔎 Loading task \`${taskId}\`...`,
+						flags: 64,
+					},
+				};
+			}
+
+			const task = await this.getTemboService().getTask(taskId);
+			return this.createEmbedResponse(
+				[this.buildTaskDetailEmbed(task)],
+				true,
+				[this.buildTaskActionRow(task)],
+			);
+		}
+
+		// Everything below acts on the owner's behalf
+		if (!isOwner) {
+			return this.createErrorResponse(
+				ownerId
+					? `Only <@${ownerId}> can use these controls. Run the command yourself to get your own.`
+					: "These controls can't be used here. Run the command yourself to get your own.",
+			);
+		}
+
+		if (
+			customId === MESSAGE_TASK_REPOSITORY_SELECT_ID ||
+			customId === MESSAGE_TASK_DEFAULTS_BUTTON_ID
+		) {
+			// The prompt travels in the embed of the message holding the select menu
+			const prompt = validatePrompt(
+				interaction.message.embeds[0]?.description,
+				MODAL_PROMPT_MAX_LENGTH,
+			);
+			const defaults = await resolveDefaults(this.taskDefaultsService, userId, interaction.guild_id);
+			const allowedRepositories = await getAllowedRepositories(
+				this.channelRepositoryService,
+				interaction.channel,
+			);
+			const repositories = customId === MESSAGE_TASK_REPOSITORY_SELECT_ID
+				? (interaction.data as APIMessageStringSelectInteractionData).values.join(",")
+				: undefined;
+			const agentCatalog = await getAgentCatalog(this.agentCatalogService, interaction.guild_id);
+			const params: CreateTaskParams = {
+				prompt,
+				agent: resolveAgent(undefined, defaults, agentCatalog),
+				repositories: resolveRepositories(repositories, defaults, allowedRepositories),
+				branch: defaults.branch,
+			};
+			await assertRepositoryAccess(
+				this.permissionPolicyService,
+				interaction,
+				getComponentCommandPath(customId) ?? "task",
+				params.repositories,
+			);
+
+			logger.info("Processing task create from message", {
+				userId,
+				promptLength: params.prompt.length,
+				repositoryCount: params.repositories.length,
+			});
+
+			if (ctx && applicationId) {
+				ctx.waitUntil(
+					this.processTaskCreate(
+						params,
+						userId,
+						true,
+						Date.now(),
+						applicationId,
+						interactionToken,
+						{
+							guildId: interaction.guild_id ?? null,
+							channelId: interaction.channel?.id ?? null,
+						},
+					),
+				);
+				return {
+					type: InteractionResponseType.UpdateMessage,
+					data: {
+						content: "🚀 Creating your task...",
+						embeds: [],
+						components: [],
+					},
+				};
+			}
+
+			await assertRepositoriesExist(this.getTemboService(), params.repositories);
+			const task = await this.getTemboService().createTask(params);
+			await this.recordSelections(userId, params);
+			return this.createUpdateMessageResponse([this.buildTaskCreatedEmbed(task, params)]);
+		}
+
+		if (customId === MESSAGE_TASK_EDIT_BUTTON_ID) {
+			return this.buildCreateModal(
+				MESSAGE_TASK_MODAL_ID,
+				interaction.message.embeds[0]?.description,
+			);
+		}
+
+		if (customId === TASK_DRAFT_REFRESH_ID) {
+			const guildId = interaction.guild_id ?? null;
+
+			if (ctx && applicationId) {
+				ctx.waitUntil(
+					this.processDraftsUpdate(userId, guildId, applicationId, interactionToken),
+				);
+				return this.createDeferredUpdateResponse();
+			}
+
+			return {
+				type: InteractionResponseType.UpdateMessage,
+				data: await this.buildDraftsMessage(userId, guildId),
+			};
+		}
+
+		return super.handleComponent(interaction, ctx, env);
+	}
+
+	override async handleModalSubmit(
+		interaction: APIModalSubmitInteraction,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const customId = interaction.data.custom_id;
+		const userId =
+			interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+		const interactionToken = interaction.token;
+
+		if (customId === TASK_CREATE_MODAL_ID || customId === MESSAGE_TASK_MODAL_ID) {
+			const startTime = Date.now();
+			const defaults = await resolveDefaults(this.taskDefaultsService, userId, interaction.guild_id);
+			const allowedRepositories = await getAllowedRepositories(
+				this.channelRepositoryService,
+				interaction.channel,
+			);
+			const agentCatalog = await getAgentCatalog(this.agentCatalogService, interaction.guild_id);
+			const params = validateModalCreateTaskParams(
+				this.getModalValues(interaction),
+				defaults,
+				allowedRepositories,
+				agentCatalog,
+			);
+			await assertRepositoryAccess(
+				this.permissionPolicyService,
+				interaction,
+				getComponentCommandPath(customId) ?? "task",
+				params.repositories,
+			);
+
+			logger.info("Processing task create modal", {
+				userId,
+				promptLength: params.prompt.length,
+				agent: params.agent,
+				repositoryCount: params.repositories.length,
+			});
+
+			if (ctx && applicationId) {
+				ctx.waitUntil(
+					this.processTaskCreate(
+						params,
+						userId,
+						false,
+						startTime,
+						applicationId,
+						interactionToken,
+						{
+							guildId: interaction.guild_id ?? null,
+							channelId: interaction.channel?.id ?? null,
+						},
+					),
+				);
+				return {
+					type: InteractionResponseType.ChannelMessageWithSource,
+					data: {
+						content: "🚀 Creating your task...",
+					},
+				};
+			}
+
+			await assertRepositoriesExist(this.getTemboService(), params.repositories);
+			const task = await this.getTemboService().createTask(params);
+			await this.recordSelections(userId, params);
+			logger.command("task new", userId, true, Date.now() - startTime);
+			return this.createEmbedResponse([this.buildTaskCreatedEmbed(task, params)]);
+		}
+
+		return super.handleModalSubmit(interaction, ctx, env);
+	}
+
+	/**
+	 * Handles the "Create Tembo task" message context menu command.
+	 * Replies privately with the pre-filled prompt and a repository picker.
+	 */
+	async handleMessageCommand(
+		interaction: APIMessageApplicationCommandInteraction,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const userId =
+			interaction.member?.user?.id ?? interaction.user?.id ?? "unknown";
+		const startTime = Date.now();
+		const message = interaction.data.resolved.messages[interaction.data.target_id];
+
+		if (!message) {
+			throw new ValidationError("Could not read the selected message");
+		}
+
+		const prompt = buildPromptFromMessage(
+			message,
+			interaction.guild_id,
+			MODAL_PROMPT_MAX_LENGTH,
+		);
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+
+		logger.info("Processing create task from message command", {
+			userId,
+			messageId: message.id,
+			promptLength: prompt.length,
+		});
+
+		const defaults = await resolveDefaults(this.taskDefaultsService, userId, interaction.guild_id);
+		const allowedRepositories = await getAllowedRepositories(
+			this.channelRepositoryService,
+			interaction.channel,
+		);
+
+		if (ctx && applicationId) {
+			ctx.waitUntil(
+				this.processMessagePrompt(
+					prompt,
+					defaults,
+					allowedRepositories,
+					userId,
+					startTime,
+					applicationId,
+					interaction.token,
+				),
+			);
+			return {
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: "📦 Loading your repositories...",
+					flags: 64,
+				},
+			};
+		}
+
+		const repositories = this.filterAllowedRepositories(
+			(await this.getTemboService().listRepositories()).codeRepositories,
+			allowedRepositories,
+		);
+		return this.createEmbedResponse(
+			[this.buildMessagePromptEmbed(prompt, repositories.length)],
+			true,
+			this.buildMessagePromptComponents(repositories, defaults),
+		);
+	}
+
+	private async processMessagePrompt(
+		prompt: string,
+		defaults: TaskDefaults,
+		allowedRepositories: string[],
+		userId: string,
+		startTime: number,
+		applicationId: string,
+		interactionToken: string,
+	): Promise<void> {
+		try {
+			const repositories = this.filterAllowedRepositories(
+				(await this.getTemboService().listRepositories()).codeRepositories,
+				allowedRepositories,
 			);
+			const duration = Date.now() - startTime;
+			logger.command("task from message", userId, true, duration);
+
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: "",
+				embeds: [this.buildMessagePromptEmbed(prompt, repositories.length)],
+				components: this.buildMessagePromptComponents(repositories, defaults),
+				flags: 64,
+			});
+		} catch (error) {
+			const duration = Date.now() - startTime;
+			logger.command("task from message", userId, false, duration);
+			logger.error("Failed to load repositories for message task", error, { userId });
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: formatErrorForUser(error),
+				flags: 64,
+			});
+		}
+	}
+
+	private buildMessagePromptEmbed(prompt: string, repositoryCount: number): APIEmbed {
+		return {
+			title: "📝 New Task from Message",
+			description: prompt,
+			color: 0x5865f2,
+			footer: {
+				text: repositoryCount > 25
+					? `Showing 25 of ${repositoryCount} repositories - use "Edit in form" to enter others`
+					: "Pick the repositories to create the task, or edit the prompt first",
+			},
+		};
+	}
+
+	private buildMessagePromptComponents(
+		repositories: TemboRepository[],
+		defaults: TaskDefaults,
+	): APIActionRowComponent<APIComponentInMessageActionRow>[] {
+		const components: APIActionRowComponent<APIComponentInMessageActionRow>[] = [];
+		// Select option values are capped at 100 characters - longer URLs need the form
+		const options = repositories
+			.filter((repo) => repo.url.length <= 100)
+			.slice(0, 25)
+			.map((repo) => ({
+				label: (repo.name || repo.url).substring(0, 100),
+				value: repo.url,
+				description: repo.url,
+				default: defaults.repositories?.includes(repo.url) ?? false,
+			}));
+
+		if (options.length > 0) {
+			components.push({
+				type: ComponentType.ActionRow,
+				components: [
+					{
+						type: ComponentType.StringSelect,
+						custom_id: MESSAGE_TASK_REPOSITORY_SELECT_ID,
+						placeholder: "Select repositories…",
+						min_values: 1,
+						max_values: options.length,
+						options,
+					},
+				],
+			});
+		}
+
+		components.push({
+			type: ComponentType.ActionRow,
+			components: [
+				...(defaults.repositories?.length
+					? [
+						{
+							type: ComponentType.Button as const,
+							custom_id: MESSAGE_TASK_DEFAULTS_BUTTON_ID,
+							label: "Use my defaults",
+							emoji: { name: "⚙️" },
+							style: ButtonStyle.Primary as const,
+						},
+					]
+					: []),
+				{
+					type: ComponentType.Button,
+					custom_id: MESSAGE_TASK_EDIT_BUTTON_ID,
+					label: "Edit in form",
+					emoji: { name: "✏️" },
+					style: ButtonStyle.Secondary,
+				},
+			],
+		});
+
+		return components;
+	}
+
+	/**
+	 * Repositories already picked in the other repository options, so
+	 * autocomplete doesn't suggest them twice
+	 */
+	private getSelectedRepositories(
+		interaction: APIApplicationCommandAutocompleteInteraction,
+		focusedName: string,
+	): string[] {
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		return [REPOSITORIES_OPTION, ...EXTRA_REPOSITORY_OPTIONS]
+			.filter((name) => name !== focusedName)
+			.map((name) => optionsMap[name])
+			.filter((value): value is string => typeof value === "string" && value.trim() !== "")
+			.flatMap((value) => value.split(",").map((repo) => repo.trim()));
+	}
+
+	private async handleRepositoriesAutocomplete(
+		currentValue: string,
+		selectedRepositories: string[],
+		userId: string,
+		channel: InteractionChannel | undefined,
+		ctx?: ExecutionContext,
+	): Promise<APIInteractionResponse> {
+		try {
+			const recentValues = await this.getRecentSelections(userId, "repository");
+
+			// Channels bound to repositories only suggest those repositories
+			const allowedRepositories = await getAllowedRepositories(
+				this.channelRepositoryService,
+				channel,
+			);
+			if (allowedRepositories.length > 0) {
+				const available = allowedRepositories.filter(
+					(url) => !isRepositoryAllowed(url, selectedRepositories),
+				);
+				return {
+					type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+					data: {
+						choices: getBoundRepositoryChoices(available, currentValue, recentValues),
+					},
+				};
+			}
+
+			const result = await this.listRepositoriesForAutocomplete(ctx);
+			const available = result.codeRepositories.filter(
+				(repo) => !isRepositoryAllowed(repo.url, selectedRepositories),
+			);
+
+			return {
+				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+				data: {
+					choices: getRepositoryChoices(available, currentValue, recentValues),
+				},
+			};
+		} catch (error) {
+			logger.error("Failed to autocomplete repositories", error);
+			return {
+				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+				data: { choices: [] },
+			};
+		}
+	}
+
+	private async handleAgentsAutocomplete(
+		currentValue: string,
+		userId: string,
+		guildId: string | undefined,
+	): Promise<APIInteractionResponse> {
+		const recentValues = await this.getRecentSelections(userId, "agent");
+		const agents =
+			(await getAvailableAgents(this.agentCatalogService, guildId)) ?? getBuiltInCatalog();
+
+		return {
+			type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+			data: {
+				choices: getAgentChoices(agents, currentValue, recentValues),
+			},
+		};
+	}
+
+	private async handleTaskIdAutocomplete(
+		currentValue: string,
+	): Promise<APIInteractionResponse> {
+		try {
+			const result = await this.getTemboService().listTasks({ page: 1, limit: 25 });
+			const search = currentValue.toLowerCase();
+
+			const filtered = result.issues
+				.filter((task) =>
+					task.id.toLowerCase().includes(search) ||
+					(task.title ?? "").toLowerCase().includes(search)
+				)
+				.slice(0, 25)
+				.map((task) => {
+					const title = task.title || task.prompt?.substring(0, 60) || "Untitled Task";
+					return {
+						name: `${getStatusEmoji(task.status)} ${title} (${task.id})`.substring(0, 100),
+						value: task.id,
+					};
+				});
+
+			return {
+				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+				data: {
+					choices: filtered,
+				},
+			};
+		} catch (error) {
+			logger.error("Failed to autocomplete task ids", error);
+			return {
+				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+				data: { choices: [] },
+			};
+		}
+	}
+
+	private async handleCreate(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+		startTime: number,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		const defaults = await resolveDefaults(this.taskDefaultsService, userId, interaction.guild_id);
+		const allowedRepositories = await getAllowedRepositories(
+			this.channelRepositoryService,
+			interaction.channel,
+		);
+		const agentCatalog = await getAgentCatalog(this.agentCatalogService, interaction.guild_id);
+		const params = validateCreateTaskParams(
+			optionsMap,
+			defaults,
+			allowedRepositories,
+			agentCatalog,
+		);
+		await assertRepositoryAccess(
+			this.permissionPolicyService,
+			interaction,
+			"task create",
+			params.repositories,
+		);
+		const ephemeral = this.getEphemeralFlag(interaction.data.options);
+		const thread = validateThreadOption(optionsMap.thread, interaction.channel?.type, ephemeral);
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+		const interactionToken = interaction.token;
+
+		logger.info("Processing task create command", {
+			userId,
+			promptLength: params.prompt.length,
+			agent: params.agent,
+			repositoryCount: params.repositories?.length ?? 0,
+			ephemeral,
+			thread,
+		});
+
+		if (ctx && applicationId) {
+			ctx.waitUntil(
+				this.processTaskCreate(
+					params,
+					userId,
+					ephemeral,
+					startTime,
+					applicationId,
+					interactionToken,
+					{
+						guildId: interaction.guild_id ?? null,
+						channelId: interaction.channel?.id ?? null,
+						thread: thread && env ? { botToken: env.DISCORD_BOT_TOKEN } : undefined,
+					},
+				),
+			);
+			// Return initial loading response
+			return {
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: "🚀 Creating your task...",
+					flags: ephemeral ? 64 : undefined,
+				},
+			};
+		}
+
+		await assertRepositoriesExist(this.getTemboService(), params.repositories);
+		const task = await this.getTemboService().createTask(params);
+		await this.recordSelections(userId, params);
+		const duration = Date.now() - startTime;
+		logger.command("task create", userId, true, duration);
+
+		return this.createEmbedResponse([this.buildTaskCreatedEmbed(task, params)], ephemeral);
+	}
+
+	private handleNew(userId: string): APIInteractionResponse {
+		logger.info("Opening task create modal", { userId });
+
+		return this.buildCreateModal(TASK_CREATE_MODAL_ID);
+	}
+
+	private buildCreateModal(customId: string, prompt?: string): APIInteractionResponse {
+		return {
+			type: InteractionResponseType.Modal,
+			data: {
+				custom_id: customId,
+				title: "Create Tembo Task",
+				components: [
+					{
+						type: ComponentType.ActionRow,
+						components: [
+							{
+								type: ComponentType.TextInput,
+								custom_id: "prompt",
+								label: "Prompt",
+								style: TextInputStyle.Paragraph,
+								placeholder: "Describe the task. Markdown, code blocks and lists are fine.",
+								min_length: 1,
+								max_length: MODAL_PROMPT_MAX_LENGTH,
+								required: true,
+								value: prompt,
+							},
+						],
+					},
+					{
+						type: ComponentType.ActionRow,
+						components: [
+							{
+								type: ComponentType.TextInput,
+								custom_id: "repositories",
+								label: "Repositories (comma-separated URLs)",
+								style: TextInputStyle.Short,
+								placeholder: "Leave empty to use your /config defaults",
+								required: false,
+							},
+						],
+					},
+					{
+						type: ComponentType.ActionRow,
+						components: [
+							{
+								type: ComponentType.TextInput,
+								custom_id: "branch",
+								label: "Branch",
+								style: TextInputStyle.Short,
+								placeholder: "main",
+								required: false,
+							},
+						],
+					},
+					{
+						type: ComponentType.ActionRow,
+						components: [
+							{
+								type: ComponentType.TextInput,
+								custom_id: "agent",
+								label: "Agent",
+								style: TextInputStyle.Short,
+								placeholder: "claudeCode:sonnet-4-5",
+								required: false,
+							},
+						],
+					},
+				],
+			},
+		};
+	}
+
+	private async processTaskCreate(
+		params: CreateTaskParams,
+		userId: string,
+		ephemeral: boolean,
+		startTime: number,
+		applicationId: string,
+		interactionToken: string,
+		location: TaskLocation,
+	): Promise<void> {
+		try {
+			await assertRepositoriesExist(this.getTemboService(), params.repositories);
+			const task = await this.getTemboService().createTask(params);
+			const duration = Date.now() - startTime;
+			logger.command("task create", userId, true, duration);
+
+			const message = await updateInteractionResponse(applicationId, interactionToken, {
+				content: "",
+				embeds: [this.buildTaskCreatedEmbed(task, params)],
+				flags: ephemeral ? 64 : undefined,
+			});
+
+			// Ephemeral responses have no public message to reply to
+			const messageId = ephemeral ? null : message?.id ?? null;
+			let target: TaskUpdateTarget = {
+				channelId: messageId ? location.channelId : null,
+				messageId,
+			};
+
+			if (location.thread && location.channelId && messageId) {
+				target = await this.openTaskThread(
+					task,
+					params,
+					userId,
+					{ channelId: location.channelId, messageId },
+					location.thread.botToken,
+					applicationId,
+					interactionToken,
+				) ?? target;
+			}
+
+			await this.watchTask(task, userId, location.guildId, target);
+			if (params.queueRightAway === false) {
+				await this.recordDraft(task, userId, location.guildId, target);
+			}
+			await this.recordSelections(userId, params);
+		} catch (error) {
+			const duration = Date.now() - startTime;
+			logger.command("task create", userId, false, duration);
+			logger.error("Failed to process task create in background", error, {
+				userId,
+				command: "task create",
+			});
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: formatErrorForUser(error),
+				flags: 64,
+			});
+		}
+	}
+
+	private filterAllowedRepositories(
+		repositories: TemboRepository[],
+		allowedRepositories: string[],
+	): TemboRepository[] {
+		if (allowedRepositories.length === 0) {
+			return repositories;
+		}
+
+		return repositories.filter((repo) => isRepositoryAllowed(repo.url, allowedRepositories));
+	}
+
+	/**
+	 * Looks up what the user picked recently to rank autocomplete choices.
+	 * Ranking is cosmetic, so a failed lookup just means no boost.
+	 */
+	private async getRecentSelections(userId: string, kind: SelectionKind): Promise<string[]> {
+		if (!this.recentSelectionService) {
+			return [];
+		}
+
+		try {
+			return await this.recentSelectionService.getRecentValues(userId, kind);
+		} catch (error) {
+			logger.warn("Failed to get recent selections", { userId, kind, error });
+			return [];
+		}
+	}
+
+	/**
+	 * Remembers the repositories and agent a task was created with
+	 */
+	private async recordSelections(userId: string, params: CreateTaskParams): Promise<void> {
+		if (!this.recentSelectionService) {
+			return;
+		}
+
+		try {
+			await this.recentSelectionService.recordSelections(
+				userId,
+				"repository",
+				params.repositories,
+			);
+			if (params.agent) {
+				await this.recentSelectionService.recordSelections(userId, "agent", [params.agent]);
+			}
+		} catch (error) {
+			logger.warn("Failed to record recent selections", { userId, error });
+		}
+	}
+
+	/**
+	 * Opens a public thread on the task's response message and posts the task
+	 * summary in it, so the task's updates and discussion stay out of the channel.
+	 * @param message The public response message the thread starts from
+	 * @returns Where status updates go, or null to keep them in the channel
+	 */
+	private async openTaskThread(
+		task: TemboTask,
+		params: CreateTaskParams,
+		userId: string,
+		message: { channelId: string; messageId: string },
+		botToken: string,
+		applicationId: string,
+		interactionToken: string,
+	): Promise<TaskUpdateTarget | null> {
+		const thread = await startThreadFromMessage(
+			message.channelId,
+			message.messageId,
+			botToken,
+			task.title || params.prompt,
+		);
+
+		if (!thread.success || !thread.threadId) {
+			logger.warn("Failed to open task thread", { taskId: task.id, error: thread.error });
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content:
+					"⚠️ Couldn't open a thread for this task, so its updates will be posted here. " +
+					"The bot needs the **Create Public Threads** permission in this channel.",
+			});
+			return null;
+		}
+
+		const summary = await sendChannelMessage(thread.threadId, botToken, {
+			content: `<@${userId}>`,
+			embeds: [this.buildTaskThreadEmbed(task, params)],
+			allowed_mentions: { users: [userId] },
+		});
+		if (!summary.success) {
+			// The thread exists, so updates still go there
+			logger.warn("Failed to post task summary in thread", {
+				taskId: task.id,
+				threadId: thread.threadId,
+				error: summary.error,
+			});
+		}
+
+		await updateInteractionResponse(applicationId, interactionToken, {
+			embeds: [this.buildTaskCreatedEmbed(task, params, thread.threadId)],
+		});
+
+		return { channelId: thread.threadId, messageId: summary.messageId ?? null };
+	}
+
+	/**
+	 * Registers a task with the status poller
+	 */
+	private async watchTask(
+		task: TemboTask,
+		userId: string,
+		guildId: string | null,
+		target: TaskUpdateTarget,
+	): Promise<void> {
+		if (!this.taskWatchService || !task.id) {
+			return;
+		}
+
+		try {
+			await this.taskWatchService.watchTask({
+				taskId: task.id,
+				discordUserId: userId,
+				guildId,
+				channelId: target.channelId,
+				messageId: target.messageId,
+				lastStatus: task.status ?? null,
+			});
+		} catch (error) {
+			// Status updates are best-effort - the task itself was created
+			logger.warn("Failed to watch task", { taskId: task.id, error });
+		}
+	}
+
+	/**
+	 * @param threadId The task's thread, when updates are posted there instead
+	 */
+	private buildTaskCreatedEmbed(
+		task: TemboTask,
+		params: CreateTaskParams,
+		threadId?: string,
+	): APIEmbed {
+		const repoList = params.repositories.length <= 3
+			? params.repositories.map(r => `• ${r}`).join("\n")
+			: `• ${params.repositories[0]}\n• ${params.repositories[1]}\n• ${params.repositories[2]}\n• ...and ${params.repositories.length - 3} more`;
+		const prompt = params.prompt;
+
+		return {
+			title: "✅ Task Created Successfully!",
+			url: getTaskUrl(task.id),
+			description:
+				`**${task.title || "Untitled Task"}**\n\n` +
+				`${prompt.substring(0, 200)}${prompt.length > 200 ? "..." : ""}`,
+			fields: [
+				{ name: "Task ID", value: `\`${task.id}\``, inline: true },
+				{
+					name: "Status",
+					value: `${getStatusEmoji(task.status)} ${task.status ?? "Unknown"}`,
+					inline: true,
+				},
+				{ name: "Agent", value: params.agent || "Default (Claude Code)", inline: true },
+				{
+					name: `Repositories (${params.repositories.length})`,
+					value: repoList,
+					inline: false,
+				},
+				...(params.branch
+					? [{ name: "Branch", value: params.branch, inline: true }]
+					: []),
+				...(params.queueRightAway !== undefined
+					? [{ name: "Queue Immediately", value: params.queueRightAway ? "Yes" : "No", inline: true }]
+					: []),
+				{
+					name: "⏳ Next Steps",
+					value:
+						`• [Open in Tembo](${getTaskUrl(task.id)})\n` +
+						`• Use \`/task view id:${task.id}\` to check progress\n` +
+						(params.queueRightAway === false
+							? "• It won't start until you queue it in Tembo; `/task drafts` lists it\n"
+							: "") +
+						(threadId
+							? `• Follow the task in <#${threadId}>`
+							: "• You'll get a message here when the task starts, finishes or fails"),
+					inline: false,
+				},
+			],
+			color: 0x00ff00,
+			timestamp: task.createdAt,
+		};
+	}
+
+	/**
+	 * Summary posted at the top of a task's thread, with the full prompt
+	 */
+	private buildTaskThreadEmbed(task: TemboTask, params: CreateTaskParams): APIEmbed {
+		const repositories = params.repositories.map((repo) => `• ${repo}`).join("\n");
+
+		return {
+			title: `📋 ${task.title || "Untitled Task"}`,
+			url: getTaskUrl(task.id),
+			description: params.prompt.substring(0, 4000),
+			fields: [
+				{ name: "Task ID", value: `\`${task.id}\``, inline: true },
+				{ name: "Agent", value: params.agent || "Default (Claude Code)", inline: true },
+				...(params.branch
+					? [{ name: "Branch", value: params.branch, inline: true }]
+					: []),
+				{
+					name: `Repositories (${params.repositories.length})`,
+					value: repositories.length > 1024 ? `${repositories.substring(0, 1021)}...` : repositories,
+					inline: false,
+				},
+			],
+			color: 0x5865f2,
+			footer: {
+				text: "Status updates for this task are posted in this thread.",
+			},
+			timestamp: task.createdAt,
+		};
+	}
+
+	private async handleView(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+		startTime: number,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const optionsMap = this.getOptionsMap(interaction.data.options);
+		const taskId = validateTaskId(optionsMap.id);
+		const ephemeral = this.getEphemeralFlag(interaction.data.options);
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+		const interactionToken = interaction.token;
+
+		logger.info("Processing task view command", { userId, taskId, ephemeral });
+
+		if (ctx && applicationId) {
+			ctx.waitUntil(
+				this.processTaskView(
+					taskId,
+					userId,
+					ephemeral,
+					startTime,
+					applicationId,
+					interactionToken,
+				),
+			);
+			// Return initial loading response
+			return {
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: `🔎 Loading task \`${taskId}\`...`,
+					flags: ephemeral ? 64 : undefined,
+				},
+			};
+		}
+
+		const task = await this.getTemboService().getTask(taskId);
+		const duration = Date.now() - startTime;
+		logger.command("task view", userId, true, duration);
+
+		return this.createEmbedResponse(
+			[this.buildTaskDetailEmbed(task)],
+			ephemeral,
+			[this.buildTaskActionRow(task)],
+		);
+	}
+
+	private async handleDrafts(
+		interaction: APIChatInputApplicationCommandInteraction,
+		userId: string,
+		startTime: number,
+		ctx?: ExecutionContext,
+		env?: Env,
+	): Promise<APIInteractionResponse> {
+		const ephemeral = this.getEphemeralFlag(interaction.data.options);
+		const guildId = interaction.guild_id ?? null;
+		const applicationId = env?.DISCORD_APPLICATION_ID;
+		const interactionToken = interaction.token;
+
+		logger.info("Processing task drafts command", { userId, guildId, ephemeral });
+
+		if (ctx && applicationId) {
+			ctx.waitUntil(
+				this.processTaskDrafts(
+					userId,
+					guildId,
+					ephemeral,
+					startTime,
+					applicationId,
+					interactionToken,
+				),
+			);
+			// Return initial loading response
+			return {
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: "📝 Loading your drafts...",
+					flags: ephemeral ? 64 : undefined,
+				},
+			};
+		}
+
+		const message = await this.buildDraftsMessage(userId, guildId);
+		logger.command("task drafts", userId, true, Date.now() - startTime);
+
+		return {
+			type: InteractionResponseType.ChannelMessageWithSource,
+			data: { ...message, flags: ephemeral ? 64 : undefined },
+		};
+	}
+
+	private async processTaskDrafts(
+		userId: string,
+		guildId: string | null,
+		ephemeral: boolean,
+		startTime: number,
+		applicationId: string,
+		interactionToken: string,
+	): Promise<void> {
+		try {
+			const message = await this.buildDraftsMessage(userId, guildId);
+			logger.command("task drafts", userId, true, Date.now() - startTime);
+
+			await updateInteractionResponse(applicationId, interactionToken, {
+				...message,
+				flags: ephemeral ? 64 : undefined,
+			});
+		} catch (error) {
+			logger.command("task drafts", userId, false, Date.now() - startTime);
+			logger.error("Failed to process task drafts in background", error, { userId });
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: formatErrorForUser(error),
+				flags: 64,
+			});
+		}
+	}
+
+	/**
+	 * Redraws the /task drafts list in place after its Refresh button
+	 */
+	private async processDraftsUpdate(
+		userId: string,
+		guildId: string | null,
+		applicationId: string,
+		interactionToken: string,
+	): Promise<void> {
+		try {
+			await updateInteractionResponse(
+				applicationId,
+				interactionToken,
+				await this.buildDraftsMessage(userId, guildId),
+			);
+		} catch (error) {
+			logger.error("Failed to update task drafts in background", error, { userId });
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: formatErrorForUser(error),
+				embeds: [],
+				components: [],
+			});
+		}
+	}
+
+	/**
+	 * Loads the listed drafts and drops the ones queued since, e.g. from Tembo's
+	 * web app. That check is best-effort: if tasks can't be listed, all drafts show.
+	 */
+	private async getListedDrafts(
+		userId: string,
+		guildId: string | null,
+	): Promise<TaskDraftRecord[]> {
+		const draftService = this.getTaskDraftService();
+		const drafts = await draftService.getDrafts(userId, guildId);
+		if (drafts.length === 0) {
+			return drafts;
 		}
 
-		if (customId.startsWith("task_search_")) {
-			const parts = customId.split("_");
-			const page = parseInt(parts[2] ?? "");
-			const query = parts.slice(3).join("_");
+		let recentTasks: Map<string, TemboTask>;
+		try {
+			const list = await this.getTemboService().listTasks({ page: 1, limit: 100 });
+			recentTasks = new Map(list.issues.map((task) => [task.id, task]));
+		} catch (error) {
+			logger.warn("Skipping draft check, failed to list tasks", { userId, error });
+			return drafts;
+		}
 
-			if (isNaN(page)) {
-				return this.createErrorResponse("Invalid page number");
+		const pending: TaskDraftRecord[] = [];
+		for (const draft of drafts) {
+			if (wasQueuedSince(recentTasks.get(draft.taskId), draft.createdTimestamp)) {
+				await this.forgetDraft(draft.taskId);
+			} else {
+				pending.push(draft);
 			}
+		}
+		return pending;
+	}
 
-			if (!query) {
-				return this.createErrorResponse("Invalid search query");
-			}
+	/**
+	 * Lists drafts with a link to each one in Tembo, where it can be queued.
+	 * Tembo's API can only queue a task when it's created.
+	 */
+	private async buildDraftsMessage(userId: string, guildId: string | null): Promise<TaskMessage> {
+		const drafts = await this.getListedDrafts(userId, guildId);
 
-			const params: SearchTasksParams = { query, page, limit: 10 };
+		if (drafts.length === 0) {
+			return {
+				content: "📝 You have no drafts here. Create one with `/task create queue:false`.",
+				embeds: [],
+				components: [],
+			};
+		}
 
-			if (ctx && applicationId) {
-				ctx.waitUntil(
-					this.processTaskSearch(
-						params,
-						userId,
-						false, // Not ephemeral for component updates
-						Date.now(),
-						applicationId,
-						interactionToken,
-					),
-				);
-				return this.createDeferredUpdateResponse();
-			}
+		const total = await this.getTaskDraftService().countDrafts(userId, guildId);
+		const lines = drafts.map((draft, index) =>
+			`**${index + 1}.** ${(draft.title || "Untitled Task").substring(0, 80)} · ` +
+			`\`${draft.taskId}\` · drafted <t:${Math.floor(draft.createdTimestamp / 1000)}:R>`
+		);
 
-			return this.generateSearchResponse(
-				params,
-				userId,
-				false,
-				Date.now(),
-				true,
-			);
+		const openButtons = drafts.map((draft, index): APIComponentInMessageActionRow => ({
+			type: ComponentType.Button,
+			url: getTaskUrl(draft.taskId),
+			label: `Open #${index + 1}`,
+			style: ButtonStyle.Link,
+		}));
+		const rows: APIActionRowComponent<APIComponentInMessageActionRow>[] = [];
+		for (let i = 0; i < openButtons.length; i += 5) {
+			rows.push({ type: ComponentType.ActionRow, components: openButtons.slice(i, i + 5) });
 		}
+		rows.push({
+			type: ComponentType.ActionRow,
+			components: [
+				{
+					type: ComponentType.Button,
+					custom_id: TASK_DRAFT_REFRESH_ID,
+					label: "Refresh",
+					emoji: { name: "🔄" },
+					style: ButtonStyle.Secondary,
+				},
+			],
+		});
 
-		return super.handleComponent(interaction, ctx, env);
+		return {
+			content: "",
+			embeds: [
+				{
+					title: `📝 Drafts (${total})`,
+					description: lines.join("\n"),
+					color: 0x5865f2,
+					footer: {
+						text: total > drafts.length
+							? `Showing the oldest ${drafts.length} of ${total}. Queue these in Tembo to see the rest.`
+							: "Queue a draft in Tembo and its status updates are posted like a new task's",
+					},
+				},
+			],
+			components: rows,
+		};
 	}
 
-	private async handleRepositoriesAutocomplete(
-		currentValue: string,
-	): Promise<APIInteractionResponse> {
-		try {
-			const result = await this.getTemboService().listRepositories();
-			const repos = result.codeRepositories;
+	private getTaskDraftService(): TaskDraftService {
+		if (!this.taskDraftService) {
+			throw new Error("Task drafts are not available");
+		}
+		return this.taskDraftService;
+	}
 
-			const filtered = repos
-				.filter((repo) =>
-					repo.url.toLowerCase().includes(currentValue.toLowerCase()),
-				)
-				.slice(0, 21) 
-				.map((repo) => ({
-					name: repo.url,
-					value: repo.url,
-				}));
+	/**
+	 * Remembers an unqueued task for /task drafts. Best-effort like watches,
+	 * since the task itself was created.
+	 */
+	private async recordDraft(
+		task: TemboTask,
+		userId: string,
+		guildId: string | null,
+		target: TaskUpdateTarget,
+	): Promise<void> {
+		if (!this.taskDraftService || !task.id) {
+			return;
+		}
 
-			return {
-				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
-				data: {
-					choices: filtered,
-				},
-			};
+		try {
+			await this.taskDraftService.addDraft({
+				taskId: task.id,
+				discordUserId: userId,
+				guildId,
+				channelId: target.channelId,
+				messageId: target.messageId,
+				title: task.title || task.prompt?.substring(0, 100) || null,
+			});
 		} catch (error) {
-			logger.error("Failed to autocomplete repositories", error);
-			return {
-				type: InteractionResponseType.ApplicationCommandAutocompleteResult,
-				data: { choices: [] },
-			};
+			logger.warn("Failed to record task draft", { taskId: task.id, error });
 		}
 	}
 
-	private async handleAgentsAutocomplete(
-		currentValue: string,
-	): Promise<APIInteractionResponse> {
-		const filtered = AGENTS
-			.filter((agent) =>
-				agent.name.toLowerCase().includes(currentValue.toLowerCase()) ||
-				agent.value.toLowerCase().includes(currentValue.toLowerCase())
-			)
-			.slice(0, 25); 
+	/**
+	 * Drops a task from /task drafts once it's queued
+	 */
+	private async forgetDraft(taskId: string): Promise<void> {
+		if (!this.taskDraftService) {
+			return;
+		}
+
+		try {
+			await this.taskDraftService.removeDraft(taskId);
+		} catch (error) {
+			logger.warn("Failed to remove task draft", { taskId, error });
+		}
+	}
 
+	private buildTaskSelectRow(
+		tasks: TemboTask[],
+	): APIActionRowComponent<APIComponentInMessageActionRow> {
 		return {
-			type: InteractionResponseType.ApplicationCommandAutocompleteResult,
-			data: {
-				choices: filtered,
-			},
+			type: ComponentType.ActionRow,
+			components: [
+				{
+					type: ComponentType.StringSelect,
+					custom_id: "task_select",
+					placeholder: "Select a task to view…",
+					options: tasks.map((task) => ({
+						label: (task.title || task.prompt?.substring(0, 100) || "Untitled Task").substring(0, 100),
+						value: task.id,
+						description: `${task.status ?? "Unknown"} • ${task.id}`.substring(0, 100),
+					})),
+				},
+			],
 		};
 	}
 
-	private getFocusedOption(
-		options: APIApplicationCommandInteractionDataOption[] | undefined,
-	): APIApplicationCommandInteractionDataOption | undefined {
-		if (!options) return undefined;
-
-		for (const option of options) {
-			if (
-				option.type === ApplicationCommandOptionType.Subcommand &&
-				option.options
-			) {
-				for (const subOption of option.options) {
-					if ("focused" in subOption && subOption.focused === true) {
-						return subOption;
-					}
-				}
-			} else if ("focused" in option && option.focused === true) {
-				return option;
-			}
-		}
-		return undefined;
+	/**
+	 * Actions on a task's details. Re-queue and cancel belong here once
+	 * Tembo's API can do either; until then the web app is the only way.
+	 */
+	private buildTaskActionRow(
+		task: TemboTask,
+	): APIActionRowComponent<APIComponentInMessageActionRow> {
+		return {
+			type: ComponentType.ActionRow,
+			components: [
+				{
+					type: ComponentType.Button,
+					url: getTaskUrl(task.id),
+					label: "Open in Tembo",
+					style: ButtonStyle.Link,
+				},
+			],
+		};
 	}
 
-	private async handleCreate(
-		interaction: APIChatInputApplicationCommandInteraction,
-		ctx: ExecutionContext | undefined,
+	private async processTaskView(
+		taskId: string,
 		userId: string,
+		ephemeral: boolean,
 		startTime: number,
-	): Promise<APIInteractionResponse> {
-		const optionsMap = this.getOptionsMap(interaction.data.options);
-		const params = validateCreateTaskParams(optionsMap);
-		const ephemeral = this.getEphemeralFlag(interaction.data.options);
+		applicationId: string,
+		interactionToken: string,
+	): Promise<void> {
+		try {
+			const task = await this.getTemboService().getTask(taskId);
+			const duration = Date.now() - startTime;
+			logger.command("task view", userId, true, duration);
 
-		logger.info("Processing task create command", {
-			userId,
-			promptLength: params.prompt.length,
-			agent: params.agent,
-			repositoryCount: params.repositories?.length ?? 0,
-			ephemeral,
-		});
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: "",
+				embeds: [this.buildTaskDetailEmbed(task)],
+				components: [this.buildTaskActionRow(task)],
+				flags: ephemeral ? 64 : undefined,
+			});
+		} catch (error) {
+			logger.error("Failed to process task view in background", error, { taskId });
+			await updateInteractionResponse(applicationId, interactionToken, {
+				content: formatErrorForUser(error),
+				flags: 64,
+			});
+		}
+	}
 
-		if (ctx) {
-			const taskPromise = this.getTemboService()
-				.createTask(params)
-				.catch((error) => {
-					logger.error("Background task creation failed", error, {
-						userId,
-						command: "task create",
-					});
-				});
+	private buildTaskDetailEmbed(task: TemboTask): APIEmbed {
+		const repositories = (task.metadata?.repositories as string[]) ?? (task.data?.repositories as string[]);
+		const toTimestamp = (value: string | null | undefined) =>
+			value ? `<t:${Math.floor(new Date(value).getTime() / 1000)}:R>` : "—";
+		const prompt = task.prompt ?? task.description;
+
+		const fields: NonNullable<APIEmbed["fields"]> = [
+			{
+				name: "Status",
+				value: `${getStatusEmoji(task.status)} ${task.status ?? "Unknown"}`,
+				inline: true,
+			},
+			{ name: "Agent", value: task.agent || "Default", inline: true },
+			{ name: "Kind", value: task.kind || "—", inline: true },
+			{ name: "Source Branch", value: task.sourceBranch || "—", inline: true },
+			{ name: "Target Branch", value: task.targetBranch || "—", inline: true },
+			{
+				name: "Level",
+				value: task.level !== undefined ? String(task.level) : "—",
+				inline: true,
+			},
+		];
 
-			ctx.waitUntil(taskPromise);
+		if (task.levelReasoning) {
+			fields.push({
+				name: "Level Reasoning",
+				value: task.levelReasoning.substring(0, 1024),
+				inline: false,
+			});
 		}
 
-		const duration = Date.now() - startTime;
-		logger.command("task create", userId, true, duration);
+		if (repositories && Array.isArray(repositories) && repositories.length > 0) {
+			fields.push({
+				name: `Repositories (${repositories.length})`,
+				value: repositories.map((r) => `• ${r}`).join("\n").substring(0, 1024),
+				inline: false,
+			});
+		}
 
-		const repoList = params.repositories.length <= 3
-			? params.repositories.map(r => `  • ${r}`).join("\n")
-			: `  • ${params.repositories[0]}\n  • ${params.repositories[1]}\n  • ${params.repositories[2]}\n  • ...and ${params.repositories.length - 3} more`;
-
-		return this.createSuccessResponse(
-			`✅ **Task Submitted Successfully!**\n\n` +
-				`**📋 Task Details**\n` +
-				`${params.prompt.substring(0, 200)}${params.prompt.length > 200 ? "..." : ""}\n\n` +
-				`**⚙️ Configuration**\n` +
-				`• **Agent:** ${params.agent || "Default (Claude Code)"}\n` +
-				`• **Repositories:** ${params.repositories.length}\n${repoList}\n` +
-				`${params.branch ? `• **Branch:** ${params.branch}\n` : ""}` +
-				`${params.queueRightAway !== undefined ? `• **Queue Immediately:** ${params.queueRightAway ? "Yes" : "No"}\n` : ""}` +
-				`\n**⏳ Next Steps**\n` +
-				`1. Your task is being processed by Tembo\n` +
-				`2. Use \`/task list\` to monitor progress\n` +
-				`3. Check task status for completion`,
-			ephemeral,
+		fields.push(
+			{ name: "Created", value: toTimestamp(task.createdAt), inline: true },
+			{ name: "Updated", value: toTimestamp(task.updatedAt), inline: true },
+			{ name: "Last Queued", value: toTimestamp(task.lastQueuedAt), inline: true },
+			{ name: "Created By", value: task.createdBy || "—", inline: true },
+			{ name: "Sandbox", value: task.sandboxType || "—", inline: true },
+			{ name: "Solution Type", value: task.solutionType || "—", inline: true },
 		);
+
+		if (task.workflowId) {
+			fields.push({
+				name: "Workflow ID",
+				value: `\`${task.workflowId}\``,
+				inline: false,
+			});
+		}
+
+		return {
+			title: (task.title || prompt?.substring(0, 100) || "Untitled Task").substring(0, 256),
+			description: [
+				`**ID:** \`${task.id}\``,
+				prompt
+					? `\n${prompt.substring(0, 1000)}${prompt.length > 1000 ? "..." : ""}`
+					: "",
+			]
+				.filter(Boolean)
+				.join("\n"),
+			fields,
+			color: 0x5865f2,
+			footer: {
+				text: task.lastQueuedBy ? `Last queued by ${task.lastQueuedBy}` : "Tembo Task",
+			},
+			timestamp: task.updatedAt,
+		};
 	}
 
 	private async handleList(
@@ -348,7 +1785,17 @@ export class TaskController extends BaseController {
 		env?: Env,
 	): Promise<APIInteractionResponse> {
 		const optionsMap = this.getOptionsMap(interaction.data.options);
-		const params = validateListTasksParams(optionsMap);
+		const view = validateListView(optionsMap.view);
+		const pageSizes = getListPageSizes(optionsMap);
+		const request: TaskListRequest = {
+			params: validateListTasksParams(
+				{ ...optionsMap, limit: pageSizes[view] },
+				this.temboUserId,
+			),
+			view,
+			pageSizes,
+			state: { options: pickOptions(optionsMap, LIST_STATE_OPTIONS) },
+		};
 		const ephemeral = this.getEphemeralFlag(interaction.data.options);
 		const applicationId = env?.DISCORD_APPLICATION_ID;
 		const interactionToken = interaction.token;
@@ -356,7 +1803,7 @@ export class TaskController extends BaseController {
 		if (ctx && applicationId) {
 			ctx.waitUntil(
 				this.processTaskList(
-					params,
+					request,
 					userId,
 					ephemeral,
 					startTime,
@@ -374,17 +1821,19 @@ export class TaskController extends BaseController {
 			};
 		}
 
-		return this.generateTaskListResponse(params, userId, ephemeral, startTime);
+		return this.generateTaskListResponse(request, userId, ephemeral, startTime);
 	}
 
 	private async processTaskList(
-		params: ListTasksParams,
+		request: TaskListRequest,
 		userId: string,
 		ephemeral: boolean,
 		startTime: number,
 		applicationId: string,
 		interactionToken: string,
 	): Promise<void> {
+		const { params } = request;
+
 		try {
 			const result = await this.getTemboService().listTasks(params);
 			const duration = Date.now() - startTime;
@@ -393,83 +1842,12 @@ export class TaskController extends BaseController {
 			let body;
 			if (!result.issues || result.issues.length === 0) {
 				body = {
-					content:
-						"📝 **No Tasks Found**\n\n" +
-						"You don't have any tasks yet. Ready to get started?\n\n" +
-						"**Getting Started:**\n" +
-						"1. Use `/task create` to create your first task\n" +
-						"2. Connect repositories with `/repositories list`\n" +
-						"3. Need help? Try `/help`\n\n" +
-						"**Example:**\n" +
-						"`/task create prompt:\"Fix the login bug\" repositories:my-repo`",
+					content: this.getEmptyTaskListMessage(result, params),
 					flags: ephemeral ? 64 : undefined,
 				};
 			} else {
-				const currentPage = result.meta?.currentPage ?? 1;
-				const totalPages = result.meta?.totalPages ?? 1;
-				const totalCount = result.meta?.totalCount ?? result.issues.length;
-				const startItem = ((currentPage - 1) * (result.meta?.pageSize ?? 10)) + 1;
-				const endItem = startItem + result.issues.length - 1;
-
-				const embed: APIEmbed = {
-					title: "📝 Your Tembo Tasks",
-					description: result.meta
-						? `Showing ${startItem}-${endItem} of ${totalCount} total tasks`
-						: `Showing ${result.issues.length} task(s)`,
-					fields: result.issues.slice(0, 10).map((task) => {
-						const repositories = (task.metadata?.repositories as string[]) ?? (task.data?.repositories as string[]);
-						const repoInfo = repositories && Array.isArray(repositories)
-							? repositories.length === 1
-								? `**Repository:** ${repositories[0]}`
-								: `**Repositories:** ${repositories.length} (${repositories.slice(0, 2).join(", ")}${repositories.length > 2 ? "..." : ""})`
-							: null;
-
-						return {
-							name: task.title || task.prompt?.substring(0, 100) || "Untitled Task",
-							value: [
-								`**ID:** \`${task.id}\``,
-								task.status ? `**Status:** ${getStatusEmoji(task.status)} ${task.status}` : "",
-								repoInfo,
-								task.agent ? `**Agent:** ${task.agent}` : "",
-								task.createdAt
-									? `**Created:** <t:${Math.floor(new Date(task.createdAt).getTime() / 1000)}:R>`
-									: "",
-							]
-								.filter(Boolean)
-								.join("\n"),
-							inline: false,
-						};
-					}),
-					color: 0x5865f2,
-					footer: {
-						text: result.meta
-							? `Page ${currentPage}/${totalPages}`
-							: `${result.issues.length} tasks`,
-					},
-				};
-
-				const components: APIActionRowComponent<APIButtonComponent>[] = [];
-				if (result.meta && result.meta.totalPages > 1) {
-					components.push({
-						type: ComponentType.ActionRow,
-						components: [
-							{
-								type: ComponentType.Button,
-								custom_id: `task_list_${currentPage - 1}`,
-								label: `← Page ${currentPage - 1}`,
-								style: ButtonStyle.Secondary,
-								disabled: currentPage <= 1,
-							},
-							{
-								type: ComponentType.Button,
-								custom_id: `task_list_${currentPage + 1}`,
-								label: `Page ${currentPage + 1} →`,
-								style: ButtonStyle.Secondary,
-								disabled: currentPage >= totalPages,
-							},
-						],
-					});
-				}
+				const stateId = await this.resolvePageStateId("list", userId, request.state);
+				const { embed, components } = this.buildTaskListMessage(result, request, stateId);
 
 				body = {
 					embeds: [embed],
@@ -489,16 +1867,21 @@ export class TaskController extends BaseController {
 	}
 
 	private async generateTaskListResponse(
-		params: ListTasksParams,
+		request: TaskListRequest,
 		userId: string,
 		ephemeral: boolean,
 		startTime: number,
 		isUpdate: boolean = false,
 	): Promise<APIInteractionResponse> {
+		const { params, view } = request;
+
 		logger.info("Processing task list command", {
 			userId,
 			page: params.page,
 			limit: params.limit,
+			filtered: hasTaskFilters(params.filters),
+			sort: params.sort,
+			view,
 			ephemeral,
 			isUpdate,
 		});
@@ -509,92 +1892,208 @@ export class TaskController extends BaseController {
 		logger.command("task list", userId, true, duration);
 
 		if (!result.issues || result.issues.length === 0) {
-			const msg =
-				"📝 **No Tasks Found**\n\n" +
-				"You don't have any tasks yet. Ready to get started?\n\n" +
-				"**Getting Started:**\n" +
-				"1. Use `/task create` to create your first task\n" +
-				"2. Connect repositories with `/repositories list`\n" +
-				"3. Need help? Try `/help`\n\n" +
-				"**Example:**\n" +
-				"`/task create prompt:\"Fix the login bug\" repositories:my-repo`";
 			if (isUpdate) {
 				return this.createUpdateMessageResponse([], []);
 			}
-			return this.createSuccessResponse(msg, ephemeral);
+			return this.createSuccessResponse(
+				this.getEmptyTaskListMessage(result, params),
+				ephemeral,
+			);
+		}
+
+		const stateId = await this.resolvePageStateId("list", userId, request.state);
+		const { embed, components } = this.buildTaskListMessage(result, request, stateId);
+
+		if (isUpdate) {
+			return this.createUpdateMessageResponse([embed], components);
+		}
+
+		return this.createEmbedResponse([embed], ephemeral, components);
+	}
+
+	private getEmptyTaskListMessage(result: TemboTaskList, params: ListTasksParams): string {
+		if (hasTaskFilters(params.filters)) {
+			const scanNote = result.scan && !result.scan.complete
+				? ` among the first ${result.scan.scannedCount} tasks`
+				: "";
+			return (
+				"📝 **No Matching Tasks**\n\n" +
+				`No tasks match ${describeTaskFilters(params.filters)}${scanNote}.\n\n` +
+				"Try removing a filter, or use `/task search` to search by text."
+			);
 		}
 
+		return (
+			"📝 **No Tasks Found**\n\n" +
+			"You don't have any tasks yet. Ready to get started?\n\n" +
+			"**Getting Started:**\n" +
+			"1. Use `/task create` to create your first task\n" +
+			"2. Connect repositories with `/repositories list`\n" +
+			"3. Need help? Try `/help`\n\n" +
+			"**Example:**\n" +
+			"`/task create prompt:\"Fix the login bug\" repositories:my-repo`"
+		);
+	}
+
+	/**
+	 * Builds the task list embed, the task select menu, page buttons and the
+	 * view toggle. Buttons are left out when there's no pagination state.
+	 */
+	private buildTaskListMessage(
+		result: TemboTaskList,
+		request: TaskListRequest,
+		stateId: string | null,
+	): {
+		embed: APIEmbed;
+		components: APIActionRowComponent<APIComponentInMessageActionRow>[];
+	} {
+		const { params, view, pageSizes } = request;
 		const currentPage = result.meta?.currentPage ?? 1;
 		const totalPages = result.meta?.totalPages ?? 1;
 		const totalCount = result.meta?.totalCount ?? result.issues.length;
 		const startItem = ((currentPage - 1) * (result.meta?.pageSize ?? 10)) + 1;
 		const endItem = startItem + result.issues.length - 1;
+		const filters = hasTaskFilters(params.filters) ? params.filters : undefined;
+		const tasks = result.issues.slice(0, view === "compact" ? 25 : 10);
 
-		const embed: APIEmbed = {
-			title: "📝 Your Tembo Tasks",
-			description: result.meta
-				? `Showing ${startItem}-${endItem} of ${totalCount} total tasks`
+		const summary = [
+			result.meta
+				? `Showing ${startItem}-${endItem} of ${totalCount} ${filters ? "matching" : "total"} tasks`
 				: `Showing ${result.issues.length} task(s)`,
-			fields: result.issues.slice(0, 10).map((task) => {
-				const repositories = (task.metadata?.repositories as string[]) ?? (task.data?.repositories as string[]);
-				const repoInfo = repositories && Array.isArray(repositories)
-					? repositories.length === 1
-						? `**Repository:** ${repositories[0]}`
-						: `**Repositories:** ${repositories.length} (${repositories.slice(0, 2).join(", ")}${repositories.length > 2 ? "..." : ""})`
-					: null;
+			filters ? `**Filters:** ${describeTaskFilters(filters)}` : null,
+			params.sort ? `**Sorted by:** ${params.sort}` : null,
+		]
+			.filter(Boolean)
+			.join("\n");
+		const footer = [
+			result.meta ? `Page ${currentPage}/${totalPages}` : `${result.issues.length} tasks`,
+			result.scan && !result.scan.complete
+				? `Only the first ${result.scan.scannedCount} tasks were searched`
+				: null,
+		];
 
-				return {
-					name: task.title || task.prompt?.substring(0, 100) || "Untitled Task",
-					value: [
-						`**ID:** \`${task.id}\``,
-						task.status ? `**Status:** ${getStatusEmoji(task.status)} ${task.status}` : "",
-						repoInfo,
-						task.agent ? `**Agent:** ${task.agent}` : "",
-						task.createdAt
-							? `**Created:** <t:${Math.floor(new Date(task.createdAt).getTime() / 1000)}:R>`
-							: "",
-					]
-						.filter(Boolean)
-						.join("\n"),
-					inline: false,
-				};
-			}),
+		const embed: APIEmbed = {
+			title: "📝 Your Tembo Tasks",
+			description: view === "compact"
+				? this.buildCompactTaskList(summary, tasks, params.sort)
+				: summary,
+			fields: view === "compact"
+				? undefined
+				: tasks.map((task) => this.buildTaskListField(task, params.sort)),
 			color: 0x5865f2,
 			footer: {
-				text: result.meta
-					? `Page ${currentPage}/${totalPages}`
-					: `${result.issues.length} tasks`,
+				text: footer.filter(Boolean).join(" • "),
 			},
 		};
 
-		const components: APIActionRowComponent<APIButtonComponent>[] = [];
-		if (result.meta && result.meta.totalPages > 1) {
-			components.push({
-				type: ComponentType.ActionRow,
-				components: [
+		const buttons: APIComponentInMessageActionRow[] = [];
+		if (stateId) {
+			const pageButton = (page: number, listView: TaskListView) =>
+				buildPageCustomId({ kind: "list", stateId, page, view: listView });
+
+			if (result.meta && result.meta.totalPages > 1) {
+				buttons.push(
 					{
 						type: ComponentType.Button,
-						custom_id: `task_list_${currentPage - 1}`,
+						custom_id: pageButton(currentPage - 1, view),
 						label: `← Page ${currentPage - 1}`,
 						style: ButtonStyle.Secondary,
 						disabled: currentPage <= 1,
 					},
 					{
 						type: ComponentType.Button,
-						custom_id: `task_list_${currentPage + 1}`,
+						custom_id: pageButton(currentPage + 1, view),
 						label: `Page ${currentPage + 1} →`,
 						style: ButtonStyle.Secondary,
 						disabled: currentPage >= totalPages,
 					},
-				],
+				);
+			}
+
+			// Keep the first visible task on screen when the page size changes
+			const otherView: TaskListView = view === "compact" ? "detailed" : "compact";
+			buttons.push({
+				type: ComponentType.Button,
+				custom_id: pageButton(
+					Math.floor((startItem - 1) / pageSizes[otherView]) + 1,
+					otherView,
+				),
+				label: otherView === "compact" ? "Compact view" : "Detailed view",
+				emoji: { name: otherView === "compact" ? "📋" : "🗂️" },
+				style: ButtonStyle.Primary,
 			});
 		}
 
-		if (isUpdate) {
-			return this.createUpdateMessageResponse([embed], components);
+		const components: APIActionRowComponent<APIComponentInMessageActionRow>[] = [
+			this.buildTaskSelectRow(tasks),
+		];
+		if (buttons.length > 0) {
+			components.push({ type: ComponentType.ActionRow, components: buttons });
 		}
 
-		return this.createEmbedResponse([embed], ephemeral, components);
+		return { embed, components };
+	}
+
+	/**
+	 * A detailed task card for the task list embed
+	 */
+	private buildTaskListField(task: TemboTask, sort?: TaskSortOrder): APIEmbedField {
+		const repositories = getTaskRepositories(task);
+		const repoInfo = repositories.length === 0
+			? null
+			: repositories.length === 1
+				? `**Repository:** ${repositories[0]}`
+				: `**Repositories:** ${repositories.length} (${repositories.slice(0, 2).join(", ")}${repositories.length > 2 ? "..." : ""})`;
+
+		return {
+			name: task.title || task.prompt?.substring(0, 100) || "Untitled Task",
+			value: [
+				`**ID:** \`${task.id}\``,
+				task.status ? `**Status:** ${getStatusEmoji(task.status)} ${task.status}` : "",
+				repoInfo,
+				task.agent ? `**Agent:** ${task.agent}` : "",
+				task.createdAt
+					? `**Created:** <t:${Math.floor(new Date(task.createdAt).getTime() / 1000)}:R>`
+					: "",
+				sort === "updated" && task.updatedAt
+					? `**Updated:** <t:${Math.floor(new Date(task.updatedAt).getTime() / 1000)}:R>`
+					: "",
+			]
+				.filter(Boolean)
+				.join("\n"),
+			inline: false,
+		};
+	}
+
+	/**
+	 * One line per task: status, title, agent and age (update age when sorted by update)
+	 */
+	private buildCompactTaskList(
+		summary: string,
+		tasks: TemboTask[],
+		sort?: TaskSortOrder,
+	): string {
+		let description = `${summary}\n`;
+
+		for (const [index, task] of tasks.entries()) {
+			const title = (task.title || task.prompt || "Untitled Task").replace(/\s+/g, " ").trim();
+			const time = sort === "updated" ? task.updatedAt : task.createdAt;
+			const line = [
+				`${getStatusEmoji(task.status)} **${title.length > 60 ? `${title.substring(0, 57)}...` : title}**`,
+				task.agent ? `\`${task.agent}\`` : null,
+				time ? `<t:${Math.floor(new Date(time).getTime() / 1000)}:R>` : null,
+			]
+				.filter(Boolean)
+				.join(" · ");
+
+			if (description.length + line.length + 1 > COMPACT_DESCRIPTION_MAX_LENGTH) {
+				description += `\n…and ${tasks.length - index} more. Use a smaller \`limit\` to see them.`;
+				break;
+			}
+			description += `\n${line}`;
+		}
+
+		return description;
 	}
 
 	private async handleSearch(
@@ -606,6 +2105,7 @@ export class TaskController extends BaseController {
 	): Promise<APIInteractionResponse> {
 		const optionsMap = this.getOptionsMap(interaction.data.options);
 		const params = validateSearchTasksParams(optionsMap);
+		const pageState = { options: pickOptions(optionsMap, SEARCH_STATE_OPTIONS) };
 		const ephemeral = this.getEphemeralFlag(interaction.data.options);
 		const applicationId = env?.DISCORD_APPLICATION_ID;
 		const interactionToken = interaction.token;
@@ -614,6 +2114,7 @@ export class TaskController extends BaseController {
 			ctx.waitUntil(
 				this.processTaskSearch(
 					params,
+					pageState,
 					userId,
 					ephemeral,
 					startTime,
@@ -631,11 +2132,12 @@ export class TaskController extends BaseController {
 			};
 		}
 
-		return this.generateSearchResponse(params, userId, ephemeral, startTime);
+		return this.generateSearchResponse(params, pageState, userId, ephemeral, startTime);
 	}
 
 	private async processTaskSearch(
 		params: SearchTasksParams,
+		pageState: PageStateRef,
 		userId: string,
 		ephemeral: boolean,
 		startTime: number,
@@ -670,88 +2172,12 @@ export class TaskController extends BaseController {
 			let body;
 			if (!result.issues || result.issues.length === 0) {
 				body = {
-					content:
-						`🔍 **No Results Found**\n\n` +
-						`No tasks match your search: "${params.query}"\n\n` +
-						`**Search Tips:**\n` +
-						`• Try different keywords\n` +
-						`• Use partial words (e.g., "bug" instead of "bugfix")\n` +
-						`• Check task IDs with \`/task list\`\n\n` +
-						`**Or create a new task:**\n` +
-						`\`/task create prompt:"${params.query}"\``,
+					content: this.getEmptySearchMessage(params.query),
 					flags: ephemeral ? 64 : undefined,
 				};
 			} else {
-				const currentPage = result.meta?.currentPage ?? 1;
-				const totalPages = result.meta?.totalPages ?? 1;
-				const totalCount = result.meta?.totalCount ?? result.issues.length;
-				const startItem = ((currentPage - 1) * (result.meta?.pageSize ?? 10)) + 1;
-				const endItem = startItem + result.issues.length - 1;
-
-				const embed: APIEmbed = {
-					title: `🔍 Search Results: "${params.query}"`,
-					description: result.meta
-						? `Showing ${startItem}-${endItem} of ${totalCount} matching tasks`
-						: `Found ${result.issues.length} matching task(s)`,
-					fields: result.issues.slice(0, 10).map((task) => {
-						const repositories = (task.metadata?.repositories as string[]) ?? (task.data?.repositories as string[]);
-						const repoInfo = repositories && Array.isArray(repositories)
-							? repositories.length === 1
-								? `**Repository:** ${repositories[0]}`
-								: `**Repositories:** ${repositories.length} (${repositories.slice(0, 2).join(", ")}${repositories.length > 2 ? "..." : ""})`
-							: null;
-
-						return {
-							name: task.title || task.prompt?.substring(0, 100) || "Untitled Task",
-							value: [
-								`**ID:** \`${task.id}\``,
-								task.status ? `**Status:** ${getStatusEmoji(task.status)} ${task.status}` : "",
-								repoInfo,
-								task.agent ? `**Agent:** ${task.agent}` : "",
-								task.createdAt
-									? `**Created:** <t:${Math.floor(new Date(task.createdAt).getTime() / 1000)}:R>`
-									: "",
-							]
-								.filter(Boolean)
-								.join("\n"),
-							inline: false,
-						};
-					}),
-					color: 0x5865f2,
-					footer: {
-						text: result.meta
-							? `Page ${currentPage}/${totalPages}`
-							: `${result.issues.length} results`,
-					},
-				};
-
-				const components: APIActionRowComponent<APIButtonComponent>[] = [];
-				if (result.meta && result.meta.totalPages > 1) {
-					const query = params.query;
-
-					// Check custom_id length limit (100 chars)
-					if (query.length <= 80) {
-						components.push({
-							type: ComponentType.ActionRow,
-							components: [
-								{
-									type: ComponentType.Button,
-									custom_id: `task_search_${currentPage - 1}_${query}`,
-									label: `← Page ${currentPage - 1}`,
-									style: ButtonStyle.Secondary,
-									disabled: currentPage <= 1,
-								},
-								{
-									type: ComponentType.Button,
-									custom_id: `task_search_${currentPage + 1}_${query}`,
-									label: `Page ${currentPage + 1} →`,
-									style: ButtonStyle.Secondary,
-									disabled: currentPage >= totalPages,
-								},
-							],
-						});
-					}
-				}
+				const stateId = await this.resolvePageStateId("search", userId, pageState);
+				const { embed, components } = this.buildSearchResultsMessage(result, params, stateId);
 
 				body = {
 					embeds: [embed],
@@ -781,6 +2207,7 @@ export class TaskController extends BaseController {
 
 	private async generateSearchResponse(
 		params: SearchTasksParams,
+		pageState: PageStateRef,
 		userId: string,
 		ephemeral: boolean,
 		startTime: number,
@@ -800,21 +2227,47 @@ export class TaskController extends BaseController {
 		logger.command("task search", userId, true, duration);
 
 		if (!result.issues || result.issues.length === 0) {
-			const msg =
-				`🔍 **No Results Found**\n\n` +
-				`No tasks match your search: "${params.query}"\n\n` +
-				`**Search Tips:**\n` +
-				`• Try different keywords\n` +
-				`• Use partial words (e.g., "bug" instead of "bugfix")\n` +
-				`• Check task IDs with \`/task list\`\n\n` +
-				`**Or create a new task:**\n` +
-				`\`/task create prompt:"${params.query}"\``;
 			if (isUpdate) {
 				return this.createUpdateMessageResponse([], []);
 			}
-			return this.createSuccessResponse(msg, ephemeral);
+			return this.createSuccessResponse(this.getEmptySearchMessage(params.query), ephemeral);
+		}
+
+		const stateId = await this.resolvePageStateId("search", userId, pageState);
+		const { embed, components } = this.buildSearchResultsMessage(result, params, stateId);
+
+		if (isUpdate) {
+			return this.createUpdateMessageResponse([embed], components);
 		}
 
+		return this.createEmbedResponse([embed], ephemeral, components);
+	}
+
+	private getEmptySearchMessage(query: string): string {
+		return (
+			`🔍 **No Results Found**\n\n` +
+			`No tasks match your search: "${query}"\n\n` +
+			`**Search Tips:**\n` +
+			`• Try different keywords\n` +
+			`• Use partial words (e.g., "bug" instead of "bugfix")\n` +
+			`• Check task IDs with \`/task list\`\n\n` +
+			`**Or create a new task:**\n` +
+			`\`/task create prompt:"${query}"\``
+		);
+	}
+
+	/**
+	 * Builds the search results embed and page buttons. Buttons are left out
+	 * when there's no pagination state.
+	 */
+	private buildSearchResultsMessage(
+		result: TemboTaskSearchResult,
+		params: SearchTasksParams,
+		stateId: string | null,
+	): {
+		embed: APIEmbed;
+		components: APIActionRowComponent<APIComponentInMessageActionRow>[];
+	} {
 		const currentPage = result.meta?.currentPage ?? 1;
 		const totalPages = result.meta?.totalPages ?? 1;
 		const totalCount = result.meta?.totalCount ?? result.issues.length;
@@ -822,34 +2275,11 @@ export class TaskController extends BaseController {
 		const endItem = startItem + result.issues.length - 1;
 
 		const embed: APIEmbed = {
-			title: `🔍 Search Results: "${params.query}"`,
+			title: `🔍 Search Results: "${params.query}"`.substring(0, 256),
 			description: result.meta
 				? `Showing ${startItem}-${endItem} of ${totalCount} matching tasks`
 				: `Found ${result.issues.length} matching task(s)`,
-			fields: result.issues.slice(0, 10).map((task) => {
-				const repositories = (task.metadata?.repositories as string[]) ?? (task.data?.repositories as string[]);
-				const repoInfo = repositories && Array.isArray(repositories)
-					? repositories.length === 1
-						? `**Repository:** ${repositories[0]}`
-						: `**Repositories:** ${repositories.length} (${repositories.slice(0, 2).join(", ")}${repositories.length > 2 ? "..." : ""})`
-					: null;
-
-				return {
-					name: task.title || task.prompt?.substring(0, 100) || "Untitled Task",
-					value: [
-						`**ID:** \`${task.id}\``,
-						task.status ? `**Status:** ${getStatusEmoji(task.status)} ${task.status}` : "",
-						repoInfo,
-						task.agent ? `**Agent:** ${task.agent}` : "",
-						task.createdAt
-							? `**Created:** <t:${Math.floor(new Date(task.createdAt).getTime() / 1000)}:R>`
-							: "",
-					]
-						.filter(Boolean)
-						.join("\n"),
-					inline: false,
-				};
-			}),
+			fields: result.issues.slice(0, 10).map((task) => this.buildTaskListField(task)),
 			color: 0x5865f2,
 			footer: {
 				text: result.meta
@@ -858,38 +2288,80 @@ export class TaskController extends BaseController {
 			},
 		};
 
-		const components: APIActionRowComponent<APIButtonComponent>[] = [];
-		if (result.meta && result.meta.totalPages > 1) {
-			const query = params.query;
+		const components: APIActionRowComponent<APIComponentInMessageActionRow>[] = [];
+		if (stateId && result.meta && result.meta.totalPages > 1) {
+			const pageButton = (page: number) =>
+				buildPageCustomId({ kind: "search", stateId, page, view: "detailed" });
 
-			// Check custom_id length limit (100 chars)
-			if (query.length <= 80) {
-				components.push({
-					type: ComponentType.ActionRow,
-					components: [
-						{
-							type: ComponentType.Button,
-							custom_id: `task_search_${currentPage - 1}_${query}`,
-							label: `← Page ${currentPage - 1}`,
-							style: ButtonStyle.Secondary,
-							disabled: currentPage <= 1,
-						},
-						{
-							type: ComponentType.Button,
-							custom_id: `task_search_${currentPage + 1}_${query}`,
-							label: `Page ${currentPage + 1} →`,
-							style: ButtonStyle.Secondary,
-							disabled: currentPage >= totalPages,
-						},
-					],
-				});
-			}
+			components.push({
+				type: ComponentType.ActionRow,
+				components: [
+					{
+						type: ComponentType.Button,
+						custom_id: pageButton(currentPage - 1),
+						label: `← Page ${currentPage - 1}`,
+						style: ButtonStyle.Secondary,
+						disabled: currentPage <= 1,
+					},
+					{
+						type: ComponentType.Button,
+						custom_id: pageButton(currentPage + 1),
+						label: `Page ${currentPage + 1} →`,
+						style: ButtonStyle.Secondary,
+						disabled: currentPage >= totalPages,
+					},
+				],
+			});
 		}
 
-		if (isUpdate) {
-			return this.createUpdateMessageResponse([embed], components);
+		return { embed, components };
+	}
+
+	/**
+	 * Gets the state ID for result buttons, saving the command's options on first use
+	 * @returns The state ID, or null if it couldn't be saved (buttons are left out)
+	 */
+	private async resolvePageStateId(
+		kind: PaginationKind,
+		userId: string,
+		state: PageStateRef,
+	): Promise<string | null> {
+		if ("id" in state) {
+			return state.id;
+		}
+		if (!this.paginationStateService) {
+			return null;
 		}
 
-		return this.createEmbedResponse([embed], ephemeral, components);
+		try {
+			return await this.paginationStateService.saveState(kind, userId, state.options);
+		} catch (error) {
+			logger.warn("Failed to save pagination state, leaving out page buttons", {
+				userId,
+				kind,
+				error,
+			});
+			return null;
+		}
+	}
+
+	/**
+	 * Loads the state behind a result button
+	 * @returns The state, or null if it's unknown, expired or couldn't be loaded
+	 */
+	private async getPaginationState(
+		stateId: string,
+		kind: PaginationKind,
+	): Promise<PaginationState | null> {
+		if (!this.paginationStateService) {
+			return null;
+		}
+
+		try {
+			return await this.paginationStateService.getState(stateId, kind);
+		} catch (error) {
+			logger.warn("Failed to load pagination state", { stateId, kind, error });
+			return null;
+		}
 	}
 }
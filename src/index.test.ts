@@ -0,0 +1,213 @@
+// Tests for component and modal routing in the interactions endpoint
+
+import {
+	type APIInteractionResponse,
+	ComponentType,
+	InteractionResponseType,
+	InteractionType,
+	PermissionFlagsBits,
+} from "discord-api-types/v10";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	type MockInstance,
+	vi,
+} from "vitest";
+import { TaskController } from "./controllers";
+import worker from "./index";
+import { AuthService } from "./services/auth.service";
+import { PermissionPolicyService } from "./services/permission-policy.service";
+import type { TemboService } from "./services/tembo.service";
+import type { Env } from "./types";
+import * as verifyModule from "./utils/verify";
+
+const env = {
+	DISCORD_APPLICATION_ID: "app-1",
+	DISCORD_PUBLIC_KEY: "public-key",
+	DISCORD_BOT_TOKEN: "bot-token",
+	TEMBO_API_KEY: "",
+	ENCRYPTION_MASTER_KEY: btoa("k".repeat(32)),
+	tembo_bot_db: {} as D1Database,
+} satisfies Env;
+
+const ctx = {
+	waitUntil: vi.fn(),
+	passThroughOnException: vi.fn(),
+} as unknown as ExecutionContext;
+
+const member = (permissions: bigint = PermissionFlagsBits.SendMessages) => ({
+	user: { id: "user-1" },
+	roles: ["role-member"],
+	permissions: permissions.toString(),
+});
+
+const componentInteraction = (customId: string, permissions?: bigint) => ({
+	type: InteractionType.MessageComponent,
+	token: "token-1",
+	guild_id: "guild-1",
+	member: member(permissions),
+	data: { component_type: ComponentType.Button, custom_id: customId },
+	message: { embeds: [], interaction_metadata: { user: { id: "user-1" } } },
+});
+
+const modalInteraction = (customId: string) => ({
+	type: InteractionType.ModalSubmit,
+	token: "token-1",
+	guild_id: "guild-1",
+	member: member(),
+	data: { custom_id: customId, components: [] },
+});
+
+const post = async (interaction: object): Promise<APIInteractionResponse> => {
+	const response = await worker.fetch(
+		new Request("https://bot.example/interactions", {
+			method: "POST",
+			body: JSON.stringify(interaction),
+		}),
+		env,
+		ctx,
+	);
+	return response.json();
+};
+
+const handled: APIInteractionResponse = {
+	type: InteractionResponseType.DeferredMessageUpdate,
+};
+
+describe("Interactions endpoint", () => {
+	let checkAccess: MockInstance<PermissionPolicyService["checkAccess"]>;
+	let authenticateUser: MockInstance<AuthService["authenticateUser"]>;
+	let handleComponent: MockInstance<TaskController["handleComponent"]>;
+	let handleModalSubmit: MockInstance<TaskController["handleModalSubmit"]>;
+
+	beforeEach(() => {
+		vi.spyOn(verifyModule, "verifyDiscordRequest").mockResolvedValue(true);
+		checkAccess = vi
+			.spyOn(PermissionPolicyService.prototype, "checkAccess")
+			.mockResolvedValue({ allowed: true, allowedRoleIds: [] });
+		authenticateUser = vi
+			.spyOn(AuthService.prototype, "authenticateUser")
+			.mockResolvedValue({
+				success: true,
+				temboService: {} as TemboService,
+				requiresOnboarding: false,
+				keyScope: "user",
+			});
+		handleComponent = vi
+			.spyOn(TaskController.prototype, "handleComponent")
+			.mockResolvedValue(handled);
+		handleModalSubmit = vi
+			.spyOn(TaskController.prototype, "handleModalSubmit")
+			.mockResolvedValue(handled);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("components", () => {
+		it("should route task components to TaskController", async () => {
+			const response = await post(componentInteraction("task_draft_refresh"));
+
+			expect(response).toEqual(handled);
+			expect(handleComponent).toHaveBeenCalledWith(
+				expect.objectContaining({
+					data: expect.objectContaining({ custom_id: "task_draft_refresh" }),
+				}),
+				ctx,
+				env,
+			);
+		});
+
+		it("should reject components no controller handles", async () => {
+			const response = await post(componentInteraction("unknown_button"));
+
+			expect(response).toEqual({
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: "❌ Unknown interaction or handler not found.",
+					flags: 64,
+				},
+			});
+			expect(handleComponent).not.toHaveBeenCalled();
+		});
+
+		it("should check the policy of the command a component belongs to", async () => {
+			checkAccess.mockResolvedValue({
+				allowed: false,
+				matchedCommand: "task drafts",
+				allowedRoleIds: ["role-dev"],
+			});
+
+			const response = await post(componentInteraction("task_draft_refresh"));
+
+			expect(checkAccess).toHaveBeenCalledWith("guild-1", "task drafts", [
+				"role-member",
+			]);
+			expect(response.type).toBe(
+				InteractionResponseType.ChannelMessageWithSource,
+			);
+			expect(JSON.stringify(response)).toContain("/task drafts");
+			expect(authenticateUser).not.toHaveBeenCalled();
+			expect(handleComponent).not.toHaveBeenCalled();
+		});
+
+		it("should let server managers past the policy", async () => {
+			checkAccess.mockResolvedValue({
+				allowed: false,
+				allowedRoleIds: ["role-dev"],
+			});
+
+			const response = await post(
+				componentInteraction(
+					"task_draft_refresh",
+					PermissionFlagsBits.ManageGuild,
+				),
+			);
+
+			expect(response).toEqual(handled);
+			expect(checkAccess).not.toHaveBeenCalled();
+		});
+
+		it("should ask unregistered users to run /setup", async () => {
+			authenticateUser.mockResolvedValue({
+				success: false,
+				requiresOnboarding: true,
+			});
+
+			const response = await post(componentInteraction("task_draft_refresh"));
+
+			expect(JSON.stringify(response)).toContain("/setup");
+			expect(handleComponent).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("modals", () => {
+		it("should check the policy of the command that opened the form", async () => {
+			await post(modalInteraction("task_msg_modal"));
+
+			expect(checkAccess).toHaveBeenCalledWith("guild-1", "Create Tembo task", [
+				"role-member",
+			]);
+			expect(handleModalSubmit).toHaveBeenCalled();
+		});
+
+		it("should not submit forms the policy denies", async () => {
+			checkAccess.mockResolvedValue({
+				allowed: false,
+				allowedRoleIds: ["role-dev"],
+			});
+
+			const response = await post(modalInteraction("task_create_modal"));
+
+			expect(checkAccess).toHaveBeenCalledWith("guild-1", "task new", [
+				"role-member",
+			]);
+			expect(JSON.stringify(response)).toContain("/task new");
+			expect(handleModalSubmit).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -2,14 +2,18 @@ import { Hono } from "hono";
 import {
 	InteractionType,
 	InteractionResponseType,
+	ApplicationCommandType,
 	type APIInteraction,
 	type APIInteractionResponse,
+	type APIApplicationCommandInteraction,
 	type APIChatInputApplicationCommandInteraction,
+	type APIMessageApplicationCommandInteraction,
 	type APIApplicationCommandAutocompleteInteraction,
 	type APIMessageComponentInteraction,
+	type APIModalSubmitInteraction,
 } from "discord-api-types/v10";
 import { verifyDiscordRequest } from "./utils/verify";
-import { createTemboService } from "./services/tembo.service";
+import { createTemboService, type TemboService } from "./services/tembo.service";
 import {
 	TaskController,
 	RepositoriesController,
@@ -19,27 +23,141 @@ import {
 	StatusController,
 	HelpController,
 	VersionController,
+	ConfigController,
+	ScheduleController,
+	AdminController,
+	CREATE_TASK_FROM_MESSAGE_COMMAND,
 } from "./controllers";
-import { AuthService } from "./services/auth.service";
+import { AuthService, getKeyValidationTtlMs, type AuthResult } from "./services/auth.service";
 import { DatabaseService } from "./services/database.service";
 import { EncryptionService } from "./services/encryption.service";
 import { triggerOnboarding } from "./utils/discord";
 import type { Env } from "./types";
 import { logger } from "./utils/logger";
 import { asyncHandler } from "./utils/async-handler";
+import { TaskWatchService } from "./services/task-watch.service";
+import { TaskDefaultsService } from "./services/task-defaults.service";
+import { PermissionPolicyService } from "./services/permission-policy.service";
+import { ChannelRepositoryService } from "./services/channel-repository.service";
+import { RepositoryCacheService } from "./services/repository-cache.service";
+import { RecentSelectionService } from "./services/recent-selection.service";
+import { AgentCatalogService } from "./services/agent-catalog.service";
+import { PaginationStateService } from "./services/pagination-state.service";
+import { TaskDraftService } from "./services/task-draft.service";
+import { TaskScheduleService } from "./services/task-schedule.service";
+import {
+	canBypassPolicy,
+	formatCommandPath,
+	getCommandPath,
+	getComponentCommandPath,
+} from "./utils/permissions";
+import { PermissionDeniedError, formatErrorForUser } from "./utils/errors";
+import { handleScheduled } from "./scheduled";
 
 // Commands that don't require authentication
-const UNAUTHENTICATED_COMMANDS = ["setup", "unregister", "status", "help", "version"];
+const UNAUTHENTICATED_COMMANDS = ["setup", "unregister", "status", "help", "version", "admin"];
 
 const app = new Hono<{ Bindings: Env }>();
 
+/**
+ * Checks a guild member against the guild's command permission policy
+ * @param commandPath Policy path of the command, or of the command a component belongs to
+ * @returns The response to send instead when access is denied, or null to continue
+ */
+async function checkPermissionPolicy(
+	interaction:
+		| APIApplicationCommandInteraction
+		| APIMessageComponentInteraction
+		| APIModalSubmitInteraction,
+	commandPath: string,
+	env: Env,
+): Promise<APIInteractionResponse | null> {
+	if (
+		!interaction.guild_id ||
+		!interaction.member ||
+		canBypassPolicy(interaction.member.permissions)
+	) {
+		return null;
+	}
+
+	try {
+		const access = await new PermissionPolicyService(env.tembo_bot_db).checkAccess(
+			interaction.guild_id,
+			commandPath,
+			interaction.member.roles,
+		);
+
+		if (access.allowed) {
+			return null;
+		}
+
+		logger.info("Command blocked by permission policy", {
+			command: commandPath,
+			userId: interaction.member.user.id,
+			guildId: interaction.guild_id,
+			matchedCommand: access.matchedCommand,
+		});
+
+		const roles = access.allowedRoleIds.map((roleId) => `<@&${roleId}>`).join(", ");
+		return {
+			type: InteractionResponseType.ChannelMessageWithSource,
+			data: {
+				content: `❌ ${formatErrorForUser(
+					new PermissionDeniedError(
+						`You need one of these roles to use \`${formatCommandPath(commandPath)}\` in this server: ${roles}`,
+					),
+				)}`,
+				flags: 64,
+				allowed_mentions: { parse: [] },
+			},
+		};
+	} catch (error) {
+		logger.error("Failed to check command permissions", error, {
+			command: commandPath,
+			guildId: interaction.guild_id,
+		});
+		return {
+			type: InteractionResponseType.ChannelMessageWithSource,
+			data: {
+				content: "❌ Unable to check your command permissions. Please try again later.",
+				flags: 64,
+			},
+		};
+	}
+}
+
+/**
+ * Builds the task controller every interaction type shares, so commands,
+ * autocomplete, components and forms all get the same services
+ * @param temboUserId Tembo user behind the key, when known
+ */
+function createTaskController(
+	temboService: TemboService | null,
+	env: Env,
+	temboUserId?: string,
+): TaskController {
+	return new TaskController(
+		temboService,
+		new TaskWatchService(env.tembo_bot_db),
+		new TaskDefaultsService(env.tembo_bot_db),
+		new ChannelRepositoryService(env.tembo_bot_db),
+		new RecentSelectionService(env.tembo_bot_db),
+		new AgentCatalogService(env.tembo_bot_db),
+		new PaginationStateService(env.tembo_bot_db),
+		new TaskDraftService(env.tembo_bot_db),
+		temboUserId,
+		new PermissionPolicyService(env.tembo_bot_db),
+	);
+}
+
 app.get("/", (c) => {
 	return c.text("Tembo Discord Bot is running! 🤖");
 });
 
 app.post("/interactions", async (c) => {
 	const env = c.env;
-	const ctx = c.executionCtx;
+	// Hono's type for the context lacks newer Workers fields; it's the Workers one at runtime
+	const ctx = c.executionCtx as ExecutionContext;
 
 	const isValid = await verifyDiscordRequest(c.req.raw, env.DISCORD_PUBLIC_KEY);
 	if (!isValid) {
@@ -57,6 +175,7 @@ app.post("/interactions", async (c) => {
 	}
 
 	if (interaction.type === InteractionType.ApplicationCommand) {
+		// Chat input is the common case; message commands are routed below
 		const commandInteraction =
 			interaction as APIChatInputApplicationCommandInteraction;
 		const commandName = commandInteraction.data.name;
@@ -70,18 +189,28 @@ app.post("/interactions", async (c) => {
 			userId,
 		});
 
+		// Enforce the guild's command permission policy before anything else runs
+		const denied = await checkPermissionPolicy(interaction, getCommandPath(interaction), env);
+		if (denied) {
+			return c.json(denied);
+		}
+
 		// Initialize auth services
 		const authService = new AuthService(
 			new DatabaseService(env.tembo_bot_db),
 			new EncryptionService(env.ENCRYPTION_MASTER_KEY),
+			getKeyValidationTtlMs(env.KEY_VALIDATION_TTL_SECONDS),
+			new RepositoryCacheService(env.tembo_bot_db),
 		);
 
 		let temboService = null;
+		let temboUserId: string | undefined;
+		let keyScope: AuthResult["keyScope"];
 
 		// Check if command requires authentication
 		if (!UNAUTHENTICATED_COMMANDS.includes(commandName)) {
 			// Authenticate user
-			const authResult = await authService.authenticateUser(userId);
+			const authResult = await authService.authenticateUser(userId, interaction.guild_id);
 
 			if (!authResult.success) {
 				if (authResult.requiresOnboarding) {
@@ -114,13 +243,51 @@ app.post("/interactions", async (c) => {
 
 			// User is authenticated - use their TemboService
 			temboService = authResult.temboService!;
+			temboUserId = authResult.temboUserId;
+			keyScope = authResult.keyScope;
+		}
+
+		// Message context menu commands share the task flow
+		if (
+			interaction.data.type === ApplicationCommandType.Message &&
+			commandName === CREATE_TASK_FROM_MESSAGE_COMMAND
+		) {
+			const messageInteraction =
+				interaction as APIMessageApplicationCommandInteraction;
+			const taskController = createTaskController(temboService, env, temboUserId);
+			const response = await asyncHandler(
+				() => taskController.handleMessageCommand(messageInteraction, ctx, env),
+				commandName,
+				userId,
+			);
+			return c.json(response);
 		}
 
 		// Create controllers (auth controllers get authService, others get temboService)
 		const controllers = {
-			task: new TaskController(temboService),
+			task: createTaskController(temboService, env, temboUserId),
 			repositories: new RepositoriesController(temboService),
 			whoami: new WhoamiController(temboService),
+			config: new ConfigController(
+				temboService,
+				new TaskDefaultsService(env.tembo_bot_db),
+				new AgentCatalogService(env.tembo_bot_db),
+			),
+			schedule: new ScheduleController(
+				temboService,
+				new TaskScheduleService(env.tembo_bot_db),
+				new TaskDefaultsService(env.tembo_bot_db),
+				new ChannelRepositoryService(env.tembo_bot_db),
+				new AgentCatalogService(env.tembo_bot_db),
+				new PermissionPolicyService(env.tembo_bot_db),
+				keyScope,
+			),
+			admin: new AdminController(
+				temboService,
+				new PermissionPolicyService(env.tembo_bot_db),
+				new ChannelRepositoryService(env.tembo_bot_db),
+				new AgentCatalogService(env.tembo_bot_db),
+			),
 			setup: new SetupController(authService),
 			unregister: new UnregisterController(authService),
 			status: new StatusController(authService),
@@ -164,10 +331,12 @@ app.post("/interactions", async (c) => {
 		const authService = new AuthService(
 			new DatabaseService(env.tembo_bot_db),
 			new EncryptionService(env.ENCRYPTION_MASTER_KEY),
+			getKeyValidationTtlMs(env.KEY_VALIDATION_TTL_SECONDS),
+			new RepositoryCacheService(env.tembo_bot_db),
 		);
 
 		// Authenticate user for autocomplete
-		const authResult = await authService.authenticateUser(userId);
+		const authResult = await authService.authenticateUser(userId, interaction.guild_id);
 
 		if (!authResult.success) {
 			// Return empty choices if not authenticated
@@ -183,16 +352,36 @@ app.post("/interactions", async (c) => {
 		const temboService = authResult.temboService!;
 
 		const controllers = {
-			task: new TaskController(temboService),
+			task: createTaskController(temboService, env, authResult.temboUserId),
 			repositories: new RepositoriesController(temboService),
 			whoami: new WhoamiController(temboService),
+			config: new ConfigController(
+				temboService,
+				new TaskDefaultsService(env.tembo_bot_db),
+				new AgentCatalogService(env.tembo_bot_db),
+			),
+			schedule: new ScheduleController(
+				temboService,
+				new TaskScheduleService(env.tembo_bot_db),
+				new TaskDefaultsService(env.tembo_bot_db),
+				new ChannelRepositoryService(env.tembo_bot_db),
+				new AgentCatalogService(env.tembo_bot_db),
+				new PermissionPolicyService(env.tembo_bot_db),
+				authResult.keyScope,
+			),
+			admin: new AdminController(
+				temboService,
+				new PermissionPolicyService(env.tembo_bot_db),
+				new ChannelRepositoryService(env.tembo_bot_db),
+				new AgentCatalogService(env.tembo_bot_db),
+			),
 		};
 
 		const controller = controllers[commandName as keyof typeof controllers];
 
 		if (controller) {
 			try {
-				const response = await controller.handleAutocomplete(autocompleteInteraction);
+				const response = await controller.handleAutocomplete(autocompleteInteraction, ctx);
 				return c.json(response);
 			} catch (error) {
 				logger.error("Error handling autocomplete", error, { command: commandName });
@@ -216,13 +405,24 @@ app.post("/interactions", async (c) => {
 			componentInteraction.user?.id ??
 			"unknown";
 
+		// Components are governed by the policy of the command they belong to
+		const componentCommand = getComponentCommandPath(customId);
+		if (componentCommand) {
+			const denied = await checkPermissionPolicy(componentInteraction, componentCommand, env);
+			if (denied) {
+				return c.json(denied);
+			}
+		}
+
 		// Authenticate user for component interactions
 		const authService = new AuthService(
 			new DatabaseService(env.tembo_bot_db),
 			new EncryptionService(env.ENCRYPTION_MASTER_KEY),
+			getKeyValidationTtlMs(env.KEY_VALIDATION_TTL_SECONDS),
+			new RepositoryCacheService(env.tembo_bot_db),
 		);
 
-		const authResult = await authService.authenticateUser(userId);
+		const authResult = await authService.authenticateUser(userId, interaction.guild_id);
 
 		if (!authResult.success) {
 			// User not authenticated
@@ -238,13 +438,13 @@ app.post("/interactions", async (c) => {
 		const temboService = authResult.temboService!;
 
 		const controllers = {
-			task: new TaskController(temboService),
+			task: createTaskController(temboService, env, authResult.temboUserId),
 			repositories: new RepositoriesController(temboService),
 			whoami: new WhoamiController(temboService),
 		};
 
 		// Route based on custom_id prefix
-		let controller;
+		let controller: TaskController | undefined;
 		if (customId.startsWith("task_")) {
 			controller = controllers.task;
 		}
@@ -269,8 +469,73 @@ app.post("/interactions", async (c) => {
 		return c.json(response);
 	}
 
+	if (interaction.type === InteractionType.ModalSubmit) {
+		const modalInteraction = interaction as APIModalSubmitInteraction;
+		const customId = modalInteraction.data.custom_id;
+		const userId =
+			modalInteraction.member?.user?.id ??
+			modalInteraction.user?.id ??
+			"unknown";
+
+		// Forms are governed by the policy of the command that opened them
+		const modalCommand = getComponentCommandPath(customId);
+		if (modalCommand) {
+			const denied = await checkPermissionPolicy(modalInteraction, modalCommand, env);
+			if (denied) {
+				return c.json(denied);
+			}
+		}
+
+		// Authenticate user for modal submissions
+		const authService = new AuthService(
+			new DatabaseService(env.tembo_bot_db),
+			new EncryptionService(env.ENCRYPTION_MASTER_KEY),
+			getKeyValidationTtlMs(env.KEY_VALIDATION_TTL_SECONDS),
+			new RepositoryCacheService(env.tembo_bot_db),
+		);
+
+		const authResult = await authService.authenticateUser(userId, interaction.guild_id);
+
+		if (!authResult.success) {
+			return c.json({
+				type: InteractionResponseType.ChannelMessageWithSource,
+				data: {
+					content: `❌ ${authResult.error || "You must register your API key to use this feature. Use `/setup key:YOUR_API_KEY`"}`,
+					flags: 64,
+				},
+			});
+		}
+
+		const temboService = authResult.temboService!;
+
+		// Route based on custom_id prefix
+		let controller: TaskController | undefined;
+		if (customId.startsWith("task_")) {
+			controller = createTaskController(temboService, env, authResult.temboUserId);
+		}
+
+		if (controller) {
+			const response = await asyncHandler(
+				() => controller.handleModalSubmit(modalInteraction, ctx, env),
+				customId,
+				userId,
+			);
+			return c.json(response);
+		}
+
+		logger.warn("Unknown modal submission", { customId, userId });
+		const response: APIInteractionResponse = {
+			type: InteractionResponseType.ChannelMessageWithSource,
+			data: {
+				content: "❌ Unknown interaction or handler not found.",
+				flags: 64,
+			},
+		};
+		return c.json(response);
+	}
+
 	logger.warn("Unsupported interaction type", {
-		type: interaction.type,
+		type: (interaction as APIInteraction).type,
 	});
 
 	const response: APIInteractionResponse = {
@@ -283,4 +548,7 @@ app.post("/interactions", async (c) => {
 	return c.json(response, 400);
 });
 
-export default app;
+export default {
+	fetch: app.fetch,
+	scheduled: handleScheduled,
+} satisfies ExportedHandler<Env>;
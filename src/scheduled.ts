@@ -0,0 +1,71 @@
+import { AgentCatalogService } from "./services/agent-catalog.service";
+import { AuthService, getKeyValidationTtlMs } from "./services/auth.service";
+import { ChannelRepositoryService } from "./services/channel-repository.service";
+import { DatabaseService } from "./services/database.service";
+import { EncryptionService } from "./services/encryption.service";
+import { PaginationStateService } from "./services/pagination-state.service";
+import { PermissionPolicyService } from "./services/permission-policy.service";
+import { TaskScheduleService } from "./services/task-schedule.service";
+import { TaskScheduleRunner } from "./services/task-schedule-runner.service";
+import { TaskStatusPoller } from "./services/task-status-poller.service";
+import { TaskWatchService } from "./services/task-watch.service";
+import type { Env } from "./types";
+import { logger } from "./utils/logger";
+
+/**
+ * Cron Trigger entry point. Runs the background jobs that keep Discord in sync
+ * with Tembo between interactions, and starts due /schedule tasks.
+ */
+export async function handleScheduled(
+	controller: ScheduledController,
+	env: Env,
+	ctx: ExecutionContext,
+): Promise<void> {
+	logger.info("Scheduled run started", { cron: controller.cron });
+
+	const authService = new AuthService(
+		new DatabaseService(env.tembo_bot_db),
+		new EncryptionService(env.ENCRYPTION_MASTER_KEY),
+		getKeyValidationTtlMs(env.KEY_VALIDATION_TTL_SECONDS),
+	);
+
+	const watchService = new TaskWatchService(env.tembo_bot_db);
+
+	const poller = new TaskStatusPoller(
+		watchService,
+		authService,
+		env.DISCORD_BOT_TOKEN,
+	);
+
+	ctx.waitUntil(
+		poller.poll().catch((error) => {
+			logger.error("Task status poll failed", error);
+		}),
+	);
+
+	const scheduleRunner = new TaskScheduleRunner(
+		new TaskScheduleService(env.tembo_bot_db),
+		watchService,
+		authService,
+		new PermissionPolicyService(env.tembo_bot_db),
+		new ChannelRepositoryService(env.tembo_bot_db),
+		new AgentCatalogService(env.tembo_bot_db),
+		env.DISCORD_BOT_TOKEN,
+	);
+
+	ctx.waitUntil(
+		scheduleRunner.run().catch((error) => {
+			logger.error("Task schedule run failed", error);
+		}),
+	);
+
+	ctx.waitUntil(
+		new PaginationStateService(env.tembo_bot_db)
+			.removeExpiredStates()
+			.then((removed) => {
+				if (removed > 0) {
+					logger.info("Removed expired pagination states", { removed });
+				}
+			}),
+	);
+}
@@ -1,9 +1,31 @@
 import {
+	type ApplicationCommandOptionAllowedChannelType,
 	ApplicationCommandOptionType,
+	ApplicationCommandType,
 	ApplicationIntegrationType,
+	ChannelType,
 	InteractionContextType,
+	PermissionFlagsBits,
 	type RESTPostAPIApplicationCommandsJSONBody,
 } from "discord-api-types/v10";
+import { formatCommandPath, POLICY_COMMANDS } from "../utils/permissions";
+import {
+	EXTRA_REPOSITORY_OPTIONS,
+	TASK_STATUS_FILTERS,
+} from "../validation/command-options";
+
+const channelRepositoryTypes: ApplicationCommandOptionAllowedChannelType[] = [
+	ChannelType.GuildText,
+	ChannelType.GuildAnnouncement,
+	ChannelType.GuildForum,
+	ChannelType.PublicThread,
+	ChannelType.PrivateThread,
+];
+
+const policyCommandChoices = POLICY_COMMANDS.map((command) => ({
+	name: formatCommandPath(command),
+	value: command,
+}));
 
 const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 	{
@@ -33,14 +55,22 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 						min_length: 1,
 						max_length: 2000,
 					},
+					// Optional options come after required ones
 					{
 						type: ApplicationCommandOptionType.String,
 						name: "repositories",
-						description: "Repository URL (required - use autocomplete to select)",
-						required: true,
+						description:
+							"Repository URL (defaults to your /config repositories)",
+						required: false,
 						autocomplete: true,
 					},
-					// Optional options come after required ones
+					...EXTRA_REPOSITORY_OPTIONS.map((name) => ({
+						type: ApplicationCommandOptionType.String as const,
+						name,
+						description: "Another repository URL for multi-repository tasks",
+						required: false,
+						autocomplete: true,
+					})),
 					{
 						type: ApplicationCommandOptionType.String,
 						name: "agent",
@@ -55,6 +85,20 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 						description: "Specific git branch to target for this task",
 						required: false,
 					},
+					{
+						type: ApplicationCommandOptionType.Boolean,
+						name: "thread",
+						description:
+							"Open a thread for this task and post its status updates there",
+						required: false,
+					},
+					{
+						type: ApplicationCommandOptionType.Boolean,
+						name: "queue",
+						description:
+							"Start the task right away (default: true); false keeps it as a draft in /task drafts",
+						required: false,
+					},
 					{
 						type: ApplicationCommandOptionType.Boolean,
 						name: "ephemeral",
@@ -63,10 +107,16 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 					},
 				],
 			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "new",
+				description:
+					"Create a new Tembo task using a form (supports long, multi-line prompts)",
+			},
 			{
 				type: ApplicationCommandOptionType.Subcommand,
 				name: "list",
-				description: "List Tembo tasks with pagination",
+				description: "List Tembo tasks with pagination and filters",
 				options: [
 					{
 						type: ApplicationCommandOptionType.Integer,
@@ -83,6 +133,65 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 						min_value: 1,
 						max_value: 100,
 					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "status",
+						description: "Only show tasks with this status",
+						required: false,
+						choices: TASK_STATUS_FILTERS.map((status) => ({
+							name: status.charAt(0).toUpperCase() + status.slice(1),
+							value: status,
+						})),
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "agent",
+						description: "Only show tasks run by this agent",
+						required: false,
+						autocomplete: true,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "repository",
+						description: "Only show tasks for this repository (URL or name)",
+						required: false,
+						autocomplete: true,
+					},
+					{
+						type: ApplicationCommandOptionType.Boolean,
+						name: "mine",
+						description: "Only show tasks you created (needs your own API key)",
+						required: false,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "created_after",
+						description:
+							"Only show tasks created on or after this date (YYYY-MM-DD)",
+						required: false,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "sort",
+						description: "Order tasks by creation time, last update or status",
+						required: false,
+						choices: [
+							{ name: "Newest created", value: "created" },
+							{ name: "Recently updated", value: "updated" },
+							{ name: "Status (active first)", value: "status" },
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "view",
+						description:
+							"Detailed cards or one compact line per task (default: detailed)",
+						required: false,
+						choices: [
+							{ name: "Detailed", value: "detailed" },
+							{ name: "Compact", value: "compact" },
+						],
+					},
 					{
 						type: ApplicationCommandOptionType.Boolean,
 						name: "ephemeral",
@@ -126,6 +235,40 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 					},
 				],
 			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "view",
+				description: "View the full details of a single Tembo task",
+				options: [
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "id",
+						description: "Task ID (use autocomplete to pick a recent task)",
+						required: true,
+						autocomplete: true,
+					},
+					{
+						type: ApplicationCommandOptionType.Boolean,
+						name: "ephemeral",
+						description: "Whether to send the response as an ephemeral message",
+						required: false,
+					},
+				],
+			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "drafts",
+				description:
+					"List your unqueued tasks with links to queue them in Tembo",
+				options: [
+					{
+						type: ApplicationCommandOptionType.Boolean,
+						name: "ephemeral",
+						description: "Whether to send the response as an ephemeral message",
+						required: false,
+					},
+				],
+			},
 		],
 	},
 	{
@@ -154,6 +297,456 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 					},
 				],
 			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "refresh",
+				description:
+					"Reload your repositories from Tembo after connecting new ones",
+			},
+		],
+	},
+	{
+		name: "config",
+		description:
+			"Manage default repositories, agent and branch for /task create",
+		integration_types: [
+			ApplicationIntegrationType.GuildInstall,
+			ApplicationIntegrationType.UserInstall,
+		],
+		contexts: [
+			InteractionContextType.Guild,
+			InteractionContextType.BotDM,
+			InteractionContextType.PrivateChannel,
+		],
+		options: [
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "show",
+				description: "Show your defaults and this server's defaults (private)",
+			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "set",
+				description: "Set default repositories, agent or branch",
+				options: [
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "repositories",
+						description: "Comma-separated repository URLs",
+						required: false,
+						autocomplete: true,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "agent",
+						description: "Default agent (e.g., claudeCode:sonnet-4-5)",
+						required: false,
+						autocomplete: true,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "branch",
+						description: "Default git branch",
+						required: false,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "scope",
+						description:
+							"Save for yourself or for the whole server (requires Manage Server)",
+						required: false,
+						choices: [
+							{ name: "Just me", value: "user" },
+							{ name: "This server", value: "guild" },
+						],
+					},
+				],
+			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "clear",
+				description: "Remove saved defaults",
+				options: [
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "scope",
+						description:
+							"Clear your defaults or the server's (requires Manage Server)",
+						required: false,
+						choices: [
+							{ name: "Just me", value: "user" },
+							{ name: "This server", value: "guild" },
+						],
+					},
+				],
+			},
+		],
+	},
+	{
+		name: "schedule",
+		description: "Create Tembo tasks on a schedule",
+		integration_types: [
+			ApplicationIntegrationType.GuildInstall,
+			ApplicationIntegrationType.UserInstall,
+		],
+		contexts: [
+			InteractionContextType.Guild,
+			InteractionContextType.BotDM,
+			InteractionContextType.PrivateChannel,
+		],
+		options: [
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "create",
+				description: "Schedule a task to run repeatedly or once",
+				options: [
+					// Required options MUST come first
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "name",
+						description:
+							"A name for the schedule, e.g. Nightly dependency updates",
+						required: true,
+						min_length: 1,
+						max_length: 100,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "prompt",
+						description: "Description of the task to be performed on each run",
+						required: true,
+						min_length: 1,
+						max_length: 2000,
+					},
+					// Optional options come after required ones
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "cron",
+						description:
+							"Repeat on a cron expression in UTC, e.g. 0 3 * * * for 03:00 every day",
+						required: false,
+						max_length: 100,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "at",
+						description: "Run once at a time in UTC, as YYYY-MM-DD HH:MM",
+						required: false,
+						max_length: 16,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "repositories",
+						description:
+							"Repository URL (defaults to your /config repositories)",
+						required: false,
+						autocomplete: true,
+					},
+					...EXTRA_REPOSITORY_OPTIONS.map((name) => ({
+						type: ApplicationCommandOptionType.String as const,
+						name,
+						description: "Another repository URL for multi-repository tasks",
+						required: false,
+						autocomplete: true,
+					})),
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "agent",
+						description:
+							"The agent to use for each task (e.g., claudeCode:sonnet-4-5)",
+						required: false,
+						autocomplete: true,
+					},
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "branch",
+						description: "Specific git branch to target",
+						required: false,
+					},
+					{
+						type: ApplicationCommandOptionType.Boolean,
+						name: "ephemeral",
+						description: "Whether to send the response as an ephemeral message",
+						required: false,
+					},
+				],
+			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "list",
+				description: "List your schedules in this server with their next runs",
+				options: [
+					{
+						type: ApplicationCommandOptionType.Boolean,
+						name: "ephemeral",
+						description: "Whether to send the response as an ephemeral message",
+						required: false,
+					},
+				],
+			},
+			{
+				type: ApplicationCommandOptionType.Subcommand,
+				name: "delete",
+				description: "Remove one of your schedules",
+				options: [
+					{
+						type: ApplicationCommandOptionType.String,
+						name: "id",
+						description: "Schedule ID (use autocomplete to pick one)",
+						required: true,
+						autocomplete: true,
+					},
+				],
+			},
+		],
+	},
+	{
+		name: "admin",
+		description: "Manage how the bot can be used in this server",
+		default_member_permissions: PermissionFlagsBits.ManageGuild.toString(),
+		integration_types: [ApplicationIntegrationType.GuildInstall],
+		contexts: [InteractionContextType.Guild],
+		options: [
+			{
+				type: ApplicationCommandOptionType.SubcommandGroup,
+				name: "permissions",
+				description: "Restrict commands to specific roles",
+				options: [
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "list",
+						description: "Show which roles can run which commands",
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "allow",
+						description:
+							"Allow a role to run a command (restricts it to allowed roles)",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "command",
+								description: "Command or subcommand to restrict",
+								required: true,
+								choices: policyCommandChoices,
+							},
+							{
+								type: ApplicationCommandOptionType.Role,
+								name: "role",
+								description: "Role to allow",
+								required: true,
+							},
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "repository",
+								description:
+									"Only require the role for these repositories, e.g. acme/prod-* (task commands only)",
+								required: false,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "revoke",
+						description: "Remove a role from a command's allow-list",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "command",
+								description: "Command or subcommand",
+								required: true,
+								choices: policyCommandChoices,
+							},
+							{
+								type: ApplicationCommandOptionType.Role,
+								name: "role",
+								description: "Role to remove",
+								required: true,
+							},
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "repository",
+								description: "Repository pattern the rule was added with",
+								required: false,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "reset",
+						description: "Remove all restrictions from a command",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "command",
+								description: "Command or subcommand",
+								required: true,
+								choices: policyCommandChoices,
+							},
+						],
+					},
+				],
+			},
+			{
+				type: ApplicationCommandOptionType.SubcommandGroup,
+				name: "repositories",
+				description:
+					"Limit which repositories tasks created in a channel can target",
+				options: [
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "list",
+						description: "Show the repositories bound to each channel",
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "bind",
+						description:
+							"Only allow tasks in a channel to target the given repositories",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "repository",
+								description: "Repository URL (comma-separate to bind several)",
+								required: true,
+								autocomplete: true,
+							},
+							{
+								type: ApplicationCommandOptionType.Channel,
+								name: "channel",
+								description: "Channel to bind (defaults to this channel)",
+								required: false,
+								channel_types: channelRepositoryTypes,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "unbind",
+						description: "Remove a repository from a channel",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "repository",
+								description: "Repository URL",
+								required: true,
+								autocomplete: true,
+							},
+							{
+								type: ApplicationCommandOptionType.Channel,
+								name: "channel",
+								description: "Channel to update (defaults to this channel)",
+								required: false,
+								channel_types: channelRepositoryTypes,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "clear",
+						description: "Allow every repository in a channel again",
+						options: [
+							{
+								type: ApplicationCommandOptionType.Channel,
+								name: "channel",
+								description: "Channel to clear (defaults to this channel)",
+								required: false,
+								channel_types: channelRepositoryTypes,
+							},
+						],
+					},
+				],
+			},
+			{
+				type: ApplicationCommandOptionType.SubcommandGroup,
+				name: "agents",
+				description: "Choose which agents tasks in this server can use",
+				options: [
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "list",
+						description: "Show the server's agent catalog",
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "add",
+						description: "Add a custom agent to the catalog",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "agent",
+								description:
+									"Agent identifier sent to Tembo (e.g. claudeCode:opus-4-5)",
+								required: true,
+								max_length: 100,
+							},
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "name",
+								description: "Display name shown in autocomplete",
+								required: false,
+								max_length: 80,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "enable",
+						description: "Allow tasks to use an agent again",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "agent",
+								description: "Agent to enable",
+								required: true,
+								autocomplete: true,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "disable",
+						description: "Stop tasks from using an agent",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "agent",
+								description: "Agent to disable",
+								required: true,
+								autocomplete: true,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "default",
+						description: "Use an agent when a task doesn't pick one",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "agent",
+								description: "Agent to use by default",
+								required: true,
+								autocomplete: true,
+							},
+						],
+					},
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "remove",
+						description: "Delete a custom agent or reset a built-in one",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "agent",
+								description: "Agent to remove or reset",
+								required: true,
+								autocomplete: true,
+							},
+						],
+					},
+				],
+			},
 		],
 	},
 	{
@@ -190,6 +783,17 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 				required: true,
 				min_length: 10,
 			},
+			{
+				type: ApplicationCommandOptionType.String,
+				name: "scope",
+				description:
+					"Register the key for yourself or share it with this server (requires Manage Server)",
+				required: false,
+				choices: [
+					{ name: "Just me", value: "user" },
+					{ name: "This server", value: "guild" },
+				],
+			},
 		],
 	},
 	{
@@ -211,6 +815,17 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 				description: "Confirm that you want to remove your API key",
 				required: false,
 			},
+			{
+				type: ApplicationCommandOptionType.String,
+				name: "scope",
+				description:
+					"Remove your key or this server's shared key (requires Manage Server)",
+				required: false,
+				choices: [
+					{ name: "Just me", value: "user" },
+					{ name: "This server", value: "guild" },
+				],
+			},
 		],
 	},
 	{
@@ -252,6 +867,20 @@ const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
 			InteractionContextType.PrivateChannel,
 		],
 	},
+	{
+		// Message context menu command (right-click a message → Apps)
+		name: "Create Tembo task",
+		type: ApplicationCommandType.Message,
+		integration_types: [
+			ApplicationIntegrationType.GuildInstall,
+			ApplicationIntegrationType.UserInstall,
+		],
+		contexts: [
+			InteractionContextType.Guild,
+			InteractionContextType.BotDM,
+			InteractionContextType.PrivateChannel,
+		],
+	},
 ];
 
 async function registerCommands() {
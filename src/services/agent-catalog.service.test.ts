@@ -0,0 +1,289 @@
+// Tests for AgentCatalogService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import {
+	AgentCatalogService,
+	BUILT_IN_AGENTS,
+	getBuiltInCatalog,
+} from "./agent-catalog.service";
+
+const agentRow = (agent: string, overrides: Record<string, unknown> = {}) => ({
+	guild_id: "guild-1",
+	agent,
+	name: agent,
+	enabled: 1,
+	is_default: 0,
+	updated_by: "admin-1",
+	updated_timestamp: 1000,
+	...overrides,
+});
+
+describe("AgentCatalogService", () => {
+	let service: AgentCatalogService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new AgentCatalogService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new AgentCatalogService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("listAgents", () => {
+		it("should return the built-in catalog outside guilds", async () => {
+			const result = await service.listAgents(null);
+
+			expect(result).toEqual(getBuiltInCatalog());
+			expect(mockDb.prepare).not.toHaveBeenCalled();
+		});
+
+		it("should return the built-in catalog for guilds without overrides", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+
+			const result = await service.listAgents("guild-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("guild-1");
+			expect(result).toHaveLength(BUILT_IN_AGENTS.length);
+			expect(result.every((agent) => agent.enabled && agent.builtIn)).toBe(
+				true,
+			);
+		});
+
+		it("should apply overrides and append custom agents", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [
+					agentRow("cursor:sonnet-4", {
+						name: "Cursor - Sonnet 4",
+						enabled: 0,
+					}),
+					agentRow("custom:model", { name: "Custom Model" }),
+				],
+			});
+
+			const result = await service.listAgents("guild-1");
+
+			expect(
+				result.find((agent) => agent.value === "cursor:sonnet-4")?.enabled,
+			).toBe(false);
+			expect(result.at(-1)).toEqual({
+				name: "Custom Model",
+				value: "custom:model",
+				enabled: true,
+				isDefault: false,
+				builtIn: false,
+			});
+		});
+
+		it("should list the default agent first", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [
+					agentRow("amp:opus-4-5", { name: "Amp - Opus 4.5", is_default: 1 }),
+				],
+			});
+
+			const result = await service.listAgents("guild-1");
+
+			expect(result[0]?.value).toBe("amp:opus-4-5");
+			expect(result[0]?.isDefault).toBe(true);
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.all.mockRejectedValue(new Error("boom"));
+
+			await expect(service.listAgents("guild-1")).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("getAvailableAgents", () => {
+		it("should leave out disabled agents", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [agentRow("cursor:sonnet-4", { enabled: 0 })],
+			});
+
+			const result = await service.getAvailableAgents("guild-1");
+
+			expect(result.map((agent) => agent.value)).not.toContain(
+				"cursor:sonnet-4",
+			);
+			expect(result).toHaveLength(BUILT_IN_AGENTS.length - 1);
+		});
+	});
+
+	describe("getAgentCatalog", () => {
+		it("should use the built-in agents outside guilds", async () => {
+			const result = await service.getAgentCatalog(null);
+
+			expect(result).toEqual({
+				agents: BUILT_IN_AGENTS.map((agent) => agent.value),
+			});
+			expect(mockDb.prepare).not.toHaveBeenCalled();
+		});
+
+		it("should use the built-in agents in guilds without overrides", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+
+			const result = await service.getAgentCatalog("guild-1");
+
+			expect(result).toEqual({
+				agents: BUILT_IN_AGENTS.map((agent) => agent.value),
+			});
+		});
+
+		it("should allow no agent when the guild disabled them all", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: BUILT_IN_AGENTS.map((agent) =>
+					agentRow(agent.value, { enabled: 0 }),
+				),
+			});
+
+			const result = await service.getAgentCatalog("guild-1");
+
+			expect(result).toEqual({ agents: [] });
+		});
+
+		it("should apply the guild's overrides", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [
+					agentRow("cursor:sonnet-4", { enabled: 0 }),
+					agentRow("custom:model", { is_default: 1 }),
+				],
+			});
+
+			const result = await service.getAgentCatalog("guild-1");
+
+			expect(result.defaultAgent).toBe("custom:model");
+			expect(result.agents).toContain("claudeCode:opus-4-5");
+			expect(result.agents).not.toContain("cursor:sonnet-4");
+			expect(result.agents).toHaveLength(BUILT_IN_AGENTS.length);
+		});
+	});
+
+	describe("addAgent", () => {
+		it("should upsert the agent", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			await service.addAgent(
+				"guild-1",
+				"custom:model",
+				"Custom Model",
+				"admin-1",
+			);
+
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				expect.stringContaining("ON CONFLICT (guild_id, agent) DO UPDATE"),
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"guild-1",
+				"custom:model",
+				"Custom Model",
+				"admin-1",
+				1234567890,
+			);
+		});
+
+		it("should throw when saving fails", async () => {
+			mockStmt.run.mockRejectedValue(new Error("boom"));
+
+			await expect(
+				service.addAgent("guild-1", "custom:model", "Custom Model", "admin-1"),
+			).rejects.toThrow("Failed to save agent");
+		});
+	});
+
+	describe("setEnabled", () => {
+		it("should store an override for built-in agents", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const updated = await service.setEnabled(
+				"guild-1",
+				"cursor:sonnet-4",
+				false,
+				"admin-1",
+			);
+
+			expect(updated).toBe(true);
+			expect(mockStmt.bind).toHaveBeenLastCalledWith(
+				"guild-1",
+				"cursor:sonnet-4",
+				"Cursor - Sonnet 4",
+				0,
+				"admin-1",
+				1234567890,
+			);
+		});
+
+		it("should return false for unknown agents", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+
+			const updated = await service.setEnabled(
+				"guild-1",
+				"unknown:agent",
+				false,
+				"admin-1",
+			);
+
+			expect(updated).toBe(false);
+			expect(mockStmt.run).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("setDefault", () => {
+		it("should clear the previous default before marking the new one", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const updated = await service.setDefault(
+				"guild-1",
+				"amp:opus-4-5",
+				"admin-1",
+			);
+
+			expect(updated).toBe(true);
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				"UPDATE guild_agents SET is_default = 0 WHERE guild_id = ?",
+			);
+			expect(mockStmt.run).toHaveBeenCalledTimes(2);
+		});
+
+		it("should return false for unknown agents", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+
+			expect(
+				await service.setDefault("guild-1", "unknown:agent", "admin-1"),
+			).toBe(false);
+		});
+	});
+
+	describe("removeAgent", () => {
+		it("should report whether an override existed", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const removed = await service.removeAgent("guild-1", "custom:model");
+
+			expect(removed).toBe(true);
+			expect(mockStmt.bind).toHaveBeenCalledWith("guild-1", "custom:model");
+		});
+	});
+});
@@ -0,0 +1,336 @@
+/**
+ * AgentCatalogService
+ *
+ * Lists the agents tasks can run with. Tembo's API doesn't expose its agent
+ * list yet, so the catalog starts from the built-in agents below, and server
+ * admins can add custom agents, disable agents and mark a default per guild.
+ * DMs and guilds without overrides get the built-in list.
+ */
+
+import type { AgentCatalog } from "../types";
+import { logger } from "../utils/logger";
+
+export interface CatalogAgent {
+	name: string;
+	value: string;
+	enabled: boolean;
+	isDefault: boolean;
+	builtIn: boolean;
+}
+
+export const BUILT_IN_AGENTS: { name: string; value: string }[] = [
+	{ name: "Claude Code - Opus 4.5", value: "claudeCode:opus-4-5" },
+	{ name: "Claude Code - Sonnet 4.5", value: "claudeCode:sonnet-4-5" },
+	{ name: "Claude Code - Opus 4.1", value: "claudeCode:opus-4-1" },
+	{ name: "Claude Code - Haiku 4.5", value: "claudeCode:haiku-4-5" },
+	{ name: "Claude Code - Sonnet 4", value: "claudeCode:sonnet-4" },
+
+	{ name: "OpenCode - Opus 4.5", value: "opencode:opus-4-5" },
+	{ name: "OpenCode - Sonnet 4.5", value: "opencode:sonnet-4-5" },
+	{ name: "OpenCode - Opus 4.1", value: "opencode:opus-4-1" },
+	{ name: "OpenCode - Haiku 4.5", value: "opencode:haiku-4-5" },
+	{ name: "OpenCode - Sonnet 4", value: "opencode:sonnet-4" },
+
+	{ name: "Cursor - Opus 4.5", value: "cursor:opus-4-5" },
+	{ name: "Cursor - Sonnet 4.5", value: "cursor:sonnet-4-5" },
+	{ name: "Cursor - Opus 4.1", value: "cursor:opus-4-1" },
+	{ name: "Cursor - Haiku 4.5", value: "cursor:haiku-4-5" },
+	{ name: "Cursor - Sonnet 4", value: "cursor:sonnet-4" },
+
+	{ name: "Amp - Opus 4.5", value: "amp:opus-4-5" },
+];
+
+/**
+ * The built-in catalog, used outside guilds
+ */
+export function getBuiltInCatalog(): CatalogAgent[] {
+	return BUILT_IN_AGENTS.map((agent) => ({
+		...agent,
+		enabled: true,
+		isDefault: false,
+		builtIn: true,
+	}));
+}
+
+interface GuildAgentRow {
+	guild_id: string;
+	agent: string;
+	name: string;
+	enabled: number;
+	is_default: number;
+	updated_by: string;
+	updated_timestamp: number;
+}
+
+export class AgentCatalogService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Lists every agent in a guild's catalog, including disabled ones
+	 * @param guildId Discord guild ID, or null outside guilds
+	 * @returns Default agent first, then built-in agents, then custom agents
+	 */
+	async listAgents(guildId?: string | null): Promise<CatalogAgent[]> {
+		if (!guildId) {
+			return getBuiltInCatalog();
+		}
+
+		return this.mergeCatalog(await this.getGuildRows(guildId));
+	}
+
+	/**
+	 * Lists the agents tasks can use in a guild
+	 * @param guildId Discord guild ID, or null outside guilds
+	 */
+	async getAvailableAgents(guildId?: string | null): Promise<CatalogAgent[]> {
+		return (await this.listAgents(guildId)).filter((agent) => agent.enabled);
+	}
+
+	/**
+	 * Builds the catalog task agents are validated against. A guild that
+	 * disabled every agent gets an empty one, which allows no agent.
+	 * @param guildId Discord guild ID, or null outside guilds
+	 */
+	async getAgentCatalog(guildId?: string | null): Promise<AgentCatalog> {
+		const agents = await this.getAvailableAgents(guildId);
+		return {
+			agents: agents.map((agent) => agent.value),
+			defaultAgent: agents.find((agent) => agent.isDefault)?.value,
+		};
+	}
+
+	private async getGuildRows(guildId: string): Promise<GuildAgentRow[]> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM guild_agents WHERE guild_id = ? ORDER BY name",
+			);
+			const result = await stmt.bind(guildId).all<GuildAgentRow>();
+			return result.results ?? [];
+		} catch (error) {
+			logger.error("Failed to list guild agents", error, { guildId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Applies a guild's overrides to the built-in catalog and appends its custom agents
+	 * @returns Default agent first, then built-in agents, then custom agents
+	 */
+	private mergeCatalog(guildRows: GuildAgentRow[]): CatalogAgent[] {
+		const rows = new Map(guildRows.map((row) => [row.agent, row]));
+
+		const builtIn = getBuiltInCatalog().map((agent) => {
+			const row = rows.get(agent.value);
+			rows.delete(agent.value);
+			return row ? this.mapRow(row, true) : agent;
+		});
+		const custom = Array.from(rows.values(), (row) => this.mapRow(row, false));
+
+		return [...builtIn, ...custom].sort(
+			(a, b) => Number(b.isDefault) - Number(a.isDefault),
+		);
+	}
+
+	/**
+	 * Adds a custom agent, or renames and re-enables an existing one
+	 * @param guildId Discord guild ID
+	 * @param value Agent identifier sent to Tembo (e.g. claudeCode:opus-4-5)
+	 * @param name Display name shown in autocomplete
+	 * @param updatedBy Discord user ID making the change
+	 */
+	async addAgent(
+		guildId: string,
+		value: string,
+		name: string,
+		updatedBy: string,
+	): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				INSERT INTO guild_agents (
+					guild_id,
+					agent,
+					name,
+					enabled,
+					is_default,
+					updated_by,
+					updated_timestamp
+				) VALUES (?, ?, ?, 1, 0, ?, ?)
+				ON CONFLICT (guild_id, agent) DO UPDATE SET
+					name = excluded.name,
+					enabled = 1,
+					updated_by = excluded.updated_by,
+					updated_timestamp = excluded.updated_timestamp
+			`);
+			await stmt.bind(guildId, value, name, updatedBy, Date.now()).run();
+
+			logger.info("Guild agent added", { guildId, agent: value, updatedBy });
+		} catch (error) {
+			logger.error("Failed to add guild agent", error, {
+				guildId,
+				agent: value,
+			});
+			throw new Error("Failed to save agent");
+		}
+	}
+
+	/**
+	 * Enables or disables an agent. Disabling the default agent also clears the default.
+	 * @param guildId Discord guild ID
+	 * @param value Agent identifier
+	 * @param enabled Whether tasks may use the agent
+	 * @param updatedBy Discord user ID making the change
+	 * @returns False if the agent isn't in the guild's catalog
+	 */
+	async setEnabled(
+		guildId: string,
+		value: string,
+		enabled: boolean,
+		updatedBy: string,
+	): Promise<boolean> {
+		const agent = (await this.listAgents(guildId)).find(
+			(entry) => entry.value === value,
+		);
+		if (!agent) {
+			return false;
+		}
+
+		try {
+			const stmt = this.db.prepare(`
+				INSERT INTO guild_agents (
+					guild_id,
+					agent,
+					name,
+					enabled,
+					is_default,
+					updated_by,
+					updated_timestamp
+				) VALUES (?, ?, ?, ?, 0, ?, ?)
+				ON CONFLICT (guild_id, agent) DO UPDATE SET
+					enabled = excluded.enabled,
+					is_default = CASE WHEN excluded.enabled = 0 THEN 0 ELSE is_default END,
+					updated_by = excluded.updated_by,
+					updated_timestamp = excluded.updated_timestamp
+			`);
+			await stmt
+				.bind(
+					guildId,
+					value,
+					agent.name,
+					enabled ? 1 : 0,
+					updatedBy,
+					Date.now(),
+				)
+				.run();
+
+			logger.info("Guild agent updated", {
+				guildId,
+				agent: value,
+				enabled,
+				updatedBy,
+			});
+			return true;
+		} catch (error) {
+			logger.error("Failed to update guild agent", error, {
+				guildId,
+				agent: value,
+			});
+			throw new Error("Failed to save agent");
+		}
+	}
+
+	/**
+	 * Marks an agent as the guild's default, enabling it if needed
+	 * @param guildId Discord guild ID
+	 * @param value Agent identifier
+	 * @param updatedBy Discord user ID making the change
+	 * @returns False if the agent isn't in the guild's catalog
+	 */
+	async setDefault(
+		guildId: string,
+		value: string,
+		updatedBy: string,
+	): Promise<boolean> {
+		const agent = (await this.listAgents(guildId)).find(
+			(entry) => entry.value === value,
+		);
+		if (!agent) {
+			return false;
+		}
+
+		try {
+			await this.db
+				.prepare("UPDATE guild_agents SET is_default = 0 WHERE guild_id = ?")
+				.bind(guildId)
+				.run();
+
+			const stmt = this.db.prepare(`
+				INSERT INTO guild_agents (
+					guild_id,
+					agent,
+					name,
+					enabled,
+					is_default,
+					updated_by,
+					updated_timestamp
+				) VALUES (?, ?, ?, 1, 1, ?, ?)
+				ON CONFLICT (guild_id, agent) DO UPDATE SET
+					enabled = 1,
+					is_default = 1,
+					updated_by = excluded.updated_by,
+					updated_timestamp = excluded.updated_timestamp
+			`);
+			await stmt.bind(guildId, value, agent.name, updatedBy, Date.now()).run();
+
+			logger.info("Guild default agent set", {
+				guildId,
+				agent: value,
+				updatedBy,
+			});
+			return true;
+		} catch (error) {
+			logger.error("Failed to set guild default agent", error, {
+				guildId,
+				agent: value,
+			});
+			throw new Error("Failed to save agent");
+		}
+	}
+
+	/**
+	 * Removes a guild's override, deleting a custom agent or restoring a built-in one
+	 * @param guildId Discord guild ID
+	 * @param value Agent identifier
+	 * @returns True if the guild had an override for the agent
+	 */
+	async removeAgent(guildId: string, value: string): Promise<boolean> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM guild_agents WHERE guild_id = ? AND agent = ?",
+			);
+			const result = await stmt.bind(guildId, value).run();
+
+			logger.info("Guild agent removed", { guildId, agent: value });
+			return (result.meta?.changes ?? 0) > 0;
+		} catch (error) {
+			logger.error("Failed to remove guild agent", error, {
+				guildId,
+				agent: value,
+			});
+			throw new Error("Failed to remove agent");
+		}
+	}
+
+	private mapRow(row: GuildAgentRow, builtIn: boolean): CatalogAgent {
+		return {
+			name: row.name,
+			value: row.agent,
+			enabled: row.enabled === 1,
+			isDefault: row.is_default === 1,
+			builtIn,
+		};
+	}
+}
@@ -1,7 +1,11 @@
 // Tests for AuthService
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { AuthService } from "./auth.service";
+import {
+	AuthService,
+	DEFAULT_KEY_VALIDATION_TTL_MS,
+	getKeyValidationTtlMs,
+} from "./auth.service";
 import { DatabaseService } from "./database.service";
 import { EncryptionService } from "./encryption.service";
 import * as temboServiceModule from "./tembo.service";
@@ -22,9 +26,17 @@ describe("AuthService", () => {
 			updateUserApiKey: vi.fn(),
 			updateValidationStatus: vi.fn(),
 			updateLastUsed: vi.fn(),
+			expireValidation: vi.fn(),
 			deleteUserApiKey: vi.fn(),
 			logAuthEvent: vi.fn(),
 			getUserStatus: vi.fn(),
+			getGuildApiKey: vi.fn(),
+			saveGuildApiKey: vi.fn(),
+			deleteGuildApiKey: vi.fn(),
+			updateGuildLastUsed: vi.fn(),
+			updateGuildValidationStatus: vi.fn(),
+			expireGuildValidation: vi.fn(),
+			getGuildStatus: vi.fn(),
 		};
 
 		mockEncryptionService = {
@@ -191,6 +203,344 @@ describe("AuthService", () => {
 		});
 	});
 
+	describe("cached key validation", () => {
+		const discordUserId = "user123";
+		const now = 10_000_000;
+		const userRecord = {
+			discordUserId,
+			encryptedApiKey: "encrypted_key",
+			encryptionIv: "iv123",
+			encryptionSalt: "salt123",
+			registrationTimestamp: 1000000,
+			lastUsedTimestamp: 2000000,
+			validationStatus: "valid" as const,
+			temboUserId: "tembo_user_123",
+			temboOrgId: "tembo_org_456",
+			temboEmail: null,
+		};
+
+		beforeEach(() => {
+			vi.spyOn(Date, "now").mockReturnValue(now);
+			mockEncryptionService.decryptApiKey.mockResolvedValue("decrypted_api_key");
+			vi.spyOn(temboServiceModule, "createTemboService").mockReturnValue(
+				mockTemboService as unknown as temboServiceModule.TemboService,
+			);
+			mockTemboService.getCurrentUser.mockResolvedValue({
+				userId: "tembo_user_123",
+				orgId: "tembo_org_456",
+			});
+		});
+
+		it("should skip /me within the validation window", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue({
+				...userRecord,
+				lastValidatedTimestamp: now - 1000,
+			});
+
+			const result = await authService.authenticateUser(discordUserId);
+
+			expect(result.success).toBe(true);
+			expect(result.keyScope).toBe("user");
+			expect(result.temboUserId).toBe("tembo_user_123");
+			expect(mockTemboService.getCurrentUser).not.toHaveBeenCalled();
+			expect(mockDbService.updateLastUsed).toHaveBeenCalledWith(discordUserId);
+		});
+
+		it("should revalidate and record the result once the window has passed", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue({
+				...userRecord,
+				lastValidatedTimestamp: now - DEFAULT_KEY_VALIDATION_TTL_MS,
+			});
+
+			const result = await authService.authenticateUser(discordUserId);
+
+			expect(result.success).toBe(true);
+			expect(mockTemboService.getCurrentUser).toHaveBeenCalled();
+			expect(mockDbService.updateValidationStatus).toHaveBeenCalledWith(
+				discordUserId,
+				"valid",
+				{ userId: "tembo_user_123", orgId: "tembo_org_456" },
+			);
+		});
+
+		it("should always revalidate keys that aren't marked valid", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue({
+				...userRecord,
+				validationStatus: "pending" as const,
+				lastValidatedTimestamp: now - 1000,
+			});
+
+			await authService.authenticateUser(discordUserId);
+
+			expect(mockTemboService.getCurrentUser).toHaveBeenCalled();
+		});
+
+		it("should validate on every request when the window is 0", async () => {
+			const uncachedAuthService = new AuthService(
+				mockDbService as unknown as DatabaseService,
+				mockEncryptionService as unknown as EncryptionService,
+				0,
+			);
+			mockDbService.getUserApiKey.mockResolvedValue({
+				...userRecord,
+				lastValidatedTimestamp: now,
+			});
+
+			await uncachedAuthService.authenticateUser(discordUserId);
+
+			expect(mockTemboService.getCurrentUser).toHaveBeenCalled();
+		});
+
+		it("should still succeed when recording the validation fails", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue({
+				...userRecord,
+				lastValidatedTimestamp: null,
+			});
+			mockDbService.updateValidationStatus.mockRejectedValue(new Error("db down"));
+
+			const result = await authService.authenticateUser(discordUserId);
+
+			expect(result.success).toBe(true);
+		});
+
+		it("should expire the cached validation when a later call fails authentication", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue({
+				...userRecord,
+				lastValidatedTimestamp: now - 1000,
+			});
+
+			await authService.authenticateUser(discordUserId);
+
+			const options = vi.mocked(temboServiceModule.createTemboService).mock.calls[0]?.[1];
+			await options?.onAuthError?.(new AuthenticationError("/task/list"));
+
+			expect(mockDbService.expireValidation).toHaveBeenCalledWith(discordUserId);
+		});
+
+		it("should skip /me for a recently validated guild key", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue(null);
+			mockDbService.getGuildApiKey.mockResolvedValue({
+				guildId: "guild-1",
+				encryptedApiKey: "guild_encrypted_key",
+				encryptionIv: "guild_iv",
+				encryptionSalt: "guild_salt",
+				registeredBy: "admin-1",
+				registrationTimestamp: 1000000,
+				lastUsedTimestamp: 2000000,
+				lastValidatedTimestamp: now - 1000,
+				validationStatus: "valid" as const,
+				temboUserId: "tembo_admin",
+				temboOrgId: "tembo_org_456",
+				temboEmail: null,
+			});
+
+			const result = await authService.authenticateUser(discordUserId, "guild-1");
+
+			expect(result.success).toBe(true);
+			expect(result.keyScope).toBe("guild");
+			expect(result.temboUserId).toBeUndefined();
+			expect(mockTemboService.getCurrentUser).not.toHaveBeenCalled();
+
+			const options = vi.mocked(temboServiceModule.createTemboService).mock.calls[0]?.[1];
+			await options?.onAuthError?.(new AuthenticationError("/task/list"));
+			expect(mockDbService.expireGuildValidation).toHaveBeenCalledWith("guild-1");
+		});
+	});
+
+	describe("getKeyValidationTtlMs", () => {
+		it("should convert seconds to milliseconds", () => {
+			expect(getKeyValidationTtlMs("60")).toBe(60_000);
+			expect(getKeyValidationTtlMs("0")).toBe(0);
+		});
+
+		it("should fall back to the default for missing or invalid values", () => {
+			expect(getKeyValidationTtlMs(undefined)).toBe(DEFAULT_KEY_VALIDATION_TTL_MS);
+			expect(getKeyValidationTtlMs("")).toBe(DEFAULT_KEY_VALIDATION_TTL_MS);
+			expect(getKeyValidationTtlMs("soon")).toBe(DEFAULT_KEY_VALIDATION_TTL_MS);
+			expect(getKeyValidationTtlMs("-5")).toBe(DEFAULT_KEY_VALIDATION_TTL_MS);
+		});
+	});
+
+	describe("authenticateUser with guild key", () => {
+		const discordUserId = "user123";
+		const guildId = "guild-1";
+		const mockGuildRecord = {
+			guildId,
+			encryptedApiKey: "guild_encrypted_key",
+			encryptionIv: "guild_iv",
+			encryptionSalt: "guild_salt",
+			registeredBy: "admin-1",
+			registrationTimestamp: 1000000,
+			lastUsedTimestamp: 2000000,
+			lastValidatedTimestamp: 1500000,
+			validationStatus: "valid" as const,
+			temboUserId: "tembo_admin",
+			temboOrgId: "tembo_org_456",
+			temboEmail: null,
+		};
+
+		it("should fall back to the guild key when the user has no key", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue(null);
+			mockDbService.getGuildApiKey.mockResolvedValue(mockGuildRecord);
+			mockEncryptionService.decryptApiKey.mockResolvedValue("guild_api_key");
+			vi.spyOn(temboServiceModule, "createTemboService").mockReturnValue(
+				mockTemboService as unknown as temboServiceModule.TemboService,
+			);
+			mockTemboService.getCurrentUser.mockResolvedValue({
+				userId: "tembo_admin",
+				orgId: "tembo_org_456",
+			});
+
+			const result = await authService.authenticateUser(discordUserId, guildId);
+
+			expect(result.success).toBe(true);
+			expect(result.keyScope).toBe("guild");
+			expect(mockEncryptionService.decryptApiKey).toHaveBeenCalledWith(
+				{ ciphertext: "guild_encrypted_key", iv: "guild_iv", salt: "guild_salt" },
+				guildId,
+			);
+			expect(mockDbService.updateGuildLastUsed).toHaveBeenCalledWith(guildId);
+			expect(mockDbService.updateLastUsed).not.toHaveBeenCalled();
+		});
+
+		it("should prefer the user's own key", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue({
+				discordUserId,
+				encryptedApiKey: "encrypted_key",
+				encryptionIv: "iv123",
+				encryptionSalt: "salt123",
+			});
+			mockEncryptionService.decryptApiKey.mockResolvedValue("user_api_key");
+			vi.spyOn(temboServiceModule, "createTemboService").mockReturnValue(
+				mockTemboService as unknown as temboServiceModule.TemboService,
+			);
+			mockTemboService.getCurrentUser.mockResolvedValue({ userId: "u", orgId: "o" });
+
+			const result = await authService.authenticateUser(discordUserId, guildId);
+
+			expect(result.success).toBe(true);
+			expect(result.keyScope).toBe("user");
+			expect(mockDbService.getGuildApiKey).not.toHaveBeenCalled();
+		});
+
+		it("should require onboarding when neither key exists", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue(null);
+			mockDbService.getGuildApiKey.mockResolvedValue(null);
+
+			const result = await authService.authenticateUser(discordUserId, guildId);
+
+			expect(result.success).toBe(false);
+			expect(result.requiresOnboarding).toBe(true);
+		});
+
+		it("should mark an invalid guild key", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue(null);
+			mockDbService.getGuildApiKey.mockResolvedValue(mockGuildRecord);
+			mockEncryptionService.decryptApiKey.mockResolvedValue("guild_api_key");
+			vi.spyOn(temboServiceModule, "createTemboService").mockReturnValue(
+				mockTemboService as unknown as temboServiceModule.TemboService,
+			);
+			mockTemboService.getCurrentUser.mockRejectedValue(new AuthenticationError("/me"));
+
+			const result = await authService.authenticateUser(discordUserId, guildId);
+
+			expect(result.success).toBe(false);
+			expect(result.requiresOnboarding).toBe(false);
+			expect(result.error).toContain("server's shared API key");
+			expect(mockDbService.updateGuildValidationStatus).toHaveBeenCalledWith(
+				guildId,
+				"invalid",
+			);
+		});
+
+		it("should handle guild key decryption failure", async () => {
+			mockDbService.getUserApiKey.mockResolvedValue(null);
+			mockDbService.getGuildApiKey.mockResolvedValue(mockGuildRecord);
+			mockEncryptionService.decryptApiKey.mockRejectedValue(new Error("bad tag"));
+
+			const result = await authService.authenticateUser(discordUserId, guildId);
+
+			expect(result.success).toBe(false);
+			expect(mockDbService.logAuthEvent).toHaveBeenCalledWith(
+				expect.objectContaining({
+					eventType: "auth_failure",
+					metadata: { reason: "decryption_failed", scope: "guild", guildId },
+				}),
+			);
+		});
+	});
+
+	describe("registerGuildApiKey", () => {
+		const guildId = "guild-1";
+		const adminId = "admin-1";
+
+		it("should encrypt the key with the guild ID and save it", async () => {
+			vi.spyOn(temboServiceModule, "createTemboService").mockReturnValue(
+				mockTemboService as unknown as temboServiceModule.TemboService,
+			);
+			mockTemboService.getCurrentUser.mockResolvedValue({
+				userId: "tembo_admin",
+				orgId: "tembo_org_456",
+			});
+			mockEncryptionService.encryptApiKey.mockResolvedValue({
+				ciphertext: "c",
+				iv: "i",
+				salt: "s",
+			});
+			mockDbService.getGuildApiKey.mockResolvedValue(null);
+
+			const result = await authService.registerGuildApiKey(guildId, adminId, "guild_key_123");
+
+			expect(result.success).toBe(true);
+			expect(mockEncryptionService.encryptApiKey).toHaveBeenCalledWith(
+				"guild_key_123",
+				guildId,
+			);
+			expect(mockDbService.saveGuildApiKey).toHaveBeenCalledWith(
+				expect.objectContaining({
+					guildId,
+					encryptedApiKey: "c",
+					registeredBy: adminId,
+					temboOrgId: "tembo_org_456",
+				}),
+			);
+			expect(mockDbService.logAuthEvent).toHaveBeenCalledWith(
+				expect.objectContaining({
+					discordUserId: adminId,
+					eventType: "register",
+					metadata: expect.objectContaining({ scope: "guild", guildId }),
+				}),
+			);
+		});
+
+		it("should reject an invalid key", async () => {
+			vi.spyOn(temboServiceModule, "createTemboService").mockReturnValue(
+				mockTemboService as unknown as temboServiceModule.TemboService,
+			);
+			mockTemboService.getCurrentUser.mockRejectedValue(new AuthenticationError("/me"));
+
+			const result = await authService.registerGuildApiKey(guildId, adminId, "bad_key_123");
+
+			expect(result.success).toBe(false);
+			expect(mockDbService.saveGuildApiKey).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("unregisterGuild", () => {
+		it("should delete the guild key and log the event", async () => {
+			await authService.unregisterGuild("guild-1", "admin-1");
+
+			expect(mockDbService.deleteGuildApiKey).toHaveBeenCalledWith("guild-1");
+			expect(mockDbService.logAuthEvent).toHaveBeenCalledWith(
+				expect.objectContaining({
+					discordUserId: "admin-1",
+					eventType: "unregister",
+					metadata: { scope: "guild", guildId: "guild-1" },
+				}),
+			);
+		});
+	});
+
 	describe("registerApiKey", () => {
 		const discordUserId = "user123";
 		const apiKey = "test_api_key_123";
@@ -3,20 +3,58 @@
  *
  * Orchestrates user authentication, API key validation, and registration.
  * Coordinates between EncryptionService, DatabaseService, and TemboService.
+ * Users without their own key fall back to the guild's shared key, if any.
+ * A successful /me validation is trusted for a configurable window so most
+ * interactions skip the extra Tembo round trip.
  */
 
 import { EncryptionService, type EncryptedData } from "./encryption.service";
-import { DatabaseService, type UserStatusInfo } from "./database.service";
+import {
+	DatabaseService,
+	type GuildApiKeyRecord,
+	type GuildStatusInfo,
+	type UserApiKeyRecord,
+	type UserStatusInfo,
+} from "./database.service";
 import { createTemboService, TemboService } from "./tembo.service";
+import type {
+	RepositoryCache,
+	RepositoryCacheService,
+} from "./repository-cache.service";
 import type { TemboUserInfo } from "../types";
 import { logger } from "../utils/logger";
 import { isAuthError } from "../utils/errors";
 
+// How long a successful key validation is trusted before calling /me again
+export const DEFAULT_KEY_VALIDATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Reads the validation window from the KEY_VALIDATION_TTL_SECONDS variable.
+ * "0" validates on every request; missing or invalid values use the default.
+ */
+export function getKeyValidationTtlMs(value: string | undefined): number {
+	if (value === undefined || value.trim() === "") {
+		return DEFAULT_KEY_VALIDATION_TTL_MS;
+	}
+
+	const seconds = Number(value);
+	if (!Number.isFinite(seconds) || seconds < 0) {
+		logger.warn("Ignoring invalid KEY_VALIDATION_TTL_SECONDS", { value });
+		return DEFAULT_KEY_VALIDATION_TTL_MS;
+	}
+
+	return seconds * 1000;
+}
+
 export interface AuthResult {
 	success: boolean;
 	temboService?: TemboService;
 	requiresOnboarding: boolean;
 	error?: string;
+	// Which key authenticated the request
+	keyScope?: "user" | "guild";
+	// The user's own Tembo user ID; unknown when a guild key was used
+	temboUserId?: string;
 }
 
 export interface RegisterResult {
@@ -29,19 +67,36 @@ export class AuthService {
 	constructor(
 		private readonly dbService: DatabaseService,
 		private readonly encryptionService: EncryptionService,
+		private readonly keyValidationTtlMs: number = DEFAULT_KEY_VALIDATION_TTL_MS,
+		private readonly repositoryCacheService?: RepositoryCacheService,
 	) {}
 
 	/**
-	 * Authenticates a Discord user and returns their TemboService instance
+	 * Authenticates a Discord user and returns their TemboService instance.
+	 * A personal key always wins; the guild's shared key is only used when the user has none.
 	 * @param discordUserId Discord user ID from interaction
+	 * @param guildId Guild the interaction came from, if any
 	 * @returns AuthResult with TemboService if successful, or onboarding flag if not registered
 	 */
-	async authenticateUser(discordUserId: string): Promise<AuthResult> {
+	async authenticateUser(
+		discordUserId: string,
+		guildId?: string | null,
+	): Promise<AuthResult> {
 		try {
 			// Check if user has an API key registered
 			const record = await this.dbService.getUserApiKey(discordUserId);
 
 			if (!record) {
+				if (guildId) {
+					const guildRecord = await this.dbService.getGuildApiKey(guildId);
+					if (guildRecord) {
+						return await this.authenticateWithGuildKey(
+							discordUserId,
+							guildRecord,
+						);
+					}
+				}
+
 				logger.info("User not registered", { discordUserId });
 				return {
 					success: false,
@@ -78,10 +133,14 @@ export class AuthService {
 				};
 			}
 
-			// Create TemboService with user's API key
+			// Create TemboService with user's API key. Auth errors from any later
+			// call expire the cached validation.
 			let temboService: TemboService;
 			try {
-				temboService = createTemboService(decryptedApiKey);
+				temboService = createTemboService(decryptedApiKey, {
+					onAuthError: () => this.dbService.expireValidation(discordUserId),
+					repositoryCache: this.getRepositoryCache(record.temboOrgId),
+				});
 			} catch (error) {
 				logger.error("Failed to create TemboService", error, { discordUserId });
 				return {
@@ -91,12 +150,35 @@ export class AuthService {
 				};
 			}
 
+			if (this.isValidationFresh(record)) {
+				await this.dbService.updateLastUsed(discordUserId);
+
+				logger.info("User authenticated with cached validation", {
+					discordUserId,
+				});
+
+				return {
+					success: true,
+					temboService,
+					requiresOnboarding: false,
+					keyScope: "user",
+					temboUserId: record.temboUserId ?? undefined,
+				};
+			}
+
 			// Validate the API key still works by calling /me
 			try {
-				await temboService.getCurrentUser();
+				const userInfo = await temboService.getCurrentUser();
 
 				// Update last used timestamp
 				await this.dbService.updateLastUsed(discordUserId);
+				await this.recordValidation(() =>
+					this.dbService.updateValidationStatus(
+						discordUserId,
+						"valid",
+						userInfo,
+					),
+				);
 
 				logger.info("User authenticated successfully", { discordUserId });
 
@@ -104,6 +186,8 @@ export class AuthService {
 					success: true,
 					temboService,
 					requiresOnboarding: false,
+					keyScope: "user",
+					temboUserId: userInfo.userId,
 				};
 			} catch (error) {
 				// Check if it's an authentication error
@@ -246,6 +330,117 @@ export class AuthService {
 		}
 	}
 
+	/**
+	 * Validates and registers a guild's shared API key
+	 * @param guildId Discord guild ID (used as additional authenticated data)
+	 * @param discordUserId Admin registering the key
+	 * @param apiKey Tembo API key to register
+	 * @returns RegisterResult with user info if successful
+	 */
+	async registerGuildApiKey(
+		guildId: string,
+		discordUserId: string,
+		apiKey: string,
+	): Promise<RegisterResult> {
+		try {
+			const validation = await this.validateApiKey(apiKey);
+
+			if (!validation.valid) {
+				logger.warn("Guild API key validation failed", {
+					guildId,
+					discordUserId,
+				});
+				return {
+					success: false,
+					error:
+						"Invalid API key. Please check your key and try again. Make sure you copied the entire key from the Tembo dashboard.",
+				};
+			}
+
+			let encrypted: EncryptedData;
+			try {
+				encrypted = await this.encryptionService.encryptApiKey(apiKey, guildId);
+			} catch (error) {
+				logger.error("Failed to encrypt guild API key", error, { guildId });
+				return {
+					success: false,
+					error:
+						"Failed to encrypt the API key. Please try again or contact support.",
+				};
+			}
+
+			const existing = await this.dbService.getGuildApiKey(guildId);
+
+			await this.dbService.saveGuildApiKey({
+				guildId,
+				encryptedApiKey: encrypted.ciphertext,
+				encryptionIv: encrypted.iv,
+				encryptionSalt: encrypted.salt,
+				registeredBy: discordUserId,
+				lastValidatedTimestamp: Date.now(),
+				validationStatus: "valid",
+				temboUserId: validation.userInfo?.userId ?? null,
+				temboOrgId: validation.userInfo?.orgId ?? null,
+				temboEmail: validation.userInfo?.email ?? null,
+			});
+			await this.dbService.logAuthEvent({
+				discordUserId,
+				eventType: existing ? "update" : "register",
+				timestamp: Date.now(),
+				metadata: {
+					scope: "guild",
+					guildId,
+					temboUserId: validation.userInfo?.userId,
+				},
+			});
+
+			logger.info("Guild API key registered", { guildId, discordUserId });
+
+			return {
+				success: true,
+				userInfo: validation.userInfo,
+			};
+		} catch (error) {
+			logger.error("Failed to register guild API key", error, { guildId });
+			return {
+				success: false,
+				error:
+					"An unexpected error occurred while registering the server API key. Please try again.",
+			};
+		}
+	}
+
+	/**
+	 * Removes a guild's shared API key from the database
+	 * @param guildId Discord guild ID
+	 * @param discordUserId Admin removing the key
+	 */
+	async unregisterGuild(guildId: string, discordUserId: string): Promise<void> {
+		try {
+			await this.dbService.deleteGuildApiKey(guildId);
+			await this.dbService.logAuthEvent({
+				discordUserId,
+				eventType: "unregister",
+				timestamp: Date.now(),
+				metadata: { scope: "guild", guildId },
+			});
+
+			logger.info("Guild API key unregistered", { guildId, discordUserId });
+		} catch (error) {
+			logger.error("Failed to unregister guild", error, { guildId });
+			throw new Error("Failed to remove the server API key. Please try again.");
+		}
+	}
+
+	/**
+	 * Gets guild key registration status for /status command
+	 * @param guildId Discord guild ID
+	 * @returns Guild key status information
+	 */
+	async getGuildStatus(guildId: string): Promise<GuildStatusInfo> {
+		return await this.dbService.getGuildStatus(guildId);
+	}
+
 	/**
 	 * Removes a user's API key from the database
 	 * @param discordUserId Discord user ID
@@ -285,6 +480,163 @@ export class AuthService {
 		return await this.dbService.getUserStatus(discordUserId);
 	}
 
+	/**
+	 * Authenticates a user with their guild's shared key
+	 * @param discordUserId Discord user ID making the request
+	 * @param record Guild API key record
+	 * @returns AuthResult with TemboService if successful
+	 */
+	private async authenticateWithGuildKey(
+		discordUserId: string,
+		record: GuildApiKeyRecord,
+	): Promise<AuthResult> {
+		const guildId = record.guildId;
+
+		let decryptedApiKey: string;
+		try {
+			decryptedApiKey = await this.encryptionService.decryptApiKey(
+				{
+					ciphertext: record.encryptedApiKey,
+					iv: record.encryptionIv,
+					salt: record.encryptionSalt,
+				},
+				guildId,
+			);
+		} catch (error) {
+			logger.error("Failed to decrypt guild API key", error, { guildId });
+			await this.dbService.logAuthEvent({
+				discordUserId,
+				eventType: "auth_failure",
+				timestamp: Date.now(),
+				metadata: { reason: "decryption_failed", scope: "guild", guildId },
+			});
+			return {
+				success: false,
+				requiresOnboarding: false,
+				error:
+					"Failed to decrypt this server's shared API key. Ask a server admin to run `/setup scope:guild` again, or register your own key with /setup.",
+			};
+		}
+
+		let temboService: TemboService;
+		try {
+			temboService = createTemboService(decryptedApiKey, {
+				onAuthError: () => this.dbService.expireGuildValidation(guildId),
+				repositoryCache: this.getRepositoryCache(record.temboOrgId),
+			});
+		} catch (error) {
+			logger.error("Failed to create TemboService", error, { guildId });
+			return {
+				success: false,
+				requiresOnboarding: false,
+				error: "Failed to initialize Tembo service with this server's API key.",
+			};
+		}
+
+		if (this.isValidationFresh(record)) {
+			await this.dbService.updateGuildLastUsed(guildId);
+
+			logger.info("User authenticated with cached guild key validation", {
+				discordUserId,
+				guildId,
+			});
+
+			return {
+				success: true,
+				temboService,
+				requiresOnboarding: false,
+				keyScope: "guild",
+			};
+		}
+
+		try {
+			await temboService.getCurrentUser();
+			await this.dbService.updateGuildLastUsed(guildId);
+			await this.recordValidation(() =>
+				this.dbService.updateGuildValidationStatus(guildId, "valid"),
+			);
+
+			logger.info("User authenticated with guild key", {
+				discordUserId,
+				guildId,
+			});
+
+			return {
+				success: true,
+				temboService,
+				requiresOnboarding: false,
+				keyScope: "guild",
+			};
+		} catch (error) {
+			if (isAuthError(error)) {
+				logger.warn("Guild API key is invalid", { guildId });
+
+				await this.dbService.updateGuildValidationStatus(guildId, "invalid");
+				await this.dbService.logAuthEvent({
+					discordUserId,
+					eventType: "auth_failure",
+					timestamp: Date.now(),
+					metadata: { reason: "invalid_api_key", scope: "guild", guildId },
+				});
+
+				return {
+					success: false,
+					requiresOnboarding: false,
+					error:
+						"This server's shared API key is invalid or expired. Ask a server admin to update it with `/setup scope:guild`, or register your own key with /setup.",
+				};
+			}
+
+			logger.error("Failed to validate guild API key", error, { guildId });
+			return {
+				success: false,
+				requiresOnboarding: false,
+				error:
+					"Failed to validate this server's shared API key. Please try again.",
+			};
+		}
+	}
+
+	/**
+	 * Repositories are cached per Tembo organization, so keys registered
+	 * before the organization was recorded go uncached
+	 */
+	private getRepositoryCache(
+		orgId: string | null,
+	): RepositoryCache | undefined {
+		return orgId && this.repositoryCacheService
+			? this.repositoryCacheService.forOrganization(orgId)
+			: undefined;
+	}
+
+	/**
+	 * Whether a key was validated recently enough to skip calling /me
+	 */
+	private isValidationFresh(
+		record: Pick<
+			UserApiKeyRecord,
+			"validationStatus" | "lastValidatedTimestamp"
+		>,
+	): boolean {
+		return (
+			record.validationStatus === "valid" &&
+			record.lastValidatedTimestamp !== null &&
+			Date.now() - record.lastValidatedTimestamp < this.keyValidationTtlMs
+		);
+	}
+
+	/**
+	 * Stores a successful validation. Failing to store it only means the next
+	 * request validates again, so it never fails authentication.
+	 */
+	private async recordValidation(update: () => Promise<void>): Promise<void> {
+		try {
+			await update();
+		} catch (error) {
+			logger.warn("Failed to record key validation", { error });
+		}
+	}
+
 	/**
 	 * Validates an API key by calling the Tembo /me endpoint
 	 * @param apiKey Tembo API key to validate
@@ -0,0 +1,183 @@
+// Tests for ChannelRepositoryService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import { ChannelRepositoryService } from "./channel-repository.service";
+
+const bindingRow = (channelId: string, repositoryUrl: string) => ({
+	guild_id: "guild-1",
+	channel_id: channelId,
+	repository_url: repositoryUrl,
+	created_by: "admin-1",
+	created_timestamp: 1000,
+});
+
+describe("ChannelRepositoryService", () => {
+	let service: ChannelRepositoryService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new ChannelRepositoryService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new ChannelRepositoryService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("getAllowedRepositories", () => {
+		it("should return the channel's bound repositories", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [bindingRow("chan-1", "https://github.com/org/frontend")],
+			});
+
+			const result = await service.getAllowedRepositories("chan-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("chan-1");
+			expect(result).toEqual(["https://github.com/org/frontend"]);
+		});
+
+		it("should return an empty list for unrestricted channels", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+
+			expect(await service.getAllowedRepositories("chan-1")).toEqual([]);
+		});
+
+		it("should fall back to the parent channel for threads", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [bindingRow("parent-1", "https://github.com/org/frontend")],
+			});
+
+			const result = await service.getAllowedRepositories(
+				"thread-1",
+				"parent-1",
+			);
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("thread-1", "parent-1");
+			expect(result).toEqual(["https://github.com/org/frontend"]);
+		});
+
+		it("should prefer a thread's own bindings over its parent's", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [
+					bindingRow("parent-1", "https://github.com/org/frontend"),
+					bindingRow("thread-1", "https://github.com/org/docs"),
+				],
+			});
+
+			const result = await service.getAllowedRepositories(
+				"thread-1",
+				"parent-1",
+			);
+
+			expect(result).toEqual(["https://github.com/org/docs"]);
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.all.mockRejectedValue(new Error("boom"));
+
+			await expect(service.getAllowedRepositories("chan-1")).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("listBindings", () => {
+		it("should map stored rows", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [bindingRow("chan-1", "https://github.com/org/frontend")],
+			});
+
+			const result = await service.listBindings("guild-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("guild-1");
+			expect(result).toEqual([
+				{
+					guildId: "guild-1",
+					channelId: "chan-1",
+					repositoryUrl: "https://github.com/org/frontend",
+					createdBy: "admin-1",
+					createdTimestamp: 1000,
+				},
+			]);
+		});
+	});
+
+	describe("bindRepositories", () => {
+		it("should insert each repository and count new bindings", async () => {
+			mockStmt.run
+				.mockResolvedValueOnce({ meta: { changes: 1 } })
+				.mockResolvedValueOnce({ meta: { changes: 0 } });
+
+			const added = await service.bindRepositories(
+				"guild-1",
+				"chan-1",
+				["https://github.com/org/frontend", "https://github.com/org/web"],
+				"admin-1",
+			);
+
+			expect(added).toBe(1);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"guild-1",
+				"chan-1",
+				"https://github.com/org/web",
+				"admin-1",
+				1234567890,
+			);
+		});
+
+		it("should throw when saving fails", async () => {
+			mockStmt.run.mockRejectedValue(new Error("boom"));
+
+			await expect(
+				service.bindRepositories(
+					"guild-1",
+					"chan-1",
+					["https://github.com/org/web"],
+					"admin-1",
+				),
+			).rejects.toThrow("Failed to save channel repositories");
+		});
+	});
+
+	describe("unbindRepository", () => {
+		it("should report whether the repository was bound", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const removed = await service.unbindRepository(
+				"chan-1",
+				"https://github.com/org/web",
+			);
+
+			expect(removed).toBe(true);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"chan-1",
+				"https://github.com/org/web",
+			);
+		});
+	});
+
+	describe("clearChannel", () => {
+		it("should return the number of removed bindings", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 2 } });
+
+			expect(await service.clearChannel("chan-1")).toBe(2);
+		});
+	});
+});
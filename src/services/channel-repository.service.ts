@@ -0,0 +1,199 @@
+/**
+ * ChannelRepositoryService
+ *
+ * Binds repositories to Discord channels so tasks created in a channel can
+ * only target its repositories (e.g. #frontend → the frontend repos).
+ * Channels without bindings allow every repository, and threads fall back
+ * to their parent channel's bindings.
+ */
+
+import { logger } from "../utils/logger";
+
+export interface ChannelRepositoryBinding {
+	guildId: string;
+	channelId: string;
+	repositoryUrl: string;
+	createdBy: string;
+	createdTimestamp: number;
+}
+
+interface ChannelRepositoryRow {
+	guild_id: string;
+	channel_id: string;
+	repository_url: string;
+	created_by: string;
+	created_timestamp: number;
+}
+
+export class ChannelRepositoryService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Gets the repositories a channel is restricted to
+	 * @param channelId Channel the command was used in
+	 * @param parentId Parent channel when channelId is a thread
+	 * @returns Bound repository URLs (empty when the channel is unrestricted)
+	 */
+	async getAllowedRepositories(
+		channelId: string,
+		parentId?: string | null,
+	): Promise<string[]> {
+		const channelIds = parentId ? [channelId, parentId] : [channelId];
+
+		try {
+			const placeholders = channelIds.map(() => "?").join(", ");
+			const stmt = this.db.prepare(
+				`SELECT * FROM channel_repositories WHERE channel_id IN (${placeholders}) ORDER BY repository_url`,
+			);
+			const result = await stmt.bind(...channelIds).all<ChannelRepositoryRow>();
+			const rows = result.results ?? [];
+
+			// A thread's own bindings override its parent's
+			for (const id of channelIds) {
+				const repositories = rows
+					.filter((row) => row.channel_id === id)
+					.map((row) => row.repository_url);
+				if (repositories.length > 0) {
+					return repositories;
+				}
+			}
+
+			return [];
+		} catch (error) {
+			logger.error("Failed to get channel repositories", error, {
+				channelId,
+				parentId,
+			});
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Lists every binding in a guild
+	 * @param guildId Discord guild ID
+	 * @returns Bindings ordered by channel, then repository
+	 */
+	async listBindings(guildId: string): Promise<ChannelRepositoryBinding[]> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM channel_repositories WHERE guild_id = ? ORDER BY channel_id, repository_url",
+			);
+			const result = await stmt.bind(guildId).all<ChannelRepositoryRow>();
+
+			return (result.results ?? []).map((row) => this.mapRow(row));
+		} catch (error) {
+			logger.error("Failed to list channel repositories", error, { guildId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Binds repositories to a channel
+	 * @param guildId Discord guild ID
+	 * @param channelId Discord channel ID
+	 * @param repositories Repository URLs to allow
+	 * @param createdBy Discord user ID making the change
+	 * @returns Number of newly bound repositories
+	 */
+	async bindRepositories(
+		guildId: string,
+		channelId: string,
+		repositories: string[],
+		createdBy: string,
+	): Promise<number> {
+		try {
+			const stmt = this.db.prepare(`
+				INSERT OR IGNORE INTO channel_repositories (
+					guild_id,
+					channel_id,
+					repository_url,
+					created_by,
+					created_timestamp
+				) VALUES (?, ?, ?, ?, ?)
+			`);
+			const now = Date.now();
+			let added = 0;
+
+			for (const repositoryUrl of repositories) {
+				const result = await stmt
+					.bind(guildId, channelId, repositoryUrl, createdBy, now)
+					.run();
+				added += result.meta?.changes ?? 0;
+			}
+
+			logger.info("Channel repositories bound", {
+				guildId,
+				channelId,
+				repositoryCount: repositories.length,
+				createdBy,
+			});
+			return added;
+		} catch (error) {
+			logger.error("Failed to bind channel repositories", error, {
+				guildId,
+				channelId,
+			});
+			throw new Error("Failed to save channel repositories");
+		}
+	}
+
+	/**
+	 * Removes a repository from a channel
+	 * @param channelId Discord channel ID
+	 * @param repositoryUrl Repository URL to remove
+	 * @returns True if the repository was bound
+	 */
+	async unbindRepository(
+		channelId: string,
+		repositoryUrl: string,
+	): Promise<boolean> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM channel_repositories WHERE channel_id = ? AND repository_url = ?",
+			);
+			const result = await stmt.bind(channelId, repositoryUrl).run();
+
+			logger.info("Channel repository unbound", { channelId, repositoryUrl });
+			return (result.meta?.changes ?? 0) > 0;
+		} catch (error) {
+			logger.error("Failed to unbind channel repository", error, { channelId });
+			throw new Error("Failed to remove channel repository");
+		}
+	}
+
+	/**
+	 * Removes every binding from a channel, allowing all repositories again
+	 * @param channelId Discord channel ID
+	 * @returns Number of bindings removed
+	 */
+	async clearChannel(channelId: string): Promise<number> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM channel_repositories WHERE channel_id = ?",
+			);
+			const result = await stmt.bind(channelId).run();
+
+			logger.info("Channel repositories cleared", { channelId });
+			return result.meta?.changes ?? 0;
+		} catch (error) {
+			logger.error("Failed to clear channel repositories", error, {
+				channelId,
+			});
+			throw new Error("Failed to clear channel repositories");
+		}
+	}
+
+	private mapRow(row: ChannelRepositoryRow): ChannelRepositoryBinding {
+		return {
+			guildId: row.guild_id,
+			channelId: row.channel_id,
+			repositoryUrl: row.repository_url,
+			createdBy: row.created_by,
+			createdTimestamp: row.created_timestamp,
+		};
+	}
+}
@@ -367,6 +367,40 @@ describe("DatabaseService", () => {
 		});
 	});
 
+	describe("expireValidation", () => {
+		let service: DatabaseService;
+		let mockDb: any;
+		let mockStmt: any;
+
+		beforeEach(() => {
+			const mocks = createMockD1Database();
+			mockDb = mocks.mockDb;
+			mockStmt = mocks.mockStmt;
+			service = new DatabaseService(mockDb as unknown as D1Database);
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("should mark a valid key as pending revalidation", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.expireValidation("user123");
+
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				"UPDATE user_api_keys SET validation_status = 'pending' WHERE discord_user_id = ? AND validation_status = 'valid'",
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith("user123");
+		});
+
+		it("should not throw on failure (non-critical operation)", async () => {
+			mockStmt.run.mockRejectedValue(new Error("Database error"));
+
+			await expect(service.expireValidation("user123")).resolves.toBeUndefined();
+		});
+	});
+
 	describe("updateValidationStatus", () => {
 		let service: DatabaseService;
 		let mockDb: any;
@@ -545,6 +579,149 @@ describe("DatabaseService", () => {
 		});
 	});
 
+	describe("guild API keys", () => {
+		let service: DatabaseService;
+		let mockDb: any;
+		let mockStmt: any;
+
+		const mockGuildRow = {
+			guild_id: "guild-1",
+			encrypted_api_key: "encrypted_key",
+			encryption_iv: "iv123",
+			encryption_salt: "salt123",
+			registered_by: "admin-1",
+			registration_timestamp: 1000000,
+			last_used_timestamp: 2000000,
+			last_validated_timestamp: 1500000,
+			validation_status: "valid",
+			tembo_user_id: "tembo_user_123",
+			tembo_org_id: "tembo_org_456",
+			tembo_email: null,
+		};
+
+		beforeEach(() => {
+			const mocks = createMockD1Database();
+			mockDb = mocks.mockDb;
+			mockStmt = mocks.mockStmt;
+			service = new DatabaseService(mockDb as unknown as D1Database);
+			vi.spyOn(Date, "now").mockReturnValue(1234567890);
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("should map a guild key record", async () => {
+			mockStmt.first.mockResolvedValue(mockGuildRow);
+
+			const result = await service.getGuildApiKey("guild-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("guild-1");
+			expect(result).toEqual({
+				guildId: "guild-1",
+				encryptedApiKey: "encrypted_key",
+				encryptionIv: "iv123",
+				encryptionSalt: "salt123",
+				registeredBy: "admin-1",
+				registrationTimestamp: 1000000,
+				lastUsedTimestamp: 2000000,
+				lastValidatedTimestamp: 1500000,
+				validationStatus: "valid",
+				temboUserId: "tembo_user_123",
+				temboOrgId: "tembo_org_456",
+				temboEmail: null,
+			});
+		});
+
+		it("should return null when the guild has no key", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			expect(await service.getGuildApiKey("guild-1")).toBeNull();
+		});
+
+		it("should save a guild key", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.saveGuildApiKey({
+				guildId: "guild-1",
+				encryptedApiKey: "encrypted_key",
+				encryptionIv: "iv123",
+				encryptionSalt: "salt123",
+				registeredBy: "admin-1",
+				lastValidatedTimestamp: 1234567890,
+				validationStatus: "valid",
+				temboUserId: "tembo_user_123",
+				temboOrgId: "tembo_org_456",
+				temboEmail: null,
+			});
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"guild-1",
+				"encrypted_key",
+				"iv123",
+				"salt123",
+				"admin-1",
+				1234567890,
+				1234567890,
+				1234567890,
+				"valid",
+				"tembo_user_123",
+				"tembo_org_456",
+				null,
+			);
+		});
+
+		it("should throw when saving fails", async () => {
+			mockStmt.run.mockRejectedValue(new Error("DB error"));
+
+			await expect(
+				service.saveGuildApiKey({
+					guildId: "guild-1",
+					encryptedApiKey: "encrypted_key",
+					encryptionIv: "iv123",
+					encryptionSalt: "salt123",
+					registeredBy: "admin-1",
+					lastValidatedTimestamp: null,
+					validationStatus: "valid",
+					temboUserId: null,
+					temboOrgId: null,
+					temboEmail: null,
+				}),
+			).rejects.toThrow("Failed to save guild API key");
+		});
+
+		it("should delete a guild key", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.deleteGuildApiKey("guild-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("guild-1");
+		});
+
+		it("should not throw when updating last used fails", async () => {
+			mockStmt.run.mockRejectedValue(new Error("DB error"));
+
+			await expect(service.updateGuildLastUsed("guild-1")).resolves.toBeUndefined();
+		});
+
+		it("should return guild status without key material", async () => {
+			mockStmt.first.mockResolvedValue(mockGuildRow);
+
+			const status = await service.getGuildStatus("guild-1");
+
+			expect(status).toEqual({
+				registered: true,
+				guildId: "guild-1",
+				registeredBy: "admin-1",
+				registrationTimestamp: 1000000,
+				lastUsedTimestamp: 2000000,
+				validationStatus: "valid",
+				temboOrgId: "tembo_org_456",
+				temboEmail: null,
+			});
+		});
+	});
+
 	describe("getUserCount", () => {
 		let service: DatabaseService;
 		let mockDb: any;
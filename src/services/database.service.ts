@@ -1,7 +1,7 @@
 /**
  * DatabaseService
  *
- * Handles all Cloudflare D1 database operations for user authentication.
+ * Handles all Cloudflare D1 database operations for user and guild authentication.
  * Uses prepared statements to prevent SQL injection.
  */
 
@@ -22,6 +22,21 @@ export interface UserApiKeyRecord {
 	temboEmail: string | null;
 }
 
+export interface GuildApiKeyRecord {
+	guildId: string;
+	encryptedApiKey: string;
+	encryptionIv: string;
+	encryptionSalt: string;
+	registeredBy: string;
+	registrationTimestamp: number;
+	lastUsedTimestamp: number;
+	lastValidatedTimestamp: number | null;
+	validationStatus: "pending" | "valid" | "invalid";
+	temboUserId: string | null;
+	temboOrgId: string | null;
+	temboEmail: string | null;
+}
+
 export interface AuthEvent {
 	discordUserId: string;
 	eventType:
@@ -47,6 +62,17 @@ export interface UserStatusInfo {
 	temboEmail?: string | null;
 }
 
+export interface GuildStatusInfo {
+	registered: boolean;
+	guildId?: string;
+	registeredBy?: string;
+	registrationTimestamp?: number;
+	lastUsedTimestamp?: number;
+	validationStatus?: "pending" | "valid" | "invalid";
+	temboOrgId?: string | null;
+	temboEmail?: string | null;
+}
+
 export class DatabaseService {
 	constructor(private readonly db: D1Database) {
 		if (!db) {
@@ -279,6 +305,25 @@ export class DatabaseService {
 		}
 	}
 
+	/**
+	 * Expires a user's cached key validation so the next request revalidates
+	 * with Tembo. Unlike updateValidationStatus, the stored Tembo user info is kept.
+	 * @param discordUserId Discord user ID
+	 */
+	async expireValidation(discordUserId: string): Promise<void> {
+		try {
+			const stmt = this.db.prepare(
+				"UPDATE user_api_keys SET validation_status = 'pending' WHERE discord_user_id = ? AND validation_status = 'valid'",
+			);
+			await stmt.bind(discordUserId).run();
+
+			logger.info("User key validation expired", { discordUserId });
+		} catch (error) {
+			// Don't throw on failure - the cached validation still expires on its own
+			logger.warn("Failed to expire key validation", { discordUserId, error });
+		}
+	}
+
 	/**
 	 * Logs an authentication event to the audit table
 	 * @param event Authentication event details
@@ -341,6 +386,209 @@ export class DatabaseService {
 		};
 	}
 
+	/**
+	 * Retrieves a guild's shared API key record from the database
+	 * @param guildId Discord guild ID
+	 * @returns Guild API key record or null if not found
+	 */
+	async getGuildApiKey(guildId: string): Promise<GuildApiKeyRecord | null> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM guild_api_keys WHERE guild_id = ?",
+			);
+			const result = await stmt.bind(guildId).first<{
+				guild_id: string;
+				encrypted_api_key: string;
+				encryption_iv: string;
+				encryption_salt: string;
+				registered_by: string;
+				registration_timestamp: number;
+				last_used_timestamp: number;
+				last_validated_timestamp: number | null;
+				validation_status: "pending" | "valid" | "invalid";
+				tembo_user_id: string | null;
+				tembo_org_id: string | null;
+				tembo_email: string | null;
+			}>();
+
+			if (!result) {
+				return null;
+			}
+
+			// Map snake_case to camelCase
+			return {
+				guildId: result.guild_id,
+				encryptedApiKey: result.encrypted_api_key,
+				encryptionIv: result.encryption_iv,
+				encryptionSalt: result.encryption_salt,
+				registeredBy: result.registered_by,
+				registrationTimestamp: result.registration_timestamp,
+				lastUsedTimestamp: result.last_used_timestamp,
+				lastValidatedTimestamp: result.last_validated_timestamp,
+				validationStatus: result.validation_status,
+				temboUserId: result.tembo_user_id,
+				temboOrgId: result.tembo_org_id,
+				temboEmail: result.tembo_email,
+			};
+		} catch (error) {
+			logger.error("Failed to get guild API key", error, { guildId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Saves (or replaces) a guild's shared API key
+	 * @param record Guild API key record to save
+	 */
+	async saveGuildApiKey(
+		record: Omit<GuildApiKeyRecord, "registrationTimestamp" | "lastUsedTimestamp">,
+	): Promise<void> {
+		try {
+			const now = Date.now();
+			const stmt = this.db.prepare(`
+				INSERT OR REPLACE INTO guild_api_keys (
+					guild_id,
+					encrypted_api_key,
+					encryption_iv,
+					encryption_salt,
+					registered_by,
+					registration_timestamp,
+					last_used_timestamp,
+					last_validated_timestamp,
+					validation_status,
+					tembo_user_id,
+					tembo_org_id,
+					tembo_email
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			`);
+
+			await stmt
+				.bind(
+					record.guildId,
+					record.encryptedApiKey,
+					record.encryptionIv,
+					record.encryptionSalt,
+					record.registeredBy,
+					now,
+					now,
+					record.lastValidatedTimestamp ?? null,
+					record.validationStatus,
+					record.temboUserId ?? null,
+					record.temboOrgId ?? null,
+					record.temboEmail ?? null,
+				)
+				.run();
+
+			logger.info("Guild API key saved", {
+				guildId: record.guildId,
+				registeredBy: record.registeredBy,
+			});
+		} catch (error) {
+			logger.error("Failed to save guild API key", error, { guildId: record.guildId });
+			throw new Error("Failed to save guild API key");
+		}
+	}
+
+	/**
+	 * Deletes a guild's shared API key from the database
+	 * @param guildId Discord guild ID
+	 */
+	async deleteGuildApiKey(guildId: string): Promise<void> {
+		try {
+			const stmt = this.db.prepare("DELETE FROM guild_api_keys WHERE guild_id = ?");
+			await stmt.bind(guildId).run();
+
+			logger.info("Guild API key deleted", { guildId });
+		} catch (error) {
+			logger.error("Failed to delete guild API key", error, { guildId });
+			throw new Error("Failed to delete guild API key");
+		}
+	}
+
+	/**
+	 * Updates the last used timestamp for a guild key
+	 * @param guildId Discord guild ID
+	 */
+	async updateGuildLastUsed(guildId: string): Promise<void> {
+		try {
+			const stmt = this.db.prepare(
+				"UPDATE guild_api_keys SET last_used_timestamp = ? WHERE guild_id = ?",
+			);
+			await stmt.bind(Date.now(), guildId).run();
+		} catch (error) {
+			// Don't throw on failure - this is non-critical
+			logger.warn("Failed to update guild last used timestamp", { guildId, error });
+		}
+	}
+
+	/**
+	 * Updates the validation status of a guild key
+	 * @param guildId Discord guild ID
+	 * @param status Validation status
+	 */
+	async updateGuildValidationStatus(
+		guildId: string,
+		status: "pending" | "valid" | "invalid",
+	): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				UPDATE guild_api_keys
+				SET validation_status = ?,
+				    last_validated_timestamp = ?
+				WHERE guild_id = ?
+			`);
+			await stmt.bind(status, Date.now(), guildId).run();
+
+			logger.info("Guild validation status updated", { guildId, status });
+		} catch (error) {
+			logger.error("Failed to update guild validation status", error, { guildId });
+			throw new Error("Failed to update guild validation status");
+		}
+	}
+
+	/**
+	 * Expires a guild key's cached validation so the next request revalidates
+	 * with Tembo
+	 * @param guildId Discord guild ID
+	 */
+	async expireGuildValidation(guildId: string): Promise<void> {
+		try {
+			const stmt = this.db.prepare(
+				"UPDATE guild_api_keys SET validation_status = 'pending' WHERE guild_id = ? AND validation_status = 'valid'",
+			);
+			await stmt.bind(guildId).run();
+
+			logger.info("Guild key validation expired", { guildId });
+		} catch (error) {
+			// Don't throw on failure - the cached validation still expires on its own
+			logger.warn("Failed to expire guild key validation", { guildId, error });
+		}
+	}
+
+	/**
+	 * Gets guild key registration status for /status command
+	 * @param guildId Discord guild ID
+	 * @returns Guild key status information (never includes key material)
+	 */
+	async getGuildStatus(guildId: string): Promise<GuildStatusInfo> {
+		const record = await this.getGuildApiKey(guildId);
+
+		if (!record) {
+			return { registered: false };
+		}
+
+		return {
+			registered: true,
+			guildId: record.guildId,
+			registeredBy: record.registeredBy,
+			registrationTimestamp: record.registrationTimestamp,
+			lastUsedTimestamp: record.lastUsedTimestamp,
+			validationStatus: record.validationStatus,
+			temboOrgId: record.temboOrgId,
+			temboEmail: record.temboEmail,
+		};
+	}
+
 	/**
 	 * Gets total number of registered users (for admin stats)
 	 * @returns Count of registered users
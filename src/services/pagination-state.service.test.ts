@@ -0,0 +1,146 @@
+// Tests for PaginationStateService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import {
+	DEFAULT_PAGINATION_STATE_TTL_MS,
+	PaginationStateService,
+} from "./pagination-state.service";
+
+const stateRow = (overrides: Record<string, unknown> = {}) => ({
+	id: "0123456789abcdef",
+	kind: "list",
+	discord_user_id: "user-1",
+	options: JSON.stringify({ status: "failed", limit: 25 }),
+	created_timestamp: 1000,
+	expires_timestamp: 1234567890 + 1000,
+	...overrides,
+});
+
+describe("PaginationStateService", () => {
+	let service: PaginationStateService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new PaginationStateService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new PaginationStateService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("saveState", () => {
+		it("should store the options under a random hex ID", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const id = await service.saveState("search", "user-1", {
+				query: "auth bug",
+			});
+
+			expect(id).toMatch(/^[0-9a-f]{16}$/);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				id,
+				"search",
+				"user-1",
+				JSON.stringify({ query: "auth bug" }),
+				1234567890,
+				1234567890 + DEFAULT_PAGINATION_STATE_TTL_MS,
+			);
+		});
+
+		it("should generate a new ID for every state", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const first = await service.saveState("list", "user-1", {});
+			const second = await service.saveState("list", "user-1", {});
+
+			expect(first).not.toBe(second);
+		});
+
+		it("should throw when saving fails", async () => {
+			mockStmt.run.mockRejectedValue(new Error("boom"));
+
+			await expect(service.saveState("list", "user-1", {})).rejects.toThrow(
+				"Failed to save pagination state",
+			);
+		});
+	});
+
+	describe("getState", () => {
+		it("should return a stored state", async () => {
+			mockStmt.first.mockResolvedValue(stateRow());
+
+			const state = await service.getState("0123456789abcdef", "list");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("0123456789abcdef", "list");
+			expect(state).toEqual({
+				id: "0123456789abcdef",
+				kind: "list",
+				discordUserId: "user-1",
+				options: { status: "failed", limit: 25 },
+				createdTimestamp: 1000,
+				expiresTimestamp: 1234567890 + 1000,
+			});
+		});
+
+		it("should return null for unknown IDs", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			expect(await service.getState("0123456789abcdef", "search")).toBeNull();
+		});
+
+		it("should return null for expired states", async () => {
+			mockStmt.first.mockResolvedValue(
+				stateRow({ expires_timestamp: 1234567890 }),
+			);
+
+			expect(await service.getState("0123456789abcdef", "list")).toBeNull();
+		});
+
+		it("should return null for unreadable options", async () => {
+			mockStmt.first.mockResolvedValue(stateRow({ options: "[1, 2]" }));
+
+			expect(await service.getState("0123456789abcdef", "list")).toBeNull();
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.first.mockRejectedValue(new Error("boom"));
+
+			await expect(
+				service.getState("0123456789abcdef", "list"),
+			).rejects.toThrow("Database query failed");
+		});
+	});
+
+	describe("removeExpiredStates", () => {
+		it("should delete expired states and report how many", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 3 } });
+
+			expect(await service.removeExpiredStates()).toBe(3);
+			expect(mockStmt.bind).toHaveBeenCalledWith(1234567890);
+		});
+
+		it("should not throw on cleanup failure", async () => {
+			mockStmt.run.mockRejectedValue(new Error("boom"));
+
+			expect(await service.removeExpiredStates()).toBe(0);
+		});
+	});
+});
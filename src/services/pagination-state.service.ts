@@ -0,0 +1,168 @@
+/**
+ * PaginationStateService
+ *
+ * Stores the options behind /task list and /task search results, so page
+ * buttons only carry a random state ID instead of the options themselves.
+ * Unknown IDs, IDs of another kind and expired states are all treated as
+ * missing, which rejects forged and stale buttons alike.
+ */
+
+import { logger } from "../utils/logger";
+
+export const DEFAULT_PAGINATION_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type PaginationKind = "list" | "search";
+
+export interface PaginationState {
+	id: string;
+	kind: PaginationKind;
+	discordUserId: string;
+	options: Record<string, unknown>;
+	createdTimestamp: number;
+	expiresTimestamp: number;
+}
+
+interface PaginationStateRow {
+	id: string;
+	kind: string;
+	discord_user_id: string;
+	options: string;
+	created_timestamp: number;
+	expires_timestamp: number;
+}
+
+/**
+ * Random 16-character hex ID, safe to put in a custom_id
+ */
+function generateStateId(): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+export class PaginationStateService {
+	constructor(
+		private readonly db: D1Database,
+		private readonly ttlMs: number = DEFAULT_PAGINATION_STATE_TTL_MS,
+	) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Saves a command's options for its page buttons
+	 * @param kind Whether the options belong to a list or a search
+	 * @param discordUserId Discord user who ran the command
+	 * @param options Command options needed to load another page
+	 * @returns The new state ID
+	 */
+	async saveState(
+		kind: PaginationKind,
+		discordUserId: string,
+		options: Record<string, unknown>,
+	): Promise<string> {
+		const id = generateStateId();
+		const now = Date.now();
+
+		try {
+			const stmt = this.db.prepare(`
+				INSERT INTO pagination_states (
+					id,
+					kind,
+					discord_user_id,
+					options,
+					created_timestamp,
+					expires_timestamp
+				) VALUES (?, ?, ?, ?, ?, ?)
+			`);
+			await stmt
+				.bind(
+					id,
+					kind,
+					discordUserId,
+					JSON.stringify(options),
+					now,
+					now + this.ttlMs,
+				)
+				.run();
+
+			return id;
+		} catch (error) {
+			logger.error("Failed to save pagination state", error, {
+				kind,
+				discordUserId,
+			});
+			throw new Error("Failed to save pagination state");
+		}
+	}
+
+	/**
+	 * Loads a state saved by saveState
+	 * @param id State ID from a button's custom_id
+	 * @param kind Expected kind; a state of another kind is treated as missing
+	 * @returns The state, or null if it's unknown, expired or unreadable
+	 */
+	async getState(
+		id: string,
+		kind: PaginationKind,
+	): Promise<PaginationState | null> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM pagination_states WHERE id = ? AND kind = ?",
+			);
+			const row = await stmt.bind(id, kind).first<PaginationStateRow>();
+
+			if (!row || row.expires_timestamp <= Date.now()) {
+				return null;
+			}
+
+			const options = this.parseOptions(row.options);
+			if (!options) {
+				logger.warn("Ignoring unreadable pagination state", { id });
+				return null;
+			}
+
+			return {
+				id: row.id,
+				kind,
+				discordUserId: row.discord_user_id,
+				options,
+				createdTimestamp: row.created_timestamp,
+				expiresTimestamp: row.expires_timestamp,
+			};
+		} catch (error) {
+			logger.error("Failed to get pagination state", error, { id });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Removes expired states
+	 * @returns Number of removed states
+	 */
+	async removeExpiredStates(): Promise<number> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM pagination_states WHERE expires_timestamp <= ?",
+			);
+			const result = await stmt.bind(Date.now()).run();
+			return result.meta?.changes ?? 0;
+		} catch (error) {
+			// Don't throw on cleanup failure - expired states are ignored and retried next run
+			logger.warn("Failed to remove expired pagination states", { error });
+			return 0;
+		}
+	}
+
+	private parseOptions(value: string): Record<string, unknown> | null {
+		try {
+			const parsed: unknown = JSON.parse(value);
+			return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+				? (parsed as Record<string, unknown>)
+				: null;
+		} catch {
+			return null;
+		}
+	}
+}
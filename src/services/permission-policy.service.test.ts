@@ -0,0 +1,324 @@
+// Tests for PermissionPolicyService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import { PermissionPolicyService } from "./permission-policy.service";
+
+const ruleRow = (command: string, roleId: string, repositoryPattern = "*") => ({
+	guild_id: "guild-1",
+	command,
+	role_id: roleId,
+	repository_pattern: repositoryPattern,
+	created_by: "admin-1",
+	created_timestamp: 1000,
+});
+
+describe("PermissionPolicyService", () => {
+	let service: PermissionPolicyService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new PermissionPolicyService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new PermissionPolicyService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("listRules", () => {
+		it("should map stored rows", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [ruleRow("task create", "role-1")],
+			});
+
+			const result = await service.listRules("guild-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("guild-1");
+			expect(result).toEqual([
+				{
+					guildId: "guild-1",
+					command: "task create",
+					roleId: "role-1",
+					createdBy: "admin-1",
+					createdTimestamp: 1000,
+				},
+			]);
+		});
+
+		it("should map repository patterns of scoped rules", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [ruleRow("task create", "role-1", "acme/prod-*")],
+			});
+
+			const [rule] = await service.listRules("guild-1");
+
+			expect(rule?.repositoryPattern).toBe("acme/prod-*");
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.all.mockRejectedValue(new Error("boom"));
+
+			await expect(service.listRules("guild-1")).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("allowRole", () => {
+		it("should insert a rule and report whether it was new", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const added = await service.allowRole(
+				"guild-1",
+				"task create",
+				"role-1",
+				"admin-1",
+			);
+
+			expect(added).toBe(true);
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				expect.stringContaining("INSERT OR IGNORE INTO command_permissions"),
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"guild-1",
+				"task create",
+				"role-1",
+				"*",
+				"admin-1",
+				1234567890,
+			);
+		});
+
+		it("should store the repository pattern of scoped rules", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			await service.allowRole(
+				"guild-1",
+				"task create",
+				"role-1",
+				"admin-1",
+				"acme/prod-*",
+			);
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"guild-1",
+				"task create",
+				"role-1",
+				"acme/prod-*",
+				"admin-1",
+				1234567890,
+			);
+		});
+
+		it("should return false when the role was already allowed", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 0 } });
+
+			const added = await service.allowRole(
+				"guild-1",
+				"task create",
+				"role-1",
+				"admin-1",
+			);
+
+			expect(added).toBe(false);
+		});
+	});
+
+	describe("revokeRole", () => {
+		it("should delete a single rule", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			const removed = await service.revokeRole("guild-1", "task", "role-1");
+
+			expect(removed).toBe(true);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"guild-1",
+				"task",
+				"role-1",
+				"*",
+			);
+		});
+	});
+
+	describe("resetCommand", () => {
+		it("should return the number of removed rules", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 3 } });
+
+			const removed = await service.resetCommand("guild-1", "task");
+
+			expect(removed).toBe(3);
+			expect(mockStmt.bind).toHaveBeenCalledWith("guild-1", "task");
+		});
+	});
+
+	describe("checkAccess", () => {
+		it("should allow commands without rules", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+
+			const result = await service.checkAccess("guild-1", "task create", [
+				"role-9",
+			]);
+
+			expect(result).toEqual({ allowed: true, allowedRoleIds: [] });
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"guild-1",
+				"task create",
+				"task",
+			);
+		});
+
+		it("should allow members holding an allowed role", async () => {
+			mockStmt.all.mockResolvedValue({ results: [ruleRow("task", "role-1")] });
+
+			const result = await service.checkAccess("guild-1", "task list", [
+				"role-1",
+			]);
+
+			expect(result).toEqual({
+				allowed: true,
+				matchedCommand: "task",
+				allowedRoleIds: ["role-1"],
+			});
+		});
+
+		it("should deny members without an allowed role", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [ruleRow("task create", "role-1")],
+			});
+
+			const result = await service.checkAccess("guild-1", "task create", [
+				"role-2",
+			]);
+
+			expect(result.allowed).toBe(false);
+			expect(result.allowedRoleIds).toEqual(["role-1"]);
+		});
+
+		it("should prefer subcommand rules over parent command rules", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [ruleRow("task", "role-1"), ruleRow("task create", "role-2")],
+			});
+
+			const result = await service.checkAccess("guild-1", "task create", [
+				"role-1",
+			]);
+
+			expect(result).toEqual({
+				allowed: false,
+				matchedCommand: "task create",
+				allowedRoleIds: ["role-2"],
+			});
+		});
+
+		it("should ignore repository rules when no repository matches", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [ruleRow("task create", "role-1", "acme/prod-*")],
+			});
+
+			const result = await service.checkAccess(
+				"guild-1",
+				"task create",
+				["role-2"],
+				["https://github.com/acme/docs"],
+			);
+
+			expect(result).toEqual({ allowed: true, allowedRoleIds: [] });
+		});
+
+		it("should deny targeting a repository the member's roles don't cover", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [
+					ruleRow("task", "role-1"),
+					ruleRow("task create", "role-2", "acme/prod-*"),
+				],
+			});
+
+			const result = await service.checkAccess(
+				"guild-1",
+				"task create",
+				["role-1"],
+				["https://github.com/acme/docs", "https://github.com/acme/prod-api"],
+			);
+
+			expect(result).toEqual({
+				allowed: false,
+				matchedCommand: "task create",
+				allowedRoleIds: ["role-2"],
+				repository: "https://github.com/acme/prod-api",
+			});
+		});
+
+		it("should still apply command rules before repository rules", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [
+					ruleRow("task", "role-1"),
+					ruleRow("task", "role-2", "prod-*"),
+				],
+			});
+
+			const result = await service.checkAccess(
+				"guild-1",
+				"task create",
+				["role-2"],
+				["https://github.com/acme/prod-api"],
+			);
+
+			expect(result).toEqual({
+				allowed: false,
+				matchedCommand: "task",
+				allowedRoleIds: ["role-1"],
+			});
+		});
+
+		it("should allow members holding a repository rule's role", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [ruleRow("task", "role-2", "prod-*")],
+			});
+
+			const result = await service.checkAccess(
+				"guild-1",
+				"task create",
+				["role-2"],
+				["https://github.com/acme/prod-api"],
+			);
+
+			expect(result.allowed).toBe(true);
+		});
+
+		it("should skip the database for commands that can't be restricted", async () => {
+			const result = await service.checkAccess(
+				"guild-1",
+				"admin permissions list",
+				[],
+			);
+
+			expect(result.allowed).toBe(true);
+			expect(mockDb.prepare).not.toHaveBeenCalled();
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.all.mockRejectedValue(new Error("boom"));
+
+			await expect(service.checkAccess("guild-1", "task", [])).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+});
@@ -0,0 +1,305 @@
+/**
+ * PermissionPolicyService
+ *
+ * Stores which Discord roles may run which commands in a guild. A command
+ * with no rules is open to everyone; once a role is allowed, only members
+ * holding one of the allowed roles may run it. Rules on a subcommand take
+ * precedence over rules on its parent command.
+ *
+ * Rules on task-creating commands may also name a repository pattern, so a
+ * role is only required when a task targets a matching repository (e.g. only
+ * @maintainers may create tasks against `acme/prod-*`). Those rules apply on
+ * top of the command's own rules.
+ */
+
+import { logger } from "../utils/logger";
+import {
+	getCommandPathCandidates,
+	matchesRepositoryPattern,
+} from "../utils/permissions";
+
+/** Repository pattern of rules that apply to the whole command */
+export const ALL_REPOSITORIES = "*";
+
+export interface CommandPermissionRule {
+	guildId: string;
+	command: string;
+	roleId: string;
+	/** Repositories the rule applies to; unset for the whole command */
+	repositoryPattern?: string;
+	createdBy: string;
+	createdTimestamp: number;
+}
+
+export interface CommandAccessResult {
+	allowed: boolean;
+	/** Command path whose rules decided the result, if any */
+	matchedCommand?: string;
+	/** Roles that would have granted access */
+	allowedRoleIds: string[];
+	/** Repository whose rules denied access, if any */
+	repository?: string;
+}
+
+interface CommandPermissionRow {
+	guild_id: string;
+	command: string;
+	role_id: string;
+	repository_pattern: string;
+	created_by: string;
+	created_timestamp: number;
+}
+
+export class PermissionPolicyService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Lists every rule configured for a guild
+	 * @param guildId Discord guild ID
+	 * @returns Rules ordered by command, then repository pattern, then role
+	 */
+	async listRules(guildId: string): Promise<CommandPermissionRule[]> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM command_permissions WHERE guild_id = ? ORDER BY command, repository_pattern, role_id",
+			);
+			const result = await stmt.bind(guildId).all<CommandPermissionRow>();
+
+			return (result.results ?? []).map((row) => this.mapRow(row));
+		} catch (error) {
+			logger.error("Failed to list command permissions", error, { guildId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Allows a role to run a command
+	 * @param guildId Discord guild ID
+	 * @param command Command path, e.g. "task create"
+	 * @param roleId Discord role ID
+	 * @param createdBy Discord user ID making the change
+	 * @param repositoryPattern Repositories the rule applies to, or every one
+	 * @returns False if the role was already allowed
+	 */
+	async allowRole(
+		guildId: string,
+		command: string,
+		roleId: string,
+		createdBy: string,
+		repositoryPattern: string = ALL_REPOSITORIES,
+	): Promise<boolean> {
+		try {
+			const stmt = this.db.prepare(`
+				INSERT OR IGNORE INTO command_permissions (
+					guild_id,
+					command,
+					role_id,
+					repository_pattern,
+					created_by,
+					created_timestamp
+				) VALUES (?, ?, ?, ?, ?, ?)
+			`);
+			const result = await stmt
+				.bind(
+					guildId,
+					command,
+					roleId,
+					repositoryPattern,
+					createdBy,
+					Date.now(),
+				)
+				.run();
+
+			logger.info("Command permission added", {
+				guildId,
+				command,
+				roleId,
+				repositoryPattern,
+				createdBy,
+			});
+			return (result.meta?.changes ?? 0) > 0;
+		} catch (error) {
+			logger.error("Failed to add command permission", error, {
+				guildId,
+				command,
+			});
+			throw new Error("Failed to save command permission");
+		}
+	}
+
+	/**
+	 * Removes a role from a command's allow-list
+	 * @param guildId Discord guild ID
+	 * @param command Command path, e.g. "task create"
+	 * @param roleId Discord role ID
+	 * @param repositoryPattern Repository pattern the rule was added with
+	 * @returns True if a rule was removed
+	 */
+	async revokeRole(
+		guildId: string,
+		command: string,
+		roleId: string,
+		repositoryPattern: string = ALL_REPOSITORIES,
+	): Promise<boolean> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM command_permissions WHERE guild_id = ? AND command = ? AND role_id = ? AND repository_pattern = ?",
+			);
+			const result = await stmt
+				.bind(guildId, command, roleId, repositoryPattern)
+				.run();
+
+			logger.info("Command permission removed", {
+				guildId,
+				command,
+				roleId,
+				repositoryPattern,
+			});
+			return (result.meta?.changes ?? 0) > 0;
+		} catch (error) {
+			logger.error("Failed to remove command permission", error, {
+				guildId,
+				command,
+			});
+			throw new Error("Failed to remove command permission");
+		}
+	}
+
+	/**
+	 * Removes every rule for a command, opening it to everyone again
+	 * @param guildId Discord guild ID
+	 * @param command Command path, e.g. "task create"
+	 * @returns Number of rules removed
+	 */
+	async resetCommand(guildId: string, command: string): Promise<number> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM command_permissions WHERE guild_id = ? AND command = ?",
+			);
+			const result = await stmt.bind(guildId, command).run();
+
+			logger.info("Command permissions reset", { guildId, command });
+			return result.meta?.changes ?? 0;
+		} catch (error) {
+			logger.error("Failed to reset command permissions", error, {
+				guildId,
+				command,
+			});
+			throw new Error("Failed to reset command permissions");
+		}
+	}
+
+	/**
+	 * Checks whether a member with the given roles may run a command.
+	 * The most specific command path with rules decides, first for the
+	 * command itself and then for each repository it targets.
+	 * @param guildId Discord guild ID
+	 * @param commandPath Full command path, e.g. "task create"
+	 * @param roleIds Roles held by the member
+	 * @param repositories Repository URLs a task would target
+	 */
+	async checkAccess(
+		guildId: string,
+		commandPath: string,
+		roleIds: string[],
+		repositories: string[] = [],
+	): Promise<CommandAccessResult> {
+		const candidates = getCommandPathCandidates(commandPath);
+
+		if (candidates.length === 0) {
+			return { allowed: true, allowedRoleIds: [] };
+		}
+
+		let rows: CommandPermissionRow[];
+		try {
+			const placeholders = candidates.map(() => "?").join(", ");
+			const stmt = this.db.prepare(
+				`SELECT * FROM command_permissions WHERE guild_id = ? AND command IN (${placeholders})`,
+			);
+			const result = await stmt
+				.bind(guildId, ...candidates)
+				.all<CommandPermissionRow>();
+			rows = result.results ?? [];
+		} catch (error) {
+			logger.error("Failed to check command permissions", error, {
+				guildId,
+				commandPath,
+			});
+			throw new Error("Database query failed");
+		}
+
+		const commandRows = rows.filter(
+			(row) => row.repository_pattern === ALL_REPOSITORIES,
+		);
+		const commandAccess = this.decide(candidates, commandRows, roleIds);
+		if (!commandAccess.allowed) {
+			return commandAccess;
+		}
+
+		const repositoryRows = rows.filter(
+			(row) => row.repository_pattern !== ALL_REPOSITORIES,
+		);
+		for (const repository of repositoryRows.length > 0 ? repositories : []) {
+			const access = this.decide(
+				candidates,
+				repositoryRows.filter((row) =>
+					matchesRepositoryPattern(repository, row.repository_pattern),
+				),
+				roleIds,
+			);
+
+			if (!access.allowed) {
+				return { ...access, repository };
+			}
+		}
+
+		return commandAccess;
+	}
+
+	/**
+	 * Lets the most specific candidate with rules decide
+	 */
+	private decide(
+		candidates: string[],
+		rows: CommandPermissionRow[],
+		roleIds: string[],
+	): CommandAccessResult {
+		for (const command of candidates) {
+			const allowedRoleIds = [
+				...new Set(
+					rows
+						.filter((row) => row.command === command)
+						.map((row) => row.role_id),
+				),
+			];
+
+			if (allowedRoleIds.length > 0) {
+				return {
+					allowed: allowedRoleIds.some((roleId) => roleIds.includes(roleId)),
+					matchedCommand: command,
+					allowedRoleIds,
+				};
+			}
+		}
+
+		return { allowed: true, allowedRoleIds: [] };
+	}
+
+	private mapRow(row: CommandPermissionRow): CommandPermissionRule {
+		return {
+			guildId: row.guild_id,
+			command: row.command,
+			roleId: row.role_id,
+			repositoryPattern:
+				row.repository_pattern === ALL_REPOSITORIES
+					? undefined
+					: row.repository_pattern,
+			createdBy: row.created_by,
+			createdTimestamp: row.created_timestamp,
+		};
+	}
+}
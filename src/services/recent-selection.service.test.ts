@@ -0,0 +1,94 @@
+// Tests for RecentSelectionService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import { RecentSelectionService } from "./recent-selection.service";
+
+describe("RecentSelectionService", () => {
+	let service: RecentSelectionService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new RecentSelectionService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new RecentSelectionService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("getRecentValues", () => {
+		it("should return values in the stored order", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [
+					{ value: "https://github.com/org/web" },
+					{ value: "https://github.com/org/api" },
+				],
+			});
+
+			const result = await service.getRecentValues("user-1", "repository");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("user-1", "repository", 25);
+			expect(result).toEqual([
+				"https://github.com/org/web",
+				"https://github.com/org/api",
+			]);
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.all.mockRejectedValue(new Error("boom"));
+
+			await expect(service.getRecentValues("user-1", "agent")).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("recordSelections", () => {
+		it("should upsert each value", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			await service.recordSelections("user-1", "repository", [
+				"https://github.com/org/web",
+				"https://github.com/org/api",
+			]);
+
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				expect.stringContaining(
+					"ON CONFLICT (discord_user_id, kind, value) DO UPDATE",
+				),
+			);
+			expect(mockStmt.run).toHaveBeenCalledTimes(2);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"user-1",
+				"repository",
+				"https://github.com/org/api",
+				1234567890,
+			);
+		});
+
+		it("should throw when saving fails", async () => {
+			mockStmt.run.mockRejectedValue(new Error("boom"));
+
+			await expect(
+				service.recordSelections("user-1", "agent", ["claudeCode:sonnet-4-5"]),
+			).rejects.toThrow("Failed to record recent selections");
+		});
+	});
+});
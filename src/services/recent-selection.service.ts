@@ -0,0 +1,96 @@
+/**
+ * RecentSelectionService
+ *
+ * Remembers which repositories and agents each Discord user creates tasks
+ * with, so autocomplete can rank their usual picks first.
+ */
+
+import { logger } from "../utils/logger";
+
+export type SelectionKind = "repository" | "agent";
+
+/** How many recent values autocomplete considers per kind */
+const DEFAULT_RECENT_LIMIT = 25;
+
+interface RecentSelectionRow {
+	value: string;
+}
+
+export class RecentSelectionService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Gets the values a user picked most recently
+	 * @param discordUserId Discord user ID
+	 * @param kind Whether to list repositories or agents
+	 * @param limit Maximum number of values to return
+	 * @returns Values ordered from most to least recently used
+	 */
+	async getRecentValues(
+		discordUserId: string,
+		kind: SelectionKind,
+		limit: number = DEFAULT_RECENT_LIMIT,
+	): Promise<string[]> {
+		try {
+			const stmt = this.db.prepare(`
+				SELECT value FROM recent_selections
+				WHERE discord_user_id = ? AND kind = ?
+				ORDER BY last_used_timestamp DESC, use_count DESC
+				LIMIT ?
+			`);
+			const result = await stmt
+				.bind(discordUserId, kind, limit)
+				.all<RecentSelectionRow>();
+
+			return (result.results ?? []).map((row) => row.value);
+		} catch (error) {
+			logger.error("Failed to get recent selections", error, {
+				discordUserId,
+				kind,
+			});
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Records that a user picked the given values
+	 * @param discordUserId Discord user ID
+	 * @param kind Whether the values are repositories or agents
+	 * @param values Picked values
+	 */
+	async recordSelections(
+		discordUserId: string,
+		kind: SelectionKind,
+		values: string[],
+	): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				INSERT INTO recent_selections (
+					discord_user_id,
+					kind,
+					value,
+					use_count,
+					last_used_timestamp
+				) VALUES (?, ?, ?, 1, ?)
+				ON CONFLICT (discord_user_id, kind, value) DO UPDATE SET
+					use_count = use_count + 1,
+					last_used_timestamp = excluded.last_used_timestamp
+			`);
+			const now = Date.now();
+
+			for (const value of values) {
+				await stmt.bind(discordUserId, kind, value, now).run();
+			}
+		} catch (error) {
+			logger.error("Failed to record recent selections", error, {
+				discordUserId,
+				kind,
+			});
+			throw new Error("Failed to record recent selections");
+		}
+	}
+}
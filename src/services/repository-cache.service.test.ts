@@ -0,0 +1,148 @@
+// Tests for RepositoryCacheService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import { RepositoryCacheService } from "./repository-cache.service";
+
+const repository = {
+	id: "repo-1",
+	name: "frontend",
+	url: "https://github.com/org/frontend",
+};
+
+describe("RepositoryCacheService", () => {
+	let service: RepositoryCacheService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new RepositoryCacheService(mockDb.db, 1000);
+		vi.spyOn(Date, "now").mockReturnValue(10000);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new RepositoryCacheService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("getRepositories", () => {
+		it("should return fresh cached repositories", async () => {
+			mockStmt.first.mockResolvedValue({
+				org_id: "org-1",
+				repositories: JSON.stringify([repository]),
+				fetched_timestamp: 9500,
+			});
+
+			const result = await service.getRepositories("org-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("org-1");
+			expect(result).toEqual({
+				repositories: [repository],
+				fetchedTimestamp: 9500,
+				stale: false,
+			});
+		});
+
+		it("should mark entries older than the TTL as stale", async () => {
+			mockStmt.first.mockResolvedValue({
+				org_id: "org-1",
+				repositories: JSON.stringify([repository]),
+				fetched_timestamp: 8000,
+			});
+
+			const result = await service.getRepositories("org-1");
+
+			expect(result?.stale).toBe(true);
+		});
+
+		it("should return null when nothing is cached", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			expect(await service.getRepositories("org-1")).toBeNull();
+		});
+
+		it("should ignore malformed entries", async () => {
+			mockStmt.first.mockResolvedValue({
+				org_id: "org-1",
+				repositories: "not json",
+				fetched_timestamp: 9500,
+			});
+
+			expect(await service.getRepositories("org-1")).toBeNull();
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.first.mockRejectedValue(new Error("boom"));
+
+			await expect(service.getRepositories("org-1")).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("saveRepositories", () => {
+		it("should replace the organization's cached list", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			await service.saveRepositories("org-1", [repository]);
+
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				expect.stringContaining("INSERT OR REPLACE INTO repository_cache"),
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"org-1",
+				JSON.stringify([repository]),
+				10000,
+			);
+		});
+
+		it("should throw when saving fails", async () => {
+			mockStmt.run.mockRejectedValue(new Error("boom"));
+
+			await expect(service.saveRepositories("org-1", [])).rejects.toThrow(
+				"Failed to cache repositories",
+			);
+		});
+	});
+
+	describe("forOrganization", () => {
+		it("should scope reads and writes to the organization", async () => {
+			mockStmt.first.mockResolvedValue({
+				org_id: "org-2",
+				repositories: JSON.stringify([repository]),
+				fetched_timestamp: 9500,
+			});
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+			const cache = service.forOrganization("org-2");
+
+			expect(await cache.get()).toEqual({
+				repositories: [repository],
+				fetchedTimestamp: 9500,
+				stale: false,
+			});
+			await cache.set([repository]);
+
+			expect(mockStmt.bind).toHaveBeenNthCalledWith(1, "org-2");
+			expect(mockStmt.bind).toHaveBeenNthCalledWith(
+				2,
+				"org-2",
+				JSON.stringify([repository]),
+				10000,
+			);
+		});
+	});
+});
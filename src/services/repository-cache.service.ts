@@ -0,0 +1,125 @@
+/**
+ * RepositoryCacheService
+ *
+ * Caches each Tembo organization's repository list in D1 so autocomplete
+ * and /repositories list don't call Tembo on every keystroke. Entries older
+ * than the TTL are stale but still usable when Tembo is slow to respond.
+ */
+
+import type { TemboRepository } from "../types";
+import { logger } from "../utils/logger";
+
+export const DEFAULT_REPOSITORY_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface CachedRepositories {
+	repositories: TemboRepository[];
+	fetchedTimestamp: number;
+	stale: boolean;
+}
+
+/**
+ * Cache for a single organization, handed to TemboService
+ */
+export interface RepositoryCache {
+	get(): Promise<CachedRepositories | null>;
+	set(repositories: TemboRepository[]): Promise<void>;
+}
+
+interface RepositoryCacheRow {
+	org_id: string;
+	repositories: string;
+	fetched_timestamp: number;
+}
+
+export class RepositoryCacheService {
+	constructor(
+		private readonly db: D1Database,
+		private readonly ttlMs: number = DEFAULT_REPOSITORY_CACHE_TTL_MS,
+	) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Retrieves the cached repositories for an organization
+	 * @param orgId Tembo organization ID
+	 * @returns Cached repositories, or null if nothing is cached
+	 */
+	async getRepositories(orgId: string): Promise<CachedRepositories | null> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM repository_cache WHERE org_id = ?",
+			);
+			const result = await stmt.bind(orgId).first<RepositoryCacheRow>();
+
+			if (!result) {
+				return null;
+			}
+
+			const repositories = this.parseRepositories(result.repositories);
+			if (!repositories) {
+				return null;
+			}
+
+			return {
+				repositories,
+				fetchedTimestamp: result.fetched_timestamp,
+				stale: Date.now() - result.fetched_timestamp >= this.ttlMs,
+			};
+		} catch (error) {
+			logger.error("Failed to get cached repositories", error, { orgId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Replaces the cached repositories for an organization
+	 * @param orgId Tembo organization ID
+	 * @param repositories Repositories fetched from Tembo
+	 */
+	async saveRepositories(
+		orgId: string,
+		repositories: TemboRepository[],
+	): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				INSERT OR REPLACE INTO repository_cache (
+					org_id,
+					repositories,
+					fetched_timestamp
+				) VALUES (?, ?, ?)
+			`);
+			await stmt.bind(orgId, JSON.stringify(repositories), Date.now()).run();
+
+			logger.info("Repository cache updated", {
+				orgId,
+				count: repositories.length,
+			});
+		} catch (error) {
+			logger.error("Failed to cache repositories", error, { orgId });
+			throw new Error("Failed to cache repositories");
+		}
+	}
+
+	/**
+	 * Scopes the cache to one organization
+	 * @param orgId Tembo organization ID
+	 */
+	forOrganization(orgId: string): RepositoryCache {
+		return {
+			get: () => this.getRepositories(orgId),
+			set: (repositories) => this.saveRepositories(orgId, repositories),
+		};
+	}
+
+	private parseRepositories(value: string): TemboRepository[] | null {
+		try {
+			const parsed: unknown = JSON.parse(value);
+			return Array.isArray(parsed) ? (parsed as TemboRepository[]) : null;
+		} catch {
+			logger.warn("Ignoring malformed repository cache entry");
+			return null;
+		}
+	}
+}
@@ -0,0 +1,179 @@
+// Tests for TaskDefaultsService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import { TaskDefaultsService } from "./task-defaults.service";
+
+const userRow = {
+	scope: "user",
+	scope_id: "user123",
+	repositories: JSON.stringify(["https://github.com/org/monorepo"]),
+	agent: null,
+	branch: "develop",
+	updated_by: "user123",
+	updated_timestamp: 1000,
+};
+
+const guildRow = {
+	scope: "guild",
+	scope_id: "guild-1",
+	repositories: JSON.stringify(["https://github.com/org/shared"]),
+	agent: "claudeCode:sonnet-4-5",
+	branch: "main",
+	updated_by: "admin-1",
+	updated_timestamp: 900,
+};
+
+describe("TaskDefaultsService", () => {
+	let service: TaskDefaultsService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new TaskDefaultsService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new TaskDefaultsService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("getDefaults", () => {
+		it("should map a stored row", async () => {
+			mockStmt.first.mockResolvedValue(userRow);
+
+			const result = await service.getDefaults("user", "user123");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("user", "user123");
+			expect(result).toEqual({
+				scope: "user",
+				scopeId: "user123",
+				repositories: ["https://github.com/org/monorepo"],
+				agent: undefined,
+				branch: "develop",
+				updatedBy: "user123",
+				updatedTimestamp: 1000,
+			});
+		});
+
+		it("should return null when nothing is stored", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			expect(await service.getDefaults("guild", "guild-1")).toBeNull();
+		});
+
+		it("should ignore malformed repositories", async () => {
+			mockStmt.first.mockResolvedValue({
+				...userRow,
+				repositories: "not json",
+			});
+
+			const result = await service.getDefaults("user", "user123");
+
+			expect(result?.repositories).toBeUndefined();
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.first.mockRejectedValue(new Error("DB error"));
+
+			await expect(service.getDefaults("user", "user123")).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("setDefaults", () => {
+		it("should merge with existing values", async () => {
+			mockStmt.first.mockResolvedValue(userRow);
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			const record = await service.setDefaults(
+				"user",
+				"user123",
+				{ agent: "amp:opus-4-5" },
+				"user123",
+			);
+
+			expect(record.repositories).toEqual(["https://github.com/org/monorepo"]);
+			expect(record.agent).toBe("amp:opus-4-5");
+			expect(record.branch).toBe("develop");
+			expect(mockStmt.bind).toHaveBeenLastCalledWith(
+				"user",
+				"user123",
+				JSON.stringify(["https://github.com/org/monorepo"]),
+				"amp:opus-4-5",
+				"develop",
+				"user123",
+				1234567890,
+			);
+		});
+
+		it("should throw when the write fails", async () => {
+			mockStmt.first.mockResolvedValue(null);
+			mockStmt.run.mockRejectedValue(new Error("DB error"));
+
+			await expect(
+				service.setDefaults("guild", "guild-1", { branch: "main" }, "admin-1"),
+			).rejects.toThrow("Failed to save task defaults");
+		});
+	});
+
+	describe("clearDefaults", () => {
+		it("should report whether defaults were removed", async () => {
+			mockStmt.run.mockResolvedValue({ success: true, meta: { changes: 1 } });
+
+			expect(await service.clearDefaults("user", "user123")).toBe(true);
+			expect(mockStmt.bind).toHaveBeenCalledWith("user", "user123");
+		});
+
+		it("should return false when nothing was stored", async () => {
+			mockStmt.run.mockResolvedValue({ success: true, meta: { changes: 0 } });
+
+			expect(await service.clearDefaults("user", "user123")).toBe(false);
+		});
+	});
+
+	describe("resolveDefaults", () => {
+		it("should prefer user values and fall back to guild values", async () => {
+			mockStmt.first
+				.mockResolvedValueOnce(userRow)
+				.mockResolvedValueOnce(guildRow);
+
+			const result = await service.resolveDefaults("user123", "guild-1");
+
+			expect(result).toEqual({
+				repositories: ["https://github.com/org/monorepo"],
+				agent: "claudeCode:sonnet-4-5",
+				branch: "develop",
+			});
+		});
+
+		it("should skip the guild lookup outside of guilds", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			const result = await service.resolveDefaults("user123", null);
+
+			expect(mockDb.prepare).toHaveBeenCalledTimes(1);
+			expect(result).toEqual({
+				repositories: undefined,
+				agent: undefined,
+				branch: undefined,
+			});
+		});
+	});
+});
@@ -0,0 +1,193 @@
+/**
+ * TaskDefaultsService
+ *
+ * Stores default repositories, agent and branch for /task create, either for
+ * a single Discord user or shared by a whole guild. User defaults take
+ * precedence over guild defaults field by field.
+ */
+
+import type { TaskDefaults } from "../types";
+import { logger } from "../utils/logger";
+
+export type TaskDefaultsScope = "user" | "guild";
+
+export interface TaskDefaultsRecord extends TaskDefaults {
+	scope: TaskDefaultsScope;
+	scopeId: string;
+	updatedBy: string;
+	updatedTimestamp: number;
+}
+
+interface TaskDefaultsRow {
+	scope: TaskDefaultsScope;
+	scope_id: string;
+	repositories: string | null;
+	agent: string | null;
+	branch: string | null;
+	updated_by: string;
+	updated_timestamp: number;
+}
+
+export class TaskDefaultsService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Retrieves the defaults stored for a user or guild
+	 * @param scope Whether scopeId is a Discord user or guild ID
+	 * @param scopeId Discord user or guild ID
+	 * @returns Stored defaults or null if none are set
+	 */
+	async getDefaults(
+		scope: TaskDefaultsScope,
+		scopeId: string,
+	): Promise<TaskDefaultsRecord | null> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM task_defaults WHERE scope = ? AND scope_id = ?",
+			);
+			const result = await stmt.bind(scope, scopeId).first<TaskDefaultsRow>();
+
+			return result ? this.mapRow(result) : null;
+		} catch (error) {
+			logger.error("Failed to get task defaults", error, { scope, scopeId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Saves defaults for a user or guild, merging with any existing values.
+	 * Fields left undefined keep their current value.
+	 * @param scope Whether scopeId is a Discord user or guild ID
+	 * @param scopeId Discord user or guild ID
+	 * @param defaults Defaults to store
+	 * @param updatedBy Discord user ID making the change
+	 */
+	async setDefaults(
+		scope: TaskDefaultsScope,
+		scopeId: string,
+		defaults: TaskDefaults,
+		updatedBy: string,
+	): Promise<TaskDefaultsRecord> {
+		const existing = await this.getDefaults(scope, scopeId);
+		const record: TaskDefaultsRecord = {
+			scope,
+			scopeId,
+			repositories: defaults.repositories ?? existing?.repositories,
+			agent: defaults.agent ?? existing?.agent,
+			branch: defaults.branch ?? existing?.branch,
+			updatedBy,
+			updatedTimestamp: Date.now(),
+		};
+
+		try {
+			const stmt = this.db.prepare(`
+				INSERT OR REPLACE INTO task_defaults (
+					scope,
+					scope_id,
+					repositories,
+					agent,
+					branch,
+					updated_by,
+					updated_timestamp
+				) VALUES (?, ?, ?, ?, ?, ?, ?)
+			`);
+
+			await stmt
+				.bind(
+					scope,
+					scopeId,
+					record.repositories?.length
+						? JSON.stringify(record.repositories)
+						: null,
+					record.agent ?? null,
+					record.branch ?? null,
+					updatedBy,
+					record.updatedTimestamp,
+				)
+				.run();
+
+			logger.info("Task defaults saved", { scope, scopeId, updatedBy });
+			return record;
+		} catch (error) {
+			logger.error("Failed to save task defaults", error, { scope, scopeId });
+			throw new Error("Failed to save task defaults");
+		}
+	}
+
+	/**
+	 * Removes all defaults for a user or guild
+	 * @param scope Whether scopeId is a Discord user or guild ID
+	 * @param scopeId Discord user or guild ID
+	 * @returns True if defaults were removed
+	 */
+	async clearDefaults(
+		scope: TaskDefaultsScope,
+		scopeId: string,
+	): Promise<boolean> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM task_defaults WHERE scope = ? AND scope_id = ?",
+			);
+			const result = await stmt.bind(scope, scopeId).run();
+
+			logger.info("Task defaults cleared", { scope, scopeId });
+			return (result.meta?.changes ?? 0) > 0;
+		} catch (error) {
+			logger.error("Failed to clear task defaults", error, { scope, scopeId });
+			throw new Error("Failed to clear task defaults");
+		}
+	}
+
+	/**
+	 * Resolves the effective defaults for a user, falling back to the guild
+	 * defaults for any field the user hasn't set
+	 * @param discordUserId Discord user ID
+	 * @param guildId Guild the command was used in, if any
+	 * @returns Effective defaults (empty when nothing is configured)
+	 */
+	async resolveDefaults(
+		discordUserId: string,
+		guildId: string | null | undefined,
+	): Promise<TaskDefaults> {
+		const [userDefaults, guildDefaults] = await Promise.all([
+			this.getDefaults("user", discordUserId),
+			guildId ? this.getDefaults("guild", guildId) : Promise.resolve(null),
+		]);
+
+		return {
+			repositories: userDefaults?.repositories ?? guildDefaults?.repositories,
+			agent: userDefaults?.agent ?? guildDefaults?.agent,
+			branch: userDefaults?.branch ?? guildDefaults?.branch,
+		};
+	}
+
+	private mapRow(row: TaskDefaultsRow): TaskDefaultsRecord {
+		return {
+			scope: row.scope,
+			scopeId: row.scope_id,
+			repositories: row.repositories
+				? this.parseRepositories(row.repositories)
+				: undefined,
+			agent: row.agent ?? undefined,
+			branch: row.branch ?? undefined,
+			updatedBy: row.updated_by,
+			updatedTimestamp: row.updated_timestamp,
+		};
+	}
+
+	private parseRepositories(value: string): string[] | undefined {
+		try {
+			const parsed: unknown = JSON.parse(value);
+			return Array.isArray(parsed) && parsed.length > 0
+				? parsed.filter((repo): repo is string => typeof repo === "string")
+				: undefined;
+		} catch {
+			logger.warn("Ignoring malformed task default repositories", { value });
+			return undefined;
+		}
+	}
+}
@@ -0,0 +1,181 @@
+// Tests for TaskDraftService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import { TaskDraftService } from "./task-draft.service";
+
+const mockRow = {
+	task_id: "task-1",
+	discord_user_id: "user123",
+	guild_id: "guild-1",
+	channel_id: "channel-1",
+	message_id: "message-1",
+	title: "Migrate billing tables",
+	created_timestamp: 1000,
+};
+
+describe("TaskDraftService", () => {
+	let service: TaskDraftService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new TaskDraftService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(() => new TaskDraftService(null as unknown as D1Database)).toThrow(
+				"D1 database binding is required",
+			);
+		});
+	});
+
+	describe("addDraft", () => {
+		it("should save a draft", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.addDraft({
+				taskId: "task-1",
+				discordUserId: "user123",
+				guildId: null,
+				channelId: null,
+				messageId: null,
+				title: "Migrate billing tables",
+			});
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"task-1",
+				"user123",
+				null,
+				null,
+				null,
+				"Migrate billing tables",
+				1234567890,
+			);
+			expect(mockStmt.run).toHaveBeenCalled();
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.run.mockRejectedValue(new Error("DB error"));
+
+			await expect(
+				service.addDraft({
+					taskId: "task-1",
+					discordUserId: "user123",
+					guildId: null,
+					channelId: null,
+					messageId: null,
+					title: null,
+				}),
+			).rejects.toThrow("Failed to save task draft");
+		});
+	});
+
+	describe("getDrafts", () => {
+		it("should return the user's drafts in the guild", async () => {
+			mockStmt.all.mockResolvedValue({ results: [mockRow] });
+
+			const drafts = await service.getDrafts("user123", "guild-1", 5);
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("user123", "guild-1", 5);
+			expect(drafts).toEqual([
+				{
+					taskId: "task-1",
+					discordUserId: "user123",
+					guildId: "guild-1",
+					channelId: "channel-1",
+					messageId: "message-1",
+					title: "Migrate billing tables",
+					createdTimestamp: 1000,
+				},
+			]);
+		});
+
+		it("should return drafts created in DMs", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [{ ...mockRow, guild_id: null }],
+			});
+
+			const drafts = await service.getDrafts("user123", null);
+
+			expect(drafts).toEqual([
+				expect.objectContaining({ taskId: "task-1", guildId: null }),
+			]);
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				expect.stringContaining("guild_id IS ?"),
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith("user123", null, 20);
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.all.mockRejectedValue(new Error("DB error"));
+
+			await expect(service.getDrafts("user123", null)).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("countDrafts", () => {
+		it("should count the user's drafts", async () => {
+			mockStmt.first.mockResolvedValue({ count: 3 });
+
+			expect(await service.countDrafts("user123", "guild-1")).toBe(3);
+		});
+
+		it("should return 0 without a result", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			expect(await service.countDrafts("user123", "guild-1")).toBe(0);
+		});
+	});
+
+	describe("getDraft", () => {
+		it("should return the draft", async () => {
+			mockStmt.first.mockResolvedValue(mockRow);
+
+			const draft = await service.getDraft("task-1");
+
+			expect(draft?.taskId).toBe("task-1");
+			expect(draft?.messageId).toBe("message-1");
+		});
+
+		it("should return null for tasks that aren't drafts", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			expect(await service.getDraft("task-2")).toBeNull();
+		});
+	});
+
+	describe("removeDraft", () => {
+		it("should delete the draft", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.removeDraft("task-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("task-1");
+			expect(mockStmt.run).toHaveBeenCalled();
+		});
+
+		it("should throw on database errors", async () => {
+			mockStmt.run.mockRejectedValue(new Error("DB error"));
+
+			await expect(service.removeDraft("task-1")).rejects.toThrow(
+				"Failed to remove task draft",
+			);
+		});
+	});
+});
@@ -0,0 +1,190 @@
+/**
+ * TaskDraftService
+ *
+ * Tracks tasks created without being queued (`/task create queue:false`) so
+ * /task drafts can list them and queue them later, one by one or all at once.
+ * Drafts are scoped to the user and guild they were created in, because a
+ * guild key can only queue tasks of its own organization.
+ */
+
+import { logger } from "../utils/logger";
+
+// /task drafts shows and queues at most this many drafts at a time
+export const MAX_LISTED_DRAFTS = 20;
+
+export interface TaskDraftRecord {
+	taskId: string;
+	discordUserId: string;
+	guildId: string | null;
+	// Where the task's status updates go once it's queued (null = DMs)
+	channelId: string | null;
+	messageId: string | null;
+	title: string | null;
+	createdTimestamp: number;
+}
+
+interface TaskDraftRow {
+	task_id: string;
+	discord_user_id: string;
+	guild_id: string | null;
+	channel_id: string | null;
+	message_id: string | null;
+	title: string | null;
+	created_timestamp: number;
+}
+
+export class TaskDraftService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Records an unqueued task
+	 * @param record Draft details (the timestamp is set automatically)
+	 */
+	async addDraft(
+		record: Omit<TaskDraftRecord, "createdTimestamp">,
+	): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				INSERT OR REPLACE INTO task_drafts (
+					task_id,
+					discord_user_id,
+					guild_id,
+					channel_id,
+					message_id,
+					title,
+					created_timestamp
+				) VALUES (?, ?, ?, ?, ?, ?, ?)
+			`);
+
+			await stmt
+				.bind(
+					record.taskId,
+					record.discordUserId,
+					record.guildId ?? null,
+					record.channelId ?? null,
+					record.messageId ?? null,
+					record.title ?? null,
+					Date.now(),
+				)
+				.run();
+
+			logger.info("Task draft saved", {
+				taskId: record.taskId,
+				discordUserId: record.discordUserId,
+			});
+		} catch (error) {
+			logger.error("Failed to save task draft", error, {
+				taskId: record.taskId,
+			});
+			throw new Error("Failed to save task draft");
+		}
+	}
+
+	/**
+	 * Retrieves a user's drafts in a guild (or in DMs), oldest first
+	 * @param discordUserId Discord user ID
+	 * @param guildId Guild ID, or null for drafts created in DMs
+	 * @param limit Maximum number of drafts to return
+	 */
+	async getDrafts(
+		discordUserId: string,
+		guildId: string | null,
+		limit: number = MAX_LISTED_DRAFTS,
+	): Promise<TaskDraftRecord[]> {
+		try {
+			const stmt = this.db.prepare(`
+				SELECT * FROM task_drafts
+				WHERE discord_user_id = ? AND guild_id IS ?
+				ORDER BY created_timestamp ASC
+				LIMIT ?
+			`);
+			const result = await stmt
+				.bind(discordUserId, guildId, limit)
+				.all<TaskDraftRow>();
+
+			return (result.results ?? []).map((row) => this.mapRow(row));
+		} catch (error) {
+			logger.error("Failed to get task drafts", error, {
+				discordUserId,
+				guildId,
+			});
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Counts a user's drafts in a guild (or in DMs)
+	 */
+	async countDrafts(
+		discordUserId: string,
+		guildId: string | null,
+	): Promise<number> {
+		try {
+			const stmt = this.db.prepare(`
+				SELECT COUNT(*) AS count FROM task_drafts
+				WHERE discord_user_id = ? AND guild_id IS ?
+			`);
+			const result = await stmt
+				.bind(discordUserId, guildId)
+				.first<{ count: number }>();
+
+			return result?.count ?? 0;
+		} catch (error) {
+			logger.error("Failed to count task drafts", error, {
+				discordUserId,
+				guildId,
+			});
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Retrieves the draft for a single task
+	 * @returns The draft, or null if the task isn't a draft
+	 */
+	async getDraft(taskId: string): Promise<TaskDraftRecord | null> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM task_drafts WHERE task_id = ?",
+			);
+			const result = await stmt.bind(taskId).first<TaskDraftRow>();
+
+			return result ? this.mapRow(result) : null;
+		} catch (error) {
+			logger.error("Failed to get task draft", error, { taskId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Forgets a draft once its task is queued
+	 * @param taskId Tembo task ID
+	 */
+	async removeDraft(taskId: string): Promise<void> {
+		try {
+			const stmt = this.db.prepare("DELETE FROM task_drafts WHERE task_id = ?");
+			await stmt.bind(taskId).run();
+
+			logger.info("Task draft removed", { taskId });
+		} catch (error) {
+			logger.error("Failed to remove task draft", error, { taskId });
+			throw new Error("Failed to remove task draft");
+		}
+	}
+
+	private mapRow(row: TaskDraftRow): TaskDraftRecord {
+		return {
+			taskId: row.task_id,
+			discordUserId: row.discord_user_id,
+			guildId: row.guild_id,
+			channelId: row.channel_id,
+			messageId: row.message_id,
+			title: row.title,
+			createdTimestamp: row.created_timestamp,
+		};
+	}
+}
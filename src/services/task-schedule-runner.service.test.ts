@@ -0,0 +1,473 @@
+// Tests for TaskScheduleRunner
+
+import {
+	type APIGuild,
+	type APIGuildMember,
+	PermissionFlagsBits,
+} from "discord-api-types/v10";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	type MockInstance,
+	vi,
+} from "vitest";
+import * as discordModule from "../utils/discord";
+import type { AgentCatalogService } from "./agent-catalog.service";
+import type { AuthService } from "./auth.service";
+import type { ChannelRepositoryService } from "./channel-repository.service";
+import type { PermissionPolicyService } from "./permission-policy.service";
+import type {
+	TaskScheduleRecord,
+	TaskScheduleService,
+} from "./task-schedule.service";
+import { TaskScheduleRunner } from "./task-schedule-runner.service";
+import type { TaskWatchService } from "./task-watch.service";
+
+const NOW = Date.parse("2025-01-10T03:00:30Z");
+
+const createSchedule = (
+	overrides: Partial<TaskScheduleRecord> = {},
+): TaskScheduleRecord => ({
+	id: "0123456789abcdef",
+	discordUserId: "user123",
+	guildId: "guild-1",
+	channelId: "channel-1",
+	parentChannelId: null,
+	name: "Nightly dependencies",
+	template: {
+		prompt: "Update dependencies",
+		repositories: ["https://github.com/org/api"],
+	},
+	cronExpression: "0 3 * * *",
+	nextRunTimestamp: Date.parse("2025-01-10T03:00:00Z"),
+	lastRunTimestamp: null,
+	lastTaskId: null,
+	lastError: null,
+	createdTimestamp: 1000,
+	...overrides,
+});
+
+const createMocks = () => {
+	const temboService = {
+		createTask: vi.fn().mockResolvedValue({
+			id: "task-1",
+			title: "Update dependencies",
+			status: "queued",
+			createdAt: "2025-01-10T03:00:30Z",
+			updatedAt: "2025-01-10T03:00:30Z",
+		}),
+	};
+
+	return {
+		scheduleService: {
+			getDueSchedules: vi.fn(),
+			claimRun: vi.fn().mockResolvedValue(true),
+			recordResult: vi.fn(),
+			removeSchedule: vi.fn(),
+		},
+		watchService: {
+			watchTask: vi.fn(),
+		},
+		temboService,
+		authService: {
+			authenticateUser: vi.fn().mockResolvedValue({
+				success: true,
+				temboService,
+				requiresOnboarding: false,
+			}),
+		},
+		policyService: {
+			checkAccess: vi
+				.fn()
+				.mockResolvedValue({ allowed: true, allowedRoleIds: [] }),
+		},
+		channelRepositoryService: {
+			getAllowedRepositories: vi.fn().mockResolvedValue([]),
+		},
+		agentCatalogService: {
+			getAgentCatalog: vi.fn().mockResolvedValue({ agents: ["amp:opus-4-5"] }),
+		},
+	};
+};
+
+type Mocks = ReturnType<typeof createMocks>;
+
+describe("TaskScheduleRunner", () => {
+	let runner: TaskScheduleRunner;
+	let mockScheduleService: Mocks["scheduleService"];
+	let mockWatchService: Mocks["watchService"];
+	let mockAuthService: Mocks["authService"];
+	let mockPolicyService: Mocks["policyService"];
+	let mockChannelRepositoryService: Mocks["channelRepositoryService"];
+	let mockAgentCatalogService: Mocks["agentCatalogService"];
+	let mockTemboService: Mocks["temboService"];
+	let sendChannelMessage: MockInstance<typeof discordModule.sendChannelMessage>;
+	let sendDirectMessage: MockInstance<typeof discordModule.sendDirectMessage>;
+	let getGuildMember: MockInstance<typeof discordModule.getGuildMember>;
+	let getGuild: MockInstance<typeof discordModule.getGuild>;
+
+	beforeEach(() => {
+		vi.spyOn(Date, "now").mockReturnValue(NOW);
+		({
+			scheduleService: mockScheduleService,
+			watchService: mockWatchService,
+			authService: mockAuthService,
+			policyService: mockPolicyService,
+			channelRepositoryService: mockChannelRepositoryService,
+			agentCatalogService: mockAgentCatalogService,
+			temboService: mockTemboService,
+		} = createMocks());
+		getGuildMember = vi
+			.spyOn(discordModule, "getGuildMember")
+			.mockResolvedValue({
+				success: true,
+				member: {
+					user: { id: "user123" },
+					roles: ["role-member"],
+				} as unknown as APIGuildMember,
+			});
+		getGuild = vi.spyOn(discordModule, "getGuild").mockResolvedValue({
+			success: true,
+			guild: {
+				id: "guild-1",
+				owner_id: "owner",
+				roles: [
+					{
+						id: "guild-1",
+						permissions: PermissionFlagsBits.SendMessages.toString(),
+					},
+				],
+			} as unknown as APIGuild,
+		});
+		sendChannelMessage = vi
+			.spyOn(discordModule, "sendChannelMessage")
+			.mockResolvedValue({ success: true, messageId: "message-1" });
+		sendDirectMessage = vi
+			.spyOn(discordModule, "sendDirectMessage")
+			.mockResolvedValue({ success: true });
+
+		runner = new TaskScheduleRunner(
+			mockScheduleService as unknown as TaskScheduleService,
+			mockWatchService as unknown as TaskWatchService,
+			mockAuthService as unknown as AuthService,
+			mockPolicyService as unknown as PermissionPolicyService,
+			mockChannelRepositoryService as unknown as ChannelRepositoryService,
+			mockAgentCatalogService as unknown as AgentCatalogService,
+			"bot-token",
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should do nothing when no schedule is due", async () => {
+		mockScheduleService.getDueSchedules.mockResolvedValue([]);
+
+		const summary = await runner.run();
+
+		expect(summary).toEqual({ due: 0, created: 0, failed: 0 });
+		expect(mockAuthService.authenticateUser).not.toHaveBeenCalled();
+	});
+
+	it("should create the task and move a repeating schedule to its next run", async () => {
+		const schedule = createSchedule();
+		mockScheduleService.getDueSchedules.mockResolvedValue([schedule]);
+
+		const summary = await runner.run();
+
+		expect(summary).toEqual({ due: 1, created: 1, failed: 0 });
+		expect(mockScheduleService.claimRun).toHaveBeenCalledWith(
+			schedule,
+			Date.parse("2025-01-11T03:00:00Z"),
+		);
+		// Only the owner's own key, never the guild's
+		expect(mockAuthService.authenticateUser).toHaveBeenCalledWith("user123");
+		expect(mockPolicyService.checkAccess).toHaveBeenCalledWith(
+			"guild-1",
+			"schedule create",
+			[],
+			["https://github.com/org/api"],
+		);
+		expect(getGuildMember).not.toHaveBeenCalled();
+		expect(mockTemboService.createTask).toHaveBeenCalledWith({
+			prompt: "Update dependencies",
+			repositories: ["https://github.com/org/api"],
+			queueRightAway: true,
+		});
+		expect(mockScheduleService.recordResult).toHaveBeenCalledWith(
+			"0123456789abcdef",
+			{
+				taskId: "task-1",
+			},
+		);
+		expect(mockScheduleService.removeSchedule).not.toHaveBeenCalled();
+	});
+
+	it("should announce the task and watch it under the announcement", async () => {
+		mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+
+		await runner.run();
+
+		expect(sendChannelMessage).toHaveBeenCalledWith(
+			"channel-1",
+			"bot-token",
+			expect.objectContaining({
+				content: "<@user123>",
+				embeds: [
+					expect.objectContaining({ title: "⏰ Scheduled Task Created" }),
+				],
+			}),
+		);
+		expect(mockWatchService.watchTask).toHaveBeenCalledWith({
+			taskId: "task-1",
+			discordUserId: "user123",
+			guildId: "guild-1",
+			channelId: "channel-1",
+			messageId: "message-1",
+			lastStatus: "queued",
+		});
+	});
+
+	it("should fall back to DMs when the channel is unavailable", async () => {
+		mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+		sendChannelMessage.mockResolvedValue({
+			success: false,
+			error: "Missing Access",
+		});
+
+		await runner.run();
+
+		expect(sendDirectMessage).toHaveBeenCalledWith("user123", "bot-token", "", [
+			expect.objectContaining({ title: "⏰ Scheduled Task Created" }),
+		]);
+		expect(mockWatchService.watchTask).toHaveBeenCalledWith(
+			expect.objectContaining({ channelId: null, messageId: null }),
+		);
+	});
+
+	it("should remove one-off schedules after their run", async () => {
+		const schedule = createSchedule({ cronExpression: null });
+		mockScheduleService.getDueSchedules.mockResolvedValue([schedule]);
+
+		await runner.run();
+
+		expect(mockScheduleService.claimRun).toHaveBeenCalledWith(schedule, null);
+		expect(mockScheduleService.removeSchedule).toHaveBeenCalledWith(
+			"0123456789abcdef",
+			"user123",
+		);
+	});
+
+	it("should skip runs claimed by another invocation", async () => {
+		mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+		mockScheduleService.claimRun.mockResolvedValue(false);
+
+		const summary = await runner.run();
+
+		expect(summary.due).toBe(0);
+		expect(mockTemboService.createTask).not.toHaveBeenCalled();
+	});
+
+	it("should record and announce a failed run", async () => {
+		mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+		mockTemboService.createTask.mockRejectedValue(
+			new Error("Repository not found"),
+		);
+
+		const summary = await runner.run();
+
+		expect(summary).toEqual({ due: 1, created: 0, failed: 1 });
+		expect(mockScheduleService.recordResult).toHaveBeenCalledWith(
+			"0123456789abcdef",
+			{
+				error: "Repository not found",
+			},
+		);
+		expect(sendChannelMessage).toHaveBeenCalledWith(
+			"channel-1",
+			"bot-token",
+			expect.objectContaining({
+				embeds: [
+					expect.objectContaining({ title: "⚠️ Scheduled Task Didn't Start" }),
+				],
+			}),
+		);
+		expect(mockWatchService.watchTask).not.toHaveBeenCalled();
+	});
+
+	it("should fail runs of owners without an API key", async () => {
+		mockScheduleService.getDueSchedules.mockResolvedValue([
+			createSchedule(),
+			createSchedule({ id: "fedcba9876543210" }),
+		]);
+		mockAuthService.authenticateUser.mockResolvedValue({
+			success: false,
+			requiresOnboarding: true,
+		});
+
+		const summary = await runner.run();
+
+		expect(summary).toEqual({ due: 2, created: 0, failed: 2 });
+		// Authenticated once for both schedules
+		expect(mockAuthService.authenticateUser).toHaveBeenCalledTimes(1);
+		expect(mockScheduleService.recordResult).toHaveBeenCalledWith(
+			"0123456789abcdef",
+			{
+				error: expect.stringContaining("Run `/setup` to resume it"),
+			},
+		);
+	});
+
+	describe("server rules", () => {
+		const denied = {
+			allowed: false,
+			matchedCommand: "schedule",
+			allowedRoleIds: ["role-dev"],
+		};
+
+		it("should run when the owner holds an allowed role", async () => {
+			mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+			mockPolicyService.checkAccess
+				.mockResolvedValueOnce(denied)
+				.mockResolvedValueOnce({
+					allowed: true,
+					allowedRoleIds: ["role-member"],
+				});
+
+			const summary = await runner.run();
+
+			expect(summary.created).toBe(1);
+			expect(getGuildMember).toHaveBeenCalledWith(
+				"guild-1",
+				"user123",
+				"bot-token",
+			);
+			expect(mockPolicyService.checkAccess).toHaveBeenLastCalledWith(
+				"guild-1",
+				"schedule create",
+				["role-member"],
+				["https://github.com/org/api"],
+			);
+		});
+
+		it("should fail runs the permission policy no longer allows", async () => {
+			mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+			mockPolicyService.checkAccess.mockResolvedValue(denied);
+
+			const summary = await runner.run();
+
+			expect(summary).toEqual({ due: 1, created: 0, failed: 1 });
+			expect(mockTemboService.createTask).not.toHaveBeenCalled();
+			expect(mockScheduleService.recordResult).toHaveBeenCalledWith(
+				"0123456789abcdef",
+				{
+					error: expect.stringContaining("<@&role-dev>"),
+				},
+			);
+		});
+
+		it("should name the repository a rule denied the run for", async () => {
+			mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+			mockPolicyService.checkAccess.mockResolvedValue({
+				...denied,
+				repository: "https://github.com/org/api",
+			});
+
+			const summary = await runner.run();
+
+			expect(summary.failed).toBe(1);
+			expect(mockTemboService.createTask).not.toHaveBeenCalled();
+			expect(mockScheduleService.recordResult).toHaveBeenCalledWith(
+				"0123456789abcdef",
+				{
+					error: expect.stringContaining("on `https://github.com/org/api`"),
+				},
+			);
+		});
+
+		it("should let server managers bypass the permission policy", async () => {
+			mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+			mockPolicyService.checkAccess.mockResolvedValue(denied);
+			getGuild.mockResolvedValue({
+				success: true,
+				guild: {
+					id: "guild-1",
+					owner_id: "owner",
+					roles: [
+						{
+							id: "role-member",
+							permissions: PermissionFlagsBits.ManageGuild.toString(),
+						},
+					],
+				} as unknown as APIGuild,
+			});
+
+			const summary = await runner.run();
+
+			expect(summary.created).toBe(1);
+		});
+
+		it("should fail runs when the owner left a restricted server", async () => {
+			mockScheduleService.getDueSchedules.mockResolvedValue([createSchedule()]);
+			mockPolicyService.checkAccess.mockResolvedValue(denied);
+			getGuildMember.mockResolvedValue({
+				success: false,
+				error: "Failed to get guild member (404)",
+			});
+
+			const summary = await runner.run();
+
+			expect(summary.failed).toBe(1);
+			expect(mockTemboService.createTask).not.toHaveBeenCalled();
+		});
+
+		it("should fail runs with repositories the channel no longer allows", async () => {
+			mockScheduleService.getDueSchedules.mockResolvedValue([
+				createSchedule({ channelId: "thread-1", parentChannelId: "channel-1" }),
+			]);
+			mockChannelRepositoryService.getAllowedRepositories.mockResolvedValue([
+				"https://github.com/org/web",
+			]);
+
+			const summary = await runner.run();
+
+			expect(summary.failed).toBe(1);
+			expect(
+				mockChannelRepositoryService.getAllowedRepositories,
+			).toHaveBeenCalledWith("thread-1", "channel-1");
+			expect(mockScheduleService.recordResult).toHaveBeenCalledWith(
+				"0123456789abcdef",
+				{
+					error: expect.stringContaining("can't be used in this channel"),
+				},
+			);
+		});
+
+		it("should fail runs with an agent the catalog no longer offers", async () => {
+			mockScheduleService.getDueSchedules.mockResolvedValue([
+				createSchedule({
+					template: {
+						prompt: "Update dependencies",
+						repositories: ["https://github.com/org/api"],
+						agent: "cursor:opus-4-5",
+					},
+				}),
+			]);
+			mockAgentCatalogService.getAgentCatalog.mockResolvedValue({
+				agents: ["amp:opus-4-5"],
+			});
+
+			const summary = await runner.run();
+
+			expect(summary.failed).toBe(1);
+			expect(mockAgentCatalogService.getAgentCatalog).toHaveBeenCalledWith(
+				"guild-1",
+			);
+			expect(mockTemboService.createTask).not.toHaveBeenCalled();
+		});
+	});
+});
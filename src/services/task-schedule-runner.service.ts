@@ -0,0 +1,423 @@
+/**
+ * TaskScheduleRunner
+ *
+ * Runs from the Cron Trigger and creates a Tembo task for every due /schedule,
+ * using the owner's own stored API key (never a guild key). Server rules may
+ * have changed since the schedule was created, so the permission policy,
+ * channel repository allow-list and agent catalog are checked again before
+ * each run. Each run is announced in the schedule's
+ * channel (or the owner's DMs), and the task is watched so TaskStatusPoller
+ * reports on it like any other task. One-off schedules are removed after
+ * their run.
+ */
+
+import type { APIEmbed } from "discord-api-types/v10";
+import type { TemboTask } from "../types";
+import { getNextCronRun, parseCronExpression } from "../utils/cron";
+import {
+	getGuild,
+	getGuildMember,
+	sendChannelMessage,
+	sendDirectMessage,
+} from "../utils/discord";
+import { formatErrorForUser, PermissionDeniedError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { canBypassPolicy, getMemberPermissions } from "../utils/permissions";
+import {
+	assertRepositoriesAllowed,
+	validateAgent,
+} from "../validation/command-options";
+import type { AgentCatalogService } from "./agent-catalog.service";
+import { type AuthResult, AuthService } from "./auth.service";
+import type { ChannelRepositoryService } from "./channel-repository.service";
+import type { PermissionPolicyService } from "./permission-policy.service";
+import type {
+	TaskScheduleRecord,
+	TaskScheduleService,
+} from "./task-schedule.service";
+import type { TaskWatchService } from "./task-watch.service";
+import { getTaskUrl } from "./tembo.service";
+
+// The command whose permission policy governs schedule runs
+const SCHEDULE_COMMAND = "schedule create";
+
+export interface ScheduleRunSummary {
+	due: number;
+	created: number;
+	failed: number;
+}
+
+export class TaskScheduleRunner {
+	constructor(
+		private readonly scheduleService: TaskScheduleService,
+		private readonly watchService: TaskWatchService,
+		private readonly authService: AuthService,
+		private readonly permissionPolicyService: PermissionPolicyService,
+		private readonly channelRepositoryService: ChannelRepositoryService,
+		private readonly agentCatalogService: AgentCatalogService,
+		private readonly botToken: string,
+	) {}
+
+	/**
+	 * Creates tasks for due schedules and moves them to their next run
+	 * @param batchSize Maximum number of schedules to run in this invocation
+	 * @returns Counts of due, created and failed runs
+	 */
+	async run(batchSize: number = 25): Promise<ScheduleRunSummary> {
+		const now = Date.now();
+		const summary: ScheduleRunSummary = { due: 0, created: 0, failed: 0 };
+
+		const schedules = await this.scheduleService.getDueSchedules(
+			now,
+			batchSize,
+		);
+		if (schedules.length === 0) {
+			return summary;
+		}
+
+		// Each owner is authenticated once, with their own key only
+		const authResults = new Map<string, AuthResult>();
+
+		for (const schedule of schedules) {
+			const nextRun = this.getNextRun(schedule, now);
+			if (!(await this.scheduleService.claimRun(schedule, nextRun))) {
+				logger.info("Skipping schedule run claimed elsewhere", {
+					scheduleId: schedule.id,
+				});
+				continue;
+			}
+			summary.due++;
+
+			let authResult = authResults.get(schedule.discordUserId);
+			if (!authResult) {
+				// No guild ID, so a guild key is never used in the owner's name
+				authResult = await this.authService.authenticateUser(
+					schedule.discordUserId,
+				);
+				authResults.set(schedule.discordUserId, authResult);
+			}
+
+			try {
+				if (!authResult.success || !authResult.temboService) {
+					throw new Error(
+						authResult.requiresOnboarding
+							? "Schedules run with their owner's own Tembo API key, and none is registered. Run `/setup` to resume it."
+							: authResult.error || "Authentication failed",
+					);
+				}
+
+				await this.assertScheduleAllowed(schedule);
+
+				const task = await authResult.temboService.createTask({
+					...schedule.template,
+					queueRightAway: true,
+				});
+				summary.created++;
+
+				await this.recordResult(schedule, { taskId: task.id });
+				await this.announceTask(schedule, task, nextRun);
+			} catch (error) {
+				summary.failed++;
+				logger.error("Failed to run task schedule", error, {
+					scheduleId: schedule.id,
+				});
+
+				await this.recordResult(schedule, {
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
+				await this.announce(
+					schedule,
+					this.buildFailureEmbed(schedule, error, nextRun),
+				);
+			}
+
+			if (nextRun === null) {
+				await this.removeOneOffSchedule(schedule);
+			}
+		}
+
+		logger.info("Task schedule run completed", { ...summary });
+		return summary;
+	}
+
+	/**
+	 * Rechecks the server rules the schedule was created under
+	 * @throws When the owner may no longer create the schedule's task
+	 */
+	private async assertScheduleAllowed(
+		schedule: TaskScheduleRecord,
+	): Promise<void> {
+		if (schedule.guildId) {
+			await this.assertPolicyAllows(
+				schedule.guildId,
+				schedule.discordUserId,
+				schedule.template.repositories,
+			);
+		}
+
+		if (schedule.channelId) {
+			assertRepositoriesAllowed(
+				schedule.template.repositories,
+				await this.channelRepositoryService.getAllowedRepositories(
+					schedule.channelId,
+					schedule.parentChannelId,
+				),
+			);
+		}
+
+		if (schedule.template.agent) {
+			const catalog = await this.agentCatalogService.getAgentCatalog(
+				schedule.guildId,
+			);
+			validateAgent(schedule.template.agent, catalog.agents);
+		}
+	}
+
+	/**
+	 * Checks the permission policy like an interaction would, including rules
+	 * on the template's repositories, looking up the owner's roles and
+	 * permissions only when the command is restricted.
+	 * Failed lookups deny the run, so owners who left the server stop too.
+	 */
+	private async assertPolicyAllows(
+		guildId: string,
+		userId: string,
+		repositories: string[],
+	): Promise<void> {
+		if (
+			(
+				await this.permissionPolicyService.checkAccess(
+					guildId,
+					SCHEDULE_COMMAND,
+					[],
+					repositories,
+				)
+			).allowed
+		) {
+			return;
+		}
+
+		const { member } = await getGuildMember(guildId, userId, this.botToken);
+		if (!member) {
+			throw new PermissionDeniedError(
+				"The schedule's owner couldn't be found in this server, so their roles can't be checked.",
+			);
+		}
+
+		const access = await this.permissionPolicyService.checkAccess(
+			guildId,
+			SCHEDULE_COMMAND,
+			member.roles,
+			repositories,
+		);
+		if (access.allowed) {
+			return;
+		}
+
+		const { guild } = await getGuild(guildId, this.botToken);
+		if (!guild) {
+			throw new Error(
+				"Unable to check the schedule owner's permissions in this server",
+			);
+		}
+		if (canBypassPolicy(getMemberPermissions(guild, member))) {
+			return;
+		}
+
+		const roles = access.allowedRoleIds
+			.map((roleId) => `<@&${roleId}>`)
+			.join(", ");
+		throw new PermissionDeniedError(
+			access.repository
+				? `The schedule's owner needs one of these roles to use \`/${SCHEDULE_COMMAND}\` on \`${access.repository}\` in this server: ${roles}`
+				: `The schedule's owner needs one of these roles to use \`/${SCHEDULE_COMMAND}\` in this server: ${roles}`,
+		);
+	}
+
+	/**
+	 * @returns The run after now, or null for one-off schedules
+	 */
+	private getNextRun(schedule: TaskScheduleRecord, now: number): number | null {
+		const cron = schedule.cronExpression
+			? parseCronExpression(schedule.cronExpression)
+			: null;
+		if (schedule.cronExpression && !cron) {
+			logger.warn("Stopping schedule with an unreadable cron expression", {
+				scheduleId: schedule.id,
+			});
+		}
+		return cron ? getNextCronRun(cron, now) : null;
+	}
+
+	private async announceTask(
+		schedule: TaskScheduleRecord,
+		task: TemboTask,
+		nextRun: number | null,
+	): Promise<void> {
+		const target = await this.announce(
+			schedule,
+			this.buildTaskEmbed(schedule, task, nextRun),
+		);
+
+		// Status updates reply to the announcement, or go to DMs
+		try {
+			await this.watchService.watchTask({
+				taskId: task.id,
+				discordUserId: schedule.discordUserId,
+				guildId: schedule.guildId,
+				channelId: target.channelId,
+				messageId: target.messageId,
+				lastStatus: task.status ?? null,
+			});
+		} catch (error) {
+			logger.warn("Failed to watch scheduled task", { taskId: task.id, error });
+		}
+	}
+
+	/**
+	 * Posts to the schedule's channel, falling back to the owner's DMs
+	 * @returns Where the message was posted (a null channel means DMs)
+	 */
+	private async announce(
+		schedule: TaskScheduleRecord,
+		embed: APIEmbed,
+	): Promise<{ channelId: string | null; messageId: string | null }> {
+		if (schedule.channelId) {
+			const result = await sendChannelMessage(
+				schedule.channelId,
+				this.botToken,
+				{
+					content: `<@${schedule.discordUserId}>`,
+					embeds: [embed],
+					allowed_mentions: { users: [schedule.discordUserId] },
+				},
+			);
+
+			if (result.success) {
+				return {
+					channelId: schedule.channelId,
+					messageId: result.messageId ?? null,
+				};
+			}
+
+			logger.warn("Falling back to DM for schedule announcement", {
+				scheduleId: schedule.id,
+				channelId: schedule.channelId,
+				error: result.error,
+			});
+		}
+
+		await sendDirectMessage(schedule.discordUserId, this.botToken, "", [embed]);
+		return { channelId: null, messageId: null };
+	}
+
+	/**
+	 * Records a run's outcome for /schedule list. Losing it only affects the
+	 * list, so it never stops the run.
+	 */
+	private async recordResult(
+		schedule: TaskScheduleRecord,
+		result: { taskId: string } | { error: string },
+	): Promise<void> {
+		try {
+			await this.scheduleService.recordResult(schedule.id, result);
+		} catch (error) {
+			logger.warn("Failed to record schedule result", {
+				scheduleId: schedule.id,
+				error,
+			});
+		}
+	}
+
+	private async removeOneOffSchedule(
+		schedule: TaskScheduleRecord,
+	): Promise<void> {
+		try {
+			await this.scheduleService.removeSchedule(
+				schedule.id,
+				schedule.discordUserId,
+			);
+		} catch (error) {
+			// Its next run is already cleared, so it won't run again either way
+			logger.warn("Failed to remove one-off schedule", {
+				scheduleId: schedule.id,
+				error,
+			});
+		}
+	}
+
+	private describeNextRun(nextRun: number | null): string {
+		return nextRun === null
+			? "None, this was a one-off schedule"
+			: `<t:${Math.floor(nextRun / 1000)}:f> (<t:${Math.floor(nextRun / 1000)}:R>)`;
+	}
+
+	private buildTaskEmbed(
+		schedule: TaskScheduleRecord,
+		task: TemboTask,
+		nextRun: number | null,
+	): APIEmbed {
+		const repositories = schedule.template.repositories;
+
+		return {
+			title: "⏰ Scheduled Task Created",
+			url: getTaskUrl(task.id),
+			description:
+				`**${schedule.name}**\n` +
+				(task.title || schedule.template.prompt).substring(0, 200),
+			fields: [
+				{ name: "Task ID", value: `\`${task.id}\``, inline: true },
+				...(task.agent
+					? [{ name: "Agent", value: task.agent, inline: true }]
+					: []),
+				...(repositories.length > 0
+					? [
+							{
+								name: "Repositories",
+								value: repositories.join("\n").substring(0, 1024),
+								inline: false,
+							},
+						]
+					: []),
+				{
+					name: "Next Run",
+					value: this.describeNextRun(nextRun),
+					inline: false,
+				},
+			],
+			color: 0x5865f2,
+			footer: {
+				text: "You'll get a reply here when the task starts, finishes or fails",
+			},
+			timestamp: new Date().toISOString(),
+		};
+	}
+
+	private buildFailureEmbed(
+		schedule: TaskScheduleRecord,
+		error: unknown,
+		nextRun: number | null,
+	): APIEmbed {
+		return {
+			title: "⚠️ Scheduled Task Didn't Start",
+			description:
+				`**${schedule.name}**\n\n${formatErrorForUser(error)}`.substring(
+					0,
+					4096,
+				),
+			fields: [
+				{ name: "Schedule ID", value: `\`${schedule.id}\``, inline: true },
+				{
+					name: "Next Run",
+					value: this.describeNextRun(nextRun),
+					inline: false,
+				},
+			],
+			color: 0xff0000,
+			footer: {
+				text: "Check your schedules with /schedule list",
+			},
+			timestamp: new Date().toISOString(),
+		};
+	}
+}
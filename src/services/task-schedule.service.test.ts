@@ -0,0 +1,253 @@
+// Tests for TaskScheduleService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import {
+	type TaskScheduleRecord,
+	TaskScheduleService,
+} from "./task-schedule.service";
+
+const mockRow = {
+	id: "0123456789abcdef",
+	discord_user_id: "user123",
+	guild_id: "guild-1",
+	channel_id: "channel-1",
+	parent_channel_id: null,
+	name: "Nightly dependencies",
+	prompt: "Update dependencies",
+	repositories: '["https://github.com/org/api"]',
+	agent: "claudeCode:sonnet-4-5",
+	branch: null,
+	cron_expression: "0 3 * * *",
+	next_run_timestamp: 2000,
+	last_run_timestamp: null,
+	last_task_id: null,
+	last_error: null,
+	created_timestamp: 1000,
+};
+
+describe("TaskScheduleService", () => {
+	let service: TaskScheduleService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new TaskScheduleService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(
+				() => new TaskScheduleService(null as unknown as D1Database),
+			).toThrow("D1 database binding is required");
+		});
+	});
+
+	describe("createSchedule", () => {
+		it("should save a schedule with a random ID", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			const schedule = await service.createSchedule({
+				discordUserId: "user123",
+				guildId: null,
+				channelId: null,
+				parentChannelId: null,
+				name: "Nightly dependencies",
+				template: {
+					prompt: "Update dependencies",
+					repositories: ["https://github.com/org/api"],
+				},
+				cronExpression: "0 3 * * *",
+				nextRunTimestamp: 2000,
+			});
+
+			expect(schedule.id).toMatch(/^[0-9a-f]{16}$/);
+			expect(schedule.createdTimestamp).toBe(1234567890);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				schedule.id,
+				"user123",
+				null,
+				null,
+				null,
+				"Nightly dependencies",
+				"Update dependencies",
+				'["https://github.com/org/api"]',
+				null,
+				null,
+				"0 3 * * *",
+				2000,
+				1234567890,
+			);
+		});
+
+		it("should throw on database error", async () => {
+			mockStmt.run.mockRejectedValue(new Error("DB error"));
+
+			await expect(
+				service.createSchedule({
+					discordUserId: "user123",
+					guildId: null,
+					channelId: null,
+					parentChannelId: null,
+					name: "Once",
+					template: { prompt: "Do it", repositories: [] },
+					cronExpression: null,
+					nextRunTimestamp: 2000,
+				}),
+			).rejects.toThrow("Failed to save task schedule");
+		});
+	});
+
+	describe("getSchedules", () => {
+		it("should map rows to records", async () => {
+			mockStmt.all.mockResolvedValue({ results: [mockRow] });
+
+			const schedules = await service.getSchedules("user123", "guild-1");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith("user123", "guild-1");
+			expect(schedules).toEqual([
+				{
+					id: "0123456789abcdef",
+					discordUserId: "user123",
+					guildId: "guild-1",
+					channelId: "channel-1",
+					parentChannelId: null,
+					name: "Nightly dependencies",
+					template: {
+						prompt: "Update dependencies",
+						repositories: ["https://github.com/org/api"],
+						agent: "claudeCode:sonnet-4-5",
+						branch: undefined,
+					},
+					cronExpression: "0 3 * * *",
+					nextRunTimestamp: 2000,
+					lastRunTimestamp: null,
+					lastTaskId: null,
+					lastError: null,
+					createdTimestamp: 1000,
+				},
+			]);
+		});
+
+		it("should ignore unreadable repositories", async () => {
+			mockStmt.all.mockResolvedValue({
+				results: [{ ...mockRow, repositories: "oops" }],
+			});
+
+			const [schedule] = await service.getSchedules("user123", null);
+
+			expect(schedule?.template.repositories).toEqual([]);
+		});
+
+		it("should throw on database error", async () => {
+			mockStmt.all.mockRejectedValue(new Error("DB error"));
+
+			await expect(service.getSchedules("user123", null)).rejects.toThrow(
+				"Database query failed",
+			);
+		});
+	});
+
+	describe("countSchedules", () => {
+		it("should count the user's schedules", async () => {
+			mockStmt.first.mockResolvedValue({ count: 3 });
+
+			expect(await service.countSchedules("user123")).toBe(3);
+		});
+	});
+
+	describe("getDueSchedules", () => {
+		it("should query schedules due by now", async () => {
+			mockStmt.all.mockResolvedValue({ results: [mockRow] });
+
+			const schedules = await service.getDueSchedules(5000, 25);
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(5000, 25);
+			expect(schedules).toHaveLength(1);
+		});
+	});
+
+	describe("claimRun", () => {
+		const schedule = {
+			id: "0123456789abcdef",
+			nextRunTimestamp: 2000,
+		} as TaskScheduleRecord;
+
+		it("should move the schedule to its next run", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			expect(await service.claimRun(schedule, 3000)).toBe(true);
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				3000,
+				1234567890,
+				"0123456789abcdef",
+				2000,
+			);
+		});
+
+		it("should report a run claimed by someone else", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 0 } });
+
+			expect(await service.claimRun(schedule, null)).toBe(false);
+		});
+	});
+
+	describe("recordResult", () => {
+		it("should record the created task", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.recordResult("0123456789abcdef", { taskId: "task-1" });
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"task-1",
+				null,
+				"0123456789abcdef",
+			);
+		});
+
+		it("should record an error", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.recordResult("0123456789abcdef", {
+				error: "Invalid API key",
+			});
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				null,
+				"Invalid API key",
+				"0123456789abcdef",
+			);
+		});
+	});
+
+	describe("removeSchedule", () => {
+		it("should remove the owner's schedule", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 1 } });
+
+			expect(await service.removeSchedule("0123456789abcdef", "user123")).toBe(
+				true,
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith("0123456789abcdef", "user123");
+		});
+
+		it("should report a missing schedule", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 0 } });
+
+			expect(await service.removeSchedule("0123456789abcdef", "user456")).toBe(
+				false,
+			);
+		});
+	});
+});
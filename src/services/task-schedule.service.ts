@@ -0,0 +1,347 @@
+/**
+ * TaskScheduleService
+ *
+ * Stores /schedule task templates. The cron trigger picks up due schedules
+ * with getDueSchedules and claims each run with claimRun, which moves the
+ * schedule to its next run only if no other invocation got there first.
+ */
+
+import type { CreateTaskParams } from "../types";
+import { logger } from "../utils/logger";
+
+// Schedules a user can have across all servers
+export const MAX_SCHEDULES_PER_USER = 10;
+
+// The task a schedule creates. Schedules always queue right away.
+export type ScheduledTaskTemplate = Omit<CreateTaskParams, "queueRightAway">;
+
+export interface TaskScheduleRecord {
+	id: string;
+	discordUserId: string;
+	guildId: string | null;
+	// Where runs are announced (null = DMs)
+	channelId: string | null;
+	// Parent of channelId when it's a thread, whose allow-list also applies
+	parentChannelId: string | null;
+	name: string;
+	template: ScheduledTaskTemplate;
+	// null for one-off schedules
+	cronExpression: string | null;
+	// null once a one-off schedule has run
+	nextRunTimestamp: number | null;
+	lastRunTimestamp: number | null;
+	lastTaskId: string | null;
+	lastError: string | null;
+	createdTimestamp: number;
+}
+
+export type NewTaskSchedule = Pick<
+	TaskScheduleRecord,
+	| "discordUserId"
+	| "guildId"
+	| "channelId"
+	| "parentChannelId"
+	| "name"
+	| "template"
+	| "cronExpression"
+> & { nextRunTimestamp: number };
+
+interface TaskScheduleRow {
+	id: string;
+	discord_user_id: string;
+	guild_id: string | null;
+	channel_id: string | null;
+	parent_channel_id: string | null;
+	name: string;
+	prompt: string;
+	repositories: string;
+	agent: string | null;
+	branch: string | null;
+	cron_expression: string | null;
+	next_run_timestamp: number | null;
+	last_run_timestamp: number | null;
+	last_task_id: string | null;
+	last_error: string | null;
+	created_timestamp: number;
+}
+
+/**
+ * Random 16-character hex ID, short enough to type into /schedule delete
+ */
+function generateScheduleId(): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+export class TaskScheduleService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Saves a new schedule
+	 * @param schedule Schedule details, including its first run
+	 * @returns The saved schedule
+	 */
+	async createSchedule(schedule: NewTaskSchedule): Promise<TaskScheduleRecord> {
+		const record: TaskScheduleRecord = {
+			...schedule,
+			id: generateScheduleId(),
+			lastRunTimestamp: null,
+			lastTaskId: null,
+			lastError: null,
+			createdTimestamp: Date.now(),
+		};
+
+		try {
+			const stmt = this.db.prepare(`
+				INSERT INTO task_schedules (
+					id,
+					discord_user_id,
+					guild_id,
+					channel_id,
+					parent_channel_id,
+					name,
+					prompt,
+					repositories,
+					agent,
+					branch,
+					cron_expression,
+					next_run_timestamp,
+					created_timestamp
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			`);
+
+			await stmt
+				.bind(
+					record.id,
+					record.discordUserId,
+					record.guildId ?? null,
+					record.channelId ?? null,
+					record.parentChannelId ?? null,
+					record.name,
+					record.template.prompt,
+					JSON.stringify(record.template.repositories),
+					record.template.agent ?? null,
+					record.template.branch ?? null,
+					record.cronExpression,
+					record.nextRunTimestamp,
+					record.createdTimestamp,
+				)
+				.run();
+
+			logger.info("Task schedule created", {
+				scheduleId: record.id,
+				discordUserId: record.discordUserId,
+				repeating: record.cronExpression !== null,
+			});
+
+			return record;
+		} catch (error) {
+			logger.error("Failed to create task schedule", error, {
+				discordUserId: schedule.discordUserId,
+			});
+			throw new Error("Failed to save task schedule");
+		}
+	}
+
+	/**
+	 * Retrieves a user's schedules in a guild (or in DMs), oldest first
+	 * @param discordUserId Discord user ID
+	 * @param guildId Guild ID, or null for schedules created in DMs
+	 */
+	async getSchedules(
+		discordUserId: string,
+		guildId: string | null,
+	): Promise<TaskScheduleRecord[]> {
+		try {
+			const stmt = this.db.prepare(`
+				SELECT * FROM task_schedules
+				WHERE discord_user_id = ? AND guild_id IS ?
+				ORDER BY created_timestamp ASC
+			`);
+			const result = await stmt
+				.bind(discordUserId, guildId)
+				.all<TaskScheduleRow>();
+
+			return (result.results ?? []).map((row) => this.mapRow(row));
+		} catch (error) {
+			logger.error("Failed to get task schedules", error, {
+				discordUserId,
+				guildId,
+			});
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Counts a user's schedules across all guilds
+	 */
+	async countSchedules(discordUserId: string): Promise<number> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT COUNT(*) AS count FROM task_schedules WHERE discord_user_id = ?",
+			);
+			const result = await stmt.bind(discordUserId).first<{ count: number }>();
+
+			return result?.count ?? 0;
+		} catch (error) {
+			logger.error("Failed to count task schedules", error, { discordUserId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Retrieves schedules whose next run is due, earliest first
+	 * @param now Current time
+	 * @param limit Maximum number of schedules to return
+	 */
+	async getDueSchedules(
+		now: number,
+		limit: number,
+	): Promise<TaskScheduleRecord[]> {
+		try {
+			const stmt = this.db.prepare(`
+				SELECT * FROM task_schedules
+				WHERE next_run_timestamp IS NOT NULL AND next_run_timestamp <= ?
+				ORDER BY next_run_timestamp ASC
+				LIMIT ?
+			`);
+			const result = await stmt.bind(now, limit).all<TaskScheduleRow>();
+
+			return (result.results ?? []).map((row) => this.mapRow(row));
+		} catch (error) {
+			logger.error("Failed to get due task schedules", error);
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Claims a due run by moving the schedule to its next run. Overlapping cron
+	 * invocations see the same due schedule, but only one of them can claim it.
+	 * @param schedule Schedule as returned by getDueSchedules
+	 * @param nextRunTimestamp The run after this one, or null for one-off schedules
+	 * @returns True if this caller claimed the run
+	 */
+	async claimRun(
+		schedule: TaskScheduleRecord,
+		nextRunTimestamp: number | null,
+	): Promise<boolean> {
+		try {
+			const stmt = this.db.prepare(`
+				UPDATE task_schedules
+				SET next_run_timestamp = ?, last_run_timestamp = ?
+				WHERE id = ? AND next_run_timestamp = ?
+			`);
+			const result = await stmt
+				.bind(
+					nextRunTimestamp,
+					Date.now(),
+					schedule.id,
+					schedule.nextRunTimestamp,
+				)
+				.run();
+
+			return (result.meta?.changes ?? 0) > 0;
+		} catch (error) {
+			logger.error("Failed to claim task schedule run", error, {
+				scheduleId: schedule.id,
+			});
+			throw new Error("Failed to claim task schedule run");
+		}
+	}
+
+	/**
+	 * Records the outcome of a run for /schedule list
+	 * @param scheduleId Schedule ID
+	 * @param result The created task's ID, or the error that stopped it
+	 */
+	async recordResult(
+		scheduleId: string,
+		result: { taskId: string } | { error: string },
+	): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				UPDATE task_schedules
+				SET last_task_id = ?, last_error = ?
+				WHERE id = ?
+			`);
+			await stmt
+				.bind(
+					"taskId" in result ? result.taskId : null,
+					"error" in result ? result.error : null,
+					scheduleId,
+				)
+				.run();
+		} catch (error) {
+			logger.error("Failed to record task schedule result", error, {
+				scheduleId,
+			});
+			throw new Error("Failed to record task schedule result");
+		}
+	}
+
+	/**
+	 * Removes one of a user's schedules
+	 * @param scheduleId Schedule ID
+	 * @param discordUserId Owner; other users' schedules are left alone
+	 * @returns True if a schedule was removed
+	 */
+	async removeSchedule(
+		scheduleId: string,
+		discordUserId: string,
+	): Promise<boolean> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM task_schedules WHERE id = ? AND discord_user_id = ?",
+			);
+			const result = await stmt.bind(scheduleId, discordUserId).run();
+			const removed = (result.meta?.changes ?? 0) > 0;
+
+			if (removed) {
+				logger.info("Task schedule removed", { scheduleId, discordUserId });
+			}
+			return removed;
+		} catch (error) {
+			logger.error("Failed to remove task schedule", error, { scheduleId });
+			throw new Error("Failed to remove task schedule");
+		}
+	}
+
+	private mapRow(row: TaskScheduleRow): TaskScheduleRecord {
+		return {
+			id: row.id,
+			discordUserId: row.discord_user_id,
+			guildId: row.guild_id,
+			channelId: row.channel_id,
+			parentChannelId: row.parent_channel_id,
+			name: row.name,
+			template: {
+				prompt: row.prompt,
+				repositories: this.parseRepositories(row.repositories),
+				agent: row.agent ?? undefined,
+				branch: row.branch ?? undefined,
+			},
+			cronExpression: row.cron_expression,
+			nextRunTimestamp: row.next_run_timestamp,
+			lastRunTimestamp: row.last_run_timestamp,
+			lastTaskId: row.last_task_id,
+			lastError: row.last_error,
+			createdTimestamp: row.created_timestamp,
+		};
+	}
+
+	private parseRepositories(value: string): string[] {
+		try {
+			const parsed: unknown = JSON.parse(value);
+			return Array.isArray(parsed)
+				? parsed.filter((repo): repo is string => typeof repo === "string")
+				: [];
+		} catch {
+			return [];
+		}
+	}
+}
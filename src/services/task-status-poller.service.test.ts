@@ -0,0 +1,282 @@
+// Tests for TaskStatusPoller
+
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	type MockInstance,
+	vi,
+} from "vitest";
+import * as discordModule from "../utils/discord";
+import { NotFoundError } from "../utils/errors";
+import type { AuthService } from "./auth.service";
+import { TaskStatusPoller } from "./task-status-poller.service";
+import type { TaskWatchRecord, TaskWatchService } from "./task-watch.service";
+
+const createWatch = (
+	overrides: Partial<TaskWatchRecord> = {},
+): TaskWatchRecord => ({
+	taskId: "task-1",
+	discordUserId: "user123",
+	guildId: "guild-1",
+	channelId: "channel-1",
+	messageId: "message-1",
+	lastStatus: "queued",
+	createdTimestamp: 1000,
+	lastCheckedTimestamp: null,
+	...overrides,
+});
+
+const createTask = (status: string) => ({
+	id: "task-1",
+	title: "Fix the bug",
+	status,
+	createdAt: "2025-01-01T00:00:00Z",
+	updatedAt: "2025-01-01T00:00:00Z",
+});
+
+const createMocks = () => {
+	const temboService = {
+		listTasks: vi.fn(),
+		getTask: vi.fn(),
+	};
+
+	return {
+		watchService: {
+			getActiveWatches: vi.fn(),
+			updateStatus: vi.fn(),
+			markChecked: vi.fn(),
+			removeWatch: vi.fn(),
+			removeExpiredWatches: vi.fn().mockResolvedValue(0),
+		},
+		temboService,
+		authService: {
+			authenticateUser: vi.fn().mockResolvedValue({
+				success: true,
+				temboService,
+				requiresOnboarding: false,
+			}),
+		},
+	};
+};
+
+describe("TaskStatusPoller", () => {
+	let poller: TaskStatusPoller;
+	let mockWatchService: ReturnType<typeof createMocks>["watchService"];
+	let mockAuthService: ReturnType<typeof createMocks>["authService"];
+	let mockTemboService: ReturnType<typeof createMocks>["temboService"];
+	let sendChannelMessage: MockInstance<typeof discordModule.sendChannelMessage>;
+	let sendDirectMessage: MockInstance<typeof discordModule.sendDirectMessage>;
+
+	beforeEach(() => {
+		({
+			watchService: mockWatchService,
+			authService: mockAuthService,
+			temboService: mockTemboService,
+		} = createMocks());
+		sendChannelMessage = vi
+			.spyOn(discordModule, "sendChannelMessage")
+			.mockResolvedValue({ success: true });
+		sendDirectMessage = vi
+			.spyOn(discordModule, "sendDirectMessage")
+			.mockResolvedValue({ success: true });
+
+		poller = new TaskStatusPoller(
+			mockWatchService as unknown as TaskWatchService,
+			mockAuthService as unknown as AuthService,
+			"bot-token",
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should do nothing when there are no watches", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([]);
+
+		const summary = await poller.poll();
+
+		expect(summary).toEqual({ checked: 0, notified: 0, removed: 0 });
+		expect(mockAuthService.authenticateUser).not.toHaveBeenCalled();
+	});
+
+	it("should notify the channel when a task starts running", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([createWatch()]);
+		mockTemboService.listTasks.mockResolvedValue({
+			issues: [createTask("running")],
+		});
+
+		const summary = await poller.poll();
+
+		expect(summary.notified).toBe(1);
+		expect(sendChannelMessage).toHaveBeenCalledWith(
+			"channel-1",
+			"bot-token",
+			expect.objectContaining({
+				message_reference: {
+					message_id: "message-1",
+					fail_if_not_exists: false,
+				},
+			}),
+		);
+		expect(mockWatchService.updateStatus).toHaveBeenCalledWith(
+			"task-1",
+			"running",
+		);
+	});
+
+	it("should not notify when the status is unchanged", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([
+			createWatch({ lastStatus: "running" }),
+		]);
+		mockTemboService.listTasks.mockResolvedValue({
+			issues: [createTask("running")],
+		});
+
+		const summary = await poller.poll();
+
+		expect(summary.notified).toBe(0);
+		expect(sendChannelMessage).not.toHaveBeenCalled();
+	});
+
+	it("should remove the watch once a task finishes", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([
+			createWatch({ lastStatus: "running" }),
+		]);
+		mockTemboService.listTasks.mockResolvedValue({ issues: [] });
+		mockTemboService.getTask.mockResolvedValue(createTask("finished"));
+
+		const summary = await poller.poll();
+
+		expect(summary.notified).toBe(1);
+		expect(mockWatchService.removeWatch).toHaveBeenCalledWith("task-1");
+		expect(mockWatchService.updateStatus).not.toHaveBeenCalled();
+	});
+
+	it("should fall back to DM when the channel message fails", async () => {
+		sendChannelMessage.mockResolvedValue({
+			success: false,
+			error: "Missing Access",
+		});
+		mockWatchService.getActiveWatches.mockResolvedValue([createWatch()]);
+		mockTemboService.listTasks.mockResolvedValue({
+			issues: [createTask("failed")],
+		});
+
+		await poller.poll();
+
+		expect(sendDirectMessage).toHaveBeenCalledWith(
+			"user123",
+			"bot-token",
+			"",
+			expect.any(Array),
+		);
+	});
+
+	it("should DM the creator when no channel was recorded", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([
+			createWatch({ channelId: null, messageId: null }),
+		]);
+		mockTemboService.listTasks.mockResolvedValue({
+			issues: [createTask("running")],
+		});
+
+		await poller.poll();
+
+		expect(sendChannelMessage).not.toHaveBeenCalled();
+		expect(sendDirectMessage).toHaveBeenCalled();
+	});
+
+	it("should remove watches for tasks that no longer exist", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([createWatch()]);
+		mockTemboService.listTasks.mockResolvedValue({ issues: [] });
+		mockTemboService.getTask.mockRejectedValue(
+			new NotFoundError("Task", "/task/search"),
+		);
+
+		const summary = await poller.poll();
+
+		expect(summary.removed).toBe(1);
+		expect(mockWatchService.removeWatch).toHaveBeenCalledWith("task-1");
+	});
+
+	it("should drop watches for users who unregistered", async () => {
+		mockAuthService.authenticateUser.mockResolvedValue({
+			success: false,
+			requiresOnboarding: true,
+		});
+		mockWatchService.getActiveWatches.mockResolvedValue([createWatch()]);
+
+		const summary = await poller.poll();
+
+		expect(summary.removed).toBe(1);
+		expect(mockTemboService.listTasks).not.toHaveBeenCalled();
+	});
+
+	it("should keep watches when authentication fails temporarily", async () => {
+		mockAuthService.authenticateUser.mockResolvedValue({
+			success: false,
+			requiresOnboarding: false,
+			error: "Failed to validate",
+		});
+		mockWatchService.getActiveWatches.mockResolvedValue([createWatch()]);
+
+		const summary = await poller.poll();
+
+		expect(summary.removed).toBe(0);
+		expect(mockWatchService.removeWatch).not.toHaveBeenCalled();
+		expect(mockWatchService.markChecked).toHaveBeenCalledWith("task-1");
+	});
+
+	it("should move failing watches back so they don't block healthy ones", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([
+			createWatch({ taskId: "task-1" }),
+			createWatch({ taskId: "task-2" }),
+		]);
+		mockTemboService.listTasks.mockRejectedValue(new Error("Tembo is down"));
+		mockTemboService.getTask
+			.mockRejectedValueOnce(new Error("Internal server error"))
+			.mockResolvedValueOnce({ ...createTask("queued"), id: "task-2" });
+
+		const summary = await poller.poll();
+
+		expect(summary.checked).toBe(1);
+		expect(mockWatchService.markChecked).toHaveBeenCalledWith("task-1");
+		expect(mockWatchService.markChecked).not.toHaveBeenCalledWith("task-2");
+		expect(mockWatchService.updateStatus).toHaveBeenCalledWith(
+			"task-2",
+			"queued",
+		);
+		expect(mockWatchService.removeWatch).not.toHaveBeenCalled();
+	});
+
+	it("should authenticate once per user and guild so guild keys apply", async () => {
+		mockWatchService.getActiveWatches.mockResolvedValue([
+			createWatch({ taskId: "task-1", guildId: "guild-1" }),
+			createWatch({ taskId: "task-2", guildId: "guild-1" }),
+			createWatch({ taskId: "task-3", guildId: "guild-2" }),
+		]);
+		mockTemboService.listTasks.mockResolvedValue({
+			issues: [
+				{ ...createTask("queued"), id: "task-1" },
+				{ ...createTask("queued"), id: "task-2" },
+				{ ...createTask("queued"), id: "task-3" },
+			],
+		});
+
+		await poller.poll();
+
+		expect(mockAuthService.authenticateUser).toHaveBeenCalledTimes(2);
+		expect(mockAuthService.authenticateUser).toHaveBeenCalledWith(
+			"user123",
+			"guild-1",
+		);
+		expect(mockAuthService.authenticateUser).toHaveBeenCalledWith(
+			"user123",
+			"guild-2",
+		);
+	});
+});
@@ -0,0 +1,242 @@
+/**
+ * TaskStatusPoller
+ *
+ * Runs from the Cron Trigger and checks every watched task for status changes.
+ * Posts a reply to the original /task create message or in the task's thread
+ * (or DMs the creator when the channel is unavailable) once a task starts
+ * running, finishes or fails.
+ */
+
+import type { APIEmbed } from "discord-api-types/v10";
+import type { TemboTask } from "../types";
+import { sendChannelMessage, sendDirectMessage } from "../utils/discord";
+import { NotFoundError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import {
+	getStatusCategory,
+	getStatusEmoji,
+	isTerminalStatus,
+	type TaskStatusCategory,
+} from "../utils/task-status";
+import { AuthService } from "./auth.service";
+import { type TaskWatchRecord, TaskWatchService } from "./task-watch.service";
+import { getTaskUrl, type TemboService } from "./tembo.service";
+
+// Watches older than this are dropped even if the task never finished
+const WATCH_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const NOTIFY_CATEGORIES: TaskStatusCategory[] = [
+	"running",
+	"finished",
+	"failed",
+	"cancelled",
+];
+
+const CATEGORY_LABELS: Partial<
+	Record<TaskStatusCategory, { label: string; color: number }>
+> = {
+	running: { label: "Task Started", color: 0x5865f2 },
+	finished: { label: "Task Finished", color: 0x00ff00 },
+	failed: { label: "Task Failed", color: 0xff0000 },
+	cancelled: { label: "Task Cancelled", color: 0xffa500 },
+};
+
+export interface PollSummary {
+	checked: number;
+	notified: number;
+	removed: number;
+}
+
+export class TaskStatusPoller {
+	constructor(
+		private readonly watchService: TaskWatchService,
+		private readonly authService: AuthService,
+		private readonly botToken: string,
+	) {}
+
+	/**
+	 * Checks a batch of watched tasks and sends notifications for status changes
+	 * @param batchSize Maximum number of watches to check in this run
+	 * @returns Counts of checked, notified and removed watches
+	 */
+	async poll(batchSize: number = 50): Promise<PollSummary> {
+		const summary: PollSummary = { checked: 0, notified: 0, removed: 0 };
+
+		summary.removed += await this.watchService.removeExpiredWatches(
+			Date.now() - WATCH_TTL_MS,
+		);
+
+		const watches = await this.watchService.getActiveWatches(batchSize);
+		if (watches.length === 0) {
+			return summary;
+		}
+
+		// Group by owner and guild so each user is authenticated once per run
+		// (a user without a personal key may rely on a different guild key per guild)
+		const watchesByUser = new Map<string, TaskWatchRecord[]>();
+		for (const watch of watches) {
+			const key = `${watch.discordUserId}:${watch.guildId ?? ""}`;
+			const userWatches = watchesByUser.get(key) ?? [];
+			userWatches.push(watch);
+			watchesByUser.set(key, userWatches);
+		}
+
+		for (const userWatches of watchesByUser.values()) {
+			const { discordUserId, guildId } = userWatches[0]!;
+			const authResult = await this.authService.authenticateUser(
+				discordUserId,
+				guildId,
+			);
+
+			if (!authResult.success || !authResult.temboService) {
+				logger.warn("Skipping task watches for unauthenticated user", {
+					discordUserId,
+					requiresOnboarding: authResult.requiresOnboarding,
+				});
+				// User removed their key - nobody can poll these tasks anymore
+				if (authResult.requiresOnboarding) {
+					for (const watch of userWatches) {
+						await this.watchService.removeWatch(watch.taskId);
+						summary.removed++;
+					}
+				} else {
+					for (const watch of userWatches) {
+						await this.watchService.markChecked(watch.taskId);
+					}
+				}
+				continue;
+			}
+
+			const result = await this.checkUserWatches(
+				authResult.temboService,
+				userWatches,
+			);
+			summary.checked += result.checked;
+			summary.notified += result.notified;
+			summary.removed += result.removed;
+		}
+
+		logger.info("Task status poll completed", { ...summary });
+		return summary;
+	}
+
+	private async checkUserWatches(
+		temboService: TemboService,
+		watches: TaskWatchRecord[],
+	): Promise<PollSummary> {
+		const summary: PollSummary = { checked: 0, notified: 0, removed: 0 };
+
+		// One list call covers most recently created tasks
+		let recentTasks = new Map<string, TemboTask>();
+		try {
+			const list = await temboService.listTasks({ page: 1, limit: 100 });
+			recentTasks = new Map(list.issues.map((task) => [task.id, task]));
+		} catch (error) {
+			logger.error("Failed to list tasks for status poll", error);
+		}
+
+		for (const watch of watches) {
+			try {
+				const task =
+					recentTasks.get(watch.taskId) ??
+					(await temboService.getTask(watch.taskId));
+				summary.checked++;
+
+				if (task.status !== watch.lastStatus) {
+					const category = getStatusCategory(task.status);
+					if (
+						NOTIFY_CATEGORIES.includes(category) &&
+						category !== getStatusCategory(watch.lastStatus ?? undefined)
+					) {
+						await this.notify(watch, task, category);
+						summary.notified++;
+					}
+				}
+
+				if (isTerminalStatus(task.status)) {
+					await this.watchService.removeWatch(watch.taskId);
+					summary.removed++;
+				} else {
+					await this.watchService.updateStatus(
+						watch.taskId,
+						task.status ?? null,
+					);
+				}
+			} catch (error) {
+				if (error instanceof NotFoundError) {
+					logger.warn("Watched task no longer exists", {
+						taskId: watch.taskId,
+					});
+					await this.watchService.removeWatch(watch.taskId);
+					summary.removed++;
+					continue;
+				}
+				logger.error("Failed to check watched task", error, {
+					taskId: watch.taskId,
+				});
+				await this.watchService.markChecked(watch.taskId);
+			}
+		}
+
+		return summary;
+	}
+
+	private async notify(
+		watch: TaskWatchRecord,
+		task: TemboTask,
+		category: TaskStatusCategory,
+	): Promise<void> {
+		const embed = this.buildStatusEmbed(task, category);
+
+		if (watch.channelId) {
+			const result = await sendChannelMessage(watch.channelId, this.botToken, {
+				content: `<@${watch.discordUserId}>`,
+				embeds: [embed],
+				allowed_mentions: { users: [watch.discordUserId] },
+				message_reference: watch.messageId
+					? { message_id: watch.messageId, fail_if_not_exists: false }
+					: undefined,
+			});
+
+			if (result.success) {
+				return;
+			}
+
+			logger.warn("Falling back to DM for task status update", {
+				taskId: watch.taskId,
+				channelId: watch.channelId,
+				error: result.error,
+			});
+		}
+
+		await sendDirectMessage(watch.discordUserId, this.botToken, "", [embed]);
+	}
+
+	private buildStatusEmbed(
+		task: TemboTask,
+		category: TaskStatusCategory,
+	): APIEmbed {
+		const style = CATEGORY_LABELS[category] ?? {
+			label: "Task Updated",
+			color: 0x5865f2,
+		};
+
+		return {
+			title: `${getStatusEmoji(task.status)} ${style.label}`,
+			url: getTaskUrl(task.id),
+			description: `**${task.title || task.prompt?.substring(0, 100) || "Untitled Task"}**`,
+			fields: [
+				{ name: "Task ID", value: `\`${task.id}\``, inline: true },
+				{ name: "Status", value: task.status ?? "Unknown", inline: true },
+				...(task.agent
+					? [{ name: "Agent", value: task.agent, inline: true }]
+					: []),
+			],
+			color: style.color,
+			footer: {
+				text: "Use /task view for full details",
+			},
+			timestamp: task.updatedAt,
+		};
+	}
+}
@@ -0,0 +1,192 @@
+// Tests for TaskWatchService
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createMockD1Database,
+	type MockD1Database,
+	type MockD1Statement,
+} from "../test-utils/mock-d1";
+import { TaskWatchService } from "./task-watch.service";
+
+const mockRow = {
+	task_id: "task-1",
+	discord_user_id: "user123",
+	guild_id: "guild-1",
+	channel_id: "channel-1",
+	message_id: "message-1",
+	last_status: "queued",
+	created_timestamp: 1000,
+	last_checked_timestamp: null,
+};
+
+describe("TaskWatchService", () => {
+	let service: TaskWatchService;
+	let mockDb: MockD1Database;
+	let mockStmt: MockD1Statement;
+
+	beforeEach(() => {
+		const mocks = createMockD1Database();
+		mockDb = mocks.mockDb;
+		mockStmt = mocks.mockStmt;
+		service = new TaskWatchService(mockDb.db);
+		vi.spyOn(Date, "now").mockReturnValue(1234567890);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Constructor", () => {
+		it("should throw error for null database", () => {
+			expect(() => new TaskWatchService(null as unknown as D1Database)).toThrow(
+				"D1 database binding is required",
+			);
+		});
+	});
+
+	describe("watchTask", () => {
+		it("should save a task watch", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.watchTask({
+				taskId: "task-1",
+				discordUserId: "user123",
+				guildId: null,
+				channelId: "channel-1",
+				messageId: "message-1",
+				lastStatus: "queued",
+			});
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"task-1",
+				"user123",
+				null,
+				"channel-1",
+				"message-1",
+				"queued",
+				1234567890,
+			);
+			expect(mockStmt.run).toHaveBeenCalled();
+		});
+
+		it("should throw error on database failure", async () => {
+			mockStmt.run.mockRejectedValue(new Error("Database error"));
+
+			await expect(
+				service.watchTask({
+					taskId: "task-1",
+					discordUserId: "user123",
+					guildId: null,
+					channelId: null,
+					messageId: null,
+					lastStatus: null,
+				}),
+			).rejects.toThrow("Failed to save task watch");
+		});
+	});
+
+	describe("getActiveWatches", () => {
+		it("should map rows to records", async () => {
+			mockStmt.all.mockResolvedValue({ results: [mockRow] });
+
+			const result = await service.getActiveWatches(10);
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(10);
+			expect(result).toEqual([
+				{
+					taskId: "task-1",
+					discordUserId: "user123",
+					guildId: "guild-1",
+					channelId: "channel-1",
+					messageId: "message-1",
+					lastStatus: "queued",
+					createdTimestamp: 1000,
+					lastCheckedTimestamp: null,
+				},
+			]);
+		});
+
+		it("should return empty array when there are no watches", async () => {
+			mockStmt.all.mockResolvedValue({ results: [] });
+
+			expect(await service.getActiveWatches()).toEqual([]);
+		});
+	});
+
+	describe("getWatch", () => {
+		it("should return null when task is not watched", async () => {
+			mockStmt.first.mockResolvedValue(null);
+
+			expect(await service.getWatch("task-1")).toBeNull();
+		});
+
+		it("should return the mapped record", async () => {
+			mockStmt.first.mockResolvedValue(mockRow);
+
+			const result = await service.getWatch("task-1");
+
+			expect(result?.channelId).toBe("channel-1");
+		});
+	});
+
+	describe("updateStatus", () => {
+		it("should update status and check timestamp", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.updateStatus("task-1", "running");
+
+			expect(mockStmt.bind).toHaveBeenCalledWith(
+				"running",
+				1234567890,
+				"task-1",
+			);
+		});
+	});
+
+	describe("markChecked", () => {
+		it("should only update the check timestamp", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.markChecked("task-1");
+
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				expect.not.stringContaining("last_status"),
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith(1234567890, "task-1");
+		});
+
+		it("should not throw on database failure", async () => {
+			mockStmt.run.mockRejectedValue(new Error("DB error"));
+
+			await expect(service.markChecked("task-1")).resolves.toBeUndefined();
+		});
+	});
+
+	describe("removeWatch", () => {
+		it("should delete the watch", async () => {
+			mockStmt.run.mockResolvedValue({ success: true });
+
+			await service.removeWatch("task-1");
+
+			expect(mockDb.prepare).toHaveBeenCalledWith(
+				"DELETE FROM task_watches WHERE task_id = ?",
+			);
+			expect(mockStmt.bind).toHaveBeenCalledWith("task-1");
+		});
+	});
+
+	describe("removeExpiredWatches", () => {
+		it("should return the number of removed watches", async () => {
+			mockStmt.run.mockResolvedValue({ meta: { changes: 3 } });
+
+			expect(await service.removeExpiredWatches(5000)).toBe(3);
+			expect(mockStmt.bind).toHaveBeenCalledWith(5000);
+		});
+
+		it("should not throw on database failure", async () => {
+			mockStmt.run.mockRejectedValue(new Error("Database error"));
+
+			expect(await service.removeExpiredWatches(5000)).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,210 @@
+/**
+ * TaskWatchService
+ *
+ * Persists tasks created from Discord so the scheduled poller can report
+ * status changes back to the channel they were created in.
+ */
+
+import { logger } from "../utils/logger";
+
+export interface TaskWatchRecord {
+	taskId: string;
+	discordUserId: string;
+	guildId: string | null;
+	channelId: string | null;
+	messageId: string | null;
+	lastStatus: string | null;
+	createdTimestamp: number;
+	lastCheckedTimestamp: number | null;
+}
+
+interface TaskWatchRow {
+	task_id: string;
+	discord_user_id: string;
+	guild_id: string | null;
+	channel_id: string | null;
+	message_id: string | null;
+	last_status: string | null;
+	created_timestamp: number;
+	last_checked_timestamp: number | null;
+}
+
+export class TaskWatchService {
+	constructor(private readonly db: D1Database) {
+		if (!db) {
+			throw new Error("D1 database binding is required");
+		}
+	}
+
+	/**
+	 * Starts watching a task for status changes
+	 * @param record Task watch details (timestamps are set automatically)
+	 */
+	async watchTask(
+		record: Omit<TaskWatchRecord, "createdTimestamp" | "lastCheckedTimestamp">,
+	): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				INSERT OR REPLACE INTO task_watches (
+					task_id,
+					discord_user_id,
+					guild_id,
+					channel_id,
+					message_id,
+					last_status,
+					created_timestamp,
+					last_checked_timestamp
+				) VALUES (?, ?, ?, ?, ?, ?, ?, NULL)
+			`);
+
+			await stmt
+				.bind(
+					record.taskId,
+					record.discordUserId,
+					record.guildId ?? null,
+					record.channelId ?? null,
+					record.messageId ?? null,
+					record.lastStatus ?? null,
+					Date.now(),
+				)
+				.run();
+
+			logger.info("Task watch saved", {
+				taskId: record.taskId,
+				discordUserId: record.discordUserId,
+			});
+		} catch (error) {
+			logger.error("Failed to save task watch", error, {
+				taskId: record.taskId,
+			});
+			throw new Error("Failed to save task watch");
+		}
+	}
+
+	/**
+	 * Retrieves the watches that have gone longest without a status check
+	 * @param limit Maximum number of watches to return
+	 * @returns Task watch records, least recently checked first
+	 */
+	async getActiveWatches(limit: number = 50): Promise<TaskWatchRecord[]> {
+		try {
+			const stmt = this.db.prepare(`
+				SELECT * FROM task_watches
+				ORDER BY COALESCE(last_checked_timestamp, 0) ASC
+				LIMIT ?
+			`);
+			const result = await stmt.bind(limit).all<TaskWatchRow>();
+
+			return (result.results ?? []).map((row) => this.mapRow(row));
+		} catch (error) {
+			logger.error("Failed to get task watches", error);
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Retrieves the watch for a single task
+	 * @param taskId Tembo task ID
+	 * @returns Task watch record or null if the task is not watched
+	 */
+	async getWatch(taskId: string): Promise<TaskWatchRecord | null> {
+		try {
+			const stmt = this.db.prepare(
+				"SELECT * FROM task_watches WHERE task_id = ?",
+			);
+			const result = await stmt.bind(taskId).first<TaskWatchRow>();
+
+			return result ? this.mapRow(result) : null;
+		} catch (error) {
+			logger.error("Failed to get task watch", error, { taskId });
+			throw new Error("Database query failed");
+		}
+	}
+
+	/**
+	 * Records the latest observed status of a watched task
+	 * @param taskId Tembo task ID
+	 * @param status Latest task status
+	 */
+	async updateStatus(taskId: string, status: string | null): Promise<void> {
+		try {
+			const stmt = this.db.prepare(`
+				UPDATE task_watches
+				SET last_status = ?,
+				    last_checked_timestamp = ?
+				WHERE task_id = ?
+			`);
+			await stmt.bind(status, Date.now(), taskId).run();
+		} catch (error) {
+			logger.error("Failed to update task watch status", error, { taskId });
+			throw new Error("Failed to update task watch status");
+		}
+	}
+
+	/**
+	 * Records a check that didn't get the task's status, so a watch that keeps
+	 * failing goes to the back of the queue instead of holding up the others
+	 * @param taskId Tembo task ID
+	 */
+	async markChecked(taskId: string): Promise<void> {
+		try {
+			const stmt = this.db.prepare(
+				"UPDATE task_watches SET last_checked_timestamp = ? WHERE task_id = ?",
+			);
+			await stmt.bind(Date.now(), taskId).run();
+		} catch (error) {
+			// Don't throw - the watch is just checked again sooner
+			logger.warn("Failed to mark task watch checked", { taskId, error });
+		}
+	}
+
+	/**
+	 * Stops watching a task
+	 * @param taskId Tembo task ID
+	 */
+	async removeWatch(taskId: string): Promise<void> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM task_watches WHERE task_id = ?",
+			);
+			await stmt.bind(taskId).run();
+
+			logger.info("Task watch removed", { taskId });
+		} catch (error) {
+			logger.error("Failed to remove task watch", error, { taskId });
+			throw new Error("Failed to remove task watch");
+		}
+	}
+
+	/**
+	 * Removes watches created before the given timestamp
+	 * @param olderThan Unix timestamp in milliseconds
+	 * @returns Number of removed watches
+	 */
+	async removeExpiredWatches(olderThan: number): Promise<number> {
+		try {
+			const stmt = this.db.prepare(
+				"DELETE FROM task_watches WHERE created_timestamp < ?",
+			);
+			const result = await stmt.bind(olderThan).run();
+			return result.meta?.changes ?? 0;
+		} catch (error) {
+			// Don't throw on cleanup failure - expired watches are retried next run
+			logger.warn("Failed to remove expired task watches", { error });
+			return 0;
+		}
+	}
+
+	private mapRow(row: TaskWatchRow): TaskWatchRecord {
+		return {
+			taskId: row.task_id,
+			discordUserId: row.discord_user_id,
+			guildId: row.guild_id,
+			channelId: row.channel_id,
+			messageId: row.message_id,
+			lastStatus: row.last_status,
+			createdTimestamp: row.created_timestamp,
+			lastCheckedTimestamp: row.last_checked_timestamp,
+		};
+	}
+}
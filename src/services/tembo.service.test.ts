@@ -1,8 +1,8 @@
 // Tests for TemboService
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { TemboService, createTemboService } from "./tembo.service";
-import { TemboApiError, AuthenticationError } from "../utils/errors";
+import { TemboService, createTemboService, getTaskUrl } from "./tembo.service";
+import { TemboApiError, AuthenticationError, NotFoundError } from "../utils/errors";
 import type {
 	TemboTask,
 	TemboTaskList,
@@ -282,6 +282,107 @@ describe("TemboService", () => {
 
 			await expect(service.listTasks()).rejects.toThrow();
 		});
+
+		describe("with filters or sorting", () => {
+			const task = (id: string, overrides: Record<string, unknown> = {}) => ({
+				id,
+				status: "finished",
+				agent: "claudeCode:sonnet-4-5",
+				createdBy: "tembo-user-1",
+				createdAt: "2025-01-10T00:00:00Z",
+				updatedAt: "2025-01-10T00:00:00Z",
+				metadata: { repositories: ["https://github.com/org/web-app"] },
+				...overrides,
+			});
+
+			it("should scan full pages and page through the matches", async () => {
+				mockClient.task.list
+					.mockResolvedValueOnce({
+						issues: [task("task-1"), task("task-2", { status: "failed" }), task("task-3")],
+						meta: { hasNext: true },
+					})
+					.mockResolvedValueOnce({
+						issues: [task("task-4")],
+						meta: { hasNext: false },
+					});
+
+				const result = await service.listTasks({
+					page: 2,
+					limit: 2,
+					filters: { status: "finished" },
+				});
+
+				expect(mockClient.task.list).toHaveBeenCalledWith({ page: 1, limit: 100 });
+				expect(mockClient.task.list).toHaveBeenCalledWith({ page: 2, limit: 100 });
+				expect(result.issues.map((issue) => issue.id)).toEqual(["task-4"]);
+				expect(result.meta).toEqual({
+					totalCount: 3,
+					totalPages: 2,
+					currentPage: 2,
+					pageSize: 2,
+					hasNext: false,
+					hasPrevious: true,
+				});
+				expect(result.scan).toEqual({ scannedCount: 4, complete: true });
+			});
+
+			it("should stop after the scan limit", async () => {
+				mockClient.task.list.mockResolvedValue({
+					issues: [task("task-1")],
+					meta: { hasNext: true },
+				});
+
+				const result = await service.listTasks({ filters: { createdBy: "tembo-user-1" } });
+
+				expect(mockClient.task.list).toHaveBeenCalledTimes(5);
+				expect(result.scan).toEqual({ scannedCount: 5, complete: false });
+			});
+
+			it("should combine filters", async () => {
+				mockClient.task.list.mockResolvedValue({
+					issues: [
+						task("task-1"),
+						task("task-2", { agent: "amp:opus-4-5" }),
+						task("task-3", { createdAt: "2024-12-31T23:59:59Z" }),
+						task("task-4", { metadata: { repositories: ["https://github.com/org/api"] } }),
+					],
+					meta: { hasNext: false },
+				});
+
+				const result = await service.listTasks({
+					filters: {
+						agent: "claudeCode:sonnet-4-5",
+						repository: "web-app",
+						createdAfter: "2025-01-01",
+					},
+				});
+
+				expect(result.issues.map((issue) => issue.id)).toEqual(["task-1"]);
+			});
+
+			it("should scan and sort when only a sort order is given", async () => {
+				mockClient.task.list.mockResolvedValue({
+					issues: [
+						task("task-1", { updatedAt: "2025-01-10T00:00:00Z" }),
+						task("task-2", { updatedAt: "2025-01-12T00:00:00Z" }),
+					],
+					meta: { hasNext: false },
+				});
+
+				const result = await service.listTasks({ sort: "updated" });
+
+				expect(mockClient.task.list).toHaveBeenCalledWith({ page: 1, limit: 100 });
+				expect(result.issues.map((issue) => issue.id)).toEqual(["task-2", "task-1"]);
+			});
+
+			it("should handle API errors", async () => {
+				mockClient.task.list.mockRejectedValue(new Error("API error"));
+
+				await expect(
+					service.listTasks({ filters: { status: "failed" } }),
+				).rejects.toThrow();
+			});
+		});
 	});
 
 	describe("searchTasks", () => {
@@ -360,6 +461,93 @@ describe("TemboService", () => {
 		});
 	});
 
+	describe("getTask", () => {
+		let service: TemboService;
+		let mockClient: any;
+
+		beforeEach(() => {
+			mockClient = {
+				task: {
+					search: vi.fn(),
+					list: vi.fn(),
+				},
+			};
+			service = new TemboService(mockClient);
+			vi.spyOn(Date, "now").mockReturnValue(1000);
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("should return the exact match from search results", async () => {
+			mockClient.task.search.mockResolvedValue({
+				issues: [
+					{
+						id: "task-10",
+						title: "Other",
+						createdAt: "2025-01-01T00:00:00Z",
+						updatedAt: "2025-01-01T00:00:00Z",
+					},
+					{
+						id: "task-1",
+						title: "Wanted",
+						status: "running",
+						levelReasoning: "Small change",
+						createdAt: "2025-01-01T00:00:00Z",
+						updatedAt: "2025-01-01T00:00:00Z",
+					},
+				],
+				meta: {},
+			});
+
+			const result = await service.getTask("task-1");
+
+			expect(result.title).toBe("Wanted");
+			expect(result.levelReasoning).toBe("Small change");
+			expect(mockClient.task.search).toHaveBeenCalledWith({
+				q: "task-1",
+				limit: 25,
+			});
+			expect(mockClient.task.list).not.toHaveBeenCalled();
+		});
+
+		it("should fall back to recent tasks when search has no match", async () => {
+			mockClient.task.search.mockResolvedValue({ issues: [], meta: {} });
+			mockClient.task.list.mockResolvedValue({
+				issues: [
+					{
+						id: "task-2",
+						title: "From list",
+						createdAt: "2025-01-01T00:00:00Z",
+						updatedAt: "2025-01-01T00:00:00Z",
+					},
+				],
+				meta: {},
+			});
+
+			const result = await service.getTask("task-2");
+
+			expect(result.title).toBe("From list");
+			expect(mockClient.task.list).toHaveBeenCalledWith({ page: 1, limit: 100 });
+		});
+
+		it("should throw NotFoundError when the task does not exist", async () => {
+			mockClient.task.search.mockResolvedValue({ issues: [], meta: {} });
+			mockClient.task.list.mockResolvedValue({ issues: [], meta: {} });
+
+			await expect(service.getTask("missing")).rejects.toBeInstanceOf(
+				NotFoundError,
+			);
+		});
+
+		it("should handle API errors", async () => {
+			mockClient.task.search.mockRejectedValue(new Error("API error"));
+
+			await expect(service.getTask("task-1")).rejects.toThrow();
+		});
+	});
+
 	describe("listRepositories", () => {
 		let service: TemboService;
 		let mockClient: any;
@@ -449,6 +637,96 @@ describe("TemboService", () => {
 
 			await expect(service.listRepositories()).rejects.toThrow();
 		});
+
+		describe("with a repository cache", () => {
+			const cachedRepo = {
+				id: "repo-cached",
+				name: "Cached",
+				url: "https://github.com/org/cached",
+			};
+			const liveRepo = {
+				id: "repo-live",
+				name: "Live",
+				url: "https://github.com/org/live",
+			};
+			let cache: any;
+
+			beforeEach(() => {
+				cache = {
+					get: vi.fn().mockResolvedValue(null),
+					set: vi.fn().mockResolvedValue(undefined),
+				};
+				service = new TemboService(mockClient, { repositoryCache: cache });
+			});
+
+			it("should serve fresh cached repositories without calling Tembo", async () => {
+				cache.get.mockResolvedValue({
+					repositories: [cachedRepo],
+					fetchedTimestamp: 900,
+					stale: false,
+				});
+
+				const result = await service.listRepositories();
+
+				expect(result.codeRepositories).toEqual([cachedRepo]);
+				expect(mockClient.repository.list).not.toHaveBeenCalled();
+			});
+
+			it("should bypass the cache when refreshing", async () => {
+				cache.get.mockResolvedValue({
+					repositories: [cachedRepo],
+					fetchedTimestamp: 900,
+					stale: false,
+				});
+				mockClient.repository.list.mockResolvedValue({ codeRepositories: [liveRepo] });
+
+				const result = await service.listRepositories({ refresh: true });
+
+				expect(result.codeRepositories).toEqual([liveRepo]);
+				expect(cache.get).not.toHaveBeenCalled();
+				expect(cache.set).toHaveBeenCalledWith([liveRepo]);
+			});
+
+			it("should cache repositories fetched from Tembo", async () => {
+				mockClient.repository.list.mockResolvedValue({ codeRepositories: [liveRepo] });
+
+				await service.listRepositories();
+
+				expect(cache.set).toHaveBeenCalledWith([liveRepo]);
+			});
+
+			it("should still return repositories when caching fails", async () => {
+				cache.set.mockRejectedValue(new Error("db down"));
+				mockClient.repository.list.mockResolvedValue({ codeRepositories: [liveRepo] });
+
+				const result = await service.listRepositories();
+
+				expect(result.codeRepositories).toEqual([liveRepo]);
+			});
+
+			it("should serve stale repositories when Tembo is too slow", async () => {
+				cache.get.mockResolvedValue({
+					repositories: [cachedRepo],
+					fetchedTimestamp: 0,
+					stale: true,
+				});
+				mockClient.repository.list.mockReturnValue(new Promise(() => {}));
+				const waitUntil = vi.fn();
+
+				const result = await service.listRepositories({ timeoutMs: 1, waitUntil });
+
+				expect(result.codeRepositories).toEqual([cachedRepo]);
+				expect(waitUntil).toHaveBeenCalledTimes(1);
+			});
+
+			it("should throw a timeout error when nothing is cached", async () => {
+				mockClient.repository.list.mockReturnValue(new Promise(() => {}));
+
+				await expect(service.listRepositories({ timeoutMs: 1 })).rejects.toMatchObject({
+					statusCode: 504,
+				});
+			});
+		});
 	});
 
 	describe("getCurrentUser", () => {
@@ -547,6 +825,54 @@ describe("TemboService", () => {
 		});
 	});
 
+	describe("onAuthError", () => {
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("should notify the hook when a request fails authentication", async () => {
+			const onAuthError = vi.fn();
+			const mockClient = {
+				repository: { list: vi.fn().mockRejectedValue(new Error("401 Unauthorized")) },
+			};
+			const service = new TemboService(mockClient as any, { onAuthError });
+
+			await expect(service.listRepositories()).rejects.toThrow(AuthenticationError);
+			expect(onAuthError).toHaveBeenCalledWith(expect.any(AuthenticationError));
+		});
+
+		it("should not notify the hook for other errors", async () => {
+			const onAuthError = vi.fn();
+			const mockClient = {
+				repository: { list: vi.fn().mockRejectedValue(new Error("404 Not Found")) },
+			};
+			const service = new TemboService(mockClient as any, { onAuthError });
+
+			await expect(service.listRepositories()).rejects.toThrow(NotFoundError);
+			expect(onAuthError).not.toHaveBeenCalled();
+		});
+
+		it("should keep the original error when the hook fails", async () => {
+			const onAuthError = vi.fn().mockRejectedValue(new Error("hook failed"));
+			const mockClient = {
+				me: { retrieve: vi.fn().mockRejectedValue(new Error("401 Unauthorized")) },
+			};
+			const service = new TemboService(mockClient as any, { onAuthError });
+
+			await expect(service.getCurrentUser()).rejects.toThrow(AuthenticationError);
+		});
+	});
+
+	describe("getTaskUrl", () => {
+		it("should build a Tembo web app link for the task", () => {
+			expect(getTaskUrl("task-123")).toBe("https://app.tembo.io/tasks/task-123");
+		});
+
+		it("should encode unsafe characters in the task ID", () => {
+			expect(getTaskUrl("a/b c")).toBe("https://app.tembo.io/tasks/a%2Fb%20c");
+		});
+	});
+
 	describe("createTemboService", () => {
 		it("should throw error for empty API key", () => {
 			expect(() => createTemboService("")).toThrow(TemboApiError);
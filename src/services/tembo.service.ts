@@ -10,8 +10,16 @@ import type {
 	ListTasksParams,
 	SearchTasksParams,
 } from "../types";
-import { handleTemboApiError, TemboApiError } from "../utils/errors";
+import {
+	handleTemboApiError,
+	isAuthError,
+	NotFoundError,
+	TemboApiError,
+	type AuthenticationError,
+} from "../utils/errors";
 import { logger } from "../utils/logger";
+import { hasTaskFilters, matchesTaskFilters, sortTasks } from "../utils/task-filters";
+import type { CachedRepositories, RepositoryCache } from "./repository-cache.service";
 
 /**
  * Tembo API response types (based on actual API behavior)
@@ -60,8 +68,35 @@ interface TemboApiTaskResponse {
 	[key: string]: unknown; // Allow additional undocumented fields
 }
 
+export interface TemboServiceOptions {
+	/**
+	 * Called when any request fails with an authentication error, so cached
+	 * key validation can be invalidated
+	 */
+	onAuthError?: (error: AuthenticationError) => void | Promise<void>;
+	/** Organization-scoped cache for listRepositories */
+	repositoryCache?: RepositoryCache;
+}
+
+export interface ListRepositoriesOptions {
+	/** Skip the cache and reload from Tembo */
+	refresh?: boolean;
+	/** Stop waiting for Tembo after this many milliseconds */
+	timeoutMs?: number;
+	/** Keeps a request we stopped waiting for alive (ExecutionContext.waitUntil) */
+	waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+// Client-side filtering and sorting scan at most 5 pages of 100, the API's
+// maximum page size
+const SCAN_PAGE_SIZE = 100;
+const SCAN_MAX_PAGES = 5;
+
 export class TemboService {
-	constructor(private readonly client: Tembo) {
+	constructor(
+		private readonly client: Tembo,
+		private readonly options: TemboServiceOptions = {},
+	) {
 		if (!client) {
 			throw new Error("Tembo client is required");
 		}
@@ -104,11 +139,15 @@ export class TemboService {
 				duration,
 				prompt: params.prompt.substring(0, 100),
 			});
-			throw handleTemboApiError(error, endpoint);
+			throw await this.toApiError(error, endpoint);
 		}
 	}
 
 	async listTasks(params: ListTasksParams = {}): Promise<TemboTaskList> {
+		if (hasTaskFilters(params.filters) || params.sort) {
+			return this.listScannedTasks(params);
+		}
+
 		const startTime = Date.now();
 		const endpoint = "/task/list";
 
@@ -145,7 +184,84 @@ export class TemboService {
 				endpoint,
 				duration,
 			});
-			throw handleTemboApiError(error, endpoint);
+			throw await this.toApiError(error, endpoint);
+		}
+	}
+
+	/**
+	 * Filters and sorts tasks client-side, since the list endpoint only pages.
+	 * Scans up to SCAN_MAX_PAGES full pages, then pages through the matches.
+	 */
+	private async listScannedTasks(params: ListTasksParams): Promise<TemboTaskList> {
+		const startTime = Date.now();
+		const endpoint = "/task/list";
+		const page = params.page ?? 1;
+		const limit = params.limit ?? 10;
+		const filters = params.filters ?? {};
+
+		try {
+			logger.info("Listing Tembo tasks client-side", {
+				page,
+				limit,
+				filters,
+				sort: params.sort,
+			});
+
+			const matches: TemboTask[] = [];
+			let scannedCount = 0;
+			let complete = false;
+
+			for (let scanPage = 1; scanPage <= SCAN_MAX_PAGES; scanPage++) {
+				const result = await this.client.task.list({
+					page: scanPage,
+					limit: SCAN_PAGE_SIZE,
+				});
+				const issues = Array.isArray(result.issues)
+					? result.issues.map((t) => this.mapToTemboTask(t as unknown as TemboApiTaskResponse))
+					: [];
+
+				scannedCount += issues.length;
+				matches.push(...issues.filter((task) => matchesTaskFilters(task, filters)));
+
+				if (!result.meta?.hasNext || issues.length === 0) {
+					complete = true;
+					break;
+				}
+			}
+
+			const duration = Date.now() - startTime;
+			logger.apiCall(endpoint, "GET", 200, duration);
+
+			const sorted = params.sort ? sortTasks(matches, params.sort) : matches;
+			const totalPages = Math.max(1, Math.ceil(sorted.length / limit));
+			const taskList: TemboTaskList = {
+				issues: sorted.slice((page - 1) * limit, page * limit),
+				meta: {
+					totalCount: matches.length,
+					totalPages,
+					currentPage: page,
+					pageSize: limit,
+					hasNext: page < totalPages,
+					hasPrevious: page > 1,
+				},
+				scan: { scannedCount, complete },
+			};
+
+			logger.info("Tasks listed client-side successfully", {
+				count: taskList.issues.length,
+				matchCount: matches.length,
+				scannedCount,
+				duration,
+			});
+
+			return taskList;
+		} catch (error) {
+			const duration = Date.now() - startTime;
+			logger.error("Failed to list tasks client-side", error, {
+				endpoint,
+				duration,
+			});
+			throw await this.toApiError(error, endpoint);
 		}
 	}
 
@@ -220,11 +336,107 @@ export class TemboService {
 				duration,
 				query: params.query,
 			});
-			throw handleTemboApiError(error, endpoint);
+			throw await this.toApiError(error, endpoint);
 		}
 	}
 
-	async listRepositories(): Promise<TemboRepositoryList> {
+	/**
+	 * Retrieves a single task by ID.
+	 * The API has no dedicated lookup endpoint, so this searches for the ID first
+	 * and falls back to scanning the most recent tasks.
+	 */
+	async getTask(taskId: string): Promise<TemboTask> {
+		const startTime = Date.now();
+		const endpoint = "/task/search";
+
+		try {
+			logger.info("Fetching Tembo task", { taskId });
+
+			const searchResult = await this.client.task.search({
+				q: taskId,
+				limit: 25,
+			});
+			const searchIssues = Array.isArray(searchResult.issues)
+				? searchResult.issues
+				: [];
+			let match = searchIssues.find((t) => t.id === taskId);
+
+			if (!match) {
+				const listResult = await this.client.task.list({ page: 1, limit: 100 });
+				const listIssues = Array.isArray(listResult.issues)
+					? listResult.issues
+					: [];
+				match = listIssues.find((t) => t.id === taskId);
+			}
+
+			const duration = Date.now() - startTime;
+			logger.apiCall(endpoint, "GET", 200, duration);
+
+			if (!match) {
+				throw new NotFoundError(`Task \`${taskId}\``, endpoint);
+			}
+
+			return this.mapToTemboTask(match as unknown as TemboApiTaskResponse);
+		} catch (error) {
+			const duration = Date.now() - startTime;
+			logger.error("Failed to fetch task", error, {
+				endpoint,
+				duration,
+				taskId,
+			});
+			throw await this.toApiError(error, endpoint);
+		}
+	}
+
+	/**
+	 * Lists the organization's repositories, served from the repository cache
+	 * while it's fresh. With a timeout, a stale cached list is returned when
+	 * Tembo doesn't answer in time.
+	 */
+	async listRepositories(options: ListRepositoriesOptions = {}): Promise<TemboRepositoryList> {
+		const cache = this.options.repositoryCache;
+		const cached = cache && !options.refresh ? await this.readRepositoryCache(cache) : null;
+
+		if (cached && !cached.stale) {
+			return { codeRepositories: cached.repositories };
+		}
+
+		const request = this.fetchRepositories();
+
+		if (!options.timeoutMs) {
+			return request;
+		}
+
+		// Let the request finish and refresh the cache after we've responded.
+		// Errors after we stop waiting must not go unhandled.
+		options.waitUntil?.(request.catch(() => undefined));
+
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timeout = new Promise<null>((resolve) => {
+			timer = setTimeout(() => resolve(null), options.timeoutMs);
+		});
+		const result = await Promise.race([request, timeout]).finally(() => clearTimeout(timer));
+
+		if (result) {
+			return result;
+		}
+
+		if (cached) {
+			logger.warn("Tembo is slow, serving stale cached repositories", {
+				timeoutMs: options.timeoutMs,
+				fetchedTimestamp: cached.fetchedTimestamp,
+			});
+			return { codeRepositories: cached.repositories };
+		}
+
+		throw new TemboApiError(
+			"Tembo took too long to list repositories. Please try again.",
+			504,
+			"/repository/list",
+		);
+	}
+
+	private async fetchRepositories(): Promise<TemboRepositoryList> {
 		const startTime = Date.now();
 		const endpoint = "/repository/list";
 
@@ -246,6 +458,14 @@ export class TemboService {
 				duration,
 			});
 
+			if (this.options.repositoryCache) {
+				try {
+					await this.options.repositoryCache.set(repoList.codeRepositories);
+				} catch (error) {
+					logger.warn("Failed to update repository cache", { error });
+				}
+			}
+
 			return repoList;
 		} catch (error) {
 			const duration = Date.now() - startTime;
@@ -253,7 +473,7 @@ export class TemboService {
 				endpoint,
 				duration,
 			});
-			throw handleTemboApiError(error, endpoint);
+			throw await this.toApiError(error, endpoint);
 		}
 	}
 
@@ -287,10 +507,37 @@ export class TemboService {
 				endpoint,
 				duration,
 			});
-			throw handleTemboApiError(error, endpoint);
+			throw await this.toApiError(error, endpoint);
 		}
 	}
 
+	private async readRepositoryCache(cache: RepositoryCache): Promise<CachedRepositories | null> {
+		try {
+			return await cache.get();
+		} catch (error) {
+			logger.warn("Failed to read repository cache", { error });
+			return null;
+		}
+	}
+
+	/**
+	 * Converts an SDK error and notifies the auth error hook, which must never
+	 * mask the original failure
+	 */
+	private async toApiError(error: unknown, endpoint: string): Promise<TemboApiError> {
+		const apiError = handleTemboApiError(error, endpoint);
+
+		if (isAuthError(apiError) && this.options.onAuthError) {
+			try {
+				await this.options.onAuthError(apiError);
+			} catch (hookError) {
+				logger.warn("Auth error hook failed", { endpoint, error: hookError });
+			}
+		}
+
+		return apiError;
+	}
+
 	private mapToTemboTask(apiResponse: TemboApiTaskResponse): TemboTask {
 		return {
 			id: apiResponse.id ?? "",
@@ -323,11 +570,23 @@ export class TemboService {
 	}
 }
 
-export function createTemboService(apiKey: string): TemboService {
+const TEMBO_APP_URL = "https://app.tembo.io";
+
+/**
+ * Builds a link to a task in the Tembo web app
+ */
+export function getTaskUrl(taskId: string): string {
+	return `${TEMBO_APP_URL}/tasks/${encodeURIComponent(taskId)}`;
+}
+
+export function createTemboService(
+	apiKey: string,
+	options: TemboServiceOptions = {},
+): TemboService {
 	if (!apiKey || apiKey.trim().length === 0) {
 		throw new TemboApiError("Tembo API key is required", 401, "client_init");
 	}
 
 	const client = new Tembo({ apiKey: apiKey.trim() });
-	return new TemboService(client);
+	return new TemboService(client, options);
 }
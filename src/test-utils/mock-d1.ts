@@ -0,0 +1,40 @@
+/**
+ * D1 stand-in for service tests. Every prepared statement is the same mock,
+ * so a test sets what `first`, `run` or `all` resolve to and checks what the
+ * service returns.
+ */
+
+import { type Mock, vi } from "vitest";
+
+export interface MockD1Statement {
+	bind: Mock<(...values: unknown[]) => MockD1Statement>;
+	first: Mock<() => Promise<unknown>>;
+	run: Mock<() => Promise<{ success?: boolean; meta?: { changes?: number } }>>;
+	all: Mock<() => Promise<{ results?: unknown[] }>>;
+}
+
+export interface MockD1Database {
+	prepare: Mock<(query: string) => MockD1Statement>;
+	// The same database, typed as the binding services take
+	db: D1Database;
+}
+
+export function createMockD1Database(): {
+	mockDb: MockD1Database;
+	mockStmt: MockD1Statement;
+} {
+	const mockStmt: MockD1Statement = {
+		bind: vi.fn(() => mockStmt),
+		first: vi.fn(),
+		run: vi.fn(),
+		all: vi.fn(),
+	};
+
+	const prepare: MockD1Database["prepare"] = vi.fn(() => mockStmt);
+	const mockDb: MockD1Database = {
+		prepare,
+		db: { prepare } as unknown as D1Database,
+	};
+
+	return { mockDb, mockStmt };
+}
@@ -37,6 +37,13 @@ export interface TemboTaskList {
 		hasNext: boolean;
 		hasPrevious: boolean;
 	};
+	// Set when filters or sorting were applied client-side
+	scan?: {
+		// How many tasks were fetched to filter and sort
+		scannedCount: number;
+		// False when the scan stopped before the last page
+		complete: boolean;
+	};
 }
 
 export interface TemboTaskSearchResult extends TemboTaskList {
@@ -81,9 +88,48 @@ export interface CreateTaskParams {
 	queueRightAway?: boolean;
 }
 
+// When a /schedule runs. A cron expression (UTC) repeats; without one the
+// schedule runs once at nextRunTimestamp.
+export interface ScheduleTiming {
+	cronExpression: string | null;
+	nextRunTimestamp: number;
+}
+
+// Defaults configured with /config, applied when /task create omits a field
+export interface TaskDefaults {
+	repositories?: string[];
+	agent?: string;
+	branch?: string;
+}
+
+// Agents tasks can use, from the agent catalog. An empty list allows no agent.
+export interface AgentCatalog {
+	agents: string[];
+	defaultAgent?: string;
+}
+
+// Filters for /task list. Tembo's list endpoint only pages, so these are
+// applied client-side by TemboService.listTasks.
+export interface TaskListFilters {
+	// Status category: finished, failed, running, queued or cancelled
+	status?: string;
+	agent?: string;
+	repository?: string;
+	// Tembo user ID of the task's creator
+	createdBy?: string;
+	// Earliest creation date, as YYYY-MM-DD (UTC)
+	createdAfter?: string;
+}
+
+// created and updated list the newest first; status groups active tasks first
+export type TaskSortOrder = "created" | "updated" | "status";
+
 export interface ListTasksParams {
 	page?: number;
 	limit?: number;
+	filters?: TaskListFilters;
+	// Sorted client-side like filters; omitted keeps the API's order
+	sort?: TaskSortOrder;
 }
 
 export interface SearchTasksParams {
@@ -98,5 +144,7 @@ export interface Env {
 	DISCORD_BOT_TOKEN: string;
 	TEMBO_API_KEY: string;
 	ENCRYPTION_MASTER_KEY: string;
+	// Seconds a successful API key validation is trusted (default 600)
+	KEY_VALIDATION_TTL_SECONDS?: string;
 	tembo_bot_db: D1Database;
 }
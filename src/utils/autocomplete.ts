@@ -0,0 +1,84 @@
+import type { APIApplicationCommandOptionChoice } from "discord-api-types/v10";
+import type { CatalogAgent } from "../services/agent-catalog.service";
+import type { TemboRepository } from "../types";
+import { type MatchField, rankMatches } from "./fuzzy-match";
+
+const REPOSITORY_FIELDS = (repo: TemboRepository): MatchField[] => [
+	{ text: repo.name, weight: 3 },
+	{ text: repo.url, weight: 2 },
+	{ text: repo.description, weight: 1 },
+];
+
+/**
+ * Ranks repositories by how well their name, URL and description match,
+ * boosting the ones the user picked recently
+ */
+export function getRepositoryChoices(
+	repositories: TemboRepository[],
+	currentValue: string,
+	recentValues: string[] = [],
+): APIApplicationCommandOptionChoice<string>[] {
+	return rankMatches(
+		repositories,
+		currentValue,
+		(repo) => repo.url,
+		REPOSITORY_FIELDS,
+		{
+			recentValues,
+			limit: 25,
+		},
+	).map((repo) => ({
+		name: repo.url.substring(0, 100),
+		value: repo.url,
+	}));
+}
+
+/**
+ * Ranks a channel's bound repositories for autocomplete
+ */
+export function getBoundRepositoryChoices(
+	repositories: string[],
+	currentValue: string,
+	recentValues: string[] = [],
+): APIApplicationCommandOptionChoice<string>[] {
+	return rankMatches(
+		repositories,
+		currentValue,
+		(url) => url,
+		(url) => [{ text: url, weight: 1 }],
+		{
+			recentValues,
+			limit: 25,
+		},
+	).map((url) => ({
+		name: url.substring(0, 100),
+		value: url,
+	}));
+}
+
+/**
+ * Ranks catalog agents by display name or value for autocomplete,
+ * labelling the guild's default agent
+ */
+export function getAgentChoices(
+	agents: Pick<CatalogAgent, "name" | "value" | "isDefault">[],
+	currentValue: string,
+	recentValues: string[] = [],
+): APIApplicationCommandOptionChoice<string>[] {
+	return rankMatches(
+		agents,
+		currentValue,
+		(agent) => agent.value,
+		(agent) => [
+			{ text: agent.name, weight: 2 },
+			{ text: agent.value, weight: 1 },
+		],
+		{ recentValues, limit: 25 },
+	).map((agent) => ({
+		name: (agent.isDefault ? `${agent.name} (default)` : agent.name).substring(
+			0,
+			100,
+		),
+		value: agent.value,
+	}));
+}
@@ -0,0 +1,122 @@
+// Tests for /schedule cron expressions
+
+import { describe, expect, it } from "vitest";
+import { getNextCronRun, parseCronExpression } from "./cron";
+
+const next = (expression: string, after: string): string | null => {
+	const schedule = parseCronExpression(expression);
+	if (!schedule) {
+		throw new Error(`Invalid expression: ${expression}`);
+	}
+	const run = getNextCronRun(schedule, Date.parse(after));
+	return run === null ? null : new Date(run).toISOString();
+};
+
+describe("Cron", () => {
+	describe("parseCronExpression", () => {
+		it("should parse values, ranges, steps and lists", () => {
+			const schedule = parseCronExpression("*/15 9-17 1,15 * 1-5");
+
+			expect(schedule?.minutes).toEqual([0, 15, 30, 45]);
+			expect(schedule?.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+			expect(schedule?.daysOfMonth).toEqual([1, 15]);
+			expect(schedule?.months).toHaveLength(12);
+			expect(schedule?.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+		});
+
+		it("should accept month and weekday names", () => {
+			const schedule = parseCronExpression("0 3 * jan,JUL mon-fri");
+
+			expect(schedule?.months).toEqual([1, 7]);
+			expect(schedule?.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+		});
+
+		it("should treat 7 as Sunday", () => {
+			expect(parseCronExpression("0 0 * * 7")?.daysOfWeek).toEqual([0]);
+		});
+
+		it("should start a step from a single value", () => {
+			expect(parseCronExpression("5/20 * * * *")?.minutes).toEqual([5, 25, 45]);
+		});
+
+		it("should expand shorthands", () => {
+			expect(parseCronExpression("@daily")).toEqual(
+				parseCronExpression("0 0 * * *"),
+			);
+			expect(parseCronExpression("@WEEKLY")).toEqual(
+				parseCronExpression("0 0 * * 0"),
+			);
+		});
+
+		it("should reject malformed expressions", () => {
+			expect(parseCronExpression("")).toBeNull();
+			expect(parseCronExpression("0 3 * *")).toBeNull();
+			expect(parseCronExpression("0 3 * * * *")).toBeNull();
+			expect(parseCronExpression("60 * * * *")).toBeNull();
+			expect(parseCronExpression("0 24 * * *")).toBeNull();
+			expect(parseCronExpression("0 0 0 * *")).toBeNull();
+			expect(parseCronExpression("*/0 * * * *")).toBeNull();
+			expect(parseCronExpression("5-1 * * * *")).toBeNull();
+			expect(parseCronExpression("0 0 * * funday")).toBeNull();
+			expect(parseCronExpression("@fortnightly")).toBeNull();
+		});
+	});
+
+	describe("getNextCronRun", () => {
+		it("should find the next daily run", () => {
+			expect(next("0 3 * * *", "2025-01-10T02:59:00Z")).toBe(
+				"2025-01-10T03:00:00.000Z",
+			);
+			expect(next("0 3 * * *", "2025-01-10T03:00:00Z")).toBe(
+				"2025-01-11T03:00:00.000Z",
+			);
+		});
+
+		it("should find the next weekly run", () => {
+			// 2025-01-10 is a Friday
+			expect(next("30 9 * * mon", "2025-01-10T12:00:00Z")).toBe(
+				"2025-01-13T09:30:00.000Z",
+			);
+		});
+
+		it("should roll over months and years", () => {
+			expect(next("0 0 1 * *", "2025-01-31T12:00:00Z")).toBe(
+				"2025-02-01T00:00:00.000Z",
+			);
+			expect(next("@yearly", "2025-06-01T00:00:00Z")).toBe(
+				"2026-01-01T00:00:00.000Z",
+			);
+		});
+
+		it("should match either day field when both are restricted", () => {
+			// The 15th is a Wednesday, Monday the 13th comes first
+			expect(next("0 0 15 * 1", "2025-01-10T00:00:00Z")).toBe(
+				"2025-01-13T00:00:00.000Z",
+			);
+		});
+
+		it("should treat a day field starting with * as unrestricted, like Vixie cron", () => {
+			// Odd days that are also Mondays; standard OR matching would pick the 11th
+			expect(next("0 0 */2 * 1", "2025-01-10T00:00:00Z")).toBe(
+				"2025-01-13T00:00:00.000Z",
+			);
+			// The 1st on an even weekday; Saturday 2025-02-01 rather than Saturday the 11th
+			expect(next("0 0 1 * */2", "2025-01-10T00:00:00Z")).toBe(
+				"2025-02-01T00:00:00.000Z",
+			);
+		});
+
+		it("should skip days that don't exist in a month", () => {
+			expect(next("0 0 31 * *", "2025-02-01T00:00:00Z")).toBe(
+				"2025-03-31T00:00:00.000Z",
+			);
+			expect(next("0 0 29 2 *", "2025-01-01T00:00:00Z")).toBe(
+				"2028-02-29T00:00:00.000Z",
+			);
+		});
+
+		it("should return null for expressions that never run", () => {
+			expect(next("0 0 30 2 *", "2025-01-01T00:00:00Z")).toBeNull();
+		});
+	});
+});
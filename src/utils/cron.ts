@@ -0,0 +1,202 @@
+/**
+ * Five-field cron expressions for /schedule, evaluated in UTC:
+ *
+ *   minute hour day-of-month month day-of-week
+ *
+ * Fields accept `*`, values, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and
+ * lists (`1,15`). Months and weekdays also accept names (`JAN`, `MON`), and
+ * Sunday is either 0 or 7. As in standard cron, when both day fields are
+ * restricted a day matching either one runs. Like Vixie cron, a day field
+ * starting with `*` (e.g. `*\/2`) doesn't count as restricted, so
+ * `0 0 *\/2 * 1` runs on odd days that are also Mondays.
+ */
+
+export interface CronSchedule {
+	minutes: number[];
+	hours: number[];
+	daysOfMonth: number[];
+	months: number[];
+	daysOfWeek: number[];
+	// Whether the day fields start with `*`, which changes how they combine
+	anyDayOfMonth: boolean;
+	anyDayOfWeek: boolean;
+}
+
+interface CronField {
+	min: number;
+	max: number;
+	names?: string[];
+}
+
+const FIELDS: CronField[] = [
+	{ min: 0, max: 59 },
+	{ min: 0, max: 23 },
+	{ min: 1, max: 31 },
+	{
+		min: 1,
+		max: 12,
+		names: [
+			"JAN",
+			"FEB",
+			"MAR",
+			"APR",
+			"MAY",
+			"JUN",
+			"JUL",
+			"AUG",
+			"SEP",
+			"OCT",
+			"NOV",
+			"DEC",
+		],
+	},
+	{ min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+
+const SHORTHANDS: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Expressions that never match, like `0 0 30 2 *`, give up after this long
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+function parseValue(value: string, field: CronField): number | null {
+	const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+	if (nameIndex >= 0) {
+		return field.min + nameIndex;
+	}
+	if (!/^\d+$/.test(value)) {
+		return null;
+	}
+	const number = Number(value);
+	return number >= field.min && number <= field.max ? number : null;
+}
+
+/**
+ * @returns The field's sorted values, or null if any part of it is malformed
+ */
+function parseField(value: string, field: CronField): number[] | null {
+	const values = new Set<number>();
+
+	for (const part of value.split(",")) {
+		const [range, step, extra] = part.split("/");
+		const stepSize = step === undefined ? 1 : Number(step);
+		if (
+			extra !== undefined ||
+			!range ||
+			!Number.isInteger(stepSize) ||
+			stepSize < 1
+		) {
+			return null;
+		}
+
+		let start: number | null;
+		let end: number | null;
+		if (range === "*") {
+			start = field.min;
+			end = field.max;
+		} else {
+			const [from, to, rest] = range.split("-");
+			if (rest !== undefined || from === undefined) {
+				return null;
+			}
+			start = parseValue(from, field);
+			// `5/15` runs from 5 to the end of the field
+			end =
+				to !== undefined
+					? parseValue(to, field)
+					: step !== undefined
+						? field.max
+						: start;
+		}
+
+		if (start === null || end === null || start > end) {
+			return null;
+		}
+		for (let i = start; i <= end; i += stepSize) {
+			values.add(i);
+		}
+	}
+
+	return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parses a cron expression or one of the `@daily`-style shorthands
+ * @returns The schedule, or null if the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule | null {
+	const normalized =
+		SHORTHANDS[expression.trim().toLowerCase()] ?? expression.trim();
+	const parts = normalized.split(/\s+/);
+	if (parts.length !== FIELDS.length) {
+		return null;
+	}
+
+	const fields = parts.map((part, index) => parseField(part, FIELDS[index]!));
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields;
+	if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+		return null;
+	}
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		// 7 is Sunday too
+		daysOfWeek: [...new Set(daysOfWeek.map((day) => day % 7))].sort(
+			(a, b) => a - b,
+		),
+		anyDayOfMonth: parts[2]!.startsWith("*"),
+		anyDayOfWeek: parts[4]!.startsWith("*"),
+	};
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+	const dayOfMonth = schedule.daysOfMonth.includes(date.getUTCDate());
+	const dayOfWeek = schedule.daysOfWeek.includes(date.getUTCDay());
+
+	if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+		return dayOfMonth || dayOfWeek;
+	}
+	return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Finds the first time the schedule runs strictly after `after`
+ * @param after Timestamp in milliseconds
+ * @returns Timestamp of the next run, or null if it doesn't run in the next five years
+ */
+export function getNextCronRun(
+	schedule: CronSchedule,
+	after: number,
+): number | null {
+	const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+	while (date.getTime() - after <= SEARCH_LIMIT_MS) {
+		if (!schedule.months.includes(date.getUTCMonth() + 1)) {
+			date.setUTCMonth(date.getUTCMonth() + 1, 1);
+			date.setUTCHours(0, 0, 0, 0);
+		} else if (!matchesDay(schedule, date)) {
+			date.setUTCDate(date.getUTCDate() + 1);
+			date.setUTCHours(0, 0, 0, 0);
+		} else if (!schedule.hours.includes(date.getUTCHours())) {
+			date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+		} else if (!schedule.minutes.includes(date.getUTCMinutes())) {
+			date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+		} else {
+			return date.getTime();
+		}
+	}
+
+	return null;
+}
@@ -1,15 +1,24 @@
 import type {
 	APIInteractionResponse,
 	APIEmbed,
+	APIGuild,
+	APIGuildMember,
+	APIMessage,
 	RESTPatchAPIWebhookWithTokenMessageJSONBody,
+	RESTPostAPIChannelMessageJSONBody,
+	RESTPostAPIChannelMessagesThreadsJSONBody,
 } from "discord-api-types/v10";
 import { logger } from "./logger";
 
+/**
+ * Edits the original response of an interaction
+ * @returns The edited message, or null if the update failed
+ */
 export async function updateInteractionResponse(
 	applicationId: string,
 	interactionToken: string,
 	body: RESTPatchAPIWebhookWithTokenMessageJSONBody,
-): Promise<void> {
+): Promise<APIMessage | null> {
 	const url = `https://discord.com/api/v10/webhooks/${applicationId}/${interactionToken}/messages/@original`;
 
 	try {
@@ -27,9 +36,109 @@ export async function updateInteractionResponse(
 				status: response.status,
 				url,
 			});
+			return null;
 		}
+
+		return (await response.json()) as APIMessage;
 	} catch (error) {
 		logger.error("Error updating interaction response", error);
+		return null;
+	}
+}
+
+/**
+ * Posts a message to a channel the bot can access
+ * @param channelId Discord channel ID
+ * @param botToken Discord bot token
+ * @param body Message payload
+ * @returns Success status with the new message's ID, or an error message if failed
+ */
+export async function sendChannelMessage(
+	channelId: string,
+	botToken: string,
+	body: RESTPostAPIChannelMessageJSONBody,
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+	try {
+		const response = await fetch(
+			`https://discord.com/api/v10/channels/${channelId}/messages`,
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bot ${botToken}`,
+				},
+				body: JSON.stringify(body),
+			},
+		);
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			logger.error("Failed to send channel message", new Error(errorText), {
+				status: response.status,
+				channelId,
+			});
+			return {
+				success: false,
+				error: `Failed to send message (${response.status})`,
+			};
+		}
+
+		const message = (await response.json()) as APIMessage;
+		return { success: true, messageId: message.id };
+	} catch (error) {
+		logger.error("Exception while sending channel message", error, { channelId });
+		return { success: false, error: "Unexpected error occurred" };
+	}
+}
+
+/**
+ * Starts a public thread from an existing channel message
+ * @param channelId Channel holding the message
+ * @param messageId Message the thread hangs off
+ * @param botToken Discord bot token
+ * @param name Thread name (truncated to Discord's 100 character limit)
+ * @returns Success status with the thread's channel ID, or an error message if failed
+ */
+export async function startThreadFromMessage(
+	channelId: string,
+	messageId: string,
+	botToken: string,
+	name: string,
+): Promise<{ success: boolean; threadId?: string; error?: string }> {
+	try {
+		const response = await fetch(
+			`https://discord.com/api/v10/channels/${channelId}/messages/${messageId}/threads`,
+			{
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bot ${botToken}`,
+				},
+				body: JSON.stringify({
+					name: name.substring(0, 100),
+					auto_archive_duration: 1440, // Archive after a day without messages
+				} satisfies RESTPostAPIChannelMessagesThreadsJSONBody),
+			},
+		);
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			logger.error("Failed to start thread", new Error(errorText), {
+				status: response.status,
+				channelId,
+				messageId,
+			});
+			return {
+				success: false,
+				error: `Failed to start thread (${response.status})`,
+			};
+		}
+
+		const thread = (await response.json()) as { id: string };
+		return { success: true, threadId: thread.id };
+	} catch (error) {
+		logger.error("Exception while starting thread", error, { channelId, messageId });
+		return { success: false, error: "Unexpected error occurred" };
 	}
 }
 
@@ -188,10 +297,80 @@ export async function triggerOnboarding(
 	}
 }
 
+/**
+ * Fetches a guild member, for checks made outside an interaction
+ * @param guildId Discord guild ID
+ * @param userId Discord user ID
+ * @param botToken Discord bot token
+ * @returns Success status with the member, or an error message if failed
+ */
+export async function getGuildMember(
+	guildId: string,
+	userId: string,
+	botToken: string,
+): Promise<{ success: boolean; member?: APIGuildMember; error?: string }> {
+	try {
+		const response = await fetch(
+			`https://discord.com/api/v10/guilds/${guildId}/members/${userId}`,
+			{
+				headers: {
+					Authorization: `Bot ${botToken}`,
+				},
+			},
+		);
 
+		if (!response.ok) {
+			const errorText = await response.text();
+			logger.error("Failed to get guild member", new Error(errorText), {
+				status: response.status,
+				guildId,
+				userId,
+			});
+			return {
+				success: false,
+				error: `Failed to get guild member (${response.status})`,
+			};
+		}
 
+		return { success: true, member: (await response.json()) as APIGuildMember };
+	} catch (error) {
+		logger.error("Exception while getting guild member", error, { guildId, userId });
+		return { success: false, error: "Unexpected error occurred" };
+	}
+}
 
+/**
+ * Fetches a guild, including its roles and owner
+ * @param guildId Discord guild ID
+ * @param botToken Discord bot token
+ * @returns Success status with the guild, or an error message if failed
+ */
+export async function getGuild(
+	guildId: string,
+	botToken: string,
+): Promise<{ success: boolean; guild?: APIGuild; error?: string }> {
+	try {
+		const response = await fetch(`https://discord.com/api/v10/guilds/${guildId}`, {
+			headers: {
+				Authorization: `Bot ${botToken}`,
+			},
+		});
 
+		if (!response.ok) {
+			const errorText = await response.text();
+			logger.error("Failed to get guild", new Error(errorText), {
+				status: response.status,
+				guildId,
+			});
+			return {
+				success: false,
+				error: `Failed to get guild (${response.status})`,
+			};
+		}
 
-
-
+		return { success: true, guild: (await response.json()) as APIGuild };
+	} catch (error) {
+		logger.error("Exception while getting guild", error, { guildId });
+		return { success: false, error: "Unexpected error occurred" };
+	}
+}
@@ -9,6 +9,7 @@ import {
 	NotFoundError,
 	RateLimitError,
 	ServiceUnavailableError,
+	PermissionDeniedError,
 	formatErrorForUser,
 	handleTemboApiError,
 	isAuthError,
@@ -69,6 +70,16 @@ describe("formatErrorForUser", () => {
 		expect(formatted).toContain("Authentication failed");
 	});
 
+	it("should format permission errors", () => {
+		const error = new PermissionDeniedError(
+			"You need the **Manage Server** permission",
+		);
+		const formatted = formatErrorForUser(error);
+		expect(formatted).toContain("Permission Denied");
+		expect(formatted).toContain("Manage Server");
+		expect(error.statusCode).toBe(403);
+	});
+
 	it("should format generic errors", () => {
 		const error = new Error("Something went wrong");
 		const formatted = formatErrorForUser(error);
@@ -90,6 +90,10 @@ export function formatErrorForUser(error: unknown): string {
 		return `❌ **Validation Error**\n${error.message}${error.field ? `\n\n**Field:** ${error.field}` : ""}`;
 	}
 
+	if (error instanceof PermissionDeniedError) {
+		return `🔒 **Permission Denied**\n\n${error.message}`;
+	}
+
 	if (error instanceof AuthenticationError) {
 		return (
 			"❌ **Authentication Failed**\n\n" +
@@ -241,6 +245,13 @@ export class UserNotAuthenticatedError extends BaseError {
 	}
 }
 
+export class PermissionDeniedError extends BaseError {
+	constructor(message: string = "You don't have permission to do that.") {
+		super(message, 403);
+		this.name = "PermissionDeniedError";
+	}
+}
+
 export class DatabaseConnectionError extends DatabaseError {
 	constructor(message: string = "Unable to connect to database.", originalError?: unknown) {
 		super(message, originalError);
@@ -0,0 +1,217 @@
+// Tests for fuzzy autocomplete matching
+
+import { describe, expect, it } from "vitest";
+import { getBuiltInCatalog } from "../services/agent-catalog.service";
+import { getAgentChoices, getRepositoryChoices } from "./autocomplete";
+import {
+	rankMatches,
+	scoreMatch,
+	suggestMatches,
+	tokenize,
+} from "./fuzzy-match";
+
+const repositories = [
+	{
+		id: "1",
+		name: "api",
+		url: "https://github.com/org/api",
+		description: "Public REST API",
+	},
+	{
+		id: "2",
+		name: "web-app",
+		url: "https://github.com/org/web-app",
+		description: "Customer dashboard",
+	},
+	{
+		id: "3",
+		name: "frontend",
+		url: "https://github.com/org/frontend",
+		description: "Marketing web site",
+	},
+];
+
+describe("Fuzzy Matching", () => {
+	describe("tokenize", () => {
+		it("should split on punctuation and lowercase", () => {
+			expect(tokenize("https://github.com/Org/Web-App")).toEqual([
+				"https",
+				"github",
+				"com",
+				"org",
+				"web",
+				"app",
+			]);
+		});
+	});
+
+	describe("scoreMatch", () => {
+		it("should match tokens in any order", () => {
+			const fields = [{ text: "Claude Code - Sonnet 4.5", weight: 1 }];
+
+			expect(scoreMatch("sonnet claude", fields)).not.toBeNull();
+		});
+
+		it("should require every query token to match", () => {
+			const fields = [{ text: "Claude Code - Sonnet 4.5", weight: 1 }];
+
+			expect(scoreMatch("sonnet cursor", fields)).toBeNull();
+		});
+
+		it("should rank exact tokens above prefixes, substrings and subsequences", () => {
+			const fields = (text: string) => [{ text, weight: 1 }];
+
+			const exact = scoreMatch("front", fields("front"))!;
+			const prefix = scoreMatch("front", fields("frontend"))!;
+			const substring = scoreMatch("front", fields("storefront"))!;
+			const subsequence = scoreMatch("frnt", fields("frontend"))!;
+
+			expect(exact).toBeGreaterThan(prefix);
+			expect(prefix).toBeGreaterThan(substring);
+			expect(substring).toBeGreaterThan(subsequence);
+		});
+
+		it("should match camelCase parts of field tokens", () => {
+			expect(
+				scoreMatch("code", [{ text: "claudeCode:sonnet-4-5", weight: 1 }]),
+			).not.toBeNull();
+		});
+
+		it("should match everything for an empty query", () => {
+			expect(scoreMatch("  ", [{ text: "anything", weight: 1 }])).toBe(0);
+		});
+	});
+
+	describe("rankMatches", () => {
+		const rank = (query: string, recentValues?: string[]) =>
+			rankMatches(
+				repositories,
+				query,
+				(repo) => repo.url,
+				(repo) => [
+					{ text: repo.name, weight: 3 },
+					{ text: repo.url, weight: 2 },
+					{ text: repo.description, weight: 1 },
+				],
+				{ recentValues },
+			).map((repo) => repo.name);
+
+		it("should find repositories from separate words", () => {
+			expect(rank("web app")[0]).toBe("web-app");
+		});
+
+		it("should prefer name matches over description matches", () => {
+			expect(rank("web")).toEqual(["web-app", "frontend"]);
+		});
+
+		it("should match descriptions", () => {
+			expect(rank("dashboard")).toEqual(["web-app"]);
+		});
+
+		it("should list recently used values first for an empty query", () => {
+			expect(rank("", ["https://github.com/org/frontend"])).toEqual([
+				"frontend",
+				"api",
+				"web-app",
+			]);
+		});
+
+		it("should boost recent values among equally relevant matches", () => {
+			expect(rank("org", ["https://github.com/org/frontend"])[0]).toBe(
+				"frontend",
+			);
+		});
+
+		it("should not let recency outrank a much better match", () => {
+			expect(rank("web app", ["https://github.com/org/frontend"])[0]).toBe(
+				"web-app",
+			);
+		});
+
+		it("should respect the limit", () => {
+			expect(
+				rankMatches(
+					repositories,
+					"",
+					(repo) => repo.url,
+					() => [],
+					{ limit: 2 },
+				),
+			).toHaveLength(2);
+		});
+	});
+
+	describe("suggestMatches", () => {
+		const urls = repositories.map((repo) => repo.url);
+
+		it("should suggest values a few edits away, closest first", () => {
+			expect(suggestMatches("https://github.com/org/fronted", urls)[0]).toBe(
+				"https://github.com/org/frontend",
+			);
+		});
+
+		it("should suggest values matching the typed tokens", () => {
+			expect(
+				suggestMatches("sonnet-4-5", ["claudeCode:sonnet-4-5", "amp:opus-4-5"]),
+			).toEqual(["claudeCode:sonnet-4-5"]);
+		});
+
+		it("should not suggest unrelated values", () => {
+			expect(
+				suggestMatches("zzzz", ["claudeCode:sonnet-4-5", "amp:opus-4-5"]),
+			).toEqual([]);
+		});
+
+		it("should respect the limit", () => {
+			expect(suggestMatches("https://github.com/org/x", urls, 1)).toHaveLength(
+				1,
+			);
+		});
+	});
+
+	describe("autocomplete choices", () => {
+		it("should rank repositories by relevance", () => {
+			const choices = getRepositoryChoices(repositories, "app web");
+
+			expect(choices[0]).toEqual({
+				name: "https://github.com/org/web-app",
+				value: "https://github.com/org/web-app",
+			});
+		});
+
+		it("should find agents by display name words", () => {
+			const choices = getAgentChoices(getBuiltInCatalog(), "sonnet claude");
+
+			expect(choices.map((choice) => choice.value)).toContain(
+				"claudeCode:sonnet-4-5",
+			);
+			expect(
+				choices.every((choice) => choice.name.startsWith("Claude Code")),
+			).toBe(true);
+		});
+
+		it("should label the default agent", () => {
+			const agents = [
+				{ name: "Amp - Opus 4.5", value: "amp:opus-4-5", isDefault: true },
+				{
+					name: "Cursor - Opus 4.5",
+					value: "cursor:opus-4-5",
+					isDefault: false,
+				},
+			];
+
+			expect(getAgentChoices(agents, "opus")).toEqual([
+				{ name: "Amp - Opus 4.5 (default)", value: "amp:opus-4-5" },
+				{ name: "Cursor - Opus 4.5", value: "cursor:opus-4-5" },
+			]);
+		});
+
+		it("should put recently used agents first", () => {
+			const choices = getAgentChoices(getBuiltInCatalog(), "", [
+				"cursor:haiku-4-5",
+			]);
+
+			expect(choices[0]?.value).toBe("cursor:haiku-4-5");
+		});
+	});
+});
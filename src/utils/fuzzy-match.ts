@@ -0,0 +1,228 @@
+/**
+ * Token-based fuzzy matching for autocomplete and "did you mean" hints.
+ *
+ * Queries and candidate fields are split into lowercase word tokens, so
+ * "web app" matches "org/web-app" and "sonnet claude" matches
+ * "Claude Code - Sonnet 4.5". Every query token must match a field token,
+ * either exactly, as a prefix, as a substring or as an in-order subsequence
+ * ("frntnd" → "frontend"), each scoring less than the last.
+ */
+
+export interface MatchField {
+	text: string | null | undefined;
+	/** Relative importance of the field, e.g. a name over a description */
+	weight: number;
+}
+
+export interface RankOptions {
+	/** Values the user picked recently, most recent first */
+	recentValues?: string[];
+	limit?: number;
+}
+
+const EXACT_SCORE = 4;
+const PREFIX_SCORE = 3;
+const SUBSTRING_SCORE = 2;
+const SUBSEQUENCE_SCORE = 1;
+
+/** Bonus when the whole query appears verbatim in a field */
+const PHRASE_BONUS = 2;
+
+/** Bonus for the most recently used value, shrinking for older ones */
+const RECENT_BONUS = 6;
+
+/** Shorter tokens match too much as subsequences to be useful */
+const MIN_SUBSEQUENCE_LENGTH = 3;
+
+/**
+ * Splits text into lowercase tokens on anything that isn't a letter or digit
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+}
+
+/**
+ * Tokenizes a candidate field, also adding the parts of camelCase words so
+ * "claudeCode" matches both "claudecode" and "code"
+ */
+function tokenizeField(text: string): string[] {
+	const tokens = tokenize(text);
+	const camelParts = tokenize(text.replace(/([a-z0-9])([A-Z])/g, "$1 $2"));
+	return [...new Set([...tokens, ...camelParts])];
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+	let index = 0;
+	for (const char of haystack) {
+		if (char === needle[index]) {
+			index++;
+			if (index === needle.length) {
+				return true;
+			}
+		}
+	}
+	return false;
+}
+
+function scoreToken(queryToken: string, fieldToken: string): number {
+	if (fieldToken === queryToken) {
+		return EXACT_SCORE;
+	}
+	if (fieldToken.startsWith(queryToken)) {
+		return PREFIX_SCORE;
+	}
+	if (fieldToken.includes(queryToken)) {
+		return SUBSTRING_SCORE;
+	}
+	if (
+		queryToken.length >= MIN_SUBSEQUENCE_LENGTH &&
+		isSubsequence(queryToken, fieldToken)
+	) {
+		return SUBSEQUENCE_SCORE;
+	}
+	return 0;
+}
+
+/**
+ * Scores how well a query matches a candidate's fields
+ * @returns Relevance score, or null if any query token matches nothing.
+ *   An empty query matches everything with a score of 0.
+ */
+export function scoreMatch(query: string, fields: MatchField[]): number | null {
+	const queryTokens = tokenize(query);
+	if (queryTokens.length === 0) {
+		return 0;
+	}
+
+	const tokenizedFields = fields
+		.filter((field) => field.text)
+		.map((field) => ({
+			weight: field.weight,
+			tokens: tokenizeField(field.text!),
+			normalized: tokenize(field.text!).join(" "),
+		}));
+
+	let score = 0;
+	for (const queryToken of queryTokens) {
+		let best = 0;
+		for (const field of tokenizedFields) {
+			for (const fieldToken of field.tokens) {
+				best = Math.max(
+					best,
+					scoreToken(queryToken, fieldToken) * field.weight,
+				);
+			}
+		}
+		if (best === 0) {
+			return null;
+		}
+		score += best;
+	}
+
+	const phrase = queryTokens.join(" ");
+	for (const field of tokenizedFields) {
+		if (field.normalized.includes(phrase)) {
+			score += PHRASE_BONUS * field.weight;
+			break;
+		}
+	}
+
+	return score;
+}
+
+/**
+ * Filters and orders items by relevance to the query, boosting values the
+ * user picked recently. Ties keep their original order.
+ * @param getValue Value compared against recentValues
+ * @param getFields Fields to match the query against
+ */
+export function rankMatches<T>(
+	items: T[],
+	query: string,
+	getValue: (item: T) => string,
+	getFields: (item: T) => MatchField[],
+	options: RankOptions = {},
+): T[] {
+	const recentValues = options.recentValues ?? [];
+
+	const ranked = items
+		.map((item, index) => {
+			const score = scoreMatch(query, getFields(item));
+			if (score === null) {
+				return null;
+			}
+
+			const recentIndex = recentValues.indexOf(getValue(item));
+			const recentBonus =
+				recentIndex === -1
+					? 0
+					: (RECENT_BONUS * (recentValues.length - recentIndex)) /
+						recentValues.length;
+
+			return { item, index, score: score + recentBonus };
+		})
+		.filter(
+			(entry): entry is { item: T; index: number; score: number } =>
+				entry !== null,
+		)
+		.sort((a, b) => b.score - a.score || a.index - b.index)
+		.map((entry) => entry.item);
+
+	return options.limit === undefined ? ranked : ranked.slice(0, options.limit);
+}
+
+/** Largest edit distance, relative to length, still worth suggesting */
+const MAX_SUGGESTION_DISTANCE = 0.34;
+
+function levenshtein(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j]! + 1,
+				current[j - 1]! + 1,
+				previous[j - 1]! + cost,
+			);
+		}
+		previous = current;
+	}
+
+	return previous[b.length]!;
+}
+
+/**
+ * Finds the candidates closest to a mistyped value, for "did you mean" hints.
+ * Candidates count as close when they're a few edits away or when the
+ * value's tokens fuzzy-match them (e.g. "sonnet-4-5" → "claudeCode:sonnet-4-5").
+ * @returns Up to `limit` candidates, closest first
+ */
+export function suggestMatches(
+	value: string,
+	candidates: string[],
+	limit: number = 3,
+): string[] {
+	const normalized = value.trim().toLowerCase();
+	if (!normalized) {
+		return [];
+	}
+
+	return candidates
+		.map((candidate) => {
+			const distance = levenshtein(normalized, candidate.toLowerCase());
+			const isClose =
+				distance / Math.max(normalized.length, candidate.length) <=
+					MAX_SUGGESTION_DISTANCE ||
+				scoreMatch(value, [{ text: candidate, weight: 1 }]) !== null;
+			return { candidate, distance, isClose };
+		})
+		.filter((entry) => entry.isClose)
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, limit)
+		.map((entry) => entry.candidate);
+}
@@ -0,0 +1,85 @@
+// Tests for message prompt helpers
+
+import type { APIMessage } from "discord-api-types/v10";
+import { describe, expect, it } from "vitest";
+import { buildPromptFromMessage, getMessageJumpLink } from "./message-prompt";
+
+const createMessage = (overrides: Record<string, unknown> = {}) =>
+	({
+		id: "msg-1",
+		channel_id: "chan-1",
+		content: "The login page throws a 500",
+		author: { id: "user-1", username: "alice", global_name: "Alice" },
+		attachments: [],
+		embeds: [],
+		...overrides,
+	}) as unknown as APIMessage;
+
+describe("Message Prompt Helpers", () => {
+	describe("getMessageJumpLink", () => {
+		it("should build a guild message link", () => {
+			expect(getMessageJumpLink(createMessage(), "guild-1")).toBe(
+				"https://discord.com/channels/guild-1/chan-1/msg-1",
+			);
+		});
+
+		it("should use @me outside of guilds", () => {
+			expect(getMessageJumpLink(createMessage(), undefined)).toBe(
+				"https://discord.com/channels/@me/chan-1/msg-1",
+			);
+		});
+	});
+
+	describe("buildPromptFromMessage", () => {
+		it("should include content, author and jump link", () => {
+			const prompt = buildPromptFromMessage(createMessage(), "guild-1", 4000);
+
+			expect(prompt).toContain("The login page throws a 500");
+			expect(prompt).toContain("Alice (@alice)");
+			expect(prompt).toContain(
+				"https://discord.com/channels/guild-1/chan-1/msg-1",
+			);
+		});
+
+		it("should list attachment URLs", () => {
+			const prompt = buildPromptFromMessage(
+				createMessage({
+					attachments: [{ url: "https://cdn.discordapp.com/trace.txt" }],
+				}),
+				"guild-1",
+				4000,
+			);
+
+			expect(prompt).toContain(
+				"Attachment: https://cdn.discordapp.com/trace.txt",
+			);
+		});
+
+		it("should fall back to embed text when content is empty", () => {
+			const prompt = buildPromptFromMessage(
+				createMessage({
+					content: "",
+					embeds: [{ title: "Build failed", description: "step 3 exited 1" }],
+				}),
+				"guild-1",
+				4000,
+			);
+
+			expect(prompt).toContain("Build failed\nstep 3 exited 1");
+		});
+
+		it("should truncate long content but keep the source footer", () => {
+			const prompt = buildPromptFromMessage(
+				createMessage({ content: "a".repeat(5000) }),
+				"guild-1",
+				500,
+			);
+
+			expect(prompt.length).toBeLessThanOrEqual(500);
+			expect(prompt).toContain("...");
+			expect(prompt).toContain(
+				"Link: https://discord.com/channels/guild-1/chan-1/msg-1",
+			);
+		});
+	});
+});
@@ -0,0 +1,53 @@
+import type { APIMessage } from "discord-api-types/v10";
+
+/**
+ * Builds a link that jumps to a message in the Discord client
+ */
+export function getMessageJumpLink(
+	message: Pick<APIMessage, "id" | "channel_id">,
+	guildId: string | undefined,
+): string {
+	return `https://discord.com/channels/${guildId ?? "@me"}/${message.channel_id}/${message.id}`;
+}
+
+/**
+ * Turns a Discord message into a task prompt, keeping the author and a jump
+ * link so the agent (and reviewers) can trace where the request came from.
+ * The message body is truncated so the whole prompt fits within maxLength.
+ */
+export function buildPromptFromMessage(
+	message: Pick<
+		APIMessage,
+		"id" | "channel_id" | "content" | "author" | "attachments" | "embeds"
+	>,
+	guildId: string | undefined,
+	maxLength: number,
+): string {
+	const attachments = message.attachments ?? [];
+	const footerLines = [
+		"---",
+		`Source: Discord message from ${message.author.global_name ?? message.author.username} (@${message.author.username})`,
+		`Link: ${getMessageJumpLink(message, guildId)}`,
+		...attachments.map((attachment) => `Attachment: ${attachment.url}`),
+	];
+	const footer = footerLines.join("\n");
+
+	// Bot messages often carry their text in embeds instead of content
+	const body =
+		message.content.trim() ||
+		(message.embeds ?? [])
+			.map((embed) =>
+				[embed.title, embed.description].filter(Boolean).join("\n"),
+			)
+			.filter(Boolean)
+			.join("\n\n") ||
+		"(no text content)";
+
+	const available = maxLength - footer.length - 2;
+	const truncatedBody =
+		body.length > available
+			? `${body.substring(0, Math.max(0, available - 3))}...`
+			: body;
+
+	return `${truncatedBody}\n\n${footer}`.substring(0, maxLength);
+}
@@ -0,0 +1,73 @@
+// Tests for pagination button custom IDs
+
+import { describe, expect, it } from "vitest";
+import { buildPageCustomId, parsePageCustomId } from "./pagination";
+
+const stateId = "0123456789abcdef";
+
+describe("Pagination Custom IDs", () => {
+	describe("buildPageCustomId", () => {
+		it("should include the view for list buttons", () => {
+			expect(
+				buildPageCustomId({ kind: "list", stateId, page: 2, view: "compact" }),
+			).toBe("task_list_v1_0123456789abcdef_2_c");
+		});
+
+		it("should leave out the view for search buttons", () => {
+			expect(
+				buildPageCustomId({
+					kind: "search",
+					stateId,
+					page: 3,
+					view: "detailed",
+				}),
+			).toBe("task_search_v1_0123456789abcdef_3");
+		});
+
+		it("should stay within Discord's custom_id limit", () => {
+			expect(
+				buildPageCustomId({
+					kind: "search",
+					stateId,
+					page: 9999,
+					view: "detailed",
+				}).length,
+			).toBeLessThanOrEqual(100);
+		});
+	});
+
+	describe("parsePageCustomId", () => {
+		it("should round-trip list and search buttons", () => {
+			const list = {
+				kind: "list" as const,
+				stateId,
+				page: 4,
+				view: "detailed" as const,
+			};
+			const search = {
+				kind: "search" as const,
+				stateId,
+				page: 1,
+				view: "detailed" as const,
+			};
+
+			expect(parsePageCustomId(buildPageCustomId(list))).toEqual(list);
+			expect(parsePageCustomId(buildPageCustomId(search))).toEqual(search);
+		});
+
+		it("should reject buttons from before versioning", () => {
+			expect(parsePageCustomId("task_list_2")).toBeNull();
+			expect(parsePageCustomId("task_search_2_auth bug")).toBeNull();
+		});
+
+		it("should reject malformed state", () => {
+			expect(parsePageCustomId("task_list_v1_0123456789abcdef_2")).toBeNull();
+			expect(
+				parsePageCustomId("task_search_v1_0123456789abcdef_2_c"),
+			).toBeNull();
+			expect(parsePageCustomId("task_list_v1_not-a-state-id!!_2_d")).toBeNull();
+			expect(parsePageCustomId("task_list_v1_0123456789abcdef_0_d")).toBeNull();
+			expect(parsePageCustomId("task_list_v2_0123456789abcdef_2_d")).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,64 @@
+/**
+ * Custom IDs for /task list and /task search buttons:
+ *
+ *   task_list_v1_<stateId>_<page>_<d|c>   (d = detailed view, c = compact view)
+ *   task_search_v1_<stateId>_<page>
+ *
+ * The command's options live in PaginationStateService under stateId, so the
+ * ID stays well under Discord's 100 character limit. Anything that doesn't
+ * parse, including buttons from before versioning, is stale.
+ */
+
+import type { PaginationKind } from "../services/pagination-state.service";
+import type { TaskListView } from "../validation/command-options";
+
+export const PAGINATION_VERSION = "v1";
+
+// Pages past this are rejected rather than sent to Tembo
+const MAX_PAGE = 9999;
+
+export interface PageButtonState {
+	kind: PaginationKind;
+	stateId: string;
+	page: number;
+	view: TaskListView;
+}
+
+const PAGE_CUSTOM_ID_PATTERN =
+	/^task_(list|search)_v1_([0-9a-f]{16})_(\d{1,4})(?:_([dc]))?$/;
+
+export function buildPageCustomId(state: PageButtonState): string {
+	const base = `task_${state.kind}_${PAGINATION_VERSION}_${state.stateId}_${state.page}`;
+	return state.kind === "list"
+		? `${base}_${state.view === "compact" ? "c" : "d"}`
+		: base;
+}
+
+/**
+ * @returns The button's state, or null if the custom_id is malformed or from an older version
+ */
+export function parsePageCustomId(customId: string): PageButtonState | null {
+	const match = PAGE_CUSTOM_ID_PATTERN.exec(customId);
+	if (!match) {
+		return null;
+	}
+
+	const [, kind, stateId, page, view] = match;
+	const pageNumber = Number(page);
+
+	// List buttons always carry a view; search buttons never do
+	if (
+		(kind === "list") !== (view !== undefined) ||
+		pageNumber < 1 ||
+		pageNumber > MAX_PAGE
+	) {
+		return null;
+	}
+
+	return {
+		kind: kind as PaginationKind,
+		stateId: stateId!,
+		page: pageNumber,
+		view: view === "c" ? "compact" : "detailed",
+	};
+}
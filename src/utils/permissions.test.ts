@@ -0,0 +1,260 @@
+// Tests for command permission helpers
+
+import {
+	type APIApplicationCommandInteraction,
+	type APIMessage,
+	type APIRole,
+	type APIUser,
+	ApplicationCommandOptionType,
+	ApplicationCommandType,
+	PermissionFlagsBits,
+} from "discord-api-types/v10";
+import { describe, expect, it } from "vitest";
+import {
+	canBypassPolicy,
+	formatCommandPath,
+	getCommandPath,
+	getCommandPathCandidates,
+	getComponentCommandPath,
+	getMemberPermissions,
+	getMessageOwnerId,
+	isPolicyCommand,
+	matchesRepositoryPattern,
+} from "./permissions";
+
+const interactionWith = (data: Record<string, unknown>) =>
+	({ data }) as unknown as APIApplicationCommandInteraction;
+
+describe("Permission Helpers", () => {
+	describe("getCommandPath", () => {
+		it("should include the subcommand", () => {
+			const interaction = interactionWith({
+				name: "task",
+				type: ApplicationCommandType.ChatInput,
+				options: [
+					{
+						type: ApplicationCommandOptionType.Subcommand,
+						name: "create",
+						options: [
+							{
+								type: ApplicationCommandOptionType.String,
+								name: "prompt",
+								value: "x",
+							},
+						],
+					},
+				],
+			});
+
+			expect(getCommandPath(interaction)).toBe("task create");
+		});
+
+		it("should include subcommand groups", () => {
+			const interaction = interactionWith({
+				name: "admin",
+				type: ApplicationCommandType.ChatInput,
+				options: [
+					{
+						type: ApplicationCommandOptionType.SubcommandGroup,
+						name: "permissions",
+						options: [
+							{ type: ApplicationCommandOptionType.Subcommand, name: "list" },
+						],
+					},
+				],
+			});
+
+			expect(getCommandPath(interaction)).toBe("admin permissions list");
+		});
+
+		it("should use the name alone for commands without subcommands", () => {
+			expect(
+				getCommandPath(
+					interactionWith({
+						name: "whoami",
+						type: ApplicationCommandType.ChatInput,
+					}),
+				),
+			).toBe("whoami");
+			expect(
+				getCommandPath(
+					interactionWith({
+						name: "Create Tembo task",
+						type: ApplicationCommandType.Message,
+					}),
+				),
+			).toBe("Create Tembo task");
+		});
+	});
+
+	describe("getCommandPathCandidates", () => {
+		it("should list restrictable paths from most to least specific", () => {
+			expect(getCommandPathCandidates("task create")).toEqual([
+				"task create",
+				"task",
+			]);
+			expect(getCommandPathCandidates("Create Tembo task")).toEqual([
+				"Create Tembo task",
+			]);
+		});
+
+		it("should return nothing for commands that can't be restricted", () => {
+			expect(getCommandPathCandidates("admin permissions list")).toEqual([]);
+			expect(getCommandPathCandidates("setup")).toEqual([]);
+		});
+	});
+
+	describe("isPolicyCommand", () => {
+		it("should only accept known commands", () => {
+			expect(isPolicyCommand("task create")).toBe(true);
+			expect(isPolicyCommand("admin")).toBe(false);
+		});
+	});
+
+	describe("getComponentCommandPath", () => {
+		it("should map components to the command they belong to", () => {
+			expect(getComponentCommandPath("task_list_v1_0123456789abcdef_2_d")).toBe(
+				"task list",
+			);
+			expect(getComponentCommandPath("task_search_v1_0123456789abcdef_2")).toBe(
+				"task search",
+			);
+			expect(getComponentCommandPath("task_select")).toBe("task view");
+			expect(getComponentCommandPath("task_draft_refresh")).toBe("task drafts");
+			expect(getComponentCommandPath("task_msg_repos")).toBe(
+				"Create Tembo task",
+			);
+		});
+
+		it("should map forms to the command that opened them", () => {
+			expect(getComponentCommandPath("task_create_modal")).toBe("task new");
+			expect(getComponentCommandPath("task_msg_modal")).toBe(
+				"Create Tembo task",
+			);
+		});
+
+		it("should fall back to the parent command", () => {
+			expect(getComponentCommandPath("task_unknown")).toBe("task");
+		});
+
+		it("should return undefined for components no command owns", () => {
+			expect(getComponentCommandPath("something_else")).toBeUndefined();
+		});
+	});
+
+	describe("formatCommandPath", () => {
+		it("should prefix slash commands only", () => {
+			expect(formatCommandPath("task create")).toBe("/task create");
+			expect(formatCommandPath("Create Tembo task")).toBe("Create Tembo task");
+		});
+	});
+
+	describe("matchesRepositoryPattern", () => {
+		const url = "https://github.com/Acme/prod-api.git";
+
+		it("should match the full URL, owner/name or the name", () => {
+			expect(
+				matchesRepositoryPattern(url, "https://github.com/acme/prod-api"),
+			).toBe(true);
+			expect(matchesRepositoryPattern(url, "acme/prod-api")).toBe(true);
+			expect(matchesRepositoryPattern(url, "prod-api")).toBe(true);
+		});
+
+		it("should treat * as a wildcard", () => {
+			expect(matchesRepositoryPattern(url, "acme/prod-*")).toBe(true);
+			expect(matchesRepositoryPattern(url, "*-api")).toBe(true);
+			expect(matchesRepositoryPattern(url, "acme/*")).toBe(true);
+		});
+
+		it("should not match other repositories", () => {
+			expect(matchesRepositoryPattern(url, "acme/prod")).toBe(false);
+			expect(matchesRepositoryPattern(url, "other/prod-*")).toBe(false);
+			expect(matchesRepositoryPattern(url, "prod.api")).toBe(false);
+		});
+	});
+
+	describe("canBypassPolicy", () => {
+		it("should exempt administrators and server managers", () => {
+			expect(
+				canBypassPolicy(PermissionFlagsBits.Administrator.toString()),
+			).toBe(true);
+			expect(canBypassPolicy(PermissionFlagsBits.ManageGuild.toString())).toBe(
+				true,
+			);
+		});
+
+		it("should not exempt regular members", () => {
+			expect(canBypassPolicy(PermissionFlagsBits.SendMessages.toString())).toBe(
+				false,
+			);
+			expect(canBypassPolicy(undefined)).toBe(false);
+		});
+	});
+
+	describe("getMemberPermissions", () => {
+		const role = (id: string, permission: bigint) =>
+			({ id, permissions: permission.toString() }) as APIRole;
+		const guild = {
+			id: "guild-1",
+			owner_id: "owner",
+			roles: [
+				role("guild-1", PermissionFlagsBits.SendMessages),
+				role("managers", PermissionFlagsBits.ManageGuild),
+				role("members", PermissionFlagsBits.AddReactions),
+			],
+		};
+		const member = (userId: string, roles: string[]) => ({
+			user: { id: userId } as APIUser,
+			roles,
+		});
+
+		it("should combine @everyone with the member's roles", () => {
+			expect(getMemberPermissions(guild, member("user-1", ["members"]))).toBe(
+				(
+					PermissionFlagsBits.SendMessages | PermissionFlagsBits.AddReactions
+				).toString(),
+			);
+			expect(
+				canBypassPolicy(
+					getMemberPermissions(guild, member("user-1", ["members"])),
+				),
+			).toBe(false);
+			expect(
+				canBypassPolicy(
+					getMemberPermissions(guild, member("user-1", ["managers"])),
+				),
+			).toBe(true);
+		});
+
+		it("should give the owner every permission", () => {
+			expect(
+				canBypassPolicy(getMemberPermissions(guild, member("owner", []))),
+			).toBe(true);
+		});
+	});
+
+	describe("getMessageOwnerId", () => {
+		const messageWith = (fields: Record<string, unknown>) =>
+			fields as unknown as APIMessage;
+
+		it("should read the user from the interaction metadata", () => {
+			expect(
+				getMessageOwnerId(
+					messageWith({ interaction_metadata: { user: { id: "user-1" } } }),
+				),
+			).toBe("user-1");
+		});
+
+		it("should fall back to the deprecated interaction field", () => {
+			expect(
+				getMessageOwnerId(
+					messageWith({ interaction: { user: { id: "user-2" } } }),
+				),
+			).toBe("user-2");
+		});
+
+		it("should return undefined for messages not created by an interaction", () => {
+			expect(getMessageOwnerId(messageWith({}))).toBeUndefined();
+		});
+	});
+});
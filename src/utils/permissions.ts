@@ -0,0 +1,215 @@
+import {
+	type APIApplicationCommandInteraction,
+	type APIGuild,
+	type APIGuildMember,
+	type APIMessage,
+	ApplicationCommandOptionType,
+	ApplicationCommandType,
+	PermissionFlagsBits,
+} from "discord-api-types/v10";
+
+/**
+ * Commands and subcommands a guild permission policy can restrict.
+ * A rule on a parent command (e.g. "task") covers all of its subcommands
+ * unless a more specific rule exists.
+ */
+export const POLICY_COMMANDS = [
+	"task",
+	"task create",
+	"task new",
+	"task list",
+	"task search",
+	"task view",
+	"task drafts",
+	"repositories",
+	"repositories list",
+	"repositories refresh",
+	"config",
+	"config show",
+	"config set",
+	"config clear",
+	"schedule",
+	"schedule create",
+	"schedule list",
+	"schedule delete",
+	"whoami",
+	"Create Tembo task",
+] as const;
+
+/**
+ * Commands that create tasks, whose rules may be limited to repositories
+ * (e.g. only @maintainers can `/task create` against production repositories)
+ */
+export const REPOSITORY_POLICY_COMMANDS: readonly (typeof POLICY_COMMANDS)[number][] =
+	[
+		"task",
+		"task create",
+		"task new",
+		"Create Tembo task",
+		"schedule",
+		"schedule create",
+	];
+
+/**
+ * Commands whose policy governs a component or modal, by custom_id prefix.
+ * Buttons, menus and forms can only do what their command can; the first
+ * matching prefix wins, and other task components fall under "task".
+ */
+const COMPONENT_COMMANDS: [
+	prefix: string,
+	command: (typeof POLICY_COMMANDS)[number],
+][] = [
+	["task_list_", "task list"],
+	["task_search_", "task search"],
+	["task_select", "task view"],
+	["task_draft_", "task drafts"],
+	["task_msg_", "Create Tembo task"],
+	["task_create_modal", "task new"],
+	["task_", "task"],
+];
+
+/**
+ * Members with any of these permissions are never restricted by a policy,
+ * so admins can't lock themselves out.
+ */
+const POLICY_BYPASS_PERMISSIONS =
+	PermissionFlagsBits.Administrator | PermissionFlagsBits.ManageGuild;
+
+export function isPolicyCommand(command: string): boolean {
+	return (POLICY_COMMANDS as readonly string[]).includes(command);
+}
+
+/**
+ * Formats a command path for display, e.g. "/task create". Slash command
+ * names are always lowercase, context menu command names are not.
+ */
+export function formatCommandPath(command: string): string {
+	return /^[a-z]/.test(command) ? `/${command}` : command;
+}
+
+/**
+ * Builds the policy path for an application command, e.g. "task create" for
+ * `/task create` or "Create Tembo task" for the message context menu command
+ */
+export function getCommandPath(
+	interaction: APIApplicationCommandInteraction,
+): string {
+	const parts = [interaction.data.name];
+
+	if (interaction.data.type !== ApplicationCommandType.ChatInput) {
+		return parts.join(" ");
+	}
+
+	let options = interaction.data.options;
+	while (options?.length) {
+		const [option] = options;
+		if (
+			!option ||
+			(option.type !== ApplicationCommandOptionType.SubcommandGroup &&
+				option.type !== ApplicationCommandOptionType.Subcommand)
+		) {
+			break;
+		}
+		parts.push(option.name);
+		options = "options" in option ? option.options : undefined;
+	}
+
+	return parts.join(" ");
+}
+
+/**
+ * Builds the policy path for a component or modal custom_id, e.g. "task list"
+ * for a task list page button
+ * @returns The path, or undefined for custom_ids no command owns
+ */
+export function getComponentCommandPath(customId: string): string | undefined {
+	return COMPONENT_COMMANDS.find(([prefix]) =>
+		customId.startsWith(prefix),
+	)?.[1];
+}
+
+/**
+ * Lists the paths a rule can be stored under for a command, most specific
+ * first. "task create" is governed by rules on "task create", then "task".
+ */
+export function getCommandPathCandidates(commandPath: string): string[] {
+	const parts = commandPath.split(" ");
+	const candidates: string[] = [];
+	for (let length = parts.length; length > 0; length--) {
+		candidates.push(parts.slice(0, length).join(" "));
+	}
+	return candidates.filter(isPolicyCommand);
+}
+
+/**
+ * Checks a repository URL against a rule's repository pattern, ignoring case.
+ * The pattern may name the full URL, `owner/name` or just the name, and `*`
+ * matches any run of characters, e.g. `acme/prod-*`.
+ */
+export function matchesRepositoryPattern(
+	repository: string,
+	pattern: string,
+): boolean {
+	const url = repository
+		.trim()
+		.toLowerCase()
+		.replace(/\/+$/, "")
+		.replace(/\.git$/, "");
+	const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+\//, "");
+	const name = path.slice(path.lastIndexOf("/") + 1);
+
+	const expression = pattern
+		.trim()
+		.toLowerCase()
+		.replace(/\/+$/, "")
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	const regex = new RegExp(`^${expression}$`);
+
+	return [url, path, name].some((candidate) => regex.test(candidate));
+}
+
+/**
+ * Whether the member's resolved permissions exempt them from the policy
+ */
+export function canBypassPolicy(permissions: string | undefined): boolean {
+	if (!permissions) {
+		return false;
+	}
+
+	return (BigInt(permissions) & POLICY_BYPASS_PERMISSIONS) !== 0n;
+}
+
+/**
+ * Resolves a member's guild-wide permissions from @everyone and their roles,
+ * like Discord does for interactions. The owner has every permission.
+ * @returns The permissions as a bitfield string, like interaction member permissions
+ */
+export function getMemberPermissions(
+	guild: Pick<APIGuild, "id" | "owner_id" | "roles">,
+	member: Pick<APIGuildMember, "user" | "roles">,
+): string {
+	if (member.user.id === guild.owner_id) {
+		return PermissionFlagsBits.Administrator.toString();
+	}
+
+	// The @everyone role shares the guild's ID
+	const roleIds = new Set([guild.id, ...member.roles]);
+	const permissions = guild.roles
+		.filter((role) => roleIds.has(role.id))
+		.reduce((bits, role) => bits | BigInt(role.permissions), 0n);
+
+	return permissions.toString();
+}
+
+/**
+ * Discord user a message's components belong to: whoever ran the command or
+ * used the component that produced it. Undefined for messages the bot posted
+ * on its own, such as task notifications.
+ */
+export function getMessageOwnerId(
+	message: Pick<APIMessage, "interaction_metadata" | "interaction">,
+): string | undefined {
+	return message.interaction_metadata?.user.id ?? message.interaction?.user.id;
+}
@@ -0,0 +1,169 @@
+// Tests for /task list filtering and sorting helpers
+
+import { describe, expect, it } from "vitest";
+import type { TemboTask } from "../types";
+import {
+	describeTaskFilters,
+	getTaskRepositories,
+	hasTaskFilters,
+	matchesTaskFilters,
+	sortTasks,
+} from "./task-filters";
+
+const task = (overrides: Partial<TemboTask> = {}): TemboTask => ({
+	id: "task-1",
+	status: "in progress",
+	agent: "claudeCode:sonnet-4-5",
+	createdBy: "tembo-user-1",
+	createdAt: "2025-01-10T12:00:00Z",
+	updatedAt: "2025-01-10T12:00:00Z",
+	metadata: { repositories: ["https://github.com/Org/Web-App.git"] },
+	...overrides,
+});
+
+describe("Task Filters", () => {
+	describe("hasTaskFilters", () => {
+		it("should ignore missing and empty filters", () => {
+			expect(hasTaskFilters(undefined)).toBe(false);
+			expect(hasTaskFilters({ status: undefined })).toBe(false);
+			expect(hasTaskFilters({ status: "queued" })).toBe(true);
+		});
+	});
+
+	describe("getTaskRepositories", () => {
+		it("should read repositories from metadata or data", () => {
+			expect(getTaskRepositories(task())).toEqual([
+				"https://github.com/Org/Web-App.git",
+			]);
+			expect(
+				getTaskRepositories(
+					task({
+						metadata: undefined,
+						data: { repositories: ["https://github.com/org/api"] },
+					}),
+				),
+			).toEqual(["https://github.com/org/api"]);
+			expect(
+				getTaskRepositories(task({ metadata: { repositories: "nope" } })),
+			).toEqual([]);
+		});
+	});
+
+	describe("matchesTaskFilters", () => {
+		it("should match status categories", () => {
+			expect(matchesTaskFilters(task(), { status: "running" })).toBe(true);
+			expect(matchesTaskFilters(task(), { status: "queued" })).toBe(false);
+		});
+
+		it("should match agents case-insensitively", () => {
+			expect(
+				matchesTaskFilters(task(), { agent: "claudecode:sonnet-4-5" }),
+			).toBe(true);
+			expect(
+				matchesTaskFilters(task({ agent: undefined }), {
+					agent: "amp:opus-4-5",
+				}),
+			).toBe(false);
+		});
+
+		it("should match repositories by normalized URL or bare name", () => {
+			expect(
+				matchesTaskFilters(task(), {
+					repository: "https://github.com/org/web-app/",
+				}),
+			).toBe(true);
+			expect(matchesTaskFilters(task(), { repository: "web-app" })).toBe(true);
+			expect(matchesTaskFilters(task(), { repository: "web" })).toBe(false);
+		});
+
+		it("should match the creator", () => {
+			expect(matchesTaskFilters(task(), { createdBy: "tembo-user-1" })).toBe(
+				true,
+			);
+			expect(matchesTaskFilters(task(), { createdBy: "tembo-user-2" })).toBe(
+				false,
+			);
+		});
+
+		it("should include tasks created on the created-after date", () => {
+			expect(matchesTaskFilters(task(), { createdAfter: "2025-01-10" })).toBe(
+				true,
+			);
+			expect(matchesTaskFilters(task(), { createdAfter: "2025-01-11" })).toBe(
+				false,
+			);
+			expect(
+				matchesTaskFilters(task({ createdAt: "" }), {
+					createdAfter: "2025-01-01",
+				}),
+			).toBe(false);
+		});
+	});
+
+	describe("sortTasks", () => {
+		const tasks = [
+			task({
+				id: "old-finished",
+				status: "finished",
+				createdAt: "2025-01-01T00:00:00Z",
+				updatedAt: "2025-01-09T00:00:00Z",
+			}),
+			task({
+				id: "new-queued",
+				status: "queued",
+				createdAt: "2025-01-03T00:00:00Z",
+				updatedAt: "2025-01-03T00:00:00Z",
+			}),
+			task({
+				id: "mid-running",
+				status: "running",
+				createdAt: "2025-01-02T00:00:00Z",
+				updatedAt: "2025-01-04T00:00:00Z",
+			}),
+		];
+		const ids = (sorted: TemboTask[]) =>
+			sorted.map((sortedTask) => sortedTask.id);
+
+		it("should list the newest created first", () => {
+			expect(ids(sortTasks(tasks, "created"))).toEqual([
+				"new-queued",
+				"mid-running",
+				"old-finished",
+			]);
+		});
+
+		it("should list the most recently updated first", () => {
+			expect(ids(sortTasks(tasks, "updated"))).toEqual([
+				"old-finished",
+				"mid-running",
+				"new-queued",
+			]);
+		});
+
+		it("should list active tasks first when sorting by status", () => {
+			expect(ids(sortTasks(tasks, "status"))).toEqual([
+				"mid-running",
+				"new-queued",
+				"old-finished",
+			]);
+		});
+
+		it("should not modify the input", () => {
+			sortTasks(tasks, "created");
+
+			expect(tasks[0]?.id).toBe("old-finished");
+		});
+	});
+
+	describe("describeTaskFilters", () => {
+		it("should summarize active filters", () => {
+			expect(
+				describeTaskFilters({
+					status: "failed",
+					createdBy: "tembo-user-1",
+					createdAfter: "2025-01-01",
+				}),
+			).toBe("status: failed • created by you • created after 2025-01-01");
+		});
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Client-side filtering and sorting for /task list. Tembo's list endpoint only
+ * supports page and limit, so TemboService fetches pages and filters them here.
+ */
+
+import type { TaskListFilters, TaskSortOrder, TemboTask } from "../types";
+import { isRepositoryAllowed } from "../validation/command-options";
+import { getStatusCategory, type TaskStatusCategory } from "./task-status";
+
+// Sort order for sort:status, active tasks first
+const STATUS_SORT_ORDER: TaskStatusCategory[] = [
+	"running",
+	"queued",
+	"failed",
+	"finished",
+	"cancelled",
+	"unknown",
+];
+
+export function hasTaskFilters(
+	filters?: TaskListFilters,
+): filters is TaskListFilters {
+	return (
+		!!filters && Object.values(filters).some((filter) => filter !== undefined)
+	);
+}
+
+/**
+ * Repositories a task runs against. The API returns them in either metadata or data.
+ */
+export function getTaskRepositories(task: TemboTask): string[] {
+	const repositories = task.metadata?.repositories ?? task.data?.repositories;
+	return Array.isArray(repositories)
+		? repositories.filter((repo): repo is string => typeof repo === "string")
+		: [];
+}
+
+/**
+ * Matches a repository filter against a task's repositories. Full URLs are
+ * compared normalized; a bare name like `web-app` matches the last path segment.
+ */
+function matchesRepository(task: TemboTask, repository: string): boolean {
+	const repositories = getTaskRepositories(task);
+
+	if (repository.includes("/")) {
+		return repositories.some((repo) => isRepositoryAllowed(repo, [repository]));
+	}
+
+	const name = repository.toLowerCase();
+	return repositories.some(
+		(repo) =>
+			repo
+				.toLowerCase()
+				.replace(/\/+$/, "")
+				.replace(/\.git$/, "")
+				.split("/")
+				.at(-1) === name,
+	);
+}
+
+export function matchesTaskFilters(
+	task: TemboTask,
+	filters: TaskListFilters,
+): boolean {
+	if (filters.status && getStatusCategory(task.status) !== filters.status) {
+		return false;
+	}
+	if (
+		filters.agent &&
+		task.agent?.toLowerCase() !== filters.agent.toLowerCase()
+	) {
+		return false;
+	}
+	if (filters.repository && !matchesRepository(task, filters.repository)) {
+		return false;
+	}
+	if (filters.createdBy && task.createdBy !== filters.createdBy) {
+		return false;
+	}
+	if (filters.createdAfter) {
+		const createdAt = Date.parse(task.createdAt);
+		if (
+			Number.isNaN(createdAt) ||
+			createdAt < Date.parse(`${filters.createdAfter}T00:00:00Z`)
+		) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function getTime(value: string | undefined): number {
+	const time = value ? Date.parse(value) : NaN;
+	return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Sorts tasks newest first by creation or update time, or by status with
+ * active tasks first and newest first within each status. Returns a new array.
+ */
+export function sortTasks(
+	tasks: TemboTask[],
+	sort: TaskSortOrder,
+): TemboTask[] {
+	const byCreated = (a: TemboTask, b: TemboTask) =>
+		getTime(b.createdAt) - getTime(a.createdAt);
+
+	return [...tasks].sort((a, b) => {
+		switch (sort) {
+			case "updated":
+				return getTime(b.updatedAt) - getTime(a.updatedAt);
+			case "status":
+				return (
+					STATUS_SORT_ORDER.indexOf(getStatusCategory(a.status)) -
+						STATUS_SORT_ORDER.indexOf(getStatusCategory(b.status)) ||
+					byCreated(a, b)
+				);
+			default:
+				return byCreated(a, b);
+		}
+	});
+}
+
+/**
+ * One-line summary of active filters for the task list embed
+ */
+export function describeTaskFilters(filters: TaskListFilters): string {
+	return [
+		filters.status ? `status: ${filters.status}` : null,
+		filters.agent ? `agent: ${filters.agent}` : null,
+		filters.repository ? `repository: ${filters.repository}` : null,
+		filters.createdBy ? "created by you" : null,
+		filters.createdAfter ? `created after ${filters.createdAfter}` : null,
+	]
+		.filter(Boolean)
+		.join(" • ");
+}
@@ -0,0 +1,51 @@
+// Tests for task status helpers
+
+import { describe, expect, it } from "vitest";
+import {
+	getStatusCategory,
+	getStatusEmoji,
+	isTerminalStatus,
+} from "./task-status";
+
+describe("Task Status Helpers", () => {
+	describe("getStatusCategory", () => {
+		it("should categorize known statuses", () => {
+			expect(getStatusCategory("finished")).toBe("finished");
+			expect(getStatusCategory("Completed")).toBe("finished");
+			expect(getStatusCategory("failed")).toBe("failed");
+			expect(getStatusCategory("in progress")).toBe("running");
+			expect(getStatusCategory("queued")).toBe("queued");
+			expect(getStatusCategory("canceled")).toBe("cancelled");
+		});
+
+		it("should return unknown for missing or unrecognized statuses", () => {
+			expect(getStatusCategory(undefined)).toBe("unknown");
+			expect(getStatusCategory("mystery")).toBe("unknown");
+		});
+	});
+
+	describe("getStatusEmoji", () => {
+		it("should map statuses to emoji", () => {
+			expect(getStatusEmoji("done")).toBe("✅");
+			expect(getStatusEmoji("error")).toBe("❌");
+			expect(getStatusEmoji("running")).toBe("🔄");
+			expect(getStatusEmoji("pending")).toBe("⏳");
+			expect(getStatusEmoji("cancelled")).toBe("⚠️");
+			expect(getStatusEmoji(undefined)).toBe("⚪");
+		});
+	});
+
+	describe("isTerminalStatus", () => {
+		it("should treat finished, failed and cancelled as terminal", () => {
+			expect(isTerminalStatus("finished")).toBe(true);
+			expect(isTerminalStatus("failed")).toBe(true);
+			expect(isTerminalStatus("cancelled")).toBe(true);
+		});
+
+		it("should not treat active statuses as terminal", () => {
+			expect(isTerminalStatus("queued")).toBe(false);
+			expect(isTerminalStatus("running")).toBe(false);
+			expect(isTerminalStatus(undefined)).toBe(false);
+		});
+	});
+});
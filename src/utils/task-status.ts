@@ -0,0 +1,72 @@
+export type TaskStatusCategory =
+	| "finished"
+	| "failed"
+	| "running"
+	| "queued"
+	| "cancelled"
+	| "unknown";
+
+const TERMINAL_CATEGORIES: TaskStatusCategory[] = [
+	"finished",
+	"failed",
+	"cancelled",
+];
+
+export function getStatusCategory(
+	status: string | undefined,
+): TaskStatusCategory {
+	if (!status) return "unknown";
+
+	const statusLower = status.toLowerCase();
+
+	if (
+		statusLower.includes("finished") ||
+		statusLower.includes("complete") ||
+		statusLower.includes("done")
+	) {
+		return "finished";
+	}
+	if (statusLower.includes("failed") || statusLower.includes("error")) {
+		return "failed";
+	}
+	if (
+		statusLower.includes("running") ||
+		statusLower.includes("processing") ||
+		statusLower.includes("in progress")
+	) {
+		return "running";
+	}
+	if (
+		statusLower.includes("pending") ||
+		statusLower.includes("queued") ||
+		statusLower.includes("waiting")
+	) {
+		return "queued";
+	}
+	if (statusLower.includes("cancelled") || statusLower.includes("canceled")) {
+		return "cancelled";
+	}
+
+	return "unknown";
+}
+
+export function getStatusEmoji(status: string | undefined): string {
+	switch (getStatusCategory(status)) {
+		case "finished":
+			return "✅";
+		case "failed":
+			return "❌";
+		case "running":
+			return "🔄";
+		case "queued":
+			return "⏳";
+		case "cancelled":
+			return "⚠️";
+		default:
+			return "⚪";
+	}
+}
+
+export function isTerminalStatus(status: string | undefined): boolean {
+	return TERMINAL_CATEGORIES.includes(getStatusCategory(status));
+}
@@ -1,6 +1,7 @@
 // Tests for command option validation
 
 import { describe, it, expect } from "vitest";
+import { ChannelType } from "discord-api-types/v10";
 import {
 	validatePrompt,
 	validateAgent,
@@ -9,9 +10,22 @@ import {
 	validatePage,
 	validateLimit,
 	validateQuery,
+	validateTaskId,
 	validateCreateTaskParams,
+	validateModalCreateTaskParams,
+	validateTaskDefaults,
+	resolveRepositories,
+	resolveAgent,
+	assertKnownRepositories,
+	collectRepositoryOptions,
 	validateListTasksParams,
+	validateListView,
 	validateSearchTasksParams,
+	validateThreadOption,
+	validateQueueOption,
+	validateScheduleName,
+	validateScheduleId,
+	validateScheduleTiming,
 } from "./command-options";
 import { ValidationError } from "../utils/errors";
 
@@ -32,6 +46,12 @@ describe("Command Option Validators", () => {
 			const longPrompt = "a".repeat(2001);
 			expect(() => validatePrompt(longPrompt)).toThrow(ValidationError);
 		});
+
+		it("should honor a custom maximum length", () => {
+			const longPrompt = "a".repeat(2001);
+			expect(validatePrompt(longPrompt, 4000)).toBe(longPrompt);
+			expect(() => validatePrompt("a".repeat(4001), 4000)).toThrow(ValidationError);
+		});
 	});
 
 	describe("validateAgent", () => {
@@ -50,6 +70,60 @@ describe("Command Option Validators", () => {
 		it("should reject non-string agents", () => {
 			expect(() => validateAgent(123)).toThrow(ValidationError);
 		});
+
+		it("should only accept catalog agents when a catalog is given", () => {
+			const catalog = ["claudeCode:sonnet-4-5", "amp:opus-4-5"];
+
+			expect(validateAgent("amp:opus-4-5", catalog)).toBe("amp:opus-4-5");
+			expect(() => validateAgent("cursor:sonnet-4", catalog)).toThrow(
+				"isn't an available agent",
+			);
+		});
+
+		it("should reject every agent when the catalog is empty", () => {
+			expect(() => validateAgent("amp:opus-4-5", [])).toThrow(
+				"No agents are enabled in this server",
+			);
+			expect(validateAgent(undefined, [])).toBeUndefined();
+		});
+
+		it("should suggest close catalog agents", () => {
+			expect(() => validateAgent("claudeCode:sonet-4-5", ["claudeCode:sonnet-4-5"])).toThrow(
+				"**Did you mean:** `claudeCode:sonnet-4-5`?",
+			);
+		});
+	});
+
+	describe("resolveAgent", () => {
+		const catalog = {
+			agents: ["claudeCode:sonnet-4-5", "amp:opus-4-5"],
+			defaultAgent: "amp:opus-4-5",
+		};
+
+		it("should prefer the given agent", () => {
+			expect(resolveAgent("claudeCode:sonnet-4-5", { agent: "amp:opus-4-5" }, catalog))
+				.toBe("claudeCode:sonnet-4-5");
+		});
+
+		it("should fall back to the configured default", () => {
+			expect(resolveAgent(undefined, { agent: "claudeCode:sonnet-4-5" }, catalog))
+				.toBe("claudeCode:sonnet-4-5");
+		});
+
+		it("should skip configured defaults the catalog doesn't offer", () => {
+			expect(resolveAgent(undefined, { agent: "cursor:sonnet-4" }, catalog))
+				.toBe("amp:opus-4-5");
+		});
+
+		it("should skip configured defaults when no agent is enabled", () => {
+			expect(resolveAgent(undefined, { agent: "amp:opus-4-5" }, { agents: [] }))
+				.toBeUndefined();
+		});
+
+		it("should allow any agent without a catalog", () => {
+			expect(resolveAgent("custom:model")).toBe("custom:model");
+			expect(resolveAgent(undefined)).toBeUndefined();
+		});
 	});
 
 	describe("parseRepositories", () => {
@@ -68,6 +142,13 @@ describe("Command Option Validators", () => {
 			expect(result).toEqual(["https://github.com/org/repo"]);
 		});
 
+		it("should drop duplicate repositories", () => {
+			const result = parseRepositories(
+				"https://github.com/org/repo, https://github.com/Org/repo.git",
+			);
+			expect(result).toEqual(["https://github.com/org/repo"]);
+		});
+
 		it("should throw ValidationError for empty values (required field)", () => {
 			expect(() => parseRepositories(undefined)).toThrow(ValidationError);
 			expect(() => parseRepositories(null)).toThrow(ValidationError);
@@ -82,6 +163,26 @@ describe("Command Option Validators", () => {
 		});
 	});
 
+	describe("parseRepositories with an allow-list", () => {
+		const allowed = ["https://github.com/org/frontend"];
+
+		it("should accept allowed repositories", () => {
+			expect(parseRepositories("https://github.com/org/frontend", allowed))
+				.toEqual(["https://github.com/org/frontend"]);
+		});
+
+		it("should ignore case, trailing slashes and .git suffixes", () => {
+			expect(parseRepositories("https://github.com/Org/frontend.git/", allowed))
+				.toEqual(["https://github.com/Org/frontend.git/"]);
+		});
+
+		it("should reject repositories outside the allow-list", () => {
+			expect(() =>
+				parseRepositories("https://github.com/org/frontend,https://github.com/org/backend", allowed)
+			).toThrow(/can't be used in this channel/);
+		});
+	});
+
 	describe("validateBranch", () => {
 		it("should accept valid branch names", () => {
 			expect(validateBranch("main")).toBe("main");
@@ -139,6 +240,18 @@ describe("Command Option Validators", () => {
 		});
 	});
 
+	describe("validateTaskId", () => {
+		it("should accept valid task IDs", () => {
+			expect(validateTaskId("task-123")).toBe("task-123");
+			expect(validateTaskId("  task-123  ")).toBe("task-123");
+		});
+
+		it("should reject empty task IDs", () => {
+			expect(() => validateTaskId("")).toThrow(ValidationError);
+			expect(() => validateTaskId(undefined)).toThrow(ValidationError);
+		});
+	});
+
 	describe("validateCreateTaskParams", () => {
 		it("should validate all create task parameters", () => {
 			const params = validateCreateTaskParams({
@@ -152,7 +265,17 @@ describe("Command Option Validators", () => {
 			expect(params.agent).toBe("claudeCode:claude-4-5-sonnet");
 			expect(params.repositories).toEqual(["https://github.com/org/repo"]);
 			expect(params.branch).toBe("main");
-			expect(params.queueRightAway).toBe(true);
+			expect(params.queueRightAway).toBeUndefined();
+		});
+
+		it("should leave the task unqueued with queue:false", () => {
+			const params = validateCreateTaskParams({
+				prompt: "Fix the bug",
+				repositories: "https://github.com/org/repo",
+				queue: false,
+			});
+
+			expect(params.queueRightAway).toBe(false);
 		});
 
 		it("should handle minimal required parameters", () => {
@@ -167,6 +290,19 @@ describe("Command Option Validators", () => {
 			expect(params.branch).toBeUndefined();
 		});
 
+		it("should accept repositories from the extra repository options", () => {
+			const params = validateCreateTaskParams({
+				prompt: "Fix the bug",
+				repositories: "https://github.com/org/api",
+				repository2: "https://github.com/org/web",
+			});
+
+			expect(params.repositories).toEqual([
+				"https://github.com/org/api",
+				"https://github.com/org/web",
+			]);
+		});
+
 		it("should reject missing prompt", () => {
 			expect(() => validateCreateTaskParams({
 				repositories: "https://github.com/org/repo",
@@ -178,6 +314,220 @@ describe("Command Option Validators", () => {
 				prompt: "Fix the bug",
 			})).toThrow(ValidationError);
 		});
+
+		it("should fall back to configured defaults", () => {
+			const params = validateCreateTaskParams(
+				{ prompt: "Fix the bug" },
+				{
+					repositories: ["https://github.com/org/monorepo"],
+					agent: "claudeCode:sonnet-4-5",
+					branch: "develop",
+				},
+			);
+
+			expect(params.repositories).toEqual(["https://github.com/org/monorepo"]);
+			expect(params.agent).toBe("claudeCode:sonnet-4-5");
+			expect(params.branch).toBe("develop");
+		});
+
+		it("should prefer explicit options over defaults", () => {
+			const params = validateCreateTaskParams(
+				{
+					prompt: "Fix the bug",
+					repositories: "https://github.com/org/other",
+					agent: "amp:opus-4-5",
+				},
+				{
+					repositories: ["https://github.com/org/monorepo"],
+					agent: "claudeCode:sonnet-4-5",
+				},
+			);
+
+			expect(params.repositories).toEqual(["https://github.com/org/other"]);
+			expect(params.agent).toBe("amp:opus-4-5");
+		});
+	});
+
+	describe("validateQueueOption", () => {
+		it("should leave the choice to Tembo when not given", () => {
+			expect(validateQueueOption(undefined)).toBeUndefined();
+			expect(validateQueueOption(null)).toBeUndefined();
+		});
+
+		it("should accept booleans", () => {
+			expect(validateQueueOption(false)).toBe(false);
+			expect(validateQueueOption(true)).toBe(true);
+		});
+
+		it("should reject other values", () => {
+			expect(() => validateQueueOption("later")).toThrow("Queue must be true or false");
+		});
+	});
+
+	describe("validateThreadOption", () => {
+		it("should default to no thread", () => {
+			expect(validateThreadOption(undefined, ChannelType.DM, false)).toBe(false);
+			expect(validateThreadOption(false, ChannelType.GuildText, true)).toBe(false);
+		});
+
+		it("should accept threads in server text channels", () => {
+			expect(validateThreadOption(true, ChannelType.GuildText, false)).toBe(true);
+			expect(validateThreadOption(true, ChannelType.GuildAnnouncement, false)).toBe(true);
+		});
+
+		it("should reject channels that can't hold a task thread", () => {
+			expect(() => validateThreadOption(true, ChannelType.DM, false)).toThrow(ValidationError);
+			expect(() => validateThreadOption(true, ChannelType.PublicThread, false)).toThrow(
+				"Task threads can only be opened in server text channels",
+			);
+			expect(() => validateThreadOption(true, undefined, false)).toThrow(ValidationError);
+		});
+
+		it("should reject ephemeral responses", () => {
+			expect(() => validateThreadOption(true, ChannelType.GuildText, true)).toThrow(
+				"A task thread needs a public response",
+			);
+		});
+
+		it("should reject non-boolean values", () => {
+			expect(() => validateThreadOption("yes", ChannelType.GuildText, false)).toThrow(
+				"Thread must be true or false",
+			);
+		});
+	});
+
+	describe("assertKnownRepositories", () => {
+		const known = ["https://github.com/org/frontend", "https://github.com/org/api"];
+
+		it("should accept connected repositories", () => {
+			expect(() =>
+				assertKnownRepositories(["https://github.com/Org/frontend.git"], known)
+			).not.toThrow();
+		});
+
+		it("should suggest the closest connected repository", () => {
+			expect(() =>
+				assertKnownRepositories(["https://github.com/org/fronted"], known)
+			).toThrow("**Did you mean:** `https://github.com/org/frontend`");
+		});
+
+		it("should explain when no repositories are connected", () => {
+			expect(() => assertKnownRepositories(["https://github.com/org/api"], [])).toThrow(
+				"No repositories are connected",
+			);
+		});
+	});
+
+	describe("collectRepositoryOptions", () => {
+		it("should combine the repository options in order", () => {
+			expect(collectRepositoryOptions({
+				repositories: "https://github.com/org/a",
+				repository3: "https://github.com/org/c",
+				repository2: "https://github.com/org/b",
+			})).toBe("https://github.com/org/a, https://github.com/org/b, https://github.com/org/c");
+		});
+
+		it("should allow extra repositories without the main option", () => {
+			expect(collectRepositoryOptions({ repository2: "https://github.com/org/b" }))
+				.toBe("https://github.com/org/b");
+		});
+
+		it("should return undefined when no repositories were given", () => {
+			expect(collectRepositoryOptions({ repositories: "  ", prompt: "x" })).toBeUndefined();
+		});
+
+		it("should reject non-string values", () => {
+			expect(() => collectRepositoryOptions({ repository4: 4 })).toThrow(ValidationError);
+		});
+	});
+
+	describe("resolveRepositories", () => {
+		it("should use defaults for empty values", () => {
+			expect(resolveRepositories("  ", { repositories: ["https://github.com/org/repo"] }))
+				.toEqual(["https://github.com/org/repo"]);
+		});
+
+		it("should still validate given values", () => {
+			expect(() => resolveRepositories("not-a-url", { repositories: ["https://github.com/org/repo"] }))
+				.toThrow(ValidationError);
+		});
+
+		it("should reject empty values without defaults", () => {
+			expect(() => resolveRepositories(undefined, {})).toThrow(ValidationError);
+		});
+
+		it("should skip defaults outside the channel allow-list", () => {
+			const defaults = {
+				repositories: ["https://github.com/org/frontend", "https://github.com/org/backend"],
+			};
+
+			expect(resolveRepositories(undefined, defaults, ["https://github.com/org/frontend"]))
+				.toEqual(["https://github.com/org/frontend"]);
+		});
+
+		it("should use a channel's only bound repository when none are given", () => {
+			expect(resolveRepositories("", {}, ["https://github.com/org/frontend"]))
+				.toEqual(["https://github.com/org/frontend"]);
+		});
+
+		it("should require a choice when a channel has several bound repositories", () => {
+			expect(() => resolveRepositories("", {}, [
+				"https://github.com/org/web",
+				"https://github.com/org/docs",
+			])).toThrow(ValidationError);
+		});
+	});
+
+	describe("validateTaskDefaults", () => {
+		it("should parse repositories, agent and branch", () => {
+			const defaults = validateTaskDefaults({
+				repositories: "https://github.com/org/a, https://github.com/org/b",
+				agent: "claudeCode:sonnet-4-5",
+				branch: "main",
+			});
+
+			expect(defaults).toEqual({
+				repositories: ["https://github.com/org/a", "https://github.com/org/b"],
+				agent: "claudeCode:sonnet-4-5",
+				branch: "main",
+			});
+		});
+
+		it("should reject an empty update", () => {
+			expect(() => validateTaskDefaults({})).toThrow(ValidationError);
+		});
+	});
+
+	describe("validateModalCreateTaskParams", () => {
+		it("should accept multi-line prompts longer than the slash option limit", () => {
+			const prompt = `Fix the bug\n\n${"- step\n".repeat(400)}`;
+			const params = validateModalCreateTaskParams({
+				prompt,
+				repositories: "https://github.com/org/repo",
+				agent: "",
+				branch: "",
+			});
+
+			expect(params.prompt).toBe(prompt.trim());
+			expect(params.agent).toBeUndefined();
+			expect(params.branch).toBeUndefined();
+		});
+
+		it("should reject missing repositories", () => {
+			expect(() => validateModalCreateTaskParams({
+				prompt: "Fix the bug",
+				repositories: "",
+			})).toThrow(ValidationError);
+		});
+
+		it("should fall back to default repositories", () => {
+			const params = validateModalCreateTaskParams(
+				{ prompt: "Fix the bug", repositories: "" },
+				{ repositories: ["https://github.com/org/monorepo"] },
+			);
+
+			expect(params.repositories).toEqual(["https://github.com/org/monorepo"]);
+		});
 	});
 
 	describe("validateListTasksParams", () => {
@@ -196,6 +546,69 @@ describe("Command Option Validators", () => {
 
 			expect(params.page).toBe(1);
 			expect(params.limit).toBe(10);
+			expect(params.filters).toBeUndefined();
+		});
+
+		it("should collect filters", () => {
+			const params = validateListTasksParams(
+				{
+					status: "failed",
+					agent: " amp:opus-4-5 ",
+					repository: "https://github.com/org/api",
+					mine: true,
+					created_after: "2025-01-31",
+				},
+				"tembo-user-1",
+			);
+
+			expect(params.filters).toEqual({
+				status: "failed",
+				agent: "amp:opus-4-5",
+				repository: "https://github.com/org/api",
+				createdBy: "tembo-user-1",
+				createdAfter: "2025-01-31",
+			});
+		});
+
+		it("should reject unknown statuses", () => {
+			expect(() => validateListTasksParams({ status: "paused" })).toThrow(
+				"Status must be one of",
+			);
+		});
+
+		it("should reject invalid dates", () => {
+			expect(() => validateListTasksParams({ created_after: "31/01/2025" })).toThrow(
+				"Invalid date",
+			);
+			expect(() => validateListTasksParams({ created_after: "2025-02-30" })).toThrow(
+				"Invalid date",
+			);
+		});
+
+		it("should validate the sort order", () => {
+			expect(validateListTasksParams({ sort: "updated" }).sort).toBe("updated");
+			expect(validateListTasksParams({}).sort).toBeUndefined();
+			expect(() => validateListTasksParams({ sort: "priority" })).toThrow(
+				"Sort must be one of",
+			);
+		});
+
+		it("should require a Tembo user ID for mine", () => {
+			expect(() => validateListTasksParams({ mine: true })).toThrow(
+				"`mine` needs your own API key",
+			);
+			expect(validateListTasksParams({ mine: false }).filters).toBeUndefined();
+		});
+	});
+
+	describe("validateListView", () => {
+		it("should default to the detailed view", () => {
+			expect(validateListView(undefined)).toBe("detailed");
+			expect(validateListView("compact")).toBe("compact");
+		});
+
+		it("should reject unknown views", () => {
+			expect(() => validateListView("table")).toThrow(ValidationError);
 		});
 	});
 
@@ -216,4 +629,82 @@ describe("Command Option Validators", () => {
 			expect(() => validateSearchTasksParams({})).toThrow(ValidationError);
 		});
 	});
+
+	describe("validateScheduleName", () => {
+		it("should trim the name", () => {
+			expect(validateScheduleName("  Nightly deps  ")).toBe("Nightly deps");
+		});
+
+		it("should reject empty and long names", () => {
+			expect(() => validateScheduleName("  ")).toThrow(ValidationError);
+			expect(() => validateScheduleName("a".repeat(101))).toThrow(
+				"Name must be less than 100 characters",
+			);
+		});
+	});
+
+	describe("validateScheduleId", () => {
+		it("should accept schedule IDs", () => {
+			expect(validateScheduleId("0123456789abcdef")).toBe("0123456789abcdef");
+		});
+
+		it("should reject anything else", () => {
+			expect(() => validateScheduleId("task-123")).toThrow(ValidationError);
+			expect(() => validateScheduleId(undefined)).toThrow(ValidationError);
+		});
+	});
+
+	describe("validateScheduleTiming", () => {
+		const now = Date.parse("2025-01-10T12:00:00Z");
+
+		it("should schedule the next cron run", () => {
+			expect(validateScheduleTiming({ cron: " 0  3 * * * " }, now)).toEqual({
+				cronExpression: "0 3 * * *",
+				nextRunTimestamp: Date.parse("2025-01-11T03:00:00Z"),
+			});
+		});
+
+		it("should schedule a one-off run", () => {
+			expect(validateScheduleTiming({ at: "2025-01-31 09:00" }, now)).toEqual({
+				cronExpression: null,
+				nextRunTimestamp: Date.parse("2025-01-31T09:00:00Z"),
+			});
+			expect(validateScheduleTiming({ at: "2025-01-31T09:00" }, now).nextRunTimestamp).toBe(
+				Date.parse("2025-01-31T09:00:00Z"),
+			);
+		});
+
+		it("should need exactly one of cron and at", () => {
+			expect(() => validateScheduleTiming({}, now)).toThrow(
+				"Provide `cron` for a repeating schedule or `at` for a one-off run",
+			);
+			expect(() => validateScheduleTiming({ cron: "0 3 * * *", at: "2025-01-31 09:00" }, now))
+				.toThrow("Use either `cron` or `at`, not both");
+		});
+
+		it("should reject invalid cron expressions", () => {
+			expect(() => validateScheduleTiming({ cron: "0 3 * *" }, now)).toThrow(
+				"Invalid cron expression",
+			);
+			expect(() => validateScheduleTiming({ cron: "0 0 30 2 *" }, now)).toThrow("never runs");
+		});
+
+		it("should reject schedules that run more than once an hour", () => {
+			expect(() => validateScheduleTiming({ cron: "*/30 * * * *" }, now)).toThrow(
+				"Schedules can run at most once an hour",
+			);
+		});
+
+		it("should reject invalid and past times", () => {
+			expect(() => validateScheduleTiming({ at: "31/01/2025 09:00" }, now)).toThrow(
+				"Invalid time",
+			);
+			expect(() => validateScheduleTiming({ at: "2025-02-30 09:00" }, now)).toThrow(
+				"Invalid time",
+			);
+			expect(() => validateScheduleTiming({ at: "2025-01-10 12:00" }, now)).toThrow(
+				"The time must be in the future",
+			);
+		});
+	});
 });
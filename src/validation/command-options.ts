@@ -1,42 +1,140 @@
-import { isString, isNumber, isNonEmptyString } from "./guards";
+import { ChannelType } from "discord-api-types/v10";
+import { isString, isNumber, isNonEmptyString, isBoolean } from "./guards";
 import { ValidationError } from "../utils/errors";
+import { suggestMatches } from "../utils/fuzzy-match";
+import { getNextCronRun, parseCronExpression } from "../utils/cron";
 import type {
+	AgentCatalog,
 	CreateTaskParams,
 	ListTasksParams,
+	ScheduleTiming,
 	SearchTasksParams,
+	TaskDefaults,
+	TaskListFilters,
+	TaskSortOrder,
 } from "../types";
 
-export function validatePrompt(value: unknown): string {
+// Slash command string options are capped at 2000 characters by Discord;
+// modal paragraph inputs allow up to 4000
+export const PROMPT_MAX_LENGTH = 2000;
+export const MODAL_PROMPT_MAX_LENGTH = 4000;
+
+// /task create options for picking more repositories one autocomplete at a time
+export const EXTRA_REPOSITORY_OPTIONS = [
+	"repository2",
+	"repository3",
+	"repository4",
+	"repository5",
+] as const;
+
+// /task list status filter choices (status categories from getStatusCategory)
+export const TASK_STATUS_FILTERS = [
+	"finished",
+	"failed",
+	"running",
+	"queued",
+	"cancelled",
+] as const;
+
+// /task list sort orders and display modes
+export const TASK_SORT_ORDERS = ["created", "updated", "status"] as const;
+export const TASK_LIST_VIEWS = ["detailed", "compact"] as const;
+
+export const SCHEDULE_NAME_MAX_LENGTH = 100;
+
+export type TaskListView = (typeof TASK_LIST_VIEWS)[number];
+
+// Channels whose messages can start a public task thread
+const THREAD_CHANNEL_TYPES: ChannelType[] = [ChannelType.GuildText, ChannelType.GuildAnnouncement];
+
+export function validatePrompt(
+	value: unknown,
+	maxLength: number = PROMPT_MAX_LENGTH,
+): string {
 	if (!isNonEmptyString(value)) {
 		throw new ValidationError("Prompt must be a non-empty string", "prompt");
 	}
-	if (value.length > 2000) {
+	if (value.length > maxLength) {
 		throw new ValidationError(
-			"Prompt must be less than 2000 characters",
+			`Prompt must be less than ${maxLength} characters`,
 			"prompt",
 		);
 	}
 	return value.trim();
 }
 
-export function validateAgent(value: unknown): string | undefined {
+/**
+ * Checks an agent against the agents tasks can use
+ * @param availableAgents Allowed agents, or undefined to skip the check
+ */
+export function validateAgent(
+	value: unknown,
+	availableAgents?: string[],
+): string | undefined {
 	if (value === undefined || value === null) {
 		return undefined;
 	}
 	if (!isString(value)) {
 		throw new ValidationError("Agent must be a string", "agent");
 	}
-	return value.trim() || undefined;
+
+	const agent = value.trim() || undefined;
+	if (agent && availableAgents?.length === 0) {
+		throw new ValidationError(
+			"No agents are enabled in this server. Leave `agent` empty to use your Tembo default, " +
+			"or ask a server admin to enable one with `/admin agents`.",
+			"agent",
+		);
+	}
+	if (agent && availableAgents && !availableAgents.includes(agent)) {
+		throw new ValidationError(
+			`\`${agent}\` isn't an available agent.` +
+			formatSuggestions(suggestMatches(agent, availableAgents)) +
+			"\n\nUse autocomplete in the `agent` option to pick one.",
+			"agent",
+		);
+	}
+	return agent;
+}
+
+function formatSuggestions(suggestions: string[]): string {
+	return suggestions.length > 0
+		? `\n\n**Did you mean:** ${suggestions.map((suggestion) => `\`${suggestion}\``).join(", ")}?`
+		: "";
 }
 
-export function parseRepositories(value: unknown): string[] {
+/**
+ * Uses the given agent, then the /config default, then the catalog default.
+ * A /config default the catalog no longer offers is skipped.
+ * @param catalog The guild's agent catalog, or undefined to skip the checks
+ */
+export function resolveAgent(
+	value: unknown,
+	defaults: TaskDefaults = {},
+	catalog?: AgentCatalog,
+): string | undefined {
+	const agent = validateAgent(value, catalog?.agents);
+	if (agent) {
+		return agent;
+	}
+	if (defaults.agent && (!catalog || catalog.agents.includes(defaults.agent))) {
+		return defaults.agent;
+	}
+	return catalog?.defaultAgent;
+}
+
+export function parseRepositories(
+	value: unknown,
+	allowedRepositories: string[] = [],
+): string[] {
 	if (value === undefined || value === null || value === "") {
 		throw new ValidationError(
 			"At least one repository is required.\n\n" +
 			"**How to add repositories:**\n" +
 			"1. Visit your Tembo dashboard\n" +
 			"2. Connect your code repositories\n" +
-			"3. Use autocomplete in `/task create repositories:` to select",
+			"3. Use autocomplete in `/task create repositories:` to select\n\n" +
+			"**Tip:** Set a default with `/config set repositories:` to skip this step",
 			"repositories",
 		);
 	}
@@ -50,7 +148,10 @@ export function parseRepositories(value: unknown): string[] {
 	const repos = value
 		.split(",")
 		.map((r) => r.trim())
-		.filter(Boolean);
+		.filter(Boolean)
+		.filter((repo, index, all) =>
+			all.findIndex((other) => normalizeRepositoryUrl(other) === normalizeRepositoryUrl(repo)) === index
+		);
 
 	if (repos.length === 0) {
 		throw new ValidationError(
@@ -70,9 +171,106 @@ export function parseRepositories(value: unknown): string[] {
 		}
 	}
 
+	assertRepositoriesAllowed(repos, allowedRepositories);
+
 	return repos;
 }
 
+function normalizeRepositoryUrl(url: string): string {
+	return url.trim().toLowerCase().replace(/\/+$/, "").replace(/\.git$/, "");
+}
+
+export function isRepositoryAllowed(repo: string, allowedRepositories: string[]): boolean {
+	const normalized = normalizeRepositoryUrl(repo);
+	return allowedRepositories.some((allowed) => normalizeRepositoryUrl(allowed) === normalized);
+}
+
+/**
+ * Rejects repositories outside a channel's allow-list. An empty allow-list
+ * means the channel is unrestricted.
+ */
+export function assertRepositoriesAllowed(repos: string[], allowedRepositories: string[]): void {
+	if (allowedRepositories.length === 0) {
+		return;
+	}
+
+	const disallowed = repos.filter((repo) => !isRepositoryAllowed(repo, allowedRepositories));
+
+	if (disallowed.length > 0) {
+		throw new ValidationError(
+			`${disallowed.map((repo) => `\`${repo}\``).join(", ")} can't be used in this channel.\n\n` +
+			"**Repositories allowed here:**\n" +
+			allowedRepositories.map((repo) => `• ${repo}`).join("\n"),
+			"repositories",
+		);
+	}
+}
+
+/**
+ * Rejects repositories that aren't connected to the Tembo account, suggesting
+ * the closest connected repositories for each one
+ * @param knownRepositories URLs returned by listRepositories
+ */
+export function assertKnownRepositories(repos: string[], knownRepositories: string[]): void {
+	const unknown = repos.filter((repo) => !isRepositoryAllowed(repo, knownRepositories));
+
+	if (unknown.length === 0) {
+		return;
+	}
+
+	if (knownRepositories.length === 0) {
+		throw new ValidationError(
+			"No repositories are connected to your Tembo account.\n\n" +
+			"Connect your code repositories in the Tembo dashboard, then try again.",
+			"repositories",
+		);
+	}
+
+	throw new ValidationError(
+		unknown
+			.map((repo) =>
+				`\`${repo}\` isn't connected to your Tembo account.` +
+				formatSuggestions(suggestMatches(repo, knownRepositories))
+			)
+			.join("\n\n") +
+		"\n\nUse autocomplete in the `repositories` option to pick a connected repository.",
+		"repositories",
+	);
+}
+
+export const REPOSITORY_PATTERN_MAX_LENGTH = 200;
+
+/**
+ * Checks the /admin permissions `repository` option: a repository URL,
+ * `owner/name` or name, where `*` matches anything (e.g. `acme/prod-*`)
+ * @returns The pattern, or undefined for a rule on the whole command
+ */
+export function validateRepositoryPattern(value: unknown): string | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (!isString(value)) {
+		throw new ValidationError("Repository must be a string", "repository");
+	}
+	const pattern = value.trim();
+	if (!pattern || pattern === "*") {
+		return undefined;
+	}
+	if (/[\s,]/.test(pattern)) {
+		throw new ValidationError(
+			"Repository must be a single repository or pattern, e.g. `acme/prod-*`",
+			"repository",
+		);
+	}
+	if (pattern.length > REPOSITORY_PATTERN_MAX_LENGTH) {
+		throw new ValidationError(
+			`Repository must be less than ${REPOSITORY_PATTERN_MAX_LENGTH} characters`,
+			"repository",
+		);
+	}
+	return pattern;
+}
+
 export function validateBranch(value: unknown): string | undefined {
 	if (value === undefined || value === null) {
 		return undefined;
@@ -122,24 +320,280 @@ export function validateQuery(value: unknown): string {
 	return value.trim();
 }
 
+export function validateTaskId(value: unknown): string {
+	if (!isNonEmptyString(value)) {
+		throw new ValidationError("Task ID must be a non-empty string", "id");
+	}
+	return value.trim();
+}
+
+/**
+ * Combines the `repositories` option with the extra `repository2`..`repository5`
+ * options into a single comma-separated value for parseRepositories
+ * @returns Combined value, or undefined when no repository option was given
+ */
+export function collectRepositoryOptions(options: Record<string, unknown>): string | undefined {
+	const values: string[] = [];
+
+	for (const name of ["repositories", ...EXTRA_REPOSITORY_OPTIONS]) {
+		const value = options[name];
+		if (value === undefined || value === null) {
+			continue;
+		}
+		if (!isString(value)) {
+			throw new ValidationError(`${name} must be a string`, name);
+		}
+		if (value.trim()) {
+			values.push(value.trim());
+		}
+	}
+
+	return values.length > 0 ? values.join(", ") : undefined;
+}
+
+/**
+ * Uses the given repositories, or the configured defaults when none were given.
+ * In a channel with bound repositories, defaults outside the allow-list are
+ * ignored, and a channel bound to a single repository needs no input at all.
+ */
+export function resolveRepositories(
+	value: unknown,
+	defaults: TaskDefaults = {},
+	allowedRepositories: string[] = [],
+): string[] {
+	const isEmpty = value === undefined || value === null ||
+		(isString(value) && value.trim() === "");
+
+	if (isEmpty) {
+		const defaultRepositories = (defaults.repositories ?? []).filter((repo) =>
+			allowedRepositories.length === 0 || isRepositoryAllowed(repo, allowedRepositories)
+		);
+		if (defaultRepositories.length > 0) {
+			return defaultRepositories;
+		}
+		if (allowedRepositories.length === 1) {
+			return [...allowedRepositories];
+		}
+	}
+	return parseRepositories(value, allowedRepositories);
+}
+
 export function validateCreateTaskParams(
 	options: Record<string, unknown>,
+	defaults: TaskDefaults = {},
+	allowedRepositories: string[] = [],
+	agentCatalog?: AgentCatalog,
 ): CreateTaskParams {
 	return {
 		prompt: validatePrompt(options.prompt),
-		agent: validateAgent(options.agent),
-		repositories: parseRepositories(options.repositories),
+		agent: resolveAgent(options.agent, defaults, agentCatalog),
+		repositories: resolveRepositories(
+			collectRepositoryOptions(options),
+			defaults,
+			allowedRepositories,
+		),
+		branch: validateBranch(options.branch) ?? defaults.branch,
+		queueRightAway: validateQueueOption(options.queue),
+	};
+}
+
+/**
+ * Checks a `queue` option: whether Tembo starts the task right away or waits
+ * until it's queued
+ * @returns undefined when the option wasn't given, leaving Tembo's default of right away
+ */
+export function validateQueueOption(value: unknown): boolean | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (!isBoolean(value)) {
+		throw new ValidationError("Queue must be true or false", "queue");
+	}
+	return value;
+}
+
+/**
+ * Checks the /task create `thread` option. The thread starts from the public
+ * response message, so it needs a server text channel and a visible response.
+ * @param channelType Type of the channel the command ran in
+ * @returns Whether to open a thread for the task
+ */
+export function validateThreadOption(
+	value: unknown,
+	channelType: ChannelType | undefined,
+	ephemeral: boolean,
+): boolean {
+	if (value === undefined || value === null || value === false) {
+		return false;
+	}
+	if (!isBoolean(value)) {
+		throw new ValidationError("Thread must be true or false", "thread");
+	}
+	if (channelType === undefined || !THREAD_CHANNEL_TYPES.includes(channelType)) {
+		throw new ValidationError(
+			"Task threads can only be opened in server text channels",
+			"thread",
+		);
+	}
+	if (ephemeral) {
+		throw new ValidationError(
+			"A task thread needs a public response. Leave out `ephemeral` or `thread`.",
+			"thread",
+		);
+	}
+	return true;
+}
+
+export function validateModalCreateTaskParams(
+	values: Record<string, unknown>,
+	defaults: TaskDefaults = {},
+	allowedRepositories: string[] = [],
+	agentCatalog?: AgentCatalog,
+): CreateTaskParams {
+	return {
+		prompt: validatePrompt(values.prompt, MODAL_PROMPT_MAX_LENGTH),
+		agent: resolveAgent(values.agent, defaults, agentCatalog),
+		repositories: resolveRepositories(values.repositories, defaults, allowedRepositories),
+		branch: validateBranch(values.branch) ?? defaults.branch,
+	};
+}
+
+export function validateTaskDefaults(
+	options: Record<string, unknown>,
+	availableAgents?: string[],
+): TaskDefaults {
+	const defaults: TaskDefaults = {
+		agent: validateAgent(options.agent, availableAgents),
 		branch: validateBranch(options.branch),
-		queueRightAway: true,
 	};
+
+	if (options.repositories !== undefined && options.repositories !== null) {
+		defaults.repositories = parseRepositories(options.repositories);
+	}
+
+	if (!defaults.repositories && !defaults.agent && !defaults.branch) {
+		throw new ValidationError(
+			"Provide at least one of `repositories`, `agent` or `branch` to set",
+		);
+	}
+
+	return defaults;
+}
+
+export function validateStatusFilter(value: unknown): string | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (!isString(value) || !(TASK_STATUS_FILTERS as readonly string[]).includes(value)) {
+		throw new ValidationError(
+			`Status must be one of: ${TASK_STATUS_FILTERS.join(", ")}`,
+			"status",
+		);
+	}
+	return value;
+}
+
+export function validateSortOrder(value: unknown): TaskSortOrder | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (!isString(value) || !(TASK_SORT_ORDERS as readonly string[]).includes(value)) {
+		throw new ValidationError(
+			`Sort must be one of: ${TASK_SORT_ORDERS.join(", ")}`,
+			"sort",
+		);
+	}
+	return value as TaskSortOrder;
+}
+
+export function validateListView(value: unknown): TaskListView {
+	if (value === undefined || value === null) {
+		return "detailed";
+	}
+	if (!isString(value) || !(TASK_LIST_VIEWS as readonly string[]).includes(value)) {
+		throw new ValidationError(
+			`View must be one of: ${TASK_LIST_VIEWS.join(", ")}`,
+			"view",
+		);
+	}
+	return value as TaskListView;
+}
+
+/**
+ * Validates a YYYY-MM-DD date, interpreted as midnight UTC
+ */
+export function validateCreatedAfter(value: unknown): string | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (!isString(value)) {
+		throw new ValidationError("Created after must be a string", "created_after");
+	}
+
+	const date = value.trim();
+	if (!date) {
+		return undefined;
+	}
+	const time = Date.parse(`${date}T00:00:00Z`);
+	if (
+		!/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+		Number.isNaN(time) ||
+		new Date(time).toISOString().slice(0, 10) !== date
+	) {
+		throw new ValidationError(
+			`Invalid date: ${date}\n\nUse the YYYY-MM-DD format, e.g. \`2025-01-31\``,
+			"created_after",
+		);
+	}
+	return date;
 }
 
+function validateOptionalString(value: unknown, label: string, field: string): string | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (!isString(value)) {
+		throw new ValidationError(`${label} must be a string`, field);
+	}
+	return value.trim() || undefined;
+}
+
+/**
+ * Validates /task list options
+ * @param temboUserId Tembo user ID of the caller, needed for `mine`
+ */
 export function validateListTasksParams(
 	options: Record<string, unknown>,
+	temboUserId?: string,
 ): ListTasksParams {
+	if (options.mine !== undefined && options.mine !== null && !isBoolean(options.mine)) {
+		throw new ValidationError("Mine must be true or false", "mine");
+	}
+	if (options.mine === true && !temboUserId) {
+		throw new ValidationError(
+			"`mine` needs your own API key. Tasks created with this server's shared key " +
+			"all belong to the same Tembo account.\n\n" +
+			"Register your own key with `/setup` to filter by creator.",
+			"mine",
+		);
+	}
+
+	const filters: TaskListFilters = {
+		status: validateStatusFilter(options.status),
+		agent: validateOptionalString(options.agent, "Agent", "agent"),
+		repository: validateOptionalString(options.repository, "Repository", "repository"),
+		createdBy: options.mine === true ? temboUserId : undefined,
+		createdAfter: validateCreatedAfter(options.created_after),
+	};
+	const hasFilters = Object.values(filters).some((filter) => filter !== undefined);
+
+	const sort = validateSortOrder(options.sort);
+
 	return {
 		page: validatePage(options.page),
 		limit: validateLimit(options.limit),
+		...(hasFilters ? { filters } : {}),
+		...(sort ? { sort } : {}),
 	};
 }
 
@@ -152,3 +606,94 @@ export function validateSearchTasksParams(
 		limit: validateLimit(options.limit),
 	};
 }
+
+export function validateScheduleName(value: unknown): string {
+	if (!isNonEmptyString(value)) {
+		throw new ValidationError("Name must be a non-empty string", "name");
+	}
+	const name = value.trim();
+	if (name.length > SCHEDULE_NAME_MAX_LENGTH) {
+		throw new ValidationError(
+			`Name must be less than ${SCHEDULE_NAME_MAX_LENGTH} characters`,
+			"name",
+		);
+	}
+	return name;
+}
+
+/**
+ * Schedule IDs are random 16-character hex strings
+ */
+export function validateScheduleId(value: unknown): string {
+	if (!isString(value) || !/^[0-9a-f]{16}$/.test(value.trim())) {
+		throw new ValidationError("Invalid schedule ID. Pick one from `/schedule list`", "id");
+	}
+	return value.trim();
+}
+
+/**
+ * Checks the /schedule create `cron` and `at` options, exactly one of which is
+ * needed. Both are in UTC. A cron schedule may run at most once an hour, so a
+ * typo can't start a task every few minutes.
+ * @param now Current time, which the first run must come after
+ */
+export function validateScheduleTiming(
+	options: Record<string, unknown>,
+	now: number = Date.now(),
+): ScheduleTiming {
+	const cron = validateOptionalString(options.cron, "Cron", "cron");
+	const at = validateOptionalString(options.at, "At", "at");
+
+	if (cron && at) {
+		throw new ValidationError("Use either `cron` or `at`, not both");
+	}
+
+	if (cron) {
+		const expression = cron.split(/\s+/).join(" ");
+		const schedule = parseCronExpression(expression);
+		if (!schedule) {
+			throw new ValidationError(
+				`Invalid cron expression: \`${expression}\`\n\n` +
+				"Use five fields in UTC: minute hour day month weekday, e.g. `0 3 * * *` for 03:00 every day",
+				"cron",
+			);
+		}
+		if (schedule.minutes.length !== 1) {
+			throw new ValidationError(
+				"Schedules can run at most once an hour. Use a single minute, e.g. `0 * * * *`",
+				"cron",
+			);
+		}
+		const nextRun = getNextCronRun(schedule, now);
+		if (nextRun === null) {
+			throw new ValidationError(
+				`\`${expression}\` never runs. Check its day and month fields.`,
+				"cron",
+			);
+		}
+		return { cronExpression: expression, nextRunTimestamp: nextRun };
+	}
+
+	if (at) {
+		const match = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2})$/.exec(at);
+		const time = match ? Date.parse(`${match[1]}T${match[2]}:00Z`) : NaN;
+		if (
+			!match ||
+			Number.isNaN(time) ||
+			new Date(time).toISOString().slice(0, 16) !== `${match[1]}T${match[2]}`
+		) {
+			throw new ValidationError(
+				`Invalid time: ${at}\n\nUse YYYY-MM-DD HH:MM in UTC, e.g. \`2025-01-31 09:00\``,
+				"at",
+			);
+		}
+		if (time <= now) {
+			throw new ValidationError("The time must be in the future (times are in UTC)", "at");
+		}
+		return { cronExpression: null, nextRunTimestamp: time };
+	}
+
+	throw new ValidationError(
+		"Provide `cron` for a repeating schedule or `at` for a one-off run",
+	);
+}